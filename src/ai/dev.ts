@@ -1,4 +1,7 @@
 import { config } from 'dotenv';
 config();
 
-import '@/ai/flows/ai-faq.ts';
\ No newline at end of file
+import '@/ai/flows/ai-faq.ts';
+import '@/ai/flows/parse-resume.ts';
+import '@/ai/flows/match-candidate.ts';
+import '@/ai/flows/generate-job-description.ts';
@@ -0,0 +1,17 @@
+import {ai} from '@/ai/genkit';
+
+export const KNOWLEDGE_EMBEDDER = 'googleai/text-embedding-004';
+
+/**
+ * Embeds text for knowledge-base retrieval. Returns null when the embedder is unavailable
+ * (for example without an API key or network), so callers can fall back to keyword matching.
+ */
+export async function embedText(text: string): Promise<number[] | null> {
+  try {
+    const [result] = await ai.embed({embedder: KNOWLEDGE_EMBEDDER, content: text});
+    return result?.embedding ?? null;
+  } catch (error) {
+    console.warn('Embedding unavailable, falling back to keyword retrieval:', error);
+    return null;
+  }
+}
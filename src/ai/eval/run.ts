@@ -0,0 +1,133 @@
+/**
+ * Offline evaluation of the Genkit flows: `npm run eval:ai`.
+ *
+ * Registers every flow on a Genkit instance whose only model replays the fixture of the
+ * case being run, one reply per model call, so no API key or network access is needed. The FAQ flow answers from the
+ * starter knowledge with keyword retrieval instead of Firestore, and its questions aren't
+ * logged. Exits with a non-zero code when any case in the golden set fails.
+ */
+
+import {genkit, type GenerateRequest} from 'genkit';
+import {defineAiFaqFlow} from '@/ai/flows/ai-faq';
+import {defineMatchCandidateFlow} from '@/ai/flows/match-candidate';
+import {defineJobDescriptionFlow} from '@/ai/flows/generate-job-description';
+import {defineParseResumeFlow} from '@/ai/flows/parse-resume';
+import {GuardrailError} from '@/ai/guardrails';
+import {STARTER_FAQ_KNOWLEDGE, rankKnowledge} from '@/lib/faq-knowledge';
+import {GOLDEN_SET, type EvalFlow, type GoldenCase, type GoldenReply} from '@/ai/eval/golden-set';
+import {runCases} from '@/scripts/run-cases';
+
+const FIXTURE_MODEL = 'eval/fixture';
+
+const evalAi = genkit({model: FIXTURE_MODEL});
+
+let replies: GoldenReply[] = [];
+let requests: GenerateRequest[] = [];
+
+evalAi.defineModel(
+  {name: FIXTURE_MODEL, supports: {multiturn: true, systemRole: true, media: true, output: ['text', 'json']}},
+  async (request, streamingCallback) => {
+    requests.push(request);
+    // The last reply is repeated if the flow calls the model more often than the fixture expects.
+    const reply = replies.length > 1 ? replies.shift() : replies[0];
+    const text = !reply ? '' : typeof reply === 'string' ? reply : JSON.stringify(reply);
+    // Replay word by word so the FAQ's streaming redaction sees realistic chunk boundaries.
+    text.split(/(?<= )/).forEach(word => streamingCallback?.({content: [{text: word}]}));
+    return {message: {role: 'model', content: [{text}]}, finishReason: 'stop'};
+  }
+);
+
+const knowledge = STARTER_FAQ_KNOWLEDGE.map((entry, index) => ({id: `starter-${index + 1}`, ...entry}));
+
+const faqFlow = defineAiFaqFlow(evalAi, {
+  retrieve: async query => rankKnowledge(knowledge, query, null).map(ranked => ranked.entry),
+  log: async () => ({logId: 'eval-log', feedbackToken: 'eval-token'}),
+});
+const matchFlow = defineMatchCandidateFlow(evalAi);
+const jobDescriptionFlow = defineJobDescriptionFlow(evalAi);
+const parseResumeFlow = defineParseResumeFlow(evalAi);
+
+// Structured flows don't stream; for the FAQ the streamed text must add up to the final answer.
+const runners: Record<EvalFlow, (input: unknown) => Promise<{output: unknown; streamed?: string}>> = {
+  faq: async input => {
+    const {stream, output} = faqFlow.stream(input as Parameters<typeof faqFlow>[0]);
+    let streamed = '';
+    for await (const chunk of stream) streamed += chunk;
+    return {output: await output, streamed};
+  },
+  matchCandidate: async input => ({output: await matchFlow(input as Parameters<typeof matchFlow>[0])}),
+  jobDescription: async input => ({output: await jobDescriptionFlow(input as Parameters<typeof jobDescriptionFlow>[0])}),
+  parseResume: async input => ({output: await parseResumeFlow(input as Parameters<typeof parseResumeFlow>[0])}),
+};
+
+// Wrapped flow errors keep the original as their cause, so look through the chain.
+function guardrailReason(error: unknown): string | null {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof GuardrailError) return current.reason;
+  }
+  return null;
+}
+
+async function runCase(goldenCase: GoldenCase): Promise<string[]> {
+  replies = Array.isArray(goldenCase.fixture) ? [...goldenCase.fixture] : [goldenCase.fixture];
+  requests = [];
+  const {expect} = goldenCase;
+  const failures: string[] = [];
+
+  let result: {output: unknown; streamed?: string} | null = null;
+  try {
+    result = await runners[goldenCase.flow](goldenCase.input);
+  } catch (error) {
+    const reason = guardrailReason(error);
+    if (!expect.error) failures.push(`threw ${reason ?? (error as Error).message}`);
+    else if (reason !== expect.error) failures.push(`expected error ${expect.error}, got ${reason ?? (error as Error).message}`);
+  }
+  if (result && expect.error) failures.push(`expected error ${expect.error}, but the flow succeeded`);
+
+  if (expect.modelCalled !== undefined && (requests.length > 0) !== expect.modelCalled) {
+    failures.push(expect.modelCalled ? 'the model was not called' : 'the model was called');
+  }
+  const sent = requests
+    .flatMap(request => request.messages.flatMap(message => message.content.map(part => part.text ?? '')))
+    .join('\n');
+  expect.promptExcludes?.forEach(text => {
+    if (sent.includes(text)) failures.push(`the model was sent "${text}"`);
+  });
+
+  if (!result) return failures;
+
+  if (goldenCase.flow === 'faq') {
+    const output = result.output as {answer: string; answered: boolean; sources: {title: string}[]};
+    if (result.streamed !== output.answer) failures.push('the streamed text does not match the answer');
+    if (expect.answered !== undefined && output.answered !== expect.answered) {
+      failures.push(`expected answered=${expect.answered}`);
+    }
+    const titles = output.sources.map(source => source.title);
+    if (expect.sources && JSON.stringify(titles) !== JSON.stringify(expect.sources)) {
+      failures.push(`expected sources ${JSON.stringify(expect.sources)}, got ${JSON.stringify(titles)}`);
+    }
+    expect.contains?.forEach(text => {
+      if (!output.answer.includes(text)) failures.push(`answer is missing "${text}"`);
+    });
+    expect.excludes?.forEach(text => {
+      if (output.answer.includes(text)) failures.push(`answer contains "${text}"`);
+    });
+  }
+
+  if (expect.output) {
+    const output = result.output as Record<string, unknown>;
+    Object.entries(expect.output).forEach(([key, value]) => {
+      if (JSON.stringify(output[key]) !== JSON.stringify(value)) {
+        failures.push(`expected ${key}=${JSON.stringify(value)}, got ${JSON.stringify(output[key])}`);
+      }
+    });
+  }
+
+  return failures;
+}
+
+async function main() {
+  await runCases(GOLDEN_SET, runCase);
+}
+
+main();
@@ -0,0 +1,44 @@
+import {createHash, randomBytes} from 'node:crypto';
+import {FieldValue} from 'firebase-admin/firestore';
+import {adminDb} from '@/lib/firebase-admin';
+import {normalizeQuestion} from '@/lib/faq-analytics';
+
+export interface FaqAnswerLog {
+  question: string;
+  answer: string;
+  answered: boolean;
+  sources: {id: string; title: string}[];
+  latencyMs: number;
+}
+
+// What the chat needs to rate an answer. Only the token's hash is stored, so the token
+// is known only to the visitor the answer was sent to.
+export interface FaqLogReceipt {
+  logId: string;
+  feedbackToken: string;
+}
+
+export const hashFeedbackToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Records a question and its answer for the admin FAQ analytics. Returns the log id and token
+ * the chat uses to attach feedback, or null when the write failed; a failed log never fails
+ * the answer.
+ */
+export async function logFaqAnswer(log: FaqAnswerLog): Promise<FaqLogReceipt | null> {
+  try {
+    const feedbackToken = randomBytes(16).toString('hex');
+    const ref = await adminDb.collection('faqQuestions').add({
+      ...log,
+      normalizedQuestion: normalizeQuestion(log.question),
+      feedback: null,
+      feedbackTokenHash: hashFeedbackToken(feedbackToken),
+      promotedEntryId: null,
+      askedAt: FieldValue.serverTimestamp(),
+    });
+    return {logId: ref.id, feedbackToken};
+  } catch (error) {
+    console.error('Error logging FAQ question:', error);
+    return null;
+  }
+}
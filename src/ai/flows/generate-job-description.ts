@@ -0,0 +1,98 @@
+/**
+ * @fileOverview Job description drafting for the admin job form.
+ *
+ * This file defines a Genkit flow that turns the structured fields an admin has already
+ * filled in on `/admin/add-job` (title, company, department, experience, salary and so on)
+ * into a structured job description and a list of suggested skill tags. The admin edits
+ * the draft before the job is saved.
+ *
+ * Like the other flows, it is created by `defineJobDescriptionFlow` so a test can register
+ * it on a Genkit instance backed by a stub model.
+ *
+ * @param {object} job - The job fields filled in so far. Only the title is required.
+ * @param {string} tone - The writing tone of the description.
+ * @param {string} language - "English" or "Hindi".
+ * @returns {JobDescriptionOutput} description - The drafted description, tags - Suggested key skills.
+ */
+
+import {ai} from '@/ai/genkit';
+import {requireOutput, screenFields} from '@/ai/guardrails';
+import {z, type Genkit} from 'genkit';
+import {JOB_DESCRIPTION_LANGUAGES, JOB_DESCRIPTION_TONES} from '@/lib/jobs';
+
+const JobDescriptionInputSchema = z.object({
+  job: z.object({
+    title: z.string(),
+    company: z.string().optional(),
+    department: z.string().optional(),
+    roleCategory: z.string().optional(),
+    experienceMin: z.number().optional().describe('Minimum years of experience.'),
+    experienceMax: z.number().optional().describe('Maximum years of experience.'),
+    salaryMin: z.number().optional().describe('Minimum salary in lakhs per annum.'),
+    salaryMax: z.number().optional().describe('Maximum salary in lakhs per annum.'),
+    workMode: z.string().optional(),
+    education: z.string().optional(),
+  }),
+  tone: z.enum(JOB_DESCRIPTION_TONES),
+  language: z.enum(JOB_DESCRIPTION_LANGUAGES),
+});
+export type JobDescriptionInput = z.infer<typeof JobDescriptionInputSchema>;
+
+const JobDescriptionOutputSchema = z.object({
+  description: z.string().describe('The job description as plain text with section headings and "- " bullet points.'),
+  tags: z.array(z.string()).describe('Five to ten key skills for the role, each one to three words.'),
+});
+export type JobDescriptionOutput = z.infer<typeof JobDescriptionOutputSchema>;
+
+const MAX_TAGS = 10;
+
+export function defineJobDescriptionFlow(genkit: Genkit) {
+  const prompt = genkit.definePrompt({
+    name: 'jobDescriptionPrompt',
+    input: {schema: JobDescriptionInputSchema},
+    output: {schema: JobDescriptionOutputSchema},
+    prompt: `You write job descriptions for Zensolve Infotech, an Indian placement company that posts jobs on behalf of its clients.
+
+  Write a job description for the role below in {{language}}, in a {{tone}} tone.
+  Use plain text, not Markdown. Put each section heading on its own line, followed by "- " bullet points:
+  About the Role (a short paragraph instead of bullets), Key Responsibilities, Requirements, Good to Have, What We Offer.
+
+  Only state facts given below. Do not invent benefits, figures or company details; keep What We Offer general if nothing is given.
+  Salaries are in lakhs per annum (LPA).
+  Also suggest key skills for the role as tags. Write tags in English even when the description is in Hindi.
+
+  Title: {{{job.title}}}
+  {{#if job.company}}Company: {{{job.company}}}{{/if}}
+  {{#if job.department}}Department: {{{job.department}}}{{/if}}
+  {{#if job.roleCategory}}Role Category: {{{job.roleCategory}}}{{/if}}
+  {{#if job.workMode}}Work Mode: {{{job.workMode}}}{{/if}}
+  {{#if job.education}}Education: {{{job.education}}}{{/if}}
+  {{#if job.experienceMax}}Experience: {{#if job.experienceMin}}{{job.experienceMin}}{{else}}0{{/if}} to {{job.experienceMax}} years{{else}}{{#if job.experienceMin}}Experience: {{job.experienceMin}}+ years{{/if}}{{/if}}
+  {{#if job.salaryMax}}Salary: {{#if job.salaryMin}}{{job.salaryMin}}{{else}}0{{/if}} to {{job.salaryMax}} LPA{{else}}{{#if job.salaryMin}}Salary: {{job.salaryMin}}+ LPA{{/if}}{{/if}}
+  `,
+  });
+
+  return genkit.defineFlow(
+    {
+      name: 'jobDescriptionFlow',
+      inputSchema: JobDescriptionInputSchema,
+      outputSchema: JobDescriptionOutputSchema,
+    },
+    async input => {
+      const output = await requireOutput(prompt(screenFields(input)));
+
+      const tags = new Map<string, string>();
+      output.tags.forEach(tag => {
+        const trimmed = tag.trim();
+        if (trimmed && !tags.has(trimmed.toLowerCase())) tags.set(trimmed.toLowerCase(), trimmed);
+      });
+
+      return {
+        description: output.description.trim(),
+        tags: [...tags.values()].slice(0, MAX_TAGS),
+      };
+    }
+  );
+}
+
+export const jobDescriptionFlow = defineJobDescriptionFlow(ai);
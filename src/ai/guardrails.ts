@@ -0,0 +1,180 @@
+/**
+ * @fileOverview Input and output checks shared by the Genkit flows.
+ *
+ * Text from users, resumes and job forms goes into prompts verbatim, so every flow screens it
+ * first: over-long text, attempts to override the prompt's instructions and, for the FAQ chat,
+ * requests that have nothing to do with Zensolve are rejected with a `GuardrailError`.
+ * On the way out, `requireOutput` makes a model that returns nothing usable fail with a clear
+ * error, and `redactPii` keeps the FAQ from echoing phone numbers, emails or ID numbers that
+ * did not come from the knowledge base.
+ */
+
+import {GenkitError} from 'genkit';
+import type {Locale} from '@/lib/i18n';
+
+export const GUARDRAIL_REASONS = ['empty', 'too_long', 'prompt_injection', 'off_topic', 'no_output'] as const;
+
+export type GuardrailReason = typeof GUARDRAIL_REASONS[number];
+
+// Safe to show to the person whose request was rejected. The FAQ chat replies in the visitor's language.
+export const GUARDRAIL_MESSAGES: Record<Locale, Record<GuardrailReason, string>> = {
+  en: {
+    empty: 'Please enter a question.',
+    too_long: 'That message is too long. Please shorten it and try again.',
+    prompt_injection: "I can't follow instructions that try to change how I work. Please ask a question about Zensolve.",
+    off_topic: 'I can only help with questions about Zensolve Infotech, our services and our job openings.',
+    no_output: 'The AI service did not return a usable result. Please try again.',
+  },
+  hi: {
+    empty: 'कृपया अपना प्रश्न लिखें।',
+    too_long: 'यह संदेश बहुत लंबा है। कृपया इसे छोटा करके फिर से प्रयास करें।',
+    prompt_injection: 'मैं ऐसे निर्देशों का पालन नहीं कर सकता जो मेरे काम करने का तरीका बदलने की कोशिश करते हैं। कृपया Zensolve के बारे में प्रश्न पूछें।',
+    off_topic: 'मैं केवल Zensolve Infotech, हमारी सेवाओं और नौकरियों से जुड़े प्रश्नों में मदद कर सकता हूँ।',
+    no_output: 'AI सेवा से उपयोगी उत्तर नहीं मिला। कृपया फिर से प्रयास करें।',
+  },
+};
+
+export class GuardrailError extends Error {
+  constructor(public readonly reason: GuardrailReason, message = GUARDRAIL_MESSAGES.en[reason]) {
+    super(message);
+    this.name = 'GuardrailError';
+  }
+}
+
+// Phrases that try to replace the prompt's instructions or extract them.
+const INJECTION_PATTERNS = [
+  /\b(ignore|disregard|forget|override)\b.{0,40}\b(instructions?|prompts?|rules|guidelines|above|previous)\b/i,
+  /\b(reveal|show|print|repeat|leak)\b.{0,40}\b(system|hidden|initial)\s+(prompt|instructions?|message)\b/i,
+  /\byou\s+are\s+(now|no\s+longer)\b/i,
+  /\b(pretend|act)\s+(to\s+be|as\s+if|as)\b.{0,40}\b(not|no\s+longer|unrestricted|jailbroken|dan)\b/i,
+  /\b(developer|jailbreak|dan)\s+mode\b/i,
+  /<\/?\s*(system|assistant|instructions?)\s*>/i,
+];
+
+// General-purpose assistant tasks the FAQ chat should not take on.
+const OFF_TOPIC_PATTERNS = [
+  /\b(write|compose|generate|create)\b.{0,30}\b(poem|story|essay|song|lyrics|joke|code|program|script|homework)\b/i,
+  /\b(solve|calculate)\b.{0,30}\b(equation|integral|sum|problem|homework)\b/i,
+  /\btranslate\b.{0,40}\b(into|to)\b/i,
+];
+
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g;
+
+export const containsPromptInjection = (text: string) => INJECTION_PATTERNS.some(pattern => pattern.test(text));
+
+export const isOffTopic = (text: string) => OFF_TOPIC_PATTERNS.some(pattern => pattern.test(text));
+
+// Removes control characters and template braces so text can't break out of its place in a prompt.
+export const sanitizePromptText = (text: string) =>
+  text.replace(CONTROL_CHARACTERS, '').replace(/\{\{+|\}\}+/g, ' ').trim();
+
+interface ScreenOptions {
+  maxLength?: number;
+  // Only the FAQ chat restricts what it talks about; the other flows are called with form data.
+  checkTopic?: boolean;
+}
+
+/**
+ * Sanitizes one piece of user-supplied text for a prompt, or throws a `GuardrailError`
+ * when it is empty, too long, tries to override the prompt or, with `checkTopic`, is off-topic.
+ */
+export function screenInput(text: string, {maxLength = 2000, checkTopic = false}: ScreenOptions = {}): string {
+  const clean = sanitizePromptText(text);
+  if (!clean) throw new GuardrailError('empty');
+  if (clean.length > maxLength) throw new GuardrailError('too_long');
+  if (containsPromptInjection(clean)) throw new GuardrailError('prompt_injection');
+  if (checkTopic && isOffTopic(clean)) throw new GuardrailError('off_topic');
+  return clean;
+}
+
+/**
+ * Screens every string in a flow's input, however deeply nested, and returns a sanitized copy.
+ * Strings are only checked for injection and length; empty optional fields are allowed.
+ */
+export function screenFields<T>(input: T, maxLength = 20000): T {
+  if (typeof input === 'string') {
+    return (input.trim() ? screenInput(input, {maxLength}) : input) as T;
+  }
+  if (Array.isArray(input)) {
+    return input.map(item => screenFields(item, maxLength)) as T;
+  }
+  if (input && typeof input === 'object') {
+    return Object.fromEntries(Object.entries(input).map(([key, value]) => [key, screenFields(value, maxLength)])) as T;
+  }
+  return input;
+}
+
+/**
+ * Waits for a prompt's structured output. A model that returns nothing, or something that
+ * doesn't fit the output schema, fails with a `no_output` error instead of a crash later on.
+ */
+export async function requireOutput<T>(response: PromiseLike<{output: T | null}>): Promise<T> {
+  let output: T | null;
+  try {
+    ({output} = await response);
+  } catch (error) {
+    // Inputs are validated before the prompt runs, so a schema failure here is the model's output.
+    if (error instanceof GenkitError && error.status === 'INVALID_ARGUMENT') {
+      throw new GuardrailError('no_output');
+    }
+    throw error;
+  }
+  if (output === null || output === undefined) {
+    throw new GuardrailError('no_output');
+  }
+  return output;
+}
+
+// Emails, Indian mobile numbers, Aadhaar numbers and PAN numbers.
+const PII_PATTERNS: {pattern: RegExp; label: string}[] = [
+  {pattern: /[\w.+-]+@[\w-]+(\.[\w-]+)+/g, label: '[email]'},
+  {pattern: /(?<![\d-])\d{4}[ -]?\d{4}[ -]?\d{4}(?![\d-])/g, label: '[id number]'},
+  {pattern: /(?<![\w+])(\+?91[ -]?)?[6-9]\d{4}[ -]?\d{5}(?!\d)/g, label: '[phone]'},
+  {pattern: /\b[A-Z]{5}\d{4}[A-Z]\b/g, label: '[id number]'},
+];
+
+// Every email, phone or ID number in the text, for building an allow-list from trusted content.
+export const findPii = (text: string) => PII_PATTERNS.flatMap(({pattern}) => text.match(pattern) ?? []);
+
+/**
+ * Masks emails, phone numbers and ID numbers. Values in `allowed`, such as the company's own
+ * contact details from the knowledge base, are left as they are.
+ */
+export function redactPii(text: string, allowed: ReadonlySet<string> = new Set()): string {
+  return PII_PATTERNS.reduce(
+    (result, {pattern, label}) => result.replace(pattern, match => (allowed.has(match) ? match : label)),
+    text
+  );
+}
+
+/**
+ * Redacts streamed text before it is sent on. Text is held back until a break that can't fall
+ * inside an email or a spaced-out number, so each forwarded piece is redacted on its own and
+ * the pieces add up to `redactPii` of the whole answer.
+ */
+export function redactingStream(send: (text: string) => void, allowed: ReadonlySet<string> = new Set()) {
+  let pending = '';
+  const safeBreak = () => {
+    for (let i = pending.length - 2; i > 0; i--) {
+      if (/\s/.test(pending[i]) && !/[\d+]/.test(pending[i - 1]) && !/[\d+]/.test(pending[i + 1])) {
+        return i + 1;
+      }
+    }
+    return 0;
+  };
+
+  return {
+    push(chunk: string) {
+      pending += chunk;
+      const cut = safeBreak();
+      if (cut > 0) {
+        send(redactPii(pending.slice(0, cut), allowed));
+        pending = pending.slice(cut);
+      }
+    },
+    flush() {
+      if (pending) send(redactPii(pending, allowed));
+      pending = '';
+    },
+  };
+}
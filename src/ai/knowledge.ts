@@ -0,0 +1,25 @@
+import {unstable_cache} from 'next/cache';
+import {embedText} from '@/ai/embeddings';
+import {adminDb} from '@/lib/firebase-admin';
+import {rankKnowledge, type FaqKnowledgeEntry} from '@/lib/faq-knowledge';
+
+const loadKnowledge = unstable_cache(
+  async (): Promise<FaqKnowledgeEntry[]> => {
+    const snapshot = await adminDb.collection('faqKnowledge').get();
+    return snapshot.docs.map(doc => {
+      const {type, title, content, tags, embedding} = doc.data();
+      return {id: doc.id, type, title, content, tags: tags ?? [], embedding: embedding ?? undefined};
+    });
+  },
+  ['faq-knowledge'],
+  {tags: ['faqKnowledge']}
+);
+
+// Returns the knowledge-base entries most relevant to the query, best first.
+export async function retrieveKnowledge(query: string): Promise<FaqKnowledgeEntry[]> {
+  const entries = await loadKnowledge();
+  // Only embed the query when the entries are indexed; otherwise ranking uses keywords anyway.
+  const indexed = entries.length > 0 && entries.every(entry => entry.embedding?.length);
+  const queryEmbedding = indexed ? await embedText(query) : null;
+  return rankKnowledge(entries, query, queryEmbedding).map(ranked => ranked.entry);
+}
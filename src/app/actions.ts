@@ -2,33 +2,151 @@
 "use server";
 
 import { z } from "zod";
-import { db, storage } from "@/lib/firebase";
-import { auth } from "@/lib/firebase";
-import { createUserWithEmailAndPassword } from "firebase/auth";
-import { collection, addDoc, serverTimestamp, getDocs, query, orderBy, limit, setDoc, doc, where, updateDoc } from "firebase/firestore";
-import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
-import { revalidatePath } from "next/cache";
+import { FieldPath, FieldValue, Timestamp, type DocumentData, type Query, type QueryDocumentSnapshot, type Transaction } from "firebase-admin/firestore";
+import { getDownloadURL } from "firebase-admin/storage";
+import { revalidatePath, revalidateTag, unstable_cache } from "next/cache";
+import { after } from "next/server";
+import { cookies } from "next/headers";
+import {
+  FACET_CATEGORIES,
+  buildSearchTokens,
+  computeFilterCounts,
+  indexedSearchTerm,
+  matchesFilters,
+  parseJobFilters,
+  searchJobList,
+  type JobFilters,
+  type JobListing,
+} from "@/lib/job-filters";
+import { JOB_DESCRIPTION_LANGUAGES, JOB_DESCRIPTION_TONES, JOB_REPOST_DAYS, JOB_STATUSES, expiryDateToDate, isJobOpen } from "@/lib/jobs";
+import {
+  APPLICATION_SORTS,
+  APPLICATION_STAGES,
+  APPLICATION_STAGE_LABELS,
+  DEFAULT_RATING_CRITERIA,
+  applicationStage,
+  matchesApplicationFilters,
+  normalizeTag,
+  type ApplicationSummary,
+} from "@/lib/applications";
+import ExcelJS from "exceljs";
+import mammoth from "mammoth";
+import { parseResumeFlow, type ParseResumeInput } from "@/ai/flows/parse-resume";
+import { matchCandidateFlow } from "@/ai/flows/match-candidate";
+import { jobDescriptionFlow } from "@/ai/flows/generate-job-description";
+import { embedText } from "@/ai/embeddings";
+import { GuardrailError } from "@/ai/guardrails";
+import { FAQ_ENTRY_TYPES, STARTER_FAQ_KNOWLEDGE, knowledgeText } from "@/lib/faq-knowledge";
+import { FAQ_FEEDBACK, type FaqFeedback } from "@/lib/faq-analytics";
+import { hashFeedbackToken } from "@/ai/faq-log";
+import { getI18n } from "@/lib/i18n-server";
+import { authorize, authorizeAs, getSessionUser } from "@/lib/auth-server";
+import { recordActivity } from "@/lib/audit-server";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  AUDIT_TARGET_TYPES,
+  AUDIT_TARGET_TYPE_LABELS,
+  matchesActivityFilters,
+  type ActivityLogEntry,
+  type ActivityLogFilters,
+} from "@/lib/audit";
+import { adminAuth, adminDb, adminStorage } from "@/lib/firebase-admin";
+import { addUserRoles, getStoredRoles, listUsersWithRoles, setUserRoles, storedRoles } from "@/lib/user-roles";
+import { EMPLOYEE_ROLES, PEOPLE_ROLES, RECRUITING_ROLES, ROLES, STAFF_ROLES, hasAnyRole, rolesFromClaims, type Role, type UserRoleSummary } from "@/lib/roles";
+import { SESSION_COOKIE, SESSION_MAX_AGE, displayName } from "@/lib/session";
+import { SITE_URL } from "@/lib/site";
+import { dayEnd, dayStart } from "@/lib/utils";
+import {
+  attendanceDay,
+  attendanceRecordId,
+  attendanceState,
+  dayStatus,
+  formatWorkingTime,
+  isLateCheckIn,
+  workingMinutes,
+  type AttendanceCalendarDay,
+  type AttendanceDay,
+} from "@/lib/attendance";
+import {
+  REGISTER_TOTALS,
+  REGISTER_TOTAL_LABELS,
+  matchesRegisterFilters,
+  registerCode,
+  registerTotals,
+  type AttendanceRegisterFilters,
+  type AttendanceRegisterRow,
+  type RegisterCell,
+  type RegisterCellDetail,
+  type RegisterColumn,
+  type RegisterEmployee,
+} from "@/lib/attendance-register";
+import { attendanceRegisterPdf } from "@/lib/attendance-register-pdf";
+import {
+  DEFAULT_WORK_WEEK,
+  HOLIDAY_TYPES,
+  WORK_DAY_TYPES,
+  dayKind,
+  daysInRange,
+  holidayOn,
+  monthDays,
+  type WorkCalendar,
+} from "@/lib/work-calendar";
+import {
+  DEFAULT_RATE_PER_KM,
+  MAX_ODOMETER_PHOTO_BYTES,
+  MAX_TRAVEL_KM_PER_DAY,
+  ODOMETER_PHOTO_TYPES,
+  ODOMETER_READINGS,
+  TRAVEL_CLAIM_STATUS_LABELS,
+  claimAmount,
+  travelDistance,
+  travelStatementTotals,
+  type OdometerReading,
+  type TravelClaim,
+  type TravelClaimStatus,
+} from "@/lib/travel";
+import {
+  LEAVE_TYPES,
+  LEAVE_TYPE_LABELS,
+  MAX_LEAVE_REQUEST_DAYS,
+  leaveBalance,
+  leaveBalanceId,
+  leaveBalances,
+  leaveDays,
+  rangesOverlap,
+  type LeaveType,
+} from "@/lib/leave";
 
+// Returned when the caller is signed out or their roles don't cover the action.
+const FORBIDDEN = { success: false, message: "You don't have permission to do that." } as const;
 
-export async function getLogs() {
+// Exchanges the ID token from a client sign-in for an httpOnly session cookie. Called again
+// whenever the token is refreshed, so role changes reach the cookie within the hour.
+export async function startSession(idToken: string) {
   try {
-    const logsQuery = query(collection(db, "activityLogs"), orderBy("timestamp", "desc"), limit(10));
-    const logsSnapshot = await getDocs(logsQuery);
-    const logs = logsSnapshot.docs.map(doc => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        ...data,
-        timestamp: data.timestamp.toDate(),
-      }
+    const decoded = await adminAuth.verifyIdToken(idToken, true);
+    const sessionCookie = await adminAuth.createSessionCookie(idToken, { expiresIn: SESSION_MAX_AGE * 1000 });
+    (await cookies()).set(SESSION_COOKIE, sessionCookie, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: SESSION_MAX_AGE,
     });
-    return { success: true, logs };
+    return { success: true, roles: rolesFromClaims(decoded) };
   } catch (error) {
-    console.error("Error fetching logs:", error);
-    return { success: false, logs: [] };
+    console.error("Error starting session:", error);
+    return { success: false, message: "Could not start your session. Please sign in again.", roles: [] as Role[] };
   }
 }
 
+export async function endSession() {
+  (await cookies()).delete(SESSION_COOKIE);
+  return { success: true };
+}
+
+
 
 const contactFormSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters."),
@@ -81,10 +199,39 @@ const jobSchema = z.object({
   industry: z.string().min(1, "Industry is required."),
   description: z.string().min(10, "Description is required."),
   tags: z.string().optional(),
+  status: z.enum(JOB_STATUSES).default("live"),
+  expiresAt: z.string().optional(),
 });
 
+// Shapes validated form data into the stored job document.
+// Job fields worth showing in the audit trail; the search index is derived from the rest.
+const jobAuditFields = ({ searchTokens, postedAt, updatedAt, ...fields }: DocumentData) => fields;
+
+function toJobDocument({ tags, expiresAt, ...jobData }: z.infer<typeof jobSchema>) {
+  const tagsArray = tags ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : [];
+  return {
+    ...jobData,
+    tags: tagsArray,
+    expiresAt: expiresAt ? Timestamp.fromDate(expiryDateToDate(expiresAt)) : null,
+    searchTokens: buildSearchTokens({ ...jobData, tags: tagsArray }),
+  };
+}
+
+function revalidateJobs(jobId?: string) {
+  revalidateTag("jobs");
+  revalidatePath("/jobs");
+  if (jobId) revalidatePath(`/jobs/${jobId}`);
+  revalidatePath("/admin");
+  revalidatePath("/admin/jobs");
+}
+
+
+export async function addJob(data: z.input<typeof jobSchema>) {
+  const caller = await authorize(RECRUITING_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
 
-export async function addJob(data: z.infer<typeof jobSchema>) {
   const validatedFields = jobSchema.safeParse(data);
 
   if (!validatedFields.success) {
@@ -97,17 +244,19 @@ export async function addJob(data: z.infer<typeof jobSchema>) {
   }
   
   try {
-    const jobData = validatedFields.data;
-    const tagsArray = jobData.tags ? jobData.tags.split(',').map(tag => tag.trim()) : [];
-    
-    await addDoc(collection(db, "jobs"), {
-      ...jobData,
-      tags: tagsArray,
-      postedAt: serverTimestamp(),
+    const jobDocument = toJobDocument(validatedFields.data);
+    const jobRef = await adminDb.collection("jobs").add({
+      ...jobDocument,
+      postedAt: FieldValue.serverTimestamp(),
+    });
+    await recordActivity({
+      actor: caller,
+      action: "job.created",
+      target: { type: "job", id: jobRef.id, label: jobDocument.title },
+      after: jobAuditFields(jobDocument),
     });
 
-    revalidatePath("/jobs");
-    revalidatePath("/admin");
+    revalidateJobs();
 
     return {
       success: true,
@@ -124,6 +273,368 @@ export async function addJob(data: z.infer<typeof jobSchema>) {
 }
 
 
+export async function updateJob(jobId: string, data: z.input<typeof jobSchema>) {
+  const caller = await authorize(RECRUITING_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = jobSchema.safeParse(data);
+
+  if (!validatedFields.success) {
+    return {
+      success: false,
+      message: "Invalid job data. Please check all fields.",
+      errors: validatedFields.error.flatten().fieldErrors,
+    };
+  }
+
+  try {
+    const jobRef = adminDb.collection("jobs").doc(jobId);
+    const jobSnap = await jobRef.get();
+    const jobDocument = toJobDocument(validatedFields.data);
+    await jobRef.update({
+      ...jobDocument,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    await recordActivity({
+      actor: caller,
+      action: "job.updated",
+      target: { type: "job", id: jobId, label: jobDocument.title },
+      before: jobSnap.exists ? jobAuditFields(jobSnap.data()!) : null,
+      after: jobAuditFields(jobDocument),
+    });
+
+    revalidateJobs(jobId);
+    // Match scores depend on the job's requirements, so they are refreshed once the response is sent.
+    after(() => rescoreJobApplications(jobId));
+
+    return { success: true, message: "Job updated successfully!" };
+  } catch (error) {
+    console.error("Error updating job:", error);
+    return { success: false, message: "Failed to update job. Please try again." };
+  }
+}
+
+const jobDescriptionDraftSchema = z.object({
+  job: jobSchema.pick({
+    title: true,
+    company: true,
+    department: true,
+    roleCategory: true,
+    experienceMin: true,
+    experienceMax: true,
+    salaryMin: true,
+    salaryMax: true,
+    workMode: true,
+    education: true,
+  }).partial().required({ title: true }),
+  tone: z.enum(JOB_DESCRIPTION_TONES),
+  language: z.enum(JOB_DESCRIPTION_LANGUAGES),
+});
+
+// Drafts a description and suggested tags from the fields filled in so far. Nothing is saved;
+// the admin reviews the draft in the form and submits it through addJob or updateJob.
+export async function draftJobDescription(data: z.input<typeof jobDescriptionDraftSchema>) {
+  if (!(await authorize(RECRUITING_ROLES))) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = jobDescriptionDraftSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Enter a job title of at least 3 characters first." };
+  }
+
+  try {
+    const { job, tone, language } = validatedFields.data;
+    // Blank form fields arrive as empty strings; leave them out so the model doesn't mention them.
+    const filledJob = Object.fromEntries(Object.entries(job).filter(([, value]) => value !== "" && value !== undefined));
+    const draft = await jobDescriptionFlow({ job: { ...filledJob, title: job.title }, tone, language });
+    return { success: true, message: "Draft ready. Review and edit it before saving.", ...draft };
+  } catch (error) {
+    console.error("Error drafting job description:", error);
+    if (error instanceof GuardrailError) {
+      return { success: false, message: "The job details contain text the AI can't use. Please check the title and description." };
+    }
+    return { success: false, message: "Failed to draft a description. Please try again." };
+  }
+}
+
+const jobStatusSchema = z.object({
+  jobId: z.string().min(1),
+  status: z.enum(JOB_STATUSES).exclude(["expired"]),
+});
+
+export async function setJobStatus(data: z.infer<typeof jobStatusSchema>) {
+  const caller = await authorize(RECRUITING_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = jobStatusSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid data." };
+  }
+
+  const { jobId, status } = validatedFields.data;
+  try {
+    const jobRef = adminDb.collection("jobs").doc(jobId);
+    const jobSnap = await jobRef.get();
+    if (!jobSnap.exists) {
+      return { success: false, message: "Job not found." };
+    }
+
+    const expiresAt: Timestamp | null = jobSnap.data()!.expiresAt ?? null;
+    if (status === "live" && expiresAt && expiresAt.toMillis() <= Date.now()) {
+      return { success: false, message: "This job has expired. Repost it or set a new expiry date." };
+    }
+
+    await jobRef.update({ status, updatedAt: FieldValue.serverTimestamp() });
+    await recordActivity({
+      actor: caller,
+      action: "job.statusChanged",
+      target: { type: "job", id: jobId, label: jobSnap.data()!.title },
+      before: { status: jobSnap.data()!.status ?? "live" },
+      after: { status },
+    });
+    revalidateJobs(jobId);
+
+    return { success: true, message: "Job status updated." };
+  } catch (error) {
+    console.error("Error updating job status:", error);
+    return { success: false, message: "Failed to update job status." };
+  }
+}
+
+// Relists a job as new: it goes live again with a fresh posting date so it surfaces at the top.
+export async function repostJob(jobId: string) {
+  const caller = await authorize(RECRUITING_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  try {
+    const jobRef = adminDb.collection("jobs").doc(jobId);
+    const jobSnap = await jobRef.get();
+    if (!jobSnap.exists) {
+      return { success: false, message: "Job not found." };
+    }
+
+    const currentExpiry: Timestamp | null = jobSnap.data()!.expiresAt ?? null;
+    const expiresAt = currentExpiry && currentExpiry.toMillis() > Date.now()
+      ? currentExpiry
+      : Timestamp.fromMillis(Date.now() + JOB_REPOST_DAYS * 24 * 60 * 60 * 1000);
+
+    await jobRef.update({
+      status: "live",
+      expiresAt,
+      postedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    const { title, status = "live", postedAt } = jobSnap.data()!;
+    await recordActivity({
+      actor: caller,
+      action: "job.reposted",
+      target: { type: "job", id: jobId, label: title },
+      before: { status, expiresAt: currentExpiry, postedAt },
+      after: { status: "live", expiresAt, postedAt: new Date() },
+    });
+    revalidateJobs(jobId);
+
+    return { success: true, message: "Job reposted successfully." };
+  } catch (error) {
+    console.error("Error reposting job:", error);
+    return { success: false, message: "Failed to repost job." };
+  }
+}
+
+// Marks live jobs past their expiry date as expired. Public pages already hide them
+// (see effectiveJobStatus); this keeps the stored status in step for the admin panel.
+export async function expireJobs() {
+  const caller = await authorize(RECRUITING_ROLES);
+  if (!caller) {
+    return { success: false, expired: 0 };
+  }
+
+  try {
+    const expiredQuery = adminDb.collection("jobs").where("expiresAt", "<=", Timestamp.now());
+    const snapshot = await expiredQuery.get();
+    const liveJobs = snapshot.docs.filter(jobDoc => (jobDoc.data().status ?? "live") === "live");
+
+    if (liveJobs.length > 0) {
+      const batch = adminDb.batch();
+      liveJobs.forEach(jobDoc => batch.update(jobDoc.ref, { status: "expired", updatedAt: FieldValue.serverTimestamp() }));
+      await batch.commit();
+      revalidateJobs();
+      for (const jobDoc of liveJobs) {
+        await recordActivity({
+          actor: caller,
+          action: "job.expired",
+          target: { type: "job", id: jobDoc.id, label: jobDoc.data().title },
+          before: { status: "live" },
+          after: { status: "expired" },
+        });
+      }
+    }
+
+    return { success: true, expired: liveJobs.length };
+  } catch (error) {
+    console.error("Error expiring jobs:", error);
+    return { success: false, expired: 0 };
+  }
+}
+
+const JOB_PAGE_SIZE = 20;
+
+// Firestore Timestamps cannot cross the server action boundary, so jobs are sent with ISO dates.
+function toJobListing(id: string, { searchTokens, postedAt, expiresAt, updatedAt, ...data }: DocumentData): JobListing {
+  return {
+    ...data,
+    id,
+    tags: data.tags ?? [],
+    postedAt: postedAt ? postedAt.toDate().toISOString() : null,
+    expiresAt: expiresAt ? expiresAt.toDate().toISOString() : null,
+  } as JobListing;
+}
+
+// Loads the candidate set for a text search, or every job for the admin pages. With a
+// query term, the `searchTokens` index narrows the read to matching jobs; the remaining
+// filters are applied in memory.
+const loadJobListings = unstable_cache(
+  async (term: string | null): Promise<JobListing[]> => {
+    const jobsCollection = adminDb.collection("jobs");
+    const jobsQuery = term
+      ? jobsCollection.where("searchTokens", "array-contains", term)
+      : jobsCollection.orderBy("postedAt", "desc");
+    const snapshot = await jobsQuery.get();
+
+    return snapshot.docs.map(doc => toJobListing(doc.id, doc.data()));
+  },
+  ["job-listings"],
+  { tags: ["jobs"], revalidate: 300 }
+);
+
+const loadJob = unstable_cache(
+  async (jobId: string): Promise<JobListing | null> => {
+    const jobSnap = await adminDb.collection("jobs").doc(jobId).get();
+    return jobSnap.exists ? toJobListing(jobSnap.id, jobSnap.data()!) : null;
+  },
+  ["job"],
+  { tags: ["jobs"], revalidate: 300 }
+);
+
+export async function getJob(jobId: string) {
+  try {
+    return await loadJob(jobId);
+  } catch (error) {
+    console.error("Error fetching job:", error);
+    return null;
+  }
+}
+
+// The fields the facet counts and filters other than the text query read.
+const JOB_FACET_FIELDS = [...FACET_CATEGORIES, "experienceMin", "experienceMax", "salaryMin", "salaryMax", "status", "expiresAt"];
+
+// Live jobs with only their facet fields, for the counts and total when browsing without a
+// query. The jobs shown come from loadJobPage.
+const loadJobFacets = unstable_cache(
+  async (): Promise<JobListing[]> => {
+    const snapshot = await adminDb.collection("jobs").where("status", "==", "live").select(...JOB_FACET_FIELDS).get();
+    return snapshot.docs.map(doc => toJobListing(doc.id, doc.data()));
+  },
+  ["job-facets"],
+  { tags: ["jobs"], revalidate: 300 }
+);
+
+// Firestore allows at most 30 values in one `in` filter.
+const MAX_QUERY_DISJUNCTIONS = 30;
+const JOB_SCAN_BATCH = 50;
+
+type JobPageCursor = [seconds: number, nanoseconds: number, id: string];
+
+const decodeJobPageCursor = (cursor: string): JobPageCursor | null => {
+  try {
+    const key = JSON.parse(cursor);
+    return Array.isArray(key) && key.length === 3 ? key as JobPageCursor : null;
+  } catch {
+    return null;
+  }
+};
+
+// One page of newest jobs for browsing without a query. Firestore filters on status and
+// the first selected facet, which the (status, facet, postedAt) indexes in
+// firestore.indexes.json cover; the other facets, experience, salary and expiry are checked
+// on each batch read until the page is full. Jobs without a status are not found until
+// `npm run jobs:reindex` has run (see the README). The cursor is the postedAt and id of
+// the last job shown.
+async function loadJobPage(filters: JobFilters, cursor: string | null) {
+  let jobsQuery: Query = adminDb.collection("jobs").where("status", "==", "live");
+  const indexedCategory = FACET_CATEGORIES.find(category =>
+    filters[category].length > 0 && filters[category].length <= MAX_QUERY_DISJUNCTIONS);
+  if (indexedCategory) {
+    jobsQuery = jobsQuery.where(indexedCategory, "in", filters[indexedCategory]);
+  }
+  jobsQuery = jobsQuery.orderBy("postedAt", "desc").orderBy(FieldPath.documentId(), "desc").limit(JOB_SCAN_BATCH);
+
+  const page: { job: JobListing; key: JobPageCursor }[] = [];
+  let after = cursor ? decodeJobPageCursor(cursor) : null;
+  while (page.length <= JOB_PAGE_SIZE) {
+    const batchQuery = after ? jobsQuery.startAfter(new Timestamp(after[0], after[1]), after[2]) : jobsQuery;
+    const snapshot = await batchQuery.get();
+    for (const doc of snapshot.docs) {
+      const job = toJobListing(doc.id, doc.data());
+      const { seconds, nanoseconds } = doc.data().postedAt as Timestamp;
+      after = [seconds, nanoseconds, doc.id];
+      if (isJobOpen(job) && matchesFilters(job, filters)) page.push({ job, key: after });
+    }
+    if (snapshot.size < JOB_SCAN_BATCH) break;
+  }
+
+  const hasMore = page.length > JOB_PAGE_SIZE;
+  return {
+    jobs: page.slice(0, JOB_PAGE_SIZE).map(({ job }) => job),
+    nextCursor: hasMore ? JSON.stringify(page[JOB_PAGE_SIZE - 1].key) : null,
+  };
+}
+
+export async function searchJobs(queryString: string, cursor: string | null = null) {
+  try {
+    const filters = parseJobFilters(new URLSearchParams(queryString));
+
+    if (!filters.q) {
+      const [facets, page] = await Promise.all([loadJobFacets(), loadJobPage(filters, cursor)]);
+      const candidates = facets.filter(isJobOpen);
+      return {
+        success: true,
+        ...page,
+        total: candidates.filter(job => matchesFilters(job, filters)).length,
+        counts: computeFilterCounts(candidates, filters),
+      };
+    }
+
+    // Status is checked after the cache so jobs drop out as soon as they expire.
+    const candidates = (await loadJobListings(indexedSearchTerm(filters.q))).filter(isJobOpen);
+    const result = searchJobList(candidates, filters, cursor, JOB_PAGE_SIZE);
+
+    return {
+      success: true,
+      ...result,
+      counts: computeFilterCounts(candidates, filters),
+    };
+  } catch (error) {
+    console.error("Error searching jobs:", error);
+    return {
+      success: false,
+      message: "Failed to load jobs. Please try again.",
+      jobs: [] as JobListing[],
+      total: 0,
+      nextCursor: null,
+      counts: null,
+    };
+  }
+}
+
+
 const applicationSchema = z.object({
   jobId: z.string(),
   fullName: z.string().min(2, "Full name is required."),
@@ -162,7 +673,19 @@ const applicationSchema = z.object({
 });
 
 
+const MAX_RESUME_BYTES = 5 * 1024 * 1024;
+const PDF_MIME_TYPE = "application/pdf";
+const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// The resume types the apply form accepts, with the extension each is stored under. Only
+// types parseResume can read are allowed, since match scoring reads the stored resume too.
+const RESUME_EXTENSIONS: Record<string, string> = {
+  [PDF_MIME_TYPE]: "pdf",
+  [DOCX_MIME_TYPE]: "docx",
+};
+
 export async function applyForJob(prevState: any, formData: FormData) {
+    const { t } = await getI18n();
     
     const rawData = Object.fromEntries(formData.entries());
     
@@ -181,182 +704,2013 @@ export async function applyForJob(prevState: any, formData: FormData) {
         console.error("Validation Errors:", validatedFields.error.flatten().fieldErrors);
         return {
         success: false,
-        message: "Invalid application data. Please check all fields.",
+        message: t("actions.invalidApplication"),
         errors: validatedFields.error.flatten().fieldErrors,
         };
     }
 
+    const resumeFile = formData.get('resume');
+    const resume = resumeFile instanceof File && resumeFile.size > 0 ? resumeFile : null;
+    if (resume && resume.size > MAX_RESUME_BYTES) {
+        return { success: false, message: t("actions.resumeTooLarge") };
+    }
+    if (resume && !RESUME_EXTENSIONS[resume.type]) {
+        return { success: false, message: t("actions.resumeTypeInvalid") };
+    }
+
     try {
+        const job = await getJob(validatedFields.data.jobId);
+        if (!job || !isJobOpen(job)) {
+          return {
+            success: false,
+            message: t("actions.jobClosed"),
+          };
+        }
+
         let applicationData: Partial<z.infer<typeof applicationSchema>> = { ...validatedFields.data };
-        const resumeFile = formData.get('resume') as File | null;
-        
-        if (resumeFile && resumeFile.size > 0) {
-            const storageRef = ref(storage, `resumes/${validatedFields.data.jobId}/${Date.now()}-${resumeFile.name}`);
-            const snapshot = await uploadBytes(storageRef, resumeFile);
-            const downloadURL = await getDownloadURL(snapshot.ref);
-            applicationData.resumeUrl = downloadURL;
+        const applicationRef = adminDb.collection("applications").doc();
+
+        // The file is named after the application rather than the applicant's file name.
+        if (resume) {
+            const resumeRef = adminStorage.bucket().file(`resumes/${job.id}/${applicationRef.id}.${RESUME_EXTENSIONS[resume.type]}`);
+            await resumeRef.save(Buffer.from(await resume.arrayBuffer()), { contentType: resume.type });
+            applicationData.resumeUrl = await getDownloadURL(resumeRef);
         }
 
-        await addDoc(collection(db, "applications"), {
+        await applicationRef.set({
           ...applicationData,
-          submittedAt: serverTimestamp(),
+          stage: "new",
+          submittedAt: FieldValue.serverTimestamp(),
         });
+        const { fullName, email, mobile, jobId } = validatedFields.data;
+        await recordActivity({
+          actor: await getSessionUser(),
+          action: "application.submitted",
+          target: { type: "application", id: applicationRef.id, label: `${fullName} for ${job.title}` },
+          after: { jobId, fullName, email, mobile, stage: "new" },
+        });
+        after(() => computeMatchScore(applicationRef.id).catch(error => {
+          console.error("Error scoring application:", error);
+        }));
 
         return {
           success: true,
-          message: "Application submitted successfully! We will get back to you soon.",
+          message: t("actions.applicationSubmitted"),
         };
 
     } catch (error) {
         console.error("Error submitting application:", error);
         return {
           success: false,
-          message: "Failed to submit application. Please try again.",
+          message: t("actions.applicationFailed"),
         };
     }
 }
 
-const attendanceSchema = z.object({
-  status: z.enum(["working", "leave"]),
-  tasks: z.string().optional(),
-  employeeId: z.string(),
-  employeeName: z.string(),
-});
+// Scores an application against its job and stores the score and rationale on the application.
+async function computeMatchScore(applicationId: string, job?: JobListing) {
+  const applicationRef = adminDb.collection("applications").doc(applicationId);
+  const applicationSnap = await applicationRef.get();
+  if (!applicationSnap.exists) return null;
 
-export async function markAttendance(data: z.infer<typeof attendanceSchema>) {
-  const validatedFields = attendanceSchema.safeParse(data);
-  if (!validatedFields.success) {
-    return { success: false, message: "Invalid data." };
+  const application = applicationSnap.data()!;
+  const matchJob = job ?? await loadJob(application.jobId);
+  if (!matchJob) return null;
+
+  const result = await matchCandidateFlow({
+    job: {
+      title: matchJob.title,
+      description: matchJob.description,
+      tags: matchJob.tags,
+      location: matchJob.location,
+      workMode: matchJob.workMode,
+      education: matchJob.education,
+      roleCategory: matchJob.roleCategory,
+      experienceMin: matchJob.experienceMin,
+      experienceMax: matchJob.experienceMax,
+      salaryMin: matchJob.salaryMin,
+      salaryMax: matchJob.salaryMax,
+    },
+    candidate: {
+      technicalSkills: application.technicalSkills,
+      softSkills: application.softSkills,
+      certifications: application.certifications,
+      hasExperience: application.hasExperience,
+      yearsOfExperience: application.yearsOfExperience,
+      designation: application.designation,
+      highestQualification: application.highestQualification,
+      specialization: application.specialization,
+      preferredRole: application.preferredRole,
+      preferredLocation: application.preferredLocation,
+      readyToRelocate: application.readyToRelocate,
+      expectedSalary: application.expectedSalary,
+    },
+  });
+
+  await applicationRef.update({
+    matchScore: result.score,
+    matchRationale: result.rationale,
+    matchScoredAt: FieldValue.serverTimestamp(),
+  });
+  return result;
+}
+
+// Re-scores every application for a job, one at a time to stay within the model's rate limits.
+async function rescoreJobApplications(jobId: string) {
+  const job = await loadJob(jobId);
+  if (!job) return;
+
+  const snapshot = await adminDb.collection("applications").where("jobId", "==", jobId).get();
+  for (const applicationDoc of snapshot.docs) {
+    try {
+      await computeMatchScore(applicationDoc.id, job);
+    } catch (error) {
+      console.error(`Error re-scoring application ${applicationDoc.id}:`, error);
+    }
+  }
+  revalidatePath("/admin/applications");
+}
+
+export async function scoreApplication(applicationId: string) {
+  const caller = await authorize(RECRUITING_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
   }
+
   try {
-    await addDoc(collection(db, "attendance"), {
-      ...validatedFields.data,
-      date: serverTimestamp(),
+    const result = await computeMatchScore(applicationId);
+    if (!result) {
+      return { success: false, message: "Application or job not found." };
+    }
+    await recordActivity({
+      actor: caller,
+      action: "application.scored",
+      target: { type: "application", id: applicationId },
+      after: { matchScore: result.score },
     });
-    return { success: true, message: "Attendance marked successfully." };
+    return { success: true, message: "Match score updated.", matchScore: result.score, matchRationale: result.rationale };
   } catch (error) {
-    return { success: false, message: "Failed to mark attendance." };
+    console.error("Error scoring application:", error);
+    if (error instanceof GuardrailError && error.reason === "prompt_injection") {
+      return { success: false, message: "This application contains text that looks like instructions to the AI, so it can't be scored automatically. Please review it by hand." };
+    }
+    return { success: false, message: "Failed to score application. Please try again." };
   }
 }
 
+// Reads an uploaded resume and returns the fields found in it, for pre-filling the apply form.
+// PDFs go to the model as-is; DOCX files are converted to plain text first since Gemini cannot read them.
+export async function parseResume(formData: FormData) {
+  const { t } = await getI18n();
+  const resumeFile = formData.get("resume") as File | null;
+  if (!resumeFile || resumeFile.size === 0) {
+    return { success: false, message: t("actions.resumeMissing") };
+  }
+  if (resumeFile.size > MAX_RESUME_BYTES) {
+    return { success: false, message: t("actions.resumeTooLarge") };
+  }
 
-const dsrSchema = z.object({
-  description: z.string().min(10, "Description is required."),
-  hasTravelled: z.boolean().default(false),
-  openingKm: z.coerce.number().optional(),
-  closingKm: z.coerce.number().optional(),
-  employeeId: z.string(),
-  employeeName: z.string(),
-});
-
-export async function submitDsr(data: z.infer<typeof dsrSchema>) {
-  const validatedFields = dsrSchema.safeParse(data);
-   if (!validatedFields.success) {
-    return { success: false, message: "Invalid data.", errors: validatedFields.error.flatten().fieldErrors, };
+  const name = resumeFile.name.toLowerCase();
+  const isPdf = resumeFile.type === PDF_MIME_TYPE || name.endsWith(".pdf");
+  const isDocx = resumeFile.type === DOCX_MIME_TYPE || name.endsWith(".docx");
+  if (!isPdf && !isDocx) {
+    return { success: false, message: t("actions.resumeUnsupported") };
   }
+
   try {
-    await addDoc(collection(db, "dsr"), {
-      ...validatedFields.data,
-      date: serverTimestamp(),
-    });
-    return { success: true, message: "DSR submitted successfully." };
+    const buffer = Buffer.from(await resumeFile.arrayBuffer());
+    let input: ParseResumeInput;
+    if (isPdf) {
+      input = { resumeDataUri: `data:${PDF_MIME_TYPE};base64,${buffer.toString("base64")}` };
+    } else {
+      const { value } = await mammoth.extractRawText({ buffer });
+      if (!value.trim()) {
+        return { success: false, message: t("actions.resumeNoText") };
+      }
+      input = { resumeText: value };
+    }
+
+    const fields = await parseResumeFlow(input);
+    const found = Object.keys(fields).length;
+    return {
+      success: found > 0,
+      message: found > 0
+        ? t("actions.resumeFilled")
+        : t("actions.resumeNoDetails"),
+      fields,
+    };
   } catch (error) {
-    return { success: false, message: "Failed to submit DSR." };
+    console.error("Error parsing resume:", error);
+    return { success: false, message: t("actions.resumeUnreadable") };
   }
 }
 
-const callLogSchema = z.object({
-  clientName: z.string().min(2, "Client name is required."),
-  clientMobile: z.string().min(10, "A valid mobile number is required."),
-  topic: z.string().min(5, "Topic is required."),
-  duration: z.coerce.number().min(1, "Duration must be at least 1 minute."),
-  employeeId: z.string(),
-  employeeName: z.string(),
+const stageChangeSchema = z.object({
+  applicationId: z.string().min(1),
+  stage: z.enum(APPLICATION_STAGES),
 });
 
+// Moves an application to a new pipeline stage and records the change in its `stageHistory` subcollection.
+export async function updateApplicationStage(data: z.infer<typeof stageChangeSchema>) {
+  const caller = await authorize(RECRUITING_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
 
-export async function logCall(data: z.infer<typeof callLogSchema>) {
-  const validatedFields = callLogSchema.safeParse(data);
-   if (!validatedFields.success) {
-    return { success: false, message: "Invalid data.", errors: validatedFields.error.flatten().fieldErrors, };
+  const validatedFields = stageChangeSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid data." };
   }
+
+  const { applicationId, stage } = validatedFields.data;
   try {
-    await addDoc(collection(db, "callLogs"), {
-      ...validatedFields.data,
-      date: serverTimestamp(),
+    const applicationRef = adminDb.collection("applications").doc(applicationId);
+    const applicationSnap = await applicationRef.get();
+    if (!applicationSnap.exists) {
+      return { success: false, message: "Application not found." };
+    }
+
+    const fromStage = applicationSnap.data()!.stage ?? "new";
+    if (fromStage === stage) {
+      return { success: true, message: "Stage unchanged." };
+    }
+
+    const batch = adminDb.batch();
+    batch.update(applicationRef, { stage, stageUpdatedAt: FieldValue.serverTimestamp() });
+    batch.set(applicationRef.collection("stageHistory").doc(), {
+      from: fromStage,
+      to: stage,
+      changedById: caller.uid,
+      changedByName: displayName(caller),
+      changedAt: FieldValue.serverTimestamp(),
     });
-    return { success: true, message: "Call logged successfully." };
+    await batch.commit();
+    await recordActivity({
+      actor: caller,
+      action: "application.stageChanged",
+      target: { type: "application", id: applicationId, label: applicationSnap.data()!.fullName },
+      before: { stage: fromStage },
+      after: { stage },
+    });
+
+    revalidatePath("/admin/applications");
+    revalidatePath(`/admin/applications/${applicationId}`);
+
+    return { success: true, message: "Application stage updated." };
   } catch (error) {
-    return { success: false, message: "Failed to log call." };
+    console.error("Error updating application stage:", error);
+    return { success: false, message: "Failed to update application stage." };
   }
 }
 
-const earningsSchema = z.object({
-  earnings: z.array(z.object({
-    description: z.string().min(3, "Description is required."),
-    amount: z.coerce.number().min(1, "Amount must be greater than 0."),
-  })).min(1, "Please add at least one earning."),
-  employeeId: z.string(),
-  employeeName: z.string(),
+const applicationFiltersSchema = z.object({
+  q: z.string().trim().optional(),
+  jobId: z.string().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  city: z.string().optional(),
+  state: z.string().optional(),
+  qualification: z.string().optional(),
+  hasExperience: z.enum(["yes", "no"]).optional(),
+  minExperience: z.coerce.number().min(0).optional(),
+  maxExperience: z.coerce.number().min(0).optional(),
+  readyToRelocate: z.enum(["yes", "no"]).optional(),
+  noticePeriod: z.string().optional(),
+  tag: z.string().optional(),
+  stage: z.enum(APPLICATION_STAGES).optional(),
+  sort: z.enum(APPLICATION_SORTS).default("date"),
 });
 
-export async function submitEarnings(data: z.infer<typeof earningsSchema>) {
-  const validatedFields = earningsSchema.safeParse(data);
-   if (!validatedFields.success) {
-    console.log(validatedFields.error.flatten().fieldErrors)
-    return { success: false, message: "Invalid data.", errors: validatedFields.error.flatten().fieldErrors, };
+type ApplicationFiltersInput = z.input<typeof applicationFiltersSchema>;
+
+const APPLICATION_PAGE_SIZE = 25;
+
+export async function getJobOptions() {
+  if (!(await authorize(RECRUITING_ROLES))) {
+    return [];
   }
+
   try {
-    const { employeeId, employeeName } = validatedFields.data;
-    const earningPromises = validatedFields.data.earnings.map(earning => {
-       return addDoc(collection(db, "earnings"), {
-        ...earning,
-        employeeId,
-        employeeName,
-        date: serverTimestamp(),
-      });
-    })
-    await Promise.all(earningPromises);
-    
-    return { success: true, message: "Earnings submitted successfully." };
+    const jobs = await loadJobListings(null);
+    return jobs.map(job => ({ id: job.id, title: job.title, company: job.company }));
   } catch (error) {
-    return { success: false, message: "Failed to submit earnings." };
+    console.error("Error fetching job options:", error);
+    return [];
   }
 }
 
-const registrationSchema = z.object({
-  fullName: z.string().min(3, "Full name must be at least 3 characters."),
-  mobile: z.string().min(10, "A valid 10-digit mobile number is required.").max(10, "A valid 10-digit mobile number is required."),
-  personalEmail: z.string().email("Please enter a valid personal email."),
-  userId: z.string().min(3, "User ID is required.").refine(val => val.endsWith('@zensolve.in'), { message: "User ID must end with @zensolve.in" }),
-  password: z.string().min(6, "Password must be at least 6 characters."),
-  district: z.string().min(2, "District is required."),
-  state: z.string().min(2, "State is required."),
-  pincode: z.string().length(6, "Pincode must be 6 digits."),
-});
+// Equality filters and the date range go to Firestore (see firestore.indexes.json).
+// Everything else (stage, experience range, partial text) is applied to each application
+// read in matchesApplicationFilters. The date range is left out when ordering by match
+// score, since Firestore can only order a range query by the ranged field first.
+function applicationsQuery(filters: z.infer<typeof applicationFiltersSchema>, withDateRange = true): Query {
+  let applicationsQuery: Query = adminDb.collection("applications");
+  if (filters.jobId) applicationsQuery = applicationsQuery.where("jobId", "==", filters.jobId);
+  if (filters.hasExperience) applicationsQuery = applicationsQuery.where("hasExperience", "==", filters.hasExperience);
+  if (filters.readyToRelocate) applicationsQuery = applicationsQuery.where("readyToRelocate", "==", filters.readyToRelocate);
+  if (filters.tag) applicationsQuery = applicationsQuery.where("tags", "array-contains", filters.tag);
+  if (withDateRange && filters.from) applicationsQuery = applicationsQuery.where("submittedAt", ">=", Timestamp.fromMillis(dayStart(filters.from)));
+  if (withDateRange && filters.to) applicationsQuery = applicationsQuery.where("submittedAt", "<=", Timestamp.fromMillis(dayEnd(filters.to)));
+  return applicationsQuery;
+}
 
+// Filters that applicationsQuery leaves to matchesApplicationFilters.
+const needsApplicationScan = (filters: z.infer<typeof applicationFiltersSchema>) =>
+  Boolean(filters.q || filters.city || filters.state || filters.qualification || filters.noticePeriod || filters.stage) ||
+  filters.minExperience !== undefined ||
+  filters.maxExperience !== undefined;
 
-export async function registerEmployee(data: z.infer<typeof registrationSchema>) {
-  const validatedFields = registrationSchema.safeParse(data);
+// The fields matchesApplicationFilters reads, for counting without loading whole applications.
+const APPLICATION_FILTER_FIELDS = [
+  "submittedAt", "jobId", "hasExperience", "readyToRelocate", "tags", "stage", "yearsOfExperience", "city", "state",
+  "highestQualification", "noticePeriod", "fullName", "email", "technicalSkills", "softSkills",
+];
 
-  if (!validatedFields.success) {
-    return {
-      success: false,
-      message: "Invalid registration data. Please check all fields.",
-      errors: validatedFields.error.flatten().fieldErrors,
-    };
+function toApplicationSummary(applicationDoc: QueryDocumentSnapshot): ApplicationSummary {
+  const { submittedAt, stageUpdatedAt, matchScoredAt, ...data } = applicationDoc.data();
+  return {
+    ...data,
+    id: applicationDoc.id,
+    jobTitle: "Unknown Job",
+    submittedAt: submittedAt ? submittedAt.toDate().toISOString() : null,
+  } as ApplicationSummary;
+}
+
+// Fills in jobTitle by reading only the jobs the given applications were made for.
+async function withJobTitles(applications: ApplicationSummary[]): Promise<ApplicationSummary[]> {
+  const jobIds = [...new Set(applications.map(application => application.jobId).filter(Boolean))];
+  const jobSnaps = jobIds.length > 0
+    ? await adminDb.getAll(...jobIds.map(jobId => adminDb.collection("jobs").doc(jobId)), { fieldMask: ["title"] })
+    : [];
+  const jobTitles = new Map(jobSnaps.filter(jobSnap => jobSnap.exists).map(jobSnap => [jobSnap.id, jobSnap.data()!.title as string]));
+  return applications.map(application => ({ ...application, jobTitle: jobTitles.get(application.jobId) ?? "Unknown Job" }));
+}
+
+// Every matching application, best first, for the export.
+async function loadApplications(filters: z.infer<typeof applicationFiltersSchema>): Promise<ApplicationSummary[]> {
+  const snapshot = await applicationsQuery(filters).get();
+  const applications = snapshot.docs
+    .map(toApplicationSummary)
+    .filter(application => matchesApplicationFilters(application, filters))
+    .sort((a, b) =>
+      // Unscored applications sort below scored ones when ranking by match.
+      (filters.sort === "match" ? (b.matchScore ?? -1) - (a.matchScore ?? -1) : 0) ||
+      (b.submittedAt ?? "").localeCompare(a.submittedAt ?? "") ||
+      a.id.localeCompare(b.id)
+    );
+  return withJobTitles(applications);
+}
+
+// Uses an aggregation query when Firestore applies every filter, and a projection of the
+// filtered fields otherwise.
+async function countApplications(filters: z.infer<typeof applicationFiltersSchema>): Promise<number> {
+  if (!needsApplicationScan(filters)) {
+    return (await applicationsQuery(filters).count().get()).data().count;
   }
-  
+  const snapshot = await applicationsQuery(filters).select(...APPLICATION_FILTER_FIELDS).get();
+  return snapshot.docs.filter(applicationDoc => matchesApplicationFilters(toApplicationSummary(applicationDoc), filters)).length;
+}
+
+const APPLICATION_SCAN_BATCH = 50;
+
+// The match score (null while ordering by date), submittedAt and id of the last application shown.
+type ApplicationPageCursor = [matchScore: number | null, seconds: number, nanoseconds: number, id: string];
+
+const decodeApplicationPageCursor = (cursor: string): ApplicationPageCursor | null => {
   try {
-    const { fullName, userId, password, ...otherData } = validatedFields.data;
-    
-    // Create user in Firebase Auth
-    // IMPORTANT: This uses the main `auth` instance. This action must be protected.
-    const userCredential = await createUserWithEmailAndPassword(auth, userId, password);
-    const user = userCredential.user;
+    const key = JSON.parse(cursor);
+    return Array.isArray(key) && key.length === 4 ? key as ApplicationPageCursor : null;
+  } catch {
+    return null;
+  }
+};
+
+// Reads the query in batches, best match or newest first, from `after` until more than
+// `wanted` applications pass `accept` or the query runs out.
+async function scanApplications(
+  baseQuery: Query,
+  byMatchScore: boolean,
+  after: ApplicationPageCursor | null,
+  wanted: number,
+  accept: (application: ApplicationSummary) => boolean
+) {
+  const orderedQuery = (byMatchScore ? baseQuery.orderBy("matchScore", "desc") : baseQuery)
+    .orderBy("submittedAt", "desc")
+    .orderBy(FieldPath.documentId(), "desc")
+    .limit(APPLICATION_SCAN_BATCH);
+
+  const matches: { application: ApplicationSummary; key: ApplicationPageCursor }[] = [];
+  while (matches.length <= wanted) {
+    const start = after && [...(byMatchScore ? [after[0]] : []), new Timestamp(after[1], after[2]), after[3]];
+    const snapshot = await (start ? orderedQuery.startAfter(...start) : orderedQuery).get();
+    for (const applicationDoc of snapshot.docs) {
+      const { matchScore, submittedAt } = applicationDoc.data();
+      after = [byMatchScore ? matchScore : null, submittedAt.seconds, submittedAt.nanoseconds, applicationDoc.id];
+      const application = toApplicationSummary(applicationDoc);
+      if (accept(application)) matches.push({ application, key: after });
+    }
+    if (snapshot.size < APPLICATION_SCAN_BATCH) break;
+  }
+  return matches;
+}
+
+// One page of applications. Ranking by match reads the scored applications first, then
+// carries on with the unscored ones newest first; a cursor without a score is in that
+// second pass.
+async function loadApplicationPage(filters: z.infer<typeof applicationFiltersSchema>, cursor: string | null) {
+  const after = cursor ? decodeApplicationPageCursor(cursor) : null;
+  const inScoredPass = filters.sort === "match" && (after === null || after[0] !== null);
+
+  const page = inScoredPass
+    ? await scanApplications(applicationsQuery(filters, false), true, after, APPLICATION_PAGE_SIZE, application =>
+        matchesApplicationFilters(application, filters))
+    : [];
+  if (page.length <= APPLICATION_PAGE_SIZE) {
+    page.push(...await scanApplications(
+      applicationsQuery(filters),
+      false,
+      inScoredPass ? null : after,
+      APPLICATION_PAGE_SIZE - page.length,
+      application => (filters.sort !== "match" || application.matchScore === undefined) && matchesApplicationFilters(application, filters)
+    ));
+  }
+
+  const hasMore = page.length > APPLICATION_PAGE_SIZE;
+  return {
+    applications: await withJobTitles(page.slice(0, APPLICATION_PAGE_SIZE).map(({ application }) => application)),
+    nextCursor: hasMore ? JSON.stringify(page[APPLICATION_PAGE_SIZE - 1].key) : null,
+  };
+}
+
+export async function searchApplications(filtersInput: ApplicationFiltersInput, cursor: string | null = null) {
+  if (!(await authorize(RECRUITING_ROLES))) {
+    return { ...FORBIDDEN, applications: [] as ApplicationSummary[], total: 0, nextCursor: null };
+  }
+
+  const validatedFields = applicationFiltersSchema.safeParse(filtersInput);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid filters.", applications: [] as ApplicationSummary[], total: 0, nextCursor: null };
+  }
+
+  try {
+    const [page, total] = await Promise.all([
+      loadApplicationPage(validatedFields.data, cursor),
+      countApplications(validatedFields.data),
+    ]);
+    return { success: true, ...page, total };
+  } catch (error) {
+    console.error("Error searching applications:", error);
+    return { success: false, message: "Failed to load applications.", applications: [] as ApplicationSummary[], total: 0, nextCursor: null };
+  }
+}
+
+const APPLICATION_EXPORT_COLUMNS: { header: string; value: (application: ApplicationSummary) => string | number }[] = [
+  { header: "Name", value: app => app.fullName },
+  { header: "Email", value: app => app.email },
+  { header: "Mobile", value: app => app.mobile },
+  { header: "Applied For", value: app => app.jobTitle },
+  { header: "Stage", value: app => APPLICATION_STAGE_LABELS[applicationStage(app)] },
+  { header: "Submitted On", value: app => app.submittedAt ? app.submittedAt.slice(0, 10) : "" },
+  { header: "City", value: app => app.city ?? "" },
+  { header: "State", value: app => app.state ?? "" },
+  { header: "Qualification", value: app => app.highestQualification ?? "" },
+  { header: "Experience (Years)", value: app => app.hasExperience === "yes" ? app.yearsOfExperience ?? 0 : 0 },
+  { header: "Notice Period", value: app => app.noticePeriod ?? "" },
+  { header: "Ready to Relocate", value: app => app.readyToRelocate },
+  { header: "Technical Skills", value: app => app.technicalSkills ?? "" },
+  { header: "Tags", value: app => (app.tags ?? []).join(", ") },
+  { header: "Rating", value: app => app.averageRating !== undefined ? Number(app.averageRating.toFixed(1)) : "" },
+  { header: "Match Score", value: app => app.matchScore ?? "" },
+  { header: "Resume", value: app => app.resumeUrl ?? "" },
+];
+
+// Quotes a CSV cell and neutralises values a spreadsheet would evaluate as a formula.
+const csvCell = (value: string | number) => {
+  const text = typeof value === "string" && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+export async function exportApplications(filtersInput: ApplicationFiltersInput, format: "csv" | "xlsx") {
+  const caller = await authorize(RECRUITING_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = applicationFiltersSchema.safeParse(filtersInput);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid filters." };
+  }
+
+  try {
+    const applications = await loadApplications(validatedFields.data);
+    const filename = `applications-${new Date().toISOString().slice(0, 10)}.${format}`;
+    await recordActivity({
+      actor: caller,
+      action: "application.exported",
+      target: { type: "application", id: filename, label: `${applications.length} applications` },
+      after: { format, ...validatedFields.data },
+    });
+
+    if (format === "csv") {
+      const rows = [
+        APPLICATION_EXPORT_COLUMNS.map(column => csvCell(column.header)).join(","),
+        ...applications.map(app => APPLICATION_EXPORT_COLUMNS.map(column => csvCell(column.value(app))).join(",")),
+      ];
+      return {
+        success: true,
+        filename,
+        mimeType: "text/csv",
+        data: Buffer.from(rows.join("\r\n")).toString("base64"),
+      };
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet("Applications");
+    sheet.columns = APPLICATION_EXPORT_COLUMNS.map(column => ({ header: column.header, width: 20 }));
+    sheet.getRow(1).font = { bold: true };
+    applications.forEach(app => {
+      const row = sheet.addRow(APPLICATION_EXPORT_COLUMNS.map(column => column.value(app)));
+      if (app.resumeUrl) {
+        row.getCell(APPLICATION_EXPORT_COLUMNS.length).value = { text: "View Resume", hyperlink: app.resumeUrl };
+      }
+    });
+    const buffer = await workbook.xlsx.writeBuffer();
+
+    return {
+      success: true,
+      filename,
+      mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      data: Buffer.from(buffer).toString("base64"),
+    };
+  } catch (error) {
+    console.error("Error exporting applications:", error);
+    return { success: false, message: "Failed to export applications." };
+  }
+}
+
+const recruiterAuthorSchema = z.object({
+  applicationId: z.string().min(1),
+  authorId: z.string(),
+});
+
+const applicationNoteSchema = recruiterAuthorSchema.extend({
+  text: z.string().trim().min(2, "Note cannot be empty."),
+});
+
+export async function addApplicationNote(data: z.infer<typeof applicationNoteSchema>) {
+  const caller = await authorizeAs(RECRUITING_ROLES, data?.authorId);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = applicationNoteSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid data.", errors: validatedFields.error.flatten().fieldErrors };
+  }
+
+  const { applicationId, ...note } = validatedFields.data;
+  try {
+    await adminDb.collection("applications").doc(applicationId).collection("recruiterActivity").add({
+      type: "note",
+      ...note,
+      authorName: displayName(caller),
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    await recordActivity({
+      actor: caller,
+      action: "application.noteAdded",
+      target: { type: "application", id: applicationId },
+      after: { text: note.text },
+    });
+    return { success: true, message: "Note added." };
+  } catch (error) {
+    console.error("Error adding note:", error);
+    return { success: false, message: "Failed to add note." };
+  }
+}
+
+const applicationRatingSchema = recruiterAuthorSchema.extend({
+  scores: z.record(z.string(), z.number().int().min(1).max(5))
+    .refine(scores => Object.keys(scores).length > 0, { message: "Rate at least one criterion." }),
+  comment: z.string().optional(),
+});
+
+// Stores one recruiter's scorecard and keeps a running average on the application for sorting and at-a-glance display.
+export async function rateApplication(data: z.infer<typeof applicationRatingSchema>) {
+  const caller = await authorizeAs(RECRUITING_ROLES, data?.authorId);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = applicationRatingSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid data.", errors: validatedFields.error.flatten().fieldErrors };
+  }
+
+  const { applicationId, scores, ...rating } = validatedFields.data;
+  try {
+    const applicationRef = adminDb.collection("applications").doc(applicationId);
+    const applicationSnap = await applicationRef.get();
+    if (!applicationSnap.exists) {
+      return { success: false, message: "Application not found." };
+    }
+
+    const values = Object.values(scores);
+    const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const { ratingCount = 0, averageRating = 0 } = applicationSnap.data()!;
+
+    const batch = adminDb.batch();
+    batch.set(applicationRef.collection("recruiterActivity").doc(), {
+      type: "rating",
+      ...rating,
+      authorName: displayName(caller),
+      scores,
+      average,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    batch.update(applicationRef, {
+      ratingCount: ratingCount + 1,
+      averageRating: (averageRating * ratingCount + average) / (ratingCount + 1),
+    });
+    await batch.commit();
+    await recordActivity({
+      actor: caller,
+      action: "application.rated",
+      target: { type: "application", id: applicationId, label: applicationSnap.data()!.fullName },
+      after: { scores, average, comment: rating.comment },
+    });
+
+    revalidatePath("/admin/applications");
+    return { success: true, message: "Rating saved." };
+  } catch (error) {
+    console.error("Error rating application:", error);
+    return { success: false, message: "Failed to save rating." };
+  }
+}
+
+const applicationTagsSchema = recruiterAuthorSchema.extend({
+  tags: z.array(z.string()),
+});
+
+// Replaces the application's tags. The current set lives on the application so the list can filter by it;
+// the timeline entry records what was added and removed.
+export async function updateApplicationTags(data: z.infer<typeof applicationTagsSchema>) {
+  const caller = await authorizeAs(RECRUITING_ROLES, data?.authorId);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = applicationTagsSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid data." };
+  }
+
+  const { applicationId, tags, ...author } = validatedFields.data;
+  const nextTags = [...new Set(tags.map(normalizeTag).filter(Boolean))];
+  try {
+    const applicationRef = adminDb.collection("applications").doc(applicationId);
+    const applicationSnap = await applicationRef.get();
+    if (!applicationSnap.exists) {
+      return { success: false, message: "Application not found." };
+    }
+
+    const currentTags: string[] = applicationSnap.data()!.tags ?? [];
+    const added = nextTags.filter(tag => !currentTags.includes(tag));
+    const removed = currentTags.filter(tag => !nextTags.includes(tag));
+    if (added.length === 0 && removed.length === 0) {
+      return { success: true, message: "Tags unchanged.", tags: nextTags };
+    }
+
+    const batch = adminDb.batch();
+    batch.update(applicationRef, { tags: nextTags });
+    batch.set(applicationRef.collection("recruiterActivity").doc(), {
+      type: "tags",
+      ...author,
+      authorName: displayName(caller),
+      added,
+      removed,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    await batch.commit();
+    await recordActivity({
+      actor: caller,
+      action: "application.tagsChanged",
+      target: { type: "application", id: applicationId, label: applicationSnap.data()!.fullName },
+      before: { tags: currentTags },
+      after: { tags: nextTags },
+    });
+
+    revalidatePath("/admin/applications");
+    return { success: true, message: "Tags updated.", tags: nextTags };
+  } catch (error) {
+    console.error("Error updating tags:", error);
+    return { success: false, message: "Failed to update tags." };
+  }
+}
+
+const ratingCriteriaSchema = z.object({
+  criteria: z.array(z.string().trim().min(2)).min(1, "Add at least one criterion."),
+});
+
+export async function updateRatingCriteria(data: z.infer<typeof ratingCriteriaSchema>) {
+  const caller = await authorize(RECRUITING_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = ratingCriteriaSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Each criterion needs a name, and at least one is required." };
+  }
+
+  try {
+    const settingsRef = adminDb.collection("settings").doc("ratingCriteria");
+    const settingsSnap = await settingsRef.get();
+    const criteria = [...new Set(validatedFields.data.criteria)];
+    await settingsRef.set({
+      criteria,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    await recordActivity({
+      actor: caller,
+      action: "settings.ratingCriteriaChanged",
+      target: { type: "settings", id: "ratingCriteria", label: "Rating criteria" },
+      before: { criteria: settingsSnap.data()?.criteria ?? DEFAULT_RATING_CRITERIA },
+      after: { criteria },
+    });
+    return { success: true, message: "Rating criteria updated." };
+  } catch (error) {
+    console.error("Error updating rating criteria:", error);
+    return { success: false, message: "Failed to update rating criteria." };
+  }
+}
+
+const attendanceLocationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().min(0).nullable(),
+});
+
+const employeeIdSchema = z.object({
+  employeeId: z.string().min(1),
+});
+
+const checkInSchema = employeeIdSchema.extend({
+  tasks: z.string().trim().min(10),
+  location: attendanceLocationSchema.nullable(),
+});
+
+const checkOutSchema = employeeIdSchema.extend({
+  location: attendanceLocationSchema.nullable(),
+});
+
+// The gRPC status the Admin SDK reports when create() finds the document already there.
+const ALREADY_EXISTS = 6;
+
+const todayAttendanceRef = (employeeId: string) =>
+  adminDb.collection("attendance").doc(attendanceRecordId(employeeId, attendanceDay()));
+
+function toAttendanceDay(day: string, record: DocumentData | null): AttendanceDay {
+  return {
+    day,
+    state: attendanceState(record),
+    tasks: record?.tasks ?? null,
+    checkInAt: record?.checkInAt ? record.checkInAt.toDate().toISOString() : null,
+    checkOutAt: record?.checkOutAt ? record.checkOutAt.toDate().toISOString() : null,
+    workingMinutes: record?.workingMinutes ?? null,
+  };
+}
+
+// Today's attendance for the employee page. The record may not exist yet, which the rules
+// don't let the browser ask about, so the page reads it through here.
+export async function getTodayAttendance(data: z.infer<typeof employeeIdSchema>) {
+  const { t } = await getI18n();
+  const caller = await authorizeAs(EMPLOYEE_ROLES, data?.employeeId);
+  if (!caller) {
+    return { success: false, message: t("actions.forbidden"), attendance: null };
+  }
+
+  try {
+    const recordSnap = await todayAttendanceRef(caller.uid).get();
+    return { success: true, attendance: toAttendanceDay(attendanceDay(), recordSnap.exists ? recordSnap.data()! : null) };
+  } catch (error) {
+    console.error("Error fetching today's attendance:", error);
+    return { success: false, message: t("actions.attendanceFailed"), attendance: null };
+  }
+}
+
+export async function checkIn(data: z.infer<typeof checkInSchema>) {
+  const { t } = await getI18n();
+  const caller = await authorizeAs(EMPLOYEE_ROLES, data?.employeeId);
+  if (!caller) {
+    return { success: false, message: t("actions.forbidden") };
+  }
+
+  const validatedFields = checkInSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: t("actions.invalidData") };
+  }
+
+  try {
+    const { tasks, location } = validatedFields.data;
+    const day = attendanceDay();
+    const recordRef = todayAttendanceRef(caller.uid);
+    const record = {
+      employeeId: caller.uid,
+      employeeName: displayName(caller),
+      day,
+      status: "working",
+      tasks,
+      checkInLocation: location,
+    };
+    // create() fails when today's record exists, so two check-ins can't both succeed.
+    await recordRef.create({ ...record, checkInAt: FieldValue.serverTimestamp(), date: FieldValue.serverTimestamp() });
+
+    const { employeeId, employeeName, ...details } = record;
+    await recordActivity({
+      actor: caller,
+      action: "attendance.checkedIn",
+      target: { type: "attendance", id: recordRef.id, label: `${displayName(caller)}, ${day}` },
+      after: details,
+    });
+    return { success: true, message: t("actions.checkedIn") };
+  } catch (error: any) {
+    if (error.code === ALREADY_EXISTS) {
+      return { success: false, message: t("actions.attendanceAlreadyMarked") };
+    }
+    console.error("Error checking in:", error);
+    return { success: false, message: t("actions.attendanceFailed") };
+  }
+}
+
+export async function checkOut(data: z.infer<typeof checkOutSchema>) {
+  const { t } = await getI18n();
+  const caller = await authorizeAs(EMPLOYEE_ROLES, data?.employeeId);
+  if (!caller) {
+    return { success: false, message: t("actions.forbidden") };
+  }
+
+  const validatedFields = checkOutSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: t("actions.invalidData") };
+  }
+
+  try {
+    const recordRef = todayAttendanceRef(caller.uid);
+    const outcome = await adminDb.runTransaction(async transaction => {
+      const recordSnap = await transaction.get(recordRef);
+      const state = attendanceState(recordSnap.exists ? recordSnap.data()! : null);
+      if (state !== "checkedIn") return { state };
+
+      const checkInAt: Timestamp = recordSnap.data()!.checkInAt;
+      const checkOutAt = Timestamp.now();
+      const update = {
+        checkOutAt,
+        checkOutLocation: validatedFields.data.location,
+        workingMinutes: workingMinutes(checkInAt.toDate(), checkOutAt.toDate()),
+      };
+      transaction.update(recordRef, update);
+      return { state, update };
+    });
+
+    if (!outcome.update) {
+      return { success: false, message: t(outcome.state === "notCheckedIn" ? "actions.notCheckedIn" : "actions.attendanceAlreadyMarked") };
+    }
+    await recordActivity({
+      actor: caller,
+      action: "attendance.checkedOut",
+      target: { type: "attendance", id: recordRef.id, label: `${displayName(caller)}, ${attendanceDay()}` },
+      before: { checkOutAt: null },
+      after: outcome.update,
+    });
+    return { success: true, message: t("actions.checkedOut", { hours: formatWorkingTime(outcome.update.workingMinutes) }) };
+  } catch (error) {
+    console.error("Error checking out:", error);
+    return { success: false, message: t("actions.attendanceFailed") };
+  }
+}
+
+const attendanceRegisterFiltersSchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/),
+  employeeId: z.string().optional(),
+  state: z.string().optional(),
+  district: z.string().optional(),
+});
+
+const toRegisterCellDetail = (record: DocumentData): RegisterCellDetail => ({
+  checkInAt: record.checkInAt ? record.checkInAt.toDate().toISOString() : null,
+  checkOutAt: record.checkOutAt ? record.checkOutAt.toDate().toISOString() : null,
+  workingMinutes: record.workingMinutes ?? null,
+  tasks: record.tasks ?? null,
+  checkInLocation: record.checkInLocation ?? null,
+  checkOutLocation: record.checkOutLocation ?? null,
+  leaveType: record.leaveType ?? null,
+});
+
+// Builds the register for a month. Days before an employee was registered are left blank
+// rather than counted as absent.
+async function loadAttendanceRegister(filters: AttendanceRegisterFilters) {
+  const days = monthDays(filters.month);
+  const [employeesSnap, recordsSnap, calendar] = await Promise.all([
+    adminDb.collection("employees").get(),
+    adminDb.collection("attendance").where("day", ">=", days[0]).where("day", "<=", days[days.length - 1]).get(),
+    loadWorkCalendar(Number(filters.month.slice(0, 4))),
+  ]);
+
+  const records = new Map(recordsSnap.docs.map(doc => [attendanceRecordId(doc.data().employeeId, doc.data().day), doc.data()]));
+  const columns: RegisterColumn[] = days.map(day => ({ day, kind: dayKind(day, calendar), holidayName: holidayOn(day, calendar)?.name ?? null }));
+  const today = attendanceDay();
+
+  const employees = employeesSnap.docs
+    .map(doc => ({ id: doc.id, data: doc.data() }))
+    .sort((a, b) => String(a.data.name ?? "").localeCompare(String(b.data.name ?? "")));
+  const rows = employees
+    .map(({ id, data }): RegisterEmployee & { joinedOn: string | null } => ({
+      id,
+      name: data.name ?? "",
+      state: data.state ?? "",
+      district: data.district ?? "",
+      joinedOn: data.createdAt ? attendanceDay(data.createdAt.toDate()) : null,
+    }))
+    .filter(employee => matchesRegisterFilters(employee, filters))
+    .map(({ joinedOn, ...employee }): AttendanceRegisterRow => {
+      const cells = columns.map(({ day, kind }): RegisterCell => {
+        const record = records.get(attendanceRecordId(employee.id, day)) ?? null;
+        if (!record && joinedOn && day < joinedOn) return { status: null, late: false, detail: null };
+        const late = record?.status === "working" && record.checkInAt ? isLateCheckIn(record.checkInAt.toDate()) : false;
+        return { status: dayStatus(day, kind, record, today), late, detail: record ? toRegisterCellDetail(record) : null };
+      });
+      return { ...employee, cells, totals: registerTotals(cells) };
+    });
+
+  return {
+    columns,
+    rows,
+    employees: employees.map(({ id, data }): RegisterEmployee => ({ id, name: data.name ?? "", state: data.state ?? "", district: data.district ?? "" })),
+  };
+}
+
+export async function getAttendanceRegister(filtersInput: AttendanceRegisterFilters) {
+  if (!(await authorize(PEOPLE_ROLES))) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = attendanceRegisterFiltersSchema.safeParse(filtersInput);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid filters." };
+  }
+
+  try {
+    return { success: true, ...await loadAttendanceRegister(validatedFields.data) };
+  } catch (error) {
+    console.error("Error building attendance register:", error);
+    return { success: false, message: "Failed to load the attendance register." };
+  }
+}
+
+// The register for payroll: a CSV with one column per day, or a colour-coded PDF.
+export async function exportAttendanceRegister(filtersInput: AttendanceRegisterFilters, format: "csv" | "pdf") {
+  const caller = await authorize(PEOPLE_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = attendanceRegisterFiltersSchema.safeParse(filtersInput);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid filters." };
+  }
+
+  try {
+    const filters = validatedFields.data;
+    const { columns, rows } = await loadAttendanceRegister(filters);
+    const filename = `attendance-register-${filters.month}.${format}`;
+    await recordActivity({
+      actor: caller,
+      action: "attendance.exported",
+      target: { type: "attendance", id: filename, label: `${rows.length} employees, ${filters.month}` },
+      after: { format, ...filters },
+    });
+
+    if (format === "csv") {
+      const lines = [
+        ["Employee", "State", "District", ...columns.map(column => column.day), ...REGISTER_TOTALS.map(total => REGISTER_TOTAL_LABELS[total])].map(csvCell).join(","),
+        ...rows.map(row => [row.name, row.state, row.district, ...row.cells.map(registerCode), ...REGISTER_TOTALS.map(total => row.totals[total])].map(csvCell).join(",")),
+      ];
+      return {
+        success: true,
+        filename,
+        mimeType: "text/csv",
+        data: Buffer.from(lines.join("\r\n")).toString("base64"),
+      };
+    }
+
+    const filterSummary = [filters.state, filters.district].filter(Boolean).join(", ");
+    const pdf = await attendanceRegisterPdf({
+      title: `Attendance Register, ${new Date(`${filters.month}-01T12:00:00Z`).toLocaleString("en-IN", { month: "long", year: "numeric" })}`,
+      subtitle: `Zensolve Infotech${filterSummary ? ` · ${filterSummary}` : ""} · ${rows.length} employees · generated ${attendanceDay()}`,
+      columns,
+      rows,
+    });
+    return {
+      success: true,
+      filename,
+      mimeType: "application/pdf",
+      data: Buffer.from(pdf).toString("base64"),
+    };
+  } catch (error) {
+    console.error("Error exporting attendance register:", error);
+    return { success: false, message: "Failed to export the attendance register." };
+  }
+}
+
+const daySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const holidaySchema = z.object({
+  date: daySchema,
+  name: z.string().trim().min(2, "Name is required."),
+  type: z.enum(HOLIDAY_TYPES),
+});
+
+const workWeekSchema = z.object({
+  workWeek: z.array(z.enum(WORK_DAY_TYPES)).length(7),
+});
+
+const attendanceMonthSchema = employeeIdSchema.extend({
+  month: z.string().regex(/^\d{4}-\d{2}$/),
+});
+
+// The weekly pattern and the year's holidays. Leave and attendance summaries never span
+// more than a year, so callers load the year their range falls in. Inside a transaction the
+// calendar is read through it, so a holiday added meanwhile makes the transaction retry.
+async function loadWorkCalendar(year: number, transaction?: Transaction): Promise<WorkCalendar> {
+  const workWeekRef = adminDb.collection("settings").doc("workWeek");
+  const holidaysQuery = adminDb.collection("holidays").where("date", ">=", `${year}-01-01`).where("date", "<=", `${year}-12-31`).orderBy("date");
+  const [workWeekSnap, holidaysSnap] = await Promise.all(transaction
+    ? [transaction.get(workWeekRef), transaction.get(holidaysQuery)]
+    : [workWeekRef.get(), holidaysQuery.get()]);
+  return {
+    workWeek: workWeekSnap.data()?.workWeek ?? DEFAULT_WORK_WEEK,
+    holidays: holidaysSnap.docs.map(doc => {
+      const { date, name, type } = doc.data();
+      return { date, name, type };
+    }),
+  };
+}
+
+// The working days and holidays for the employee leave page.
+export async function getWorkCalendar(year: number) {
+  const { t } = await getI18n();
+  if (!(await authorize(EMPLOYEE_ROLES))) {
+    return { success: false, message: t("actions.forbidden"), calendar: null };
+  }
+  if (!Number.isInteger(year)) {
+    return { success: false, message: t("actions.invalidData"), calendar: null };
+  }
+
+  try {
+    return { success: true, calendar: await loadWorkCalendar(year) };
+  } catch (error) {
+    console.error("Error fetching work calendar:", error);
+    return { success: false, message: t("actions.calendarFailed"), calendar: null };
+  }
+}
+
+// One employee's month, day by day, for the calendar on the attendance page. Records are
+// read by their day-based ids, so no index is needed.
+export async function getAttendanceMonth(data: z.infer<typeof attendanceMonthSchema>) {
+  const { t } = await getI18n();
+  const caller = await authorizeAs(EMPLOYEE_ROLES, data?.employeeId);
+  if (!caller) {
+    return { success: false, message: t("actions.forbidden"), days: [] };
+  }
+
+  const validatedFields = attendanceMonthSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: t("actions.invalidData"), days: [] };
+  }
+
+  try {
+    const { month } = validatedFields.data;
+    const days = monthDays(month);
+    const [calendar, recordSnaps] = await Promise.all([
+      loadWorkCalendar(Number(month.slice(0, 4))),
+      adminDb.getAll(...days.map(day => adminDb.collection("attendance").doc(attendanceRecordId(caller.uid, day)))),
+    ]);
+    const today = attendanceDay();
+    return {
+      success: true,
+      days: days.map((day, index): AttendanceCalendarDay => {
+        const record = recordSnaps[index].exists ? recordSnaps[index].data()! : null;
+        const kind = dayKind(day, calendar);
+        return {
+          ...toAttendanceDay(day, record),
+          kind,
+          status: dayStatus(day, kind, record, today),
+          holidayName: holidayOn(day, calendar)?.name ?? null,
+          leaveType: record?.leaveType ?? null,
+        };
+      }),
+    };
+  } catch (error) {
+    console.error("Error fetching attendance month:", error);
+    return { success: false, message: t("actions.calendarFailed"), days: [] };
+  }
+}
+
+export async function saveHoliday(data: z.infer<typeof holidaySchema>) {
+  const caller = await authorize(PEOPLE_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = holidaySchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid data. Please check all fields.", errors: validatedFields.error.flatten().fieldErrors };
+  }
+
+  const holiday = validatedFields.data;
+  try {
+    // create() fails when the day already has a holiday.
+    await adminDb.collection("holidays").doc(holiday.date).create({ ...holiday, createdAt: FieldValue.serverTimestamp() });
+    await recordActivity({
+      actor: caller,
+      action: "holiday.created",
+      target: { type: "holiday", id: holiday.date, label: holiday.name },
+      after: holiday,
+    });
+    return { success: true, message: `${holiday.name} added to the holiday calendar.` };
+  } catch (error: any) {
+    if (error.code === ALREADY_EXISTS) {
+      return { success: false, message: "There is already a holiday on that day." };
+    }
+    console.error("Error saving holiday:", error);
+    return { success: false, message: "Failed to save the holiday." };
+  }
+}
+
+export async function deleteHoliday(date: string) {
+  const caller = await authorize(PEOPLE_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+  if (!daySchema.safeParse(date).success) {
+    return { success: false, message: "Invalid data." };
+  }
+
+  try {
+    const holidayRef = adminDb.collection("holidays").doc(date);
+    const holidaySnap = await holidayRef.get();
+    if (!holidaySnap.exists) {
+      return { success: false, message: "Holiday not found." };
+    }
+    const { name, type } = holidaySnap.data()!;
+
+    await holidayRef.delete();
+    await recordActivity({
+      actor: caller,
+      action: "holiday.deleted",
+      target: { type: "holiday", id: date, label: name },
+      before: { date, name, type },
+    });
+    return { success: true, message: `${name} removed from the holiday calendar.` };
+  } catch (error) {
+    console.error("Error deleting holiday:", error);
+    return { success: false, message: "Failed to delete the holiday." };
+  }
+}
+
+export async function updateWorkWeek(data: z.infer<typeof workWeekSchema>) {
+  const caller = await authorize(PEOPLE_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = workWeekSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Choose a full day, half day or weekly off for every weekday." };
+  }
+
+  try {
+    const settingsRef = adminDb.collection("settings").doc("workWeek");
+    const settingsSnap = await settingsRef.get();
+    const { workWeek } = validatedFields.data;
+    await settingsRef.set({
+      workWeek,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    await recordActivity({
+      actor: caller,
+      action: "settings.workWeekChanged",
+      target: { type: "settings", id: "workWeek", label: "Working days" },
+      before: { workWeek: settingsSnap.data()?.workWeek ?? DEFAULT_WORK_WEEK },
+      after: { workWeek },
+    });
+    return { success: true, message: "Working days updated." };
+  } catch (error) {
+    console.error("Error updating working days:", error);
+    return { success: false, message: "Failed to update working days." };
+  }
+}
+
+const leaveRequestSchema = employeeIdSchema.extend({
+  type: z.enum(LEAVE_TYPES),
+  from: daySchema,
+  to: daySchema,
+  reason: z.string().trim().min(5).max(500),
+});
+
+const leaveRequestIdSchema = employeeIdSchema.extend({
+  requestId: z.string().min(1),
+});
+
+const leaveDecisionSchema = z.object({
+  requestId: z.string().min(1),
+  decision: z.enum(["approved", "rejected"]),
+  note: z.string().trim().max(500).default(""),
+});
+
+const leaveBalanceRef = (employeeId: string, year: number) =>
+  adminDb.collection("leaveBalances").doc(leaveBalanceId(employeeId, year));
+
+// Leave is planned and counted per calendar year in India.
+const leaveYear = () => Number(attendanceDay().slice(0, 4));
+
+// The caller's balances for the current year. The balance document only appears once leave
+// is approved, which the rules don't let the browser ask about, so the page reads it here.
+export async function getLeaveBalances(data: z.infer<typeof employeeIdSchema>) {
+  const { t } = await getI18n();
+  const caller = await authorizeAs(EMPLOYEE_ROLES, data?.employeeId);
+  if (!caller) {
+    return { success: false, message: t("actions.forbidden"), year: null, balances: [] };
+  }
+
+  try {
+    const year = leaveYear();
+    const balanceSnap = await leaveBalanceRef(caller.uid, year).get();
+    return { success: true, year, balances: leaveBalances(balanceSnap.exists ? balanceSnap.data()!.used ?? {} : {}) };
+  } catch (error) {
+    console.error("Error fetching leave balances:", error);
+    return { success: false, message: t("actions.leaveBalancesFailed"), year: null, balances: [] };
+  }
+}
+
+export async function requestLeave(data: z.infer<typeof leaveRequestSchema>) {
+  const { t } = await getI18n();
+  const caller = await authorizeAs(EMPLOYEE_ROLES, data?.employeeId);
+  if (!caller) {
+    return { success: false, message: t("actions.forbidden") };
+  }
+
+  const validatedFields = leaveRequestSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: t("actions.invalidFields") };
+  }
+
+  const { type, from, to, reason } = validatedFields.data;
+  const span = daysInRange(from, to).length;
+  // Balances are yearly, so a request can't straddle the new year.
+  if (span === 0 || span > MAX_LEAVE_REQUEST_DAYS || from.slice(0, 4) !== to.slice(0, 4)) {
+    return { success: false, message: t("actions.leaveInvalidDates", { max: MAX_LEAVE_REQUEST_DAYS }) };
+  }
+
+  try {
+    const days = leaveDays(from, to, await loadWorkCalendar(Number(from.slice(0, 4)))).length;
+    if (days === 0) {
+      return { success: false, message: t("actions.leaveNoWorkingDays") };
+    }
+
+    const openRequests = await adminDb.collection("leaveRequests")
+      .where("employeeId", "==", caller.uid)
+      .where("status", "in", ["pending", "approved"])
+      .get();
+    if (openRequests.docs.some(request => rangesOverlap(request.data() as { from: string; to: string }, { from, to }))) {
+      return { success: false, message: t("actions.leaveOverlaps") };
+    }
+
+    // Checked again on approval; this only saves asking for leave that can't be granted.
+    const balanceSnap = await leaveBalanceRef(caller.uid, Number(from.slice(0, 4))).get();
+    const { remaining } = leaveBalance(balanceSnap.exists ? balanceSnap.data()!.used ?? {} : {}, type);
+    if (remaining !== null && days > remaining) {
+      return { success: false, message: t("actions.leaveBalanceExceeded", { remaining }) };
+    }
+
+    const request = { employeeId: caller.uid, employeeName: displayName(caller), type, from, to, days, reason, status: "pending" };
+    const requestRef = await adminDb.collection("leaveRequests").add({ ...request, requestedAt: FieldValue.serverTimestamp() });
+
+    const { employeeId, employeeName, ...details } = request;
+    await recordActivity({
+      actor: caller,
+      action: "leave.requested",
+      target: { type: "leaveRequest", id: requestRef.id, label: `${displayName(caller)}, ${from} to ${to}` },
+      after: details,
+    });
+    return { success: true, message: t("actions.leaveRequested") };
+  } catch (error) {
+    console.error("Error requesting leave:", error);
+    return { success: false, message: t("actions.leaveRequestFailed") };
+  }
+}
+
+export async function cancelLeaveRequest(data: z.infer<typeof leaveRequestIdSchema>) {
+  const { t } = await getI18n();
+  const caller = await authorizeAs(EMPLOYEE_ROLES, data?.employeeId);
+  if (!caller) {
+    return { success: false, message: t("actions.forbidden") };
+  }
+
+  const validatedFields = leaveRequestIdSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: t("actions.invalidData") };
+  }
+
+  try {
+    const requestRef = adminDb.collection("leaveRequests").doc(validatedFields.data.requestId);
+    const outcome = await adminDb.runTransaction(async transaction => {
+      const requestSnap = await transaction.get(requestRef);
+      // Employees can only withdraw their own requests, and only before a decision.
+      if (!requestSnap.exists || requestSnap.data()!.employeeId !== caller.uid) return "forbidden";
+      const request = requestSnap.data()!;
+      if (request.status !== "pending") return "decided";
+      transaction.update(requestRef, { status: "cancelled", cancelledAt: FieldValue.serverTimestamp() });
+      return request;
+    });
+
+    if (outcome === "forbidden") {
+      return { success: false, message: t("actions.forbidden") };
+    }
+    if (outcome === "decided") {
+      return { success: false, message: t("actions.leaveAlreadyDecided") };
+    }
+    await recordActivity({
+      actor: caller,
+      action: "leave.cancelled",
+      target: { type: "leaveRequest", id: requestRef.id, label: `${outcome.employeeName}, ${outcome.from} to ${outcome.to}` },
+      before: { status: "pending" },
+      after: { status: "cancelled" },
+    });
+    return { success: true, message: t("actions.leaveCancelled") };
+  } catch (error) {
+    console.error("Error cancelling leave request:", error);
+    return { success: false, message: t("actions.leaveRequestFailed") };
+  }
+}
+
+// Approving deducts the working days from the employee's balance and marks them on leave in
+// attendance. Days that already have an attendance record, such as a day the employee
+// checked in, are left alone and not deducted.
+export async function decideLeaveRequest(data: z.input<typeof leaveDecisionSchema>) {
+  const caller = await authorize(PEOPLE_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = leaveDecisionSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid data." };
+  }
+
+  const { requestId, decision, note } = validatedFields.data;
+
+  try {
+    const requestRef = adminDb.collection("leaveRequests").doc(requestId);
+    const outcome = await adminDb.runTransaction(async transaction => {
+      const requestSnap = await transaction.get(requestRef);
+      if (!requestSnap.exists) return { error: "Leave request not found." };
+      const request = requestSnap.data()!;
+      if (request.status !== "pending") return { error: `This request has already been ${request.status}.` };
+
+      const update: Record<string, unknown> = {
+        status: decision,
+        decidedById: caller.uid,
+        decidedByName: displayName(caller),
+        decisionNote: note,
+      };
+      if (decision === "approved") {
+        const type: LeaveType = request.type;
+        const balanceRef = leaveBalanceRef(request.employeeId, Number(request.from.slice(0, 4)));
+        // Holidays added since the request was made are no longer deducted.
+        const days = leaveDays(request.from, request.to, await loadWorkCalendar(Number(request.from.slice(0, 4)), transaction));
+        const attendanceRefs = days.map(day => adminDb.collection("attendance").doc(attendanceRecordId(request.employeeId, day)));
+        const [balanceSnap, ...attendanceSnaps] = await transaction.getAll(balanceRef, ...attendanceRefs);
+
+        const leaveDaysToMark = days.filter((_, index) => !attendanceSnaps[index].exists);
+        const { remaining } = leaveBalance(balanceSnap.exists ? balanceSnap.data()!.used ?? {} : {}, type);
+        if (remaining !== null && leaveDaysToMark.length > remaining) {
+          return { error: `${request.employeeName} has only ${remaining} days of ${LEAVE_TYPE_LABELS[type].toLowerCase()} left.` };
+        }
+
+        transaction.set(balanceRef, {
+          employeeId: request.employeeId,
+          year: Number(request.from.slice(0, 4)),
+          used: { [type]: FieldValue.increment(leaveDaysToMark.length) },
+          updatedAt: FieldValue.serverTimestamp(),
+        }, { merge: true });
+        for (const day of leaveDaysToMark) {
+          transaction.create(adminDb.collection("attendance").doc(attendanceRecordId(request.employeeId, day)), {
+            employeeId: request.employeeId,
+            employeeName: request.employeeName,
+            day,
+            status: "leave",
+            leaveType: type,
+            leaveRequestId: requestId,
+            date: Timestamp.fromDate(new Date(`${day}T00:00:00+05:30`)),
+          });
+        }
+        update.deductedDays = leaveDaysToMark.length;
+      }
+      transaction.update(requestRef, { ...update, decidedAt: FieldValue.serverTimestamp() });
+      return { request, update };
+    });
+
+    if ("error" in outcome) {
+      return { success: false, message: outcome.error };
+    }
+    const { request, update } = outcome;
+    await recordActivity({
+      actor: caller,
+      action: decision === "approved" ? "leave.approved" : "leave.rejected",
+      target: { type: "leaveRequest", id: requestId, label: `${request.employeeName}, ${request.from} to ${request.to}` },
+      before: { status: request.status },
+      after: update,
+    });
+    revalidatePath("/admin/leave");
+    return { success: true, message: `Leave ${decision} for ${request.employeeName}.` };
+  } catch (error) {
+    console.error("Error deciding leave request:", error);
+    return { success: false, message: "Failed to update the leave request." };
+  }
+}
+
+const dsrSchema = employeeIdSchema.extend({
+  description: z.string().min(10, "Description is required."),
+  hasTravelled: z.boolean().default(false),
+  openingKm: z.coerce.number().min(0).optional(),
+  closingKm: z.coerce.number().min(0).optional(),
+}).refine(data => !data.hasTravelled || (data.openingKm !== undefined && data.closingKm !== undefined && data.closingKm > data.openingKm), {
+  message: "Closing KM must be greater than Opening KM.",
+  path: ["closingKm"],
+});
+
+async function loadTravelRate(): Promise<number> {
+  const settingsSnap = await adminDb.collection("settings").doc("travelRate").get();
+  return settingsSnap.data()?.ratePerKm ?? DEFAULT_RATE_PER_KM;
+}
+
+// Saved through the Admin SDK like resumes; storage.rules let only HR, managers and the
+// employee read them.
+const odometerPhotoFile = (employeeId: string, dsrId: string, reading: OdometerReading, photo: File) =>
+  adminStorage.bucket().file(`odometer/${employeeId}/${dsrId}-${reading}.${photo.type.split("/")[1]}`);
+
+async function saveOdometerPhoto(employeeId: string, dsrId: string, reading: OdometerReading, photo: File) {
+  const photoRef = odometerPhotoFile(employeeId, dsrId, reading, photo);
+  await photoRef.save(Buffer.from(await photo.arrayBuffer()), { contentType: photo.type });
+  return getDownloadURL(photoRef);
+}
+
+// A DSR with travel also opens a claim for the distance at the current rate, which HR
+// approves or rejects from /admin/travel. The claim shares the DSR's id.
+export async function submitDsr(formData: FormData) {
+  const { t, formatCurrency } = await getI18n();
+  const caller = await authorizeAs(EMPLOYEE_ROLES, formData.get("employeeId"));
+  if (!caller) {
+    return { success: false, message: t("actions.forbidden") };
+  }
+
+  const hasTravelled = formData.get("hasTravelled") === "true";
+  const validatedFields = dsrSchema.safeParse({
+    employeeId: formData.get("employeeId"),
+    description: formData.get("description"),
+    hasTravelled,
+    openingKm: hasTravelled ? formData.get("openingKm") : undefined,
+    closingKm: hasTravelled ? formData.get("closingKm") : undefined,
+  });
+   if (!validatedFields.success) {
+    return { success: false, message: t("actions.invalidData"), errors: validatedFields.error.flatten().fieldErrors, };
+  }
+
+  const { employeeId, openingKm, closingKm, ...details } = validatedFields.data;
+  const distanceKm = openingKm !== undefined && closingKm !== undefined ? travelDistance(openingKm, closingKm) : 0;
+  if (distanceKm > MAX_TRAVEL_KM_PER_DAY) {
+    return { success: false, message: t("actions.travelTooFar", { max: MAX_TRAVEL_KM_PER_DAY }) };
+  }
+  const photos = hasTravelled
+    ? ODOMETER_READINGS
+        .map(reading => ({ reading, photo: formData.get(`${reading}Photo`) }))
+        .filter((entry): entry is { reading: OdometerReading; photo: File } => entry.photo instanceof File && entry.photo.size > 0)
+    : [];
+  if (photos.some(({ photo }) => photo.size > MAX_ODOMETER_PHOTO_BYTES || !ODOMETER_PHOTO_TYPES.includes(photo.type))) {
+    return { success: false, message: t("actions.odometerPhotoInvalid") };
+  }
+
+  const dsrRef = adminDb.collection("dsr").doc();
+  // Photos saved for a DSR that then isn't saved would belong to nothing.
+  const removePhotos = () => Promise.all(photos.map(({ reading, photo }) =>
+    odometerPhotoFile(employeeId, dsrRef.id, reading, photo).delete({ ignoreNotFound: true })
+  )).catch(cleanupError => console.error("Error removing odometer photos:", cleanupError));
+
+  let committed = false;
+  try {
+    const day = attendanceDay();
+    let claim: Omit<TravelClaim, "id"> | null = null;
+    if (openingKm !== undefined && closingKm !== undefined) {
+      const ratePerKm = await loadTravelRate();
+      const photoUrls = new Map(await Promise.all(
+        photos.map(async ({ reading, photo }) => [reading, await saveOdometerPhoto(employeeId, dsrRef.id, reading, photo)] as const)
+      ));
+      claim = {
+        employeeId,
+        employeeName: displayName(caller),
+        day,
+        openingKm,
+        closingKm,
+        distanceKm,
+        ratePerKm,
+        amount: claimAmount(distanceKm, ratePerKm),
+        openingPhotoUrl: photoUrls.get("opening") ?? null,
+        closingPhotoUrl: photoUrls.get("closing") ?? null,
+        status: "pending",
+      };
+    }
+
+    // The daily limit covers every claim of the day, not just this DSR's, and readings must
+    // carry on from the last claim: both are checked in the transaction so two DSRs sent
+    // together can't each pass on their own.
+    const outcome = await adminDb.runTransaction(async transaction => {
+      if (claim) {
+        const claimsRef = adminDb.collection("travelClaims");
+        const [daySnap, lastSnap] = await Promise.all([
+          transaction.get(claimsRef.where("employeeId", "==", employeeId).where("day", "==", day)),
+          transaction.get(claimsRef
+            .where("employeeId", "==", employeeId)
+            .where("status", "in", ["pending", "approved"])
+            .orderBy("closingKm", "desc")
+            .limit(1)),
+        ]);
+        const claimedKm = daySnap.docs
+          .filter(claimDoc => claimDoc.data().status !== "rejected")
+          .reduce((total, claimDoc) => total + claimDoc.data().distanceKm, 0);
+        if (claimedKm + claim.distanceKm > MAX_TRAVEL_KM_PER_DAY) {
+          return { error: t("actions.travelTooFar", { max: MAX_TRAVEL_KM_PER_DAY }) };
+        }
+        const lastClosingKm: number | undefined = lastSnap.docs[0]?.data().closingKm;
+        if (lastClosingKm !== undefined && claim.openingKm < lastClosingKm) {
+          return { error: t("actions.openingBelowLastClosing", { km: lastClosingKm }) };
+        }
+        transaction.set(claimsRef.doc(dsrRef.id), { ...claim, submittedAt: FieldValue.serverTimestamp() });
+      }
+      transaction.set(dsrRef, {
+        ...validatedFields.data,
+        employeeName: displayName(caller),
+        day,
+        date: FieldValue.serverTimestamp(),
+      });
+      return {};
+    });
+    if ("error" in outcome) {
+      await removePhotos();
+      return { success: false, message: outcome.error };
+    }
+    committed = true;
+
+    await recordActivity({
+      actor: caller,
+      action: "dsr.submitted",
+      target: { type: "dsr", id: dsrRef.id, label: displayName(caller) },
+      after: claim
+        ? { ...details, openingKm, closingKm, distanceKm, ratePerKm: claim.ratePerKm, amount: claim.amount }
+        : details,
+    });
+    return {
+      success: true,
+      message: claim
+        ? t("actions.dsrSubmittedWithClaim", { amount: formatCurrency(claim.amount, 2), distance: distanceKm })
+        : t("actions.dsrSubmitted"),
+      dsrId: dsrRef.id,
+    };
+  } catch (error) {
+    console.error("Error submitting DSR:", error);
+    if (!committed) await removePhotos();
+    return { success: false, message: t("actions.dsrFailed") };
+  }
+}
+
+// The per-km rate for the estimate on the DSR page.
+export async function getTravelRate() {
+  const { t } = await getI18n();
+  if (!(await authorize(EMPLOYEE_ROLES))) {
+    return { success: false, message: t("actions.forbidden"), ratePerKm: null };
+  }
+
+  try {
+    return { success: true, ratePerKm: await loadTravelRate() };
+  } catch (error) {
+    console.error("Error fetching travel rate:", error);
+    return { success: false, message: t("actions.travelRateFailed"), ratePerKm: null };
+  }
+}
+
+const travelRateSchema = z.object({
+  ratePerKm: z.coerce.number().positive().max(100),
+});
+
+export async function updateTravelRate(data: z.input<typeof travelRateSchema>) {
+  const caller = await authorize(PEOPLE_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = travelRateSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Enter a rate between ₹0 and ₹100 per km." };
+  }
+
+  try {
+    const { ratePerKm } = validatedFields.data;
+    const before = await loadTravelRate();
+    await adminDb.collection("settings").doc("travelRate").set({
+      ratePerKm,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    await recordActivity({
+      actor: caller,
+      action: "settings.travelRateChanged",
+      target: { type: "settings", id: "travelRate", label: "Travel rate" },
+      before: { ratePerKm: before },
+      after: { ratePerKm },
+    });
+    return { success: true, message: `Travel is now paid at ₹${ratePerKm} per km. Claims already made keep their rate.` };
+  } catch (error) {
+    console.error("Error updating travel rate:", error);
+    return { success: false, message: "Failed to update the travel rate." };
+  }
+}
+
+const travelDecisionSchema = z.object({
+  claimId: z.string().min(1),
+  decision: z.enum(["approved", "rejected"]),
+  note: z.string().trim().max(500).default(""),
+});
+
+export async function decideTravelClaim(data: z.input<typeof travelDecisionSchema>) {
+  const caller = await authorize(PEOPLE_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = travelDecisionSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid data." };
+  }
+
+  const { claimId, decision, note } = validatedFields.data;
+
+  try {
+    const claimRef = adminDb.collection("travelClaims").doc(claimId);
+    const outcome = await adminDb.runTransaction(async transaction => {
+      const claimSnap = await transaction.get(claimRef);
+      if (!claimSnap.exists) return { error: "Travel claim not found." };
+      const claim = claimSnap.data()!;
+      if (claim.status !== "pending") return { error: `This claim has already been ${claim.status}.` };
+
+      const update = {
+        status: decision,
+        decidedById: caller.uid,
+        decidedByName: displayName(caller),
+        decisionNote: note,
+      };
+      transaction.update(claimRef, { ...update, decidedAt: FieldValue.serverTimestamp() });
+      return { claim, update };
+    });
+
+    if ("error" in outcome) {
+      return { success: false, message: outcome.error };
+    }
+    const { claim, update } = outcome;
+    await recordActivity({
+      actor: caller,
+      action: decision === "approved" ? "travel.approved" : "travel.rejected",
+      target: { type: "travelClaim", id: claimId, label: `${claim.employeeName}, ${claim.day}` },
+      before: { status: claim.status },
+      after: { ...update, amount: claim.amount },
+    });
+    revalidatePath("/admin/travel");
+    return { success: true, message: `Travel claim of ₹${claim.amount} ${decision} for ${claim.employeeName}.` };
+  } catch (error) {
+    console.error("Error deciding travel claim:", error);
+    return { success: false, message: "Failed to update the travel claim." };
+  }
+}
+
+const travelStatementSchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/),
+  employeeId: z.string().optional(),
+});
+
+// The month's claims as a CSV for payroll, grouped by employee with the approved total after
+// each employee's trips. Only approved claims are paid.
+export async function exportTravelStatement(data: z.infer<typeof travelStatementSchema>) {
+  const caller = await authorize(PEOPLE_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = travelStatementSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid filters." };
+  }
+
+  try {
+    const { month, employeeId } = validatedFields.data;
+    const days = monthDays(month);
+    const claimsSnap = await adminDb.collection("travelClaims")
+      .where("day", ">=", days[0])
+      .where("day", "<=", days[days.length - 1])
+      .get();
+    const claims = claimsSnap.docs
+      .map(doc => doc.data())
+      .filter(claim => !employeeId || claim.employeeId === employeeId)
+      .sort((a, b) => a.employeeName.localeCompare(b.employeeName) || a.day.localeCompare(b.day));
+
+    const lines = [
+      ["Employee", "Date", "Opening KM", "Closing KM", "Distance (km)", "Rate (₹/km)", "Amount (₹)", "Status", "Decided By", "Note"].map(csvCell).join(","),
+    ];
+    const byEmployee = new Map<string, DocumentData[]>();
+    for (const claim of claims) {
+      byEmployee.set(claim.employeeId, [...(byEmployee.get(claim.employeeId) ?? []), claim]);
+    }
+    for (const employeeClaims of byEmployee.values()) {
+      for (const claim of employeeClaims) {
+        lines.push([
+          claim.employeeName, claim.day, claim.openingKm, claim.closingKm, claim.distanceKm, claim.ratePerKm, claim.amount,
+          TRAVEL_CLAIM_STATUS_LABELS[claim.status as TravelClaimStatus], claim.decidedByName ?? "", claim.decisionNote ?? "",
+        ].map(csvCell).join(","));
+      }
+      const { approved } = travelStatementTotals(employeeClaims as TravelClaim[]);
+      lines.push([employeeClaims[0].employeeName, "Total approved", "", "", approved.distanceKm, "", approved.amount, "", "", ""].map(csvCell).join(","));
+    }
+
+    const filename = `travel-statement-${month}.csv`;
+    await recordActivity({
+      actor: caller,
+      action: "travel.exported",
+      target: { type: "travelClaim", id: filename, label: `${claims.length} claims, ${month}` },
+      after: { month, employeeId: employeeId ?? null },
+    });
+    return {
+      success: true,
+      filename,
+      mimeType: "text/csv",
+      data: Buffer.from(lines.join("\r\n")).toString("base64"),
+    };
+  } catch (error) {
+    console.error("Error exporting travel statement:", error);
+    return { success: false, message: "Failed to export the travel statement." };
+  }
+}
+
+const callLogSchema = z.object({
+  clientName: z.string().min(2, "Client name is required."),
+  clientMobile: z.string().min(10, "A valid mobile number is required."),
+  topic: z.string().min(5, "Topic is required."),
+  duration: z.coerce.number().min(1, "Duration must be at least 1 minute."),
+  employeeId: z.string(),
+});
+
+
+export async function logCall(data: z.infer<typeof callLogSchema>) {
+  const { t } = await getI18n();
+  const caller = await authorizeAs(EMPLOYEE_ROLES, data?.employeeId);
+  if (!caller) {
+    return { success: false, message: t("actions.forbidden") };
+  }
+
+  const validatedFields = callLogSchema.safeParse(data);
+   if (!validatedFields.success) {
+    return { success: false, message: t("actions.invalidData"), errors: validatedFields.error.flatten().fieldErrors, };
+  }
+  try {
+    const recordRef = await adminDb.collection("callLogs").add({
+      ...validatedFields.data,
+      employeeName: displayName(caller),
+      date: FieldValue.serverTimestamp(),
+    });
+    const { employeeId, ...details } = validatedFields.data;
+    await recordActivity({
+      actor: caller,
+      action: "call.logged",
+      target: { type: "callLog", id: recordRef.id, label: displayName(caller) },
+      after: details,
+    });
+    return { success: true, message: t("actions.callLogged") };
+  } catch (error) {
+    return { success: false, message: t("actions.callFailed") };
+  }
+}
+
+const earningsSchema = z.object({
+  earnings: z.array(z.object({
+    description: z.string().min(3, "Description is required."),
+    amount: z.coerce.number().min(1, "Amount must be greater than 0."),
+  })).min(1, "Please add at least one earning."),
+  employeeId: z.string(),
+});
+
+export async function submitEarnings(data: z.infer<typeof earningsSchema>) {
+  const { t } = await getI18n();
+  const caller = await authorizeAs(EMPLOYEE_ROLES, data?.employeeId);
+  if (!caller) {
+    return { success: false, message: t("actions.forbidden") };
+  }
+
+  const validatedFields = earningsSchema.safeParse(data);
+   if (!validatedFields.success) {
+    console.log(validatedFields.error.flatten().fieldErrors)
+    return { success: false, message: t("actions.invalidData"), errors: validatedFields.error.flatten().fieldErrors, };
+  }
+  try {
+    const earningPromises = validatedFields.data.earnings.map(async earning => {
+       const earningRef = await adminDb.collection("earnings").add({
+        ...earning,
+        employeeId: caller.uid,
+        employeeName: displayName(caller),
+        date: FieldValue.serverTimestamp(),
+      });
+      await recordActivity({
+        actor: caller,
+        action: "earning.submitted",
+        target: { type: "earning", id: earningRef.id, label: displayName(caller) },
+        after: earning,
+      });
+    })
+    await Promise.all(earningPromises);
+    
+    return { success: true, message: t("actions.earningsSubmitted") };
+  } catch (error) {
+    return { success: false, message: t("actions.earningsFailed") };
+  }
+}
+
+const TASK_PRIORITIES = ["High", "Medium", "Low"] as const;
+
+const taskSchema = z.object({
+  employeeId: z.string().min(1),
+  title: z.string().trim().min(1, "Title is required."),
+  description: z.string().trim().min(1, "Description is required."),
+  priority: z.enum(TASK_PRIORITIES),
+});
+
+export async function assignTask(data: z.infer<typeof taskSchema>) {
+  const caller = await authorize(PEOPLE_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = taskSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Title and description are required." };
+  }
+
+  try {
+    const employeeSnap = await adminDb.collection("employees").doc(validatedFields.data.employeeId).get();
+    if (!employeeSnap.exists) {
+      return { success: false, message: "Employee not found." };
+    }
+    const employeeName: string = employeeSnap.data()!.name;
+
+    const task = { ...validatedFields.data, employeeName, status: "pending" };
+    const taskRef = await adminDb.collection("tasks").add({ ...task, assignedAt: FieldValue.serverTimestamp() });
+    await recordActivity({
+      actor: caller,
+      action: "task.assigned",
+      target: { type: "task", id: taskRef.id, label: validatedFields.data.title },
+      after: task,
+    });
+    return { success: true, message: `Task assigned to ${employeeName}` };
+  } catch (error) {
+    console.error("Error assigning task:", error);
+    return { success: false, message: "Failed to assign task." };
+  }
+}
+
+const completeTaskSchema = z.object({
+  taskId: z.string().min(1),
+  employeeId: z.string().min(1),
+});
+
+export async function completeTask(data: z.infer<typeof completeTaskSchema>) {
+  const { t } = await getI18n();
+  const caller = await authorizeAs(EMPLOYEE_ROLES, data?.employeeId);
+  if (!caller) {
+    return { success: false, message: t("actions.forbidden") };
+  }
+
+  const validatedFields = completeTaskSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: t("actions.invalidData") };
+  }
+
+  try {
+    const taskRef = adminDb.collection("tasks").doc(validatedFields.data.taskId);
+    const taskSnap = await taskRef.get();
+    // Employees can only close tasks assigned to them.
+    if (!taskSnap.exists || taskSnap.data()?.employeeId !== caller.uid) {
+      return { success: false, message: t("actions.forbidden") };
+    }
+    const { title, status } = taskSnap.data()!;
+
+    await taskRef.update({ status: "completed" });
+    await recordActivity({
+      actor: caller,
+      action: "task.completed",
+      target: { type: "task", id: taskRef.id, label: title },
+      before: { status },
+      after: { status: "completed" },
+    });
+    return { success: true, message: t("employee.pendingWork.completed") };
+  } catch (error) {
+    console.error("Error completing task:", error);
+    return { success: false, message: t("employee.pendingWork.updateFailed") };
+  }
+}
+
+const registrationSchema = z.object({
+  fullName: z.string().min(3, "Full name must be at least 3 characters."),
+  mobile: z.string().min(10, "A valid 10-digit mobile number is required.").max(10, "A valid 10-digit mobile number is required."),
+  personalEmail: z.string().email("Please enter a valid personal email."),
+  userId: z.string().min(3, "User ID is required.").refine(val => val.endsWith('@zensolve.in'), { message: "User ID must end with @zensolve.in" }),
+  district: z.string().min(2, "District is required."),
+  state: z.string().min(2, "State is required."),
+  pincode: z.string().length(6, "Pincode must be 6 digits."),
+});
+
+// Accounts are created through the Admin SDK, which leaves the signed-in admin's own session
+// alone, and without a password: the new user picks one through the returned link.
+async function passwordSetupLink(email: string, continuePath: string) {
+  return adminAuth.generatePasswordResetLink(email, { url: `${SITE_URL}${continuePath}` });
+}
+
+const passwordSetupSchema = z.object({
+  email: z.string().email(),
+});
+
+// A fresh setup link for an existing account, for when the first one expired or was lost.
+export async function createPasswordSetupLink(data: z.infer<typeof passwordSetupSchema>) {
+  const caller = await authorize(PEOPLE_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = passwordSetupSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid email." };
+  }
+
+  try {
+    const { email } = validatedFields.data;
+    const user = await adminAuth.getUserByEmail(email);
+    const continuePath = hasAnyRole(storedRoles(user.customClaims), EMPLOYEE_ROLES) ? "/employee/login" : "/login";
+    const link = await passwordSetupLink(email, continuePath);
+    await recordActivity({
+      actor: caller,
+      action: "account.setupLinkCreated",
+      target: { type: "user", id: user.uid, label: email },
+    });
+    return { success: true, message: "Link created.", passwordSetupLink: link };
+  } catch (error: any) {
+    console.error("Error creating password setup link:", error);
+    if (error.code === 'auth/user-not-found') {
+      return { success: false, message: "No account exists for this email." };
+    }
+    return { success: false, message: "Failed to create the link." };
+  }
+}
+
+export async function registerEmployee(data: z.infer<typeof registrationSchema>) {
+  const caller = await authorize(PEOPLE_ROLES);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = registrationSchema.safeParse(data);
+
+  if (!validatedFields.success) {
+    return {
+      success: false,
+      message: "Invalid registration data. Please check all fields.",
+      errors: validatedFields.error.flatten().fieldErrors,
+    };
+  }
+
+  let createdUid: string | null = null;
+  try {
+    const { fullName, userId, ...otherData } = validatedFields.data;
+
+    const user = await adminAuth.createUser({ email: userId, displayName: fullName });
+    createdUid = user.uid;
+    await addUserRoles(user.uid, ["employee"]);
 
     // Save employee data to Firestore
-    await setDoc(doc(db, "employees", user.uid), {
+    const employee = {
       name: fullName,
       userId: userId,
       mobile: otherData.mobile,
@@ -364,8 +2718,15 @@ export async function registerEmployee(data: z.infer<typeof registrationSchema>)
       district: otherData.district,
       state: otherData.state,
       pincode: otherData.pincode,
-      createdAt: serverTimestamp(),
       status: 'active', // Default status
+    };
+    await adminDb.collection("employees").doc(user.uid).set({ ...employee, createdAt: FieldValue.serverTimestamp() });
+    const link = await passwordSetupLink(userId, "/employee/login");
+    await recordActivity({
+      actor: caller,
+      action: "employee.registered",
+      target: { type: "employee", id: user.uid, label: fullName },
+      after: employee,
     });
 
     revalidatePath("/admin/employees");
@@ -374,20 +2735,26 @@ export async function registerEmployee(data: z.infer<typeof registrationSchema>)
       success: true,
       message: "Employee registered successfully!",
       userId: userId,
-      password: password,
+      passwordSetupLink: link,
     };
 
   } catch (error: any) {
     console.error("Error registering employee:", error);
-    
+
+    // Undo a half-finished registration so the account doesn't exist without an employee
+    // record, and the User ID can be tried again.
+    if (createdUid) {
+      await Promise.all([
+        adminAuth.deleteUser(createdUid),
+        adminDb.collection("employees").doc(createdUid).delete(),
+      ]).catch(rollbackError => console.error("Error rolling back employee registration:", rollbackError));
+    }
+
     let errorMessage = "Failed to register employee. Please try again.";
-    if (error.code === 'auth/email-already-in-use') {
+    if (error.code === 'auth/email-already-exists') {
       errorMessage = "This User ID is already taken. Please try with a different User ID.";
-    } else if (error.code === 'auth/weak-password') {
-        errorMessage = "The password is too weak. It must be at least 6 characters long.";
     }
 
-
     return {
       success: false,
       message: errorMessage,
@@ -400,6 +2767,7 @@ const newsletterSchema = z.object({
 });
 
 export async function subscribeToNewsletter(prevState: any, formData: FormData) {
+  const { t } = await getI18n();
   const validatedFields = newsletterSchema.safeParse({
     email: formData.get('email'),
   });
@@ -407,34 +2775,39 @@ export async function subscribeToNewsletter(prevState: any, formData: FormData)
   if (!validatedFields.success) {
     return {
       success: false,
-      message: "Invalid email address.",
+      message: t("actions.invalidEmail"),
     };
   }
 
   try {
     // Check if email already exists
-    const q = query(collection(db, "newsletterSubscribers"), where("email", "==", validatedFields.data.email));
-    const existingSubscriber = await getDocs(q);
+    const q = adminDb.collection("newsletterSubscribers").where("email", "==", validatedFields.data.email);
+    const existingSubscriber = await q.get();
     if (!existingSubscriber.empty) {
-      return { success: true, message: "You are already subscribed!" };
+      return { success: true, message: t("actions.alreadySubscribed") };
     }
 
-    await addDoc(collection(db, "newsletterSubscribers"), {
+    const subscriberRef = await adminDb.collection("newsletterSubscribers").add({
       email: validatedFields.data.email,
-      subscribedAt: serverTimestamp(),
+      subscribedAt: FieldValue.serverTimestamp(),
+    });
+    await recordActivity({
+      actor: await getSessionUser(),
+      action: "newsletter.subscribed",
+      target: { type: "subscriber", id: subscriberRef.id, label: validatedFields.data.email },
     });
 
     revalidatePath("/admin/newsletter");
     
     return {
       success: true,
-      message: "Thank you for subscribing!",
+      message: t("actions.subscribed"),
     };
   } catch (error) {
     console.error("Error subscribing to newsletter:", error);
     return {
       success: false,
-      message: "Something went wrong. Please try again later.",
+      message: t("actions.genericError"),
     };
   }
 }
@@ -449,76 +2822,578 @@ const membershipApplicationSchema = z.object({
 });
 
 export async function applyForMembership(data: z.infer<typeof membershipApplicationSchema>) {
+    const { t } = await getI18n();
     const validatedFields = membershipApplicationSchema.safeParse(data);
 
     if (!validatedFields.success) {
         return {
             success: false,
-            message: "Invalid data. Please check all fields.",
+            message: t("actions.invalidFields"),
             errors: validatedFields.error.flatten().fieldErrors,
         };
     }
 
     try {
-        const docRef = await addDoc(collection(db, "memberships"), {
+        const docRef = await adminDb.collection("memberships").add({
             ...validatedFields.data,
             status: "pending",
-            submittedAt: serverTimestamp(),
+            submittedAt: FieldValue.serverTimestamp(),
+        });
+        await recordActivity({
+            actor: await getSessionUser(),
+            action: "membership.applied",
+            target: { type: "membership", id: docRef.id, label: validatedFields.data.name },
+            after: { ...validatedFields.data, status: "pending" },
         });
         
         return {
             success: true,
-            message: "Application submitted successfully!",
+            message: t("actions.membershipSubmitted"),
             membershipId: docRef.id,
         };
     } catch (error) {
         console.error("Error submitting membership application:", error);
         return {
             success: false,
-            message: "Failed to submit application. Please try again.",
+            message: t("actions.applicationFailed"),
         };
     }
 }
 
 
 const verifyMembershipSchema = z.object({
-  membershipId: z.string(),
-  email: z.string().email(),
-  password: z.string(), // The phone number will be used as password
+  membershipId: z.string().min(1),
 });
 
+// Marks a membership as paid and gives the member an account, or the member role on the
+// account they already have.
 export async function verifyMembership(data: z.infer<typeof verifyMembershipSchema>) {
+    const caller = await authorize(["hr"]);
+    if (!caller) {
+      return FORBIDDEN;
+    }
+
     const validatedFields = verifyMembershipSchema.safeParse(data);
 
     if (!validatedFields.success) {
         return { success: false, message: "Invalid data." };
     }
 
-    const { membershipId, email, password } = validatedFields.data;
+    const { membershipId } = validatedFields.data;
 
+    const membershipRef = adminDb.collection("memberships").doc(membershipId);
+    let claimedFrom: string | null = null;
     try {
-        // Create user in Firebase Auth
-        await createUserWithEmailAndPassword(auth, email, password);
+        // Marking the membership verified claims it, so two HR users verifying at once
+        // cannot both go on to create the account.
+        const outcome = await adminDb.runTransaction(async transaction => {
+            const membershipSnap = await transaction.get(membershipRef);
+            if (!membershipSnap.exists) {
+                return { error: "Membership application not found." };
+            }
+            const { email, name, status } = membershipSnap.data()!;
+            if (status === "verified") {
+                return { error: "This membership is already verified." };
+            }
+            transaction.update(membershipRef, { status: 'verified' });
+            return { email: email as string, name: name as string, status: status as string };
+        });
+        if ("error" in outcome) {
+            return { success: false, message: outcome.error };
+        }
+        const { email, name, status } = outcome;
+        claimedFrom = status;
 
-        // Update membership status in Firestore
-        const membershipRef = doc(db, "memberships", membershipId);
-        await updateDoc(membershipRef, {
-            status: 'verified'
+        let user = await adminAuth.getUserByEmail(email).catch(error => {
+            if (error.code === 'auth/user-not-found') return null;
+            throw error;
+        });
+        const isNewUser = !user;
+        user ??= await adminAuth.createUser({ email, displayName: name });
+        await addUserRoles(user.uid, ["member"]);
+        claimedFrom = null;
+
+        await recordActivity({
+            actor: caller,
+            action: "membership.verified",
+            target: { type: "membership", id: membershipId, label: name },
+            before: { status, accountId: null },
+            after: { status: 'verified', accountId: user.uid },
         });
-        
         revalidatePath("/admin/memberships");
-        
-        return { success: true, message: "Membership verified and user created." };
 
-    } catch (error: any) {
-        console.error("Error verifying membership:", error);
-        if (error.code === 'auth/email-already-in-use') {
-            // If user already exists, just mark as verified
-            const membershipRef = doc(db, "memberships", membershipId);
-            await updateDoc(membershipRef, { status: 'verified' });
-            revalidatePath("/admin/memberships");
+        if (!isNewUser) {
             return { success: true, message: "User already exists. Membership marked as verified." };
         }
-        return { success: false, message: error.message || "Failed to verify membership." };
+        return {
+            success: true,
+            message: "Membership verified and user created.",
+            email,
+            passwordSetupLink: await passwordSetupLink(email, "/login"),
+        };
+
+    } catch (error) {
+        console.error("Error verifying membership:", error);
+        // The account could not be set up, so hand the membership back for another try.
+        if (claimedFrom !== null) {
+            await membershipRef.update({ status: claimedFrom }).catch(revertError =>
+                console.error("Error reverting membership status:", revertError));
+        }
+        return { success: false, message: "Failed to verify membership." };
+    }
+}
+
+
+const faqEntrySchema = z.object({
+  type: z.enum(FAQ_ENTRY_TYPES),
+  title: z.string().trim().min(3, "Title is required."),
+  content: z.string().trim().min(10, "Content must be at least 10 characters."),
+  tags: z.array(z.string().trim().min(1)).max(20).default([]),
+});
+
+function revalidateFaqKnowledge() {
+  revalidateTag("faqKnowledge");
+  revalidatePath("/admin/faq-knowledge");
+}
+
+// Shapes an entry for storage. The embedding is left out when the embedder is unavailable;
+// the FAQ then falls back to keyword retrieval until the entry is re-indexed.
+async function toFaqEntryDocument(entry: z.infer<typeof faqEntrySchema>) {
+  const tags = [...new Set(entry.tags.map(tag => tag.toLowerCase()))];
+  const embedding = await embedText(knowledgeText({ ...entry, tags }));
+  return { ...entry, tags, embedding: embedding ?? null };
+}
+
+// The curated fields of an entry, without the embedding and timestamps.
+const faqAuditFields = ({ type, title, content, tags }: DocumentData) => ({ type, title, content, tags });
+
+async function addFaqEntry(entry: z.infer<typeof faqEntrySchema>) {
+  return adminDb.collection("faqKnowledge").add({ ...await toFaqEntryDocument(entry), createdAt: FieldValue.serverTimestamp(), updatedAt: FieldValue.serverTimestamp() });
+}
+
+export async function saveFaqEntry(entryId: string | null, data: z.input<typeof faqEntrySchema>) {
+  const caller = await authorize(["manager"]);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = faqEntrySchema.safeParse(data);
+  if (!validatedFields.success) {
+    return {
+      success: false,
+      message: "Invalid entry. Please check all fields.",
+      errors: validatedFields.error.flatten().fieldErrors,
+    };
+  }
+
+  try {
+    const entry = validatedFields.data;
+    if (entryId) {
+      const entryRef = adminDb.collection("faqKnowledge").doc(entryId);
+      const existing = await entryRef.get();
+      const stored = await toFaqEntryDocument(entry);
+      await entryRef.update({ ...stored, updatedAt: FieldValue.serverTimestamp() });
+      await recordActivity({
+        actor: caller,
+        action: "faq.entryUpdated",
+        target: { type: "faqEntry", id: entryId, label: entry.title },
+        before: existing.exists ? faqAuditFields(existing.data()!) : null,
+        after: faqAuditFields(stored),
+      });
+    } else {
+      const entryRef = await addFaqEntry(entry);
+      await recordActivity({
+        actor: caller,
+        action: "faq.entryCreated",
+        target: { type: "faqEntry", id: entryRef.id, label: entry.title },
+        after: faqAuditFields(entry),
+      });
+    }
+    revalidateFaqKnowledge();
+    return { success: true, message: entryId ? "Entry updated." : "Entry added." };
+  } catch (error) {
+    console.error("Error saving FAQ entry:", error);
+    return { success: false, message: "Failed to save entry. Please try again." };
+  }
+}
+
+export async function deleteFaqEntry(entryId: string) {
+  const caller = await authorize(["manager"]);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  try {
+    const entryRef = adminDb.collection("faqKnowledge").doc(entryId);
+    const existing = await entryRef.get();
+    await entryRef.delete();
+    await recordActivity({
+      actor: caller,
+      action: "faq.entryDeleted",
+      target: { type: "faqEntry", id: entryId, label: existing.data()?.title },
+      before: existing.exists ? faqAuditFields(existing.data()!) : null,
+    });
+    revalidateFaqKnowledge();
+    return { success: true, message: "Entry deleted." };
+  } catch (error) {
+    console.error("Error deleting FAQ entry:", error);
+    return { success: false, message: "Failed to delete entry." };
+  }
+}
+
+// Turns a question from the FAQ log into a curated entry and marks every logged
+// asking of it as promoted, so it drops off the analytics "needs attention" list.
+export async function promoteFaqQuestion(normalizedQuestion: string, data: z.input<typeof faqEntrySchema>) {
+  const caller = await authorize(["manager"]);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = faqEntrySchema.safeParse(data);
+  if (!validatedFields.success) {
+    return {
+      success: false,
+      message: "Invalid entry. Please check all fields.",
+      errors: validatedFields.error.flatten().fieldErrors,
+    };
+  }
+
+  try {
+    const entryRef = await addFaqEntry(validatedFields.data);
+    const logs = await adminDb.collection("faqQuestions").where("normalizedQuestion", "==", normalizedQuestion).get();
+    const batch = adminDb.batch();
+    logs.docs.forEach(logDoc => batch.update(logDoc.ref, { promotedEntryId: entryRef.id }));
+    await batch.commit();
+    await recordActivity({
+      actor: caller,
+      action: "faq.questionPromoted",
+      target: { type: "faqEntry", id: entryRef.id, label: validatedFields.data.title },
+      after: { ...faqAuditFields(validatedFields.data), question: normalizedQuestion, askedTimes: logs.size },
+    });
+    revalidateFaqKnowledge();
+    revalidatePath("/admin/faq-analytics");
+    return { success: true, message: "Question added to the knowledge base." };
+  } catch (error) {
+    console.error("Error promoting FAQ question:", error);
+    return { success: false, message: "Failed to add the question to the knowledge base." };
+  }
+}
+
+// Records a thumbs up or down on an answer from the FAQ chat. Only the visitor the answer
+// was sent to has its feedback token, and each answer can be rated once.
+export async function rateFaqAnswer(logId: string, feedbackToken: string, feedback: FaqFeedback) {
+  if (!logId || !feedbackToken || !FAQ_FEEDBACK.includes(feedback)) {
+    return { success: false, message: "Invalid feedback." };
+  }
+
+  try {
+    const logRef = adminDb.collection("faqQuestions").doc(logId);
+    const outcome = await adminDb.runTransaction(async transaction => {
+      const logSnap = await transaction.get(logRef);
+      if (!logSnap.exists || logSnap.data()!.feedbackTokenHash !== hashFeedbackToken(feedbackToken)) {
+        return { error: "Invalid feedback." };
+      }
+      if (logSnap.data()!.feedback) return { error: "This answer has already been rated." };
+      transaction.update(logRef, { feedback, feedbackAt: FieldValue.serverTimestamp() });
+      return {};
+    });
+    if ("error" in outcome) {
+      return { success: false, message: outcome.error };
+    }
+    await recordActivity({
+      actor: await getSessionUser(),
+      action: "faq.answerRated",
+      target: { type: "faqLog", id: logId },
+      after: { feedback },
+    });
+    return { success: true, message: "Thanks for your feedback!" };
+  } catch (error) {
+    console.error("Error saving FAQ feedback:", error);
+    return { success: false, message: "Could not save your feedback." };
+  }
+}
+
+// Copies the company facts the FAQ used to have built in, so a new knowledge base isn't empty.
+export async function importStarterFaqKnowledge() {
+  const caller = await authorize(["manager"]);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  try {
+    const existing = await adminDb.collection("faqKnowledge").limit(1).get();
+    if (!existing.empty) {
+      return { success: false, message: "The knowledge base already has entries." };
+    }
+
+    const batch = adminDb.batch();
+    for (const entry of STARTER_FAQ_KNOWLEDGE) {
+      batch.set(adminDb.collection("faqKnowledge").doc(), {
+        ...await toFaqEntryDocument(entry),
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+    await batch.commit();
+    await recordActivity({
+      actor: caller,
+      action: "faq.starterImported",
+      target: { type: "faqEntry", id: "starter", label: "Starter knowledge" },
+      after: { entries: STARTER_FAQ_KNOWLEDGE.length },
+    });
+    revalidateFaqKnowledge();
+    return { success: true, message: `Imported ${STARTER_FAQ_KNOWLEDGE.length} starter entries.` };
+  } catch (error) {
+    console.error("Error importing starter FAQ knowledge:", error);
+    return { success: false, message: "Failed to import starter entries." };
+  }
+}
+
+// Computes embeddings for entries saved while the embedder was unavailable.
+export async function reindexFaqKnowledge() {
+  const caller = await authorize(["manager"]);
+  if (!caller) {
+    return FORBIDDEN;
+  }
+
+  try {
+    const snapshot = await adminDb.collection("faqKnowledge").get();
+    let indexed = 0;
+    for (const entryDoc of snapshot.docs) {
+      const { title, content, tags = [], embedding } = entryDoc.data();
+      if (embedding?.length) continue;
+      const newEmbedding = await embedText(knowledgeText({ title, content, tags }));
+      if (!newEmbedding) {
+        return { success: false, message: "The embedding service is unavailable. Entries will use keyword search until re-indexed." };
+      }
+      await entryDoc.ref.update({ embedding: newEmbedding });
+      indexed++;
+    }
+    if (indexed > 0) {
+      await recordActivity({
+        actor: caller,
+        action: "faq.reindexed",
+        target: { type: "faqEntry", id: "all", label: "Knowledge base" },
+        after: { indexed },
+      });
+    }
+    revalidateFaqKnowledge();
+    return { success: true, message: indexed > 0 ? `Indexed ${indexed} entries.` : "All entries are already indexed." };
+  } catch (error) {
+    console.error("Error re-indexing FAQ knowledge:", error);
+    return { success: false, message: "Failed to re-index entries." };
+  }
+}
+
+
+// Only super admins manage roles; authorize([]) lets nobody else through.
+export async function listUserRoles() {
+  if (!(await authorize([]))) {
+    return { ...FORBIDDEN, users: [] as UserRoleSummary[] };
+  }
+
+  try {
+    const users = await listUsersWithRoles();
+    return { success: true, users };
+  } catch (error) {
+    console.error("Error listing users:", error);
+    return { success: false, message: "Failed to load users.", users: [] as UserRoleSummary[] };
+  }
+}
+
+const userRolesSchema = z.object({
+  uid: z.string().min(1),
+  roles: z.array(z.enum(ROLES)),
+});
+
+export async function updateUserRoles(data: z.infer<typeof userRolesSchema>) {
+  const admin = await authorize([]);
+  if (!admin) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = userRolesSchema.safeParse(data);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid data." };
+  }
+
+  const { uid, roles } = validatedFields.data;
+  if (uid === admin.uid && !roles.includes("super-admin")) {
+    return { success: false, message: "You can't remove your own super admin role." };
+  }
+
+  try {
+    const previousRoles = await getStoredRoles(uid);
+    const savedRoles = await setUserRoles(uid, roles);
+    const { email } = await adminAuth.getUser(uid);
+    await recordActivity({
+      actor: admin,
+      action: "roles.changed",
+      target: { type: "user", id: uid, label: email },
+      before: { roles: previousRoles },
+      after: { roles: savedRoles },
+    });
+    return { success: true, message: "Roles updated.", roles: savedRoles };
+  } catch (error) {
+    console.error("Error updating roles:", error);
+    return { success: false, message: "Failed to update roles." };
+  }
+}
+
+
+const activityLogFiltersSchema = z.object({
+  q: z.string().trim().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  targetType: z.enum(AUDIT_TARGET_TYPES).optional(),
+  actor: z.string().trim().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+});
+
+const ACTIVITY_PAGE_SIZE = 25;
+const ACTIVITY_SCAN_BATCH = 100;
+
+// The date range, action and target type go to Firestore (see firestore.indexes.json).
+// The actor and text search match parts of several fields, so they are applied to each
+// entry read in matchesActivityFilters.
+function activityLogsQuery(filters: ActivityLogFilters): Query {
+  let logsQuery: Query = adminDb.collection("activityLogs");
+  if (filters.action) logsQuery = logsQuery.where("action", "==", filters.action);
+  if (filters.targetType) logsQuery = logsQuery.where("targetType", "==", filters.targetType);
+  if (filters.from) logsQuery = logsQuery.where("timestamp", ">=", Timestamp.fromMillis(dayStart(filters.from)));
+  if (filters.to) logsQuery = logsQuery.where("timestamp", "<=", Timestamp.fromMillis(dayEnd(filters.to)));
+  return logsQuery;
+}
+
+const needsActivityScan = (filters: ActivityLogFilters) => Boolean(filters.actor || filters.q);
+
+function toActivityLogEntry(logDoc: QueryDocumentSnapshot): ActivityLogEntry {
+  const { timestamp, changes, ...data } = logDoc.data();
+  return {
+    ...data,
+    id: logDoc.id,
+    changes: changes ?? {},
+    timestamp: timestamp ? timestamp.toDate().toISOString() : null,
+  } as ActivityLogEntry;
+}
+
+// The timestamp and id of the last entry shown.
+type ActivityCursor = [seconds: number, nanoseconds: number, id: string];
+
+const decodeActivityCursor = (cursor: string): ActivityCursor | null => {
+  try {
+    const key = JSON.parse(cursor);
+    return Array.isArray(key) && key.length === 3 ? key as ActivityCursor : null;
+  } catch {
+    return null;
+  }
+};
+
+// Reads matching entries newest first from `after` until more than `wanted` pass the
+// in-memory filters or the log runs out. Without those filters every entry read matches,
+// so a page is a single read of one entry more than it shows.
+async function scanActivityLogs(filters: ActivityLogFilters, after: ActivityCursor | null, wanted: number) {
+  const batchSize = needsActivityScan(filters) ? ACTIVITY_SCAN_BATCH : Math.min(wanted + 1, ACTIVITY_SCAN_BATCH);
+  const orderedQuery = activityLogsQuery(filters)
+    .orderBy("timestamp", "desc")
+    .orderBy(FieldPath.documentId(), "desc")
+    .limit(batchSize);
+
+  const matches: { entry: ActivityLogEntry; key: ActivityCursor }[] = [];
+  while (matches.length <= wanted) {
+    const snapshot = await (after ? orderedQuery.startAfter(new Timestamp(after[0], after[1]), after[2]) : orderedQuery).get();
+    for (const logDoc of snapshot.docs) {
+      const { seconds, nanoseconds } = logDoc.data().timestamp as Timestamp;
+      after = [seconds, nanoseconds, logDoc.id];
+      const entry = toActivityLogEntry(logDoc);
+      if (matchesActivityFilters(entry, filters)) matches.push({ entry, key: after });
     }
+    if (snapshot.size < batchSize) break;
+  }
+  return matches;
+}
+
+// Uses an aggregation query when Firestore applies every filter, and a projection of the
+// searched fields otherwise.
+async function countActivityLogs(filters: ActivityLogFilters): Promise<number> {
+  if (!needsActivityScan(filters)) {
+    return (await activityLogsQuery(filters).count().get()).data().count;
+  }
+  const snapshot = await activityLogsQuery(filters)
+    .select("action", "targetType", "timestamp", "actorId", "actorName", "actorEmail", "targetId", "targetLabel", "ip", "changes")
+    .get();
+  return snapshot.docs.filter(logDoc => matchesActivityFilters(toActivityLogEntry(logDoc), filters)).length;
+}
+
+export async function searchActivityLogs(filtersInput: ActivityLogFilters, cursor: string | null = null) {
+  if (!(await authorize(["manager"]))) {
+    return { ...FORBIDDEN, entries: [] as ActivityLogEntry[], total: 0, nextCursor: null };
+  }
+
+  const validatedFields = activityLogFiltersSchema.safeParse(filtersInput);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid filters.", entries: [] as ActivityLogEntry[], total: 0, nextCursor: null };
+  }
+
+  try {
+    const after = cursor ? decodeActivityCursor(cursor) : null;
+    const [matches, total] = await Promise.all([
+      scanActivityLogs(validatedFields.data, after, ACTIVITY_PAGE_SIZE),
+      countActivityLogs(validatedFields.data),
+    ]);
+    const hasMore = matches.length > ACTIVITY_PAGE_SIZE;
+
+    return {
+      success: true,
+      entries: matches.slice(0, ACTIVITY_PAGE_SIZE).map(({ entry }) => entry),
+      total,
+      nextCursor: hasMore ? JSON.stringify(matches[ACTIVITY_PAGE_SIZE - 1].key) : null,
+    };
+  } catch (error) {
+    console.error("Error searching activity logs:", error);
+    return { success: false, message: "Failed to load the activity log.", entries: [] as ActivityLogEntry[], total: 0, nextCursor: null };
+  }
+}
+
+const ACTIVITY_EXPORT_COLUMNS: { header: string; value: (entry: ActivityLogEntry) => string }[] = [
+  { header: "Time", value: entry => entry.timestamp ?? "" },
+  { header: "Action", value: entry => AUDIT_ACTION_LABELS[entry.action] ?? entry.action },
+  { header: "Actor", value: entry => entry.actorName },
+  { header: "Actor Email", value: entry => entry.actorEmail ?? "" },
+  { header: "Actor ID", value: entry => entry.actorId ?? "" },
+  { header: "Target Type", value: entry => AUDIT_TARGET_TYPE_LABELS[entry.targetType] ?? entry.targetType },
+  { header: "Target", value: entry => entry.targetLabel ?? "" },
+  { header: "Target ID", value: entry => entry.targetId },
+  { header: "Changes", value: entry => JSON.stringify(entry.changes) },
+  { header: "IP Address", value: entry => entry.ip ?? "" },
+  { header: "User Agent", value: entry => entry.userAgent ?? "" },
+];
+
+export async function exportActivityLogs(filtersInput: ActivityLogFilters) {
+  if (!(await authorize(["manager"]))) {
+    return FORBIDDEN;
+  }
+
+  const validatedFields = activityLogFiltersSchema.safeParse(filtersInput);
+  if (!validatedFields.success) {
+    return { success: false, message: "Invalid filters." };
+  }
+
+  try {
+    // Every matching entry, however far back, read a batch at a time.
+    const entries = (await scanActivityLogs(validatedFields.data, null, Infinity)).map(({ entry }) => entry);
+    const rows = [
+      ACTIVITY_EXPORT_COLUMNS.map(column => csvCell(column.header)).join(","),
+      ...entries.map(entry => ACTIVITY_EXPORT_COLUMNS.map(column => csvCell(column.value(entry))).join(",")),
+    ];
+    return {
+      success: true,
+      filename: `activity-log-${new Date().toISOString().slice(0, 10)}.csv`,
+      mimeType: "text/csv",
+      data: Buffer.from(rows.join("\r\n")).toString("base64"),
+    };
+  } catch (error) {
+    console.error("Error exporting activity logs:", error);
+    return { success: false, message: "Failed to export the activity log." };
+  }
 }
@@ -0,0 +1,280 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { exportActivityLogs, searchActivityLogs } from "@/app/actions";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  AUDIT_TARGET_TYPES,
+  AUDIT_TARGET_TYPE_LABELS,
+  type ActivityLogEntry,
+  type ActivityLogFilters,
+} from "@/lib/audit";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight, Download, Loader2, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const ANY = "any";
+
+// Select components cannot hold an empty value, so "any" stands in for an unset filter.
+const FilterSelect = ({ label, value, onChange, options }: {
+  label: string;
+  value?: string;
+  onChange: (value: string | undefined) => void;
+  options: { value: string; label: string }[];
+}) => (
+  <div className="space-y-1">
+    <Label className="text-xs text-muted-foreground">{label}</Label>
+    <Select value={value ?? ANY} onValueChange={(next) => onChange(next === ANY ? undefined : next)}>
+      <SelectTrigger className="bg-background"><SelectValue /></SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>Any</SelectItem>
+        {options.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+const FilterInput = ({ label, value, onChange, ...props }: {
+  label: string;
+  value?: string;
+  onChange: (value: string | undefined) => void;
+} & Omit<React.ComponentProps<typeof Input>, "value" | "onChange">) => (
+  <div className="space-y-1">
+    <Label className="text-xs text-muted-foreground">{label}</Label>
+    <Input className="bg-background" value={value ?? ""} onChange={(e) => onChange(e.target.value || undefined)} {...props} />
+  </div>
+);
+
+const downloadBase64 = (data: string, filename: string, mimeType: string) => {
+  const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const formatValue = (value: unknown) =>
+  value === null ? <span className="italic text-muted-foreground">empty</span> : typeof value === "string" ? value : JSON.stringify(value);
+
+const ChangesTable = ({ entry }: { entry: ActivityLogEntry }) => (
+  <div className="space-y-2 py-2">
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-48">Field</TableHead>
+          <TableHead>Before</TableHead>
+          <TableHead>After</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {Object.entries(entry.changes).map(([field, change]) => (
+          <TableRow key={field}>
+            <TableCell className="font-mono text-xs">{field}</TableCell>
+            <TableCell className="max-w-md whitespace-pre-wrap break-words text-xs">{formatValue(change.from)}</TableCell>
+            <TableCell className="max-w-md whitespace-pre-wrap break-words text-xs">{formatValue(change.to)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+    <p className="px-2 text-xs text-muted-foreground">
+      IP {entry.ip ?? "unknown"} · {entry.userAgent ?? "Unknown browser"}
+    </p>
+  </div>
+);
+
+export default function ActivityLogPage() {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<ActivityLogEntry[]>([]);
+  const [draft, setDraft] = useState<ActivityLogFilters>({});
+  const [filters, setFilters] = useState<ActivityLogFilters>({});
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      setIsLoading(true);
+      const result = await searchActivityLogs(filters);
+      if (!result.success) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: result.message,
+        });
+      }
+      setEntries(result.entries);
+      setTotal(result.total);
+      setNextCursor(result.nextCursor);
+      setIsLoading(false);
+    };
+
+    fetchEntries();
+  }, [filters, toast]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    const result = await searchActivityLogs(filters, nextCursor);
+    if (result.success) {
+      setEntries(prev => [...prev, ...result.entries]);
+      setNextCursor(result.nextCursor);
+    }
+    setIsLoadingMore(false);
+  }, [filters, nextCursor]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    const result = await exportActivityLogs(filters);
+    if (result.success && "data" in result && result.data) {
+      downloadBase64(result.data, result.filename, result.mimeType);
+    } else {
+      toast({ variant: "destructive", title: "Export Failed", description: result.message });
+    }
+    setIsExporting(false);
+  };
+
+  const update = (key: keyof ActivityLogFilters) => (value: string | undefined) =>
+    setDraft(prev => ({ ...prev, [key]: value }));
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(draft);
+  };
+
+  const handleClear = () => {
+    setDraft({});
+    setFilters({});
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col bg-secondary p-4 sm:p-6 lg:p-8">
+      <header className="mb-8 flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Activity Log</h1>
+          <p className="text-muted-foreground">Who changed what, and when, across jobs, applications, staff and settings.</p>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={isExporting || total === 0}>
+          {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          CSV
+        </Button>
+      </header>
+
+      <Card className="mb-6">
+        <CardContent className="p-4">
+          <form onSubmit={handleApply} className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                className="pl-9 bg-background"
+                placeholder="Search by record, field or IP address"
+                value={draft.q ?? ""}
+                onChange={(e) => update("q")(e.target.value || undefined)}
+              />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+              <FilterSelect label="Action" value={draft.action} onChange={update("action")} options={AUDIT_ACTIONS.map(action => ({ value: action, label: AUDIT_ACTION_LABELS[action] }))} />
+              <FilterSelect label="Record Type" value={draft.targetType} onChange={update("targetType")} options={AUDIT_TARGET_TYPES.map(type => ({ value: type, label: AUDIT_TARGET_TYPE_LABELS[type] }))} />
+              <FilterInput label="Changed By" value={draft.actor} onChange={update("actor")} placeholder="Name or email" />
+              <FilterInput label="From" type="date" value={draft.from} onChange={update("from")} />
+              <FilterInput label="To" type="date" value={draft.to} onChange={update("to")} />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="ghost" onClick={handleClear}><X className="mr-2 h-4 w-4" /> Clear</Button>
+              <Button type="submit"><Search className="mr-2 h-4 w-4" /> Apply Filters</Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex justify-center items-center h-96">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-20">
+              <p className="text-muted-foreground">No activity matches these filters.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <p className="px-4 pt-4 text-sm text-muted-foreground">Showing {entries.length} of {total} entries</p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Changed By</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead className="text-right">Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => {
+                    const changeCount = Object.keys(entry.changes).length;
+                    const isExpanded = expanded === entry.id;
+                    return (
+                      <React.Fragment key={entry.id}>
+                        <TableRow>
+                          <TableCell className="whitespace-nowrap">
+                            {entry.timestamp ? format(new Date(entry.timestamp), 'PP p') : 'N/A'}
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{entry.actorName}</div>
+                            {entry.actorEmail && <div className="text-sm text-muted-foreground">{entry.actorEmail}</div>}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="secondary">{AUDIT_ACTION_LABELS[entry.action] ?? entry.action}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{entry.targetLabel ?? entry.targetId}</div>
+                            <div className="text-sm text-muted-foreground">{AUDIT_TARGET_TYPE_LABELS[entry.targetType] ?? entry.targetType}</div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => setExpanded(isExpanded ? null : entry.id)}>
+                              {isExpanded ? <ChevronDown className="mr-2 h-4 w-4" /> : <ChevronRight className="mr-2 h-4 w-4" />}
+                              {changeCount === 1 ? "1 field" : `${changeCount} fields`}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                        {isExpanded && (
+                          <TableRow className="bg-muted/30 hover:bg-muted/30">
+                            <TableCell colSpan={5}>
+                              <ChangesTable entry={entry} />
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              {nextCursor && (
+                <div className="flex justify-center p-4">
+                  <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+                    {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
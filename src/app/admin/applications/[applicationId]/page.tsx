@@ -2,13 +2,18 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { doc, getDoc, Timestamp } from "firebase/firestore";
+import { collection, doc, getDoc, onSnapshot, orderBy, query, Timestamp } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { format } from "date-fns";
-import { Loader2, User, GraduationCap, Briefcase, Sparkles, Home, File, ExternalLink } from "lucide-react";
+import { scoreApplication, updateApplicationStage } from "@/app/actions";
+import { useToast } from "@/hooks/use-toast";
+import { APPLICATION_STAGES, APPLICATION_STAGE_BADGE_CLASSES, APPLICATION_STAGE_LABELS, applicationStage, matchScoreBadgeClass, type ApplicationStage } from "@/lib/applications";
+import { Loader2, User, GraduationCap, Briefcase, Sparkles, Home, File, ExternalLink, History, Gauge, RefreshCw } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import RecruiterReview from "@/components/admin/recruiter-review";
 
 interface ApplicationData {
     id: string;
@@ -43,9 +48,21 @@ interface ApplicationData {
     readyToRelocate: 'yes' | 'no';
     whyShouldWeHireYou?: string;
     resumeUrl?: string;
+    stage?: ApplicationStage;
+    tags?: string[];
+    matchScore?: number;
+    matchRationale?: string;
     submittedAt: Timestamp;
 }
 
+interface StageChange {
+    id: string;
+    from: ApplicationStage;
+    to: ApplicationStage;
+    changedByName: string;
+    changedAt?: Timestamp;
+}
+
 const DetailItem = ({ label, value }: { label: string; value?: string | number | null }) => {
     if (!value) return null;
     return (
@@ -56,9 +73,48 @@ const DetailItem = ({ label, value }: { label: string; value?: string | number |
     );
 };
 
+const StageHistory = ({ applicationId }: { applicationId: string }) => {
+    const [history, setHistory] = useState<StageChange[]>([]);
+
+    useEffect(() => {
+        const q = query(collection(db, "applications", applicationId, "stageHistory"), orderBy("changedAt", "desc"));
+        const unsubscribe = onSnapshot(q, (snapshot) => {
+            setHistory(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as StageChange));
+        }, (error) => {
+            console.error("Error fetching stage history:", error);
+        });
+        return () => unsubscribe();
+    }, [applicationId]);
+
+    if (history.length === 0) {
+        return <p className="text-sm text-muted-foreground">No stage changes yet.</p>;
+    }
+
+    return (
+        <ol className="relative border-l border-border ml-2 space-y-4">
+            {history.map(change => (
+                <li key={change.id} className="ml-4">
+                    <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                    <p className="text-sm">
+                        <span className="font-medium">{change.changedByName}</span> moved from{" "}
+                        <span className="font-medium">{APPLICATION_STAGE_LABELS[change.from]}</span> to{" "}
+                        <span className="font-medium">{APPLICATION_STAGE_LABELS[change.to]}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                        {change.changedAt ? format(change.changedAt.toDate(), "PPP p") : "Just now"}
+                    </p>
+                </li>
+            ))}
+        </ol>
+    );
+};
+
 export default function ApplicationDetailPage({ params }: { params: { applicationId: string } }) {
+    const { toast } = useToast();
     const [application, setApplication] = useState<ApplicationData | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [isUpdatingStage, setIsUpdatingStage] = useState(false);
+    const [isScoring, setIsScoring] = useState(false);
 
     useEffect(() => {
         const fetchApplication = async () => {
@@ -81,6 +137,32 @@ export default function ApplicationDetailPage({ params }: { params: { applicatio
         fetchApplication();
     }, [params.applicationId]);
 
+    const handleStageChange = async (stage: ApplicationStage) => {
+        if (!application) return;
+        setIsUpdatingStage(true);
+        const result = await updateApplicationStage({ applicationId: application.id, stage });
+        if (result.success) {
+            setApplication({ ...application, stage });
+            toast({ title: "Success", description: result.message });
+        } else {
+            toast({ variant: "destructive", title: "Error", description: result.message });
+        }
+        setIsUpdatingStage(false);
+    };
+
+    const handleScore = async () => {
+        if (!application) return;
+        setIsScoring(true);
+        const result = await scoreApplication(application.id);
+        if (result.success) {
+            setApplication({ ...application, matchScore: result.matchScore, matchRationale: result.matchRationale });
+            toast({ title: "Success", description: result.message });
+        } else {
+            toast({ variant: "destructive", title: "Error", description: result.message });
+        }
+        setIsScoring(false);
+    };
+
     if (isLoading) {
         return <div className="flex justify-center items-center h-screen"><Loader2 className="h-8 w-8 animate-spin" /></div>;
     }
@@ -111,6 +193,53 @@ export default function ApplicationDetailPage({ params }: { params: { applicatio
             </header>
 
             <div className="space-y-6">
+                <Card>
+                    <CardHeader><CardTitle className="flex items-center gap-2"><History /> Pipeline</CardTitle></CardHeader>
+                    <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                        <div className="space-y-2">
+                            <p className="text-sm text-muted-foreground">Current Stage</p>
+                            <div className="flex items-center gap-2">
+                                <Select value={applicationStage(application)} onValueChange={(value) => handleStageChange(value as ApplicationStage)} disabled={isUpdatingStage}>
+                                    <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {APPLICATION_STAGES.map(stage => (
+                                            <SelectItem key={stage} value={stage}>{APPLICATION_STAGE_LABELS[stage]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {isUpdatingStage && <Loader2 className="h-4 w-4 animate-spin" />}
+                            </div>
+                            <Badge variant="secondary" className={APPLICATION_STAGE_BADGE_CLASSES[applicationStage(application)]}>
+                                {APPLICATION_STAGE_LABELS[applicationStage(application)]}
+                            </Badge>
+                        </div>
+                        <div className="md:col-span-2">
+                            <p className="text-sm text-muted-foreground mb-3">Stage History</p>
+                            <StageHistory applicationId={application.id} />
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader className="flex flex-row items-center justify-between">
+                        <CardTitle className="flex items-center gap-2"><Gauge /> Job Match</CardTitle>
+                        <Button variant="outline" size="sm" onClick={handleScore} disabled={isScoring}>
+                            {isScoring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                            {application.matchScore !== undefined ? "Rescore" : "Score"}
+                        </Button>
+                    </CardHeader>
+                    <CardContent>
+                        {application.matchScore !== undefined ? (
+                            <div className="flex items-start gap-4">
+                                <Badge variant="secondary" className={`text-lg px-3 py-1 ${matchScoreBadgeClass(application.matchScore)}`}>{application.matchScore}</Badge>
+                                <p className="text-muted-foreground">{application.matchRationale}</p>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-muted-foreground">This application has not been scored against the job yet.</p>
+                        )}
+                    </CardContent>
+                </Card>
+
                 <Card>
                     <CardHeader><CardTitle className="flex items-center gap-2"><User /> Personal Details</CardTitle></CardHeader>
                     <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -203,6 +332,8 @@ export default function ApplicationDetailPage({ params }: { params: { applicatio
                        </div>
                     </CardContent>
                 </Card>
+
+                <RecruiterReview applicationId={application.id} initialTags={application.tags ?? []} />
             </div>
         </div>
     );
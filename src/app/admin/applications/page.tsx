@@ -1,92 +1,211 @@
-
 "use client";
 
-import React, { useState, useEffect } from "react";
-import { db } from "@/lib/firebase";
-import { collection, getDocs, query, orderBy, Timestamp, doc, getDoc } from "firebase/firestore";
+import React, { useState, useEffect, useCallback } from "react";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import Link from "next/link";
+import { exportApplications, getJobOptions, searchApplications } from "@/app/actions";
+import {
+  APPLICATION_STAGES,
+  APPLICATION_STAGE_BADGE_CLASSES,
+  APPLICATION_STAGE_LABELS,
+  applicationStage,
+  matchScoreBadgeClass,
+  type ApplicationFilters,
+  type ApplicationSort,
+  type ApplicationSummary,
+} from "@/lib/applications";
 
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Loader2, Eye } from "lucide-react";
+import { Loader2, Eye, Star, Search, Download, FileSpreadsheet, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
-interface Job {
-  id: string;
-  title: string;
-}
+const ANY = "any";
 
-interface Application {
-  id: string;
-  fullName: string;
-  email: string;
-  mobile: string;
-  jobId: string;
-  jobTitle?: string;
-  submittedAt: Timestamp;
-}
+// Select components cannot hold an empty value, so "any" stands in for an unset filter.
+const FilterSelect = ({ label, value, onChange, options }: {
+  label: string;
+  value?: string;
+  onChange: (value: string | undefined) => void;
+  options: { value: string; label: string }[];
+}) => (
+  <div className="space-y-1">
+    <Label className="text-xs text-muted-foreground">{label}</Label>
+    <Select value={value ?? ANY} onValueChange={(next) => onChange(next === ANY ? undefined : next)}>
+      <SelectTrigger className="bg-background"><SelectValue /></SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>Any</SelectItem>
+        {options.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+const FilterInput = ({ label, value, onChange, ...props }: {
+  label: string;
+  value?: string | number;
+  onChange: (value: string | undefined) => void;
+} & Omit<React.ComponentProps<typeof Input>, "value" | "onChange">) => (
+  <div className="space-y-1">
+    <Label className="text-xs text-muted-foreground">{label}</Label>
+    <Input className="bg-background" value={value ?? ""} onChange={(e) => onChange(e.target.value || undefined)} {...props} />
+  </div>
+);
+
+const YES_NO = [{ value: "yes", label: "Yes" }, { value: "no", label: "No" }];
+
+const downloadBase64 = (data: string, filename: string, mimeType: string) => {
+  const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 export default function ApplicationsPage() {
   const { toast } = useToast();
-  const [applications, setApplications] = useState<Application[]>([]);
+  const [applications, setApplications] = useState<ApplicationSummary[]>([]);
+  const [jobs, setJobs] = useState<{ id: string; title: string; company: string }[]>([]);
+  const [draft, setDraft] = useState<ApplicationFilters>({});
+  const [filters, setFilters] = useState<ApplicationFilters>({});
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [exporting, setExporting] = useState<"csv" | "xlsx" | null>(null);
+
+  useEffect(() => {
+    getJobOptions().then(setJobs);
+  }, []);
 
   useEffect(() => {
     const fetchApplications = async () => {
       setIsLoading(true);
-      try {
-        const appsCollection = collection(db, 'applications');
-        const q = query(appsCollection, orderBy('submittedAt', 'desc'));
-        const appsSnapshot = await getDocs(q);
-        
-        const appsData = await Promise.all(appsSnapshot.docs.map(async (appDoc) => {
-          const appData = appDoc.data();
-          let jobTitle = 'Unknown Job';
-          try {
-            if (appData.jobId) {
-              const jobDocRef = doc(db, 'jobs', appData.jobId);
-              const jobDocSnap = await getDoc(jobDocRef);
-              if (jobDocSnap.exists()) {
-                jobTitle = jobDocSnap.data().title;
-              }
-            }
-          } catch(e) {
-            console.error("Could not fetch job title for", appData.jobId);
-          }
-          
-          return {
-            id: appDoc.id,
-            jobTitle,
-            ...appData,
-          } as Application;
-        }));
-        
-        setApplications(appsData);
-
-      } catch (error) {
-        console.error("Error fetching data: ", error);
+      const result = await searchApplications(filters);
+      if (!result.success) {
         toast({
           variant: "destructive",
           title: "Error",
-          description: "Failed to load job applications.",
+          description: result.message,
         });
-      } finally {
-        setIsLoading(false);
       }
+      setApplications(result.applications);
+      setTotal(result.total);
+      setNextCursor(result.nextCursor);
+      setIsLoading(false);
     };
 
     fetchApplications();
-  }, [toast]);
+  }, [filters, toast]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    const result = await searchApplications(filters, nextCursor);
+    if (result.success) {
+      setApplications(prev => [...prev, ...result.applications]);
+      setNextCursor(result.nextCursor);
+    }
+    setIsLoadingMore(false);
+  }, [filters, nextCursor]);
+
+  const handleExport = async (fileFormat: "csv" | "xlsx") => {
+    setExporting(fileFormat);
+    const result = await exportApplications(filters, fileFormat);
+    if (result.success && result.data) {
+      downloadBase64(result.data, result.filename, result.mimeType);
+    } else {
+      toast({ variant: "destructive", title: "Export Failed", description: result.message });
+    }
+    setExporting(null);
+  };
+
+  const update = (key: keyof ApplicationFilters) => (value: string | undefined) =>
+    setDraft(prev => ({ ...prev, [key]: value }));
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(draft);
+  };
 
+  const handleClear = () => {
+    setDraft({});
+    setFilters({});
+  };
 
   return (
     <div className="flex min-h-screen flex-col bg-secondary p-4 sm:p-6 lg:p-8">
-      <header className="mb-8">
-        <h1 className="text-3xl font-bold">Job Applications</h1>
-        <p className="text-muted-foreground">View all candidates who have applied for jobs.</p>
+      <header className="mb-8 flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Job Applications</h1>
+          <p className="text-muted-foreground">Search, filter and export candidates who have applied for jobs.</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => handleExport("csv")} disabled={exporting !== null || total === 0}>
+            {exporting === "csv" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            CSV
+          </Button>
+          <Button variant="outline" onClick={() => handleExport("xlsx")} disabled={exporting !== null || total === 0}>
+            {exporting === "xlsx" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileSpreadsheet className="mr-2 h-4 w-4" />}
+            Excel
+          </Button>
+        </div>
       </header>
+
+      <Card className="mb-6">
+        <CardContent className="p-4">
+          <form onSubmit={handleApply} className="space-y-4">
+            <div className="flex gap-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  className="pl-9 bg-background"
+                  placeholder="Search by name, email or skills"
+                  value={draft.q ?? ""}
+                  onChange={(e) => update("q")(e.target.value || undefined)}
+                />
+              </div>
+              <Select value={filters.sort ?? "date"} onValueChange={(sort) => {
+                setDraft(prev => ({ ...prev, sort: sort as ApplicationSort }));
+                setFilters(prev => ({ ...prev, sort: sort as ApplicationSort }));
+              }}>
+                <SelectTrigger className="w-44 bg-background"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="date">Newest first</SelectItem>
+                  <SelectItem value="match">Best match first</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+              <FilterSelect label="Job" value={draft.jobId} onChange={update("jobId")} options={jobs.map(job => ({ value: job.id, label: `${job.title} (${job.company})` }))} />
+              <FilterSelect label="Stage" value={draft.stage} onChange={update("stage")} options={APPLICATION_STAGES.map(stage => ({ value: stage, label: APPLICATION_STAGE_LABELS[stage] }))} />
+              <FilterInput label="Applied From" type="date" value={draft.from} onChange={update("from")} />
+              <FilterInput label="Applied To" type="date" value={draft.to} onChange={update("to")} />
+              <FilterInput label="City" value={draft.city} onChange={update("city")} />
+              <FilterInput label="State" value={draft.state} onChange={update("state")} />
+              <FilterInput label="Qualification" value={draft.qualification} onChange={update("qualification")} />
+              <FilterSelect label="Experienced" value={draft.hasExperience} onChange={update("hasExperience")} options={YES_NO} />
+              <FilterInput label="Min Experience (Yrs)" type="number" min={0} value={draft.minExperience} onChange={update("minExperience")} />
+              <FilterInput label="Max Experience (Yrs)" type="number" min={0} value={draft.maxExperience} onChange={update("maxExperience")} />
+              <FilterSelect label="Ready to Relocate" value={draft.readyToRelocate} onChange={update("readyToRelocate")} options={YES_NO} />
+              <FilterInput label="Notice Period" value={draft.noticePeriod} onChange={update("noticePeriod")} placeholder="e.g., Immediate" />
+              <FilterInput label="Tag" value={draft.tag} onChange={update("tag")} placeholder="e.g., call-back" />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="ghost" onClick={handleClear}><X className="mr-2 h-4 w-4" /> Clear</Button>
+              <Button type="submit"><Search className="mr-2 h-4 w-4" /> Apply Filters</Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardContent className="p-0">
           {isLoading ? (
@@ -95,16 +214,21 @@ export default function ApplicationsPage() {
             </div>
           ) : applications.length === 0 ? (
             <div className="text-center py-20">
-              <p className="text-muted-foreground">No applications received yet.</p>
+              <p className="text-muted-foreground">No applications match these filters.</p>
             </div>
           ) : (
             <div className="overflow-x-auto">
+              <p className="px-4 pt-4 text-sm text-muted-foreground">Showing {applications.length} of {total} applications</p>
               <Table>
                 <TableHeader>
                   <TableRow>
                     <TableHead>Applicant</TableHead>
                     <TableHead>Contact</TableHead>
                     <TableHead>Applied For</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Experience</TableHead>
+                    <TableHead>Match</TableHead>
+                    <TableHead>Stage</TableHead>
                     <TableHead>Date</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -115,11 +239,35 @@ export default function ApplicationsPage() {
                       <TableCell>
                         <div className="font-medium">{app.fullName}</div>
                         <div className="text-sm text-muted-foreground">{app.email}</div>
+                        {app.tags && app.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {app.tags.map(tag => <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>)}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>{app.mobile}</TableCell>
                       <TableCell>{app.jobTitle}</TableCell>
+                      <TableCell>{[app.city, app.state].filter(Boolean).join(", ") || "N/A"}</TableCell>
+                      <TableCell>{app.hasExperience === "yes" ? `${app.yearsOfExperience ?? 0} yrs` : "Fresher"}</TableCell>
+                      <TableCell>
+                        {app.matchScore !== undefined ? (
+                          <Badge variant="secondary" className={matchScoreBadgeClass(app.matchScore)} title={app.matchRationale}>{app.matchScore}</Badge>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
                       <TableCell>
-                        {app.submittedAt ? format(app.submittedAt.toDate(), 'PP') : 'N/A'}
+                        <Badge variant="secondary" className={APPLICATION_STAGE_BADGE_CLASSES[applicationStage(app)]}>
+                          {APPLICATION_STAGE_LABELS[applicationStage(app)]}
+                        </Badge>
+                        {app.averageRating !== undefined && (
+                          <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                            <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" /> {app.averageRating.toFixed(1)}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {app.submittedAt ? format(new Date(app.submittedAt), 'PP') : 'N/A'}
                       </TableCell>
                        <TableCell className="text-right">
                         <Button asChild variant="outline" size="sm">
@@ -133,6 +281,14 @@ export default function ApplicationsPage() {
                   ))}
                 </TableBody>
               </Table>
+              {nextCursor && (
+                <div className="flex justify-center p-4">
+                  <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+                    {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Load more
+                  </Button>
+                </div>
+              )}
             </div>
           )}
         </CardContent>
@@ -140,5 +296,3 @@ export default function ApplicationsPage() {
     </div>
   );
 }
-
-    
\ No newline at end of file
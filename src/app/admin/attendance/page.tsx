@@ -1,109 +1,279 @@
-
 "use client";
 
 import React, { useState, useEffect } from "react";
-import { db } from "@/lib/firebase";
-import { collection, getDocs, query, orderBy, Timestamp } from "firebase/firestore";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { exportAttendanceRegister, getAttendanceRegister } from "@/app/actions";
+import { DAY_STATUSES, DAY_STATUS_CLASSES, DAY_STATUS_LABELS, attendanceDay, formatWorkingTime, mapsUrl, type AttendanceLocation } from "@/lib/attendance";
+import { LEAVE_TYPE_LABELS } from "@/lib/leave";
+import {
+  DAY_STATUS_CODES,
+  REGISTER_TOTALS,
+  REGISTER_TOTAL_LABELS,
+  registerCode,
+  type AttendanceRegisterFilters,
+  type AttendanceRegisterRow,
+  type RegisterCell,
+  type RegisterColumn,
+  type RegisterEmployee,
+} from "@/lib/attendance-register";
+import { cn } from "@/lib/utils";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Loader2, CalendarCheck, LogOut } from "lucide-react";
-import { Badge } from "@/components/ui/badge";
+import { Download, FileText, Loader2, MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+const ANY = "any";
+
+// Select components cannot hold an empty value, so "any" stands in for an unset filter.
+const FilterSelect = ({ label, value, onChange, options }: {
+  label: string;
+  value?: string;
+  onChange: (value: string | undefined) => void;
+  options: { value: string; label: string }[];
+}) => (
+  <div className="space-y-1">
+    <Label className="text-xs text-muted-foreground">{label}</Label>
+    <Select value={value ?? ANY} onValueChange={(next) => onChange(next === ANY ? undefined : next)}>
+      <SelectTrigger className="bg-background"><SelectValue /></SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>Any</SelectItem>
+        {options.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+const downloadBase64 = (data: string, filename: string, mimeType: string) => {
+  const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const LocationLink = ({ location }: { location: AttendanceLocation | null }) =>
+  location ? (
+    <a href={mapsUrl(location)} target="_blank" rel="noopener noreferrer" className="ml-1 inline-flex text-primary" title="View on map">
+      <MapPin className="h-3 w-3" />
+    </a>
+  ) : null;
 
-interface AttendanceRecord {
-  id: string;
+interface SelectedDay {
   employeeName: string;
-  status: 'working' | 'leave';
-  tasks?: string;
-  date: Timestamp;
+  column: RegisterColumn;
+  cell: RegisterCell;
 }
 
+// The check-in and check-out behind one cell of the register.
+const DayDetailDialog = ({ selected, onClose }: { selected: SelectedDay | null; onClose: () => void }) => {
+  const detail = selected?.cell.detail;
+  const time = (iso: string | null) => iso ? format(new Date(iso), 'p') : '-';
+
+  return (
+    <Dialog open={selected !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        {selected && detail && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{selected.employeeName}</DialogTitle>
+              <DialogDescription>
+                {format(new Date(`${selected.column.day}T12:00:00`), 'EEEE, PPP')}
+                {selected.cell.status && ` · ${DAY_STATUS_LABELS[selected.cell.status]}`}
+                {selected.cell.late && " · Late"}
+              </DialogDescription>
+            </DialogHeader>
+            {detail.leaveType ? (
+              <p className="text-sm">{LEAVE_TYPE_LABELS[detail.leaveType]}</p>
+            ) : (
+              <dl className="grid grid-cols-[8rem_1fr] gap-2 text-sm">
+                <dt className="text-muted-foreground">Check In</dt>
+                <dd>{time(detail.checkInAt)}<LocationLink location={detail.checkInLocation} /></dd>
+                <dt className="text-muted-foreground">Check Out</dt>
+                <dd>{time(detail.checkOutAt)}<LocationLink location={detail.checkOutLocation} /></dd>
+                <dt className="text-muted-foreground">Hours</dt>
+                <dd>{detail.workingMinutes !== null ? formatWorkingTime(detail.workingMinutes) : '-'}</dd>
+                <dt className="text-muted-foreground">Tasks for the Day</dt>
+                <dd className="whitespace-pre-wrap">{detail.tasks || 'N/A'}</dd>
+              </dl>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const distinct = (values: string[]) => [...new Set(values.filter(Boolean))].sort();
+
+const columnTitle = (column: RegisterColumn) =>
+  [format(new Date(`${column.day}T12:00:00`), 'EEEE, PP'), column.holidayName, column.kind === "half" ? "Half day" : null]
+    .filter(Boolean).join("\n");
+
 export default function AttendancePage() {
   const { toast } = useToast();
-  const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
+  const [filters, setFilters] = useState<AttendanceRegisterFilters>(() => ({ month: attendanceDay().slice(0, 7) }));
+  const [columns, setColumns] = useState<RegisterColumn[]>([]);
+  const [rows, setRows] = useState<AttendanceRegisterRow[]>([]);
+  const [employees, setEmployees] = useState<RegisterEmployee[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [exporting, setExporting] = useState<"csv" | "pdf" | null>(null);
+  const [selected, setSelected] = useState<SelectedDay | null>(null);
 
   useEffect(() => {
-    const fetchAttendance = async () => {
-      setIsLoading(true);
-      try {
-        const attendanceCollection = collection(db, 'attendance');
-        const q = query(attendanceCollection, orderBy('date', 'desc'));
-        const attendanceSnapshot = await getDocs(q);
-        
-        const attendanceData = attendanceSnapshot.docs.map((doc) => ({
-            id: doc.id,
-            ...doc.data(),
-        })) as AttendanceRecord[];
-        
-        setAttendance(attendanceData);
-
-      } catch (error) {
-        console.error("Error fetching attendance: ", error);
-        toast({
-          variant: "destructive",
-          title: "Error",
-          description: "Failed to load attendance records.",
-        });
-      } finally {
-        setIsLoading(false);
+    let cancelled = false;
+    setIsLoading(true);
+    getAttendanceRegister(filters).then(result => {
+      if (cancelled) return;
+      if (result.success && "rows" in result) {
+        setColumns(result.columns);
+        setRows(result.rows);
+        setEmployees(result.employees);
+      } else {
+        toast({ variant: "destructive", title: "Error", description: result.message });
       }
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
     };
+  }, [filters, toast]);
+
+  const updateFilter = <K extends keyof AttendanceRegisterFilters>(key: K, value: AttendanceRegisterFilters[K]) =>
+    setFilters(current => ({
+      ...current,
+      [key]: value,
+      // A district belongs to one state, so changing the state clears it.
+      ...(key === "state" ? { district: undefined } : {}),
+    }));
 
-    fetchAttendance();
-  }, [toast]);
+  const handleExport = async (exportFormat: "csv" | "pdf") => {
+    setExporting(exportFormat);
+    const result = await exportAttendanceRegister(filters, exportFormat);
+    if (result.success && "data" in result && result.data) {
+      downloadBase64(result.data, result.filename, result.mimeType);
+    } else {
+      toast({ variant: "destructive", title: "Export Failed", description: result.message });
+    }
+    setExporting(null);
+  };
 
+  const states = distinct(employees.map(employee => employee.state));
+  const districts = distinct(employees.filter(employee => !filters.state || employee.state === filters.state).map(employee => employee.district));
 
   return (
     <div className="flex min-h-screen flex-col bg-secondary p-4 sm:p-6 lg:p-8">
-      <header className="mb-8">
-        <h1 className="text-3xl font-bold">Employee Attendance</h1>
-        <p className="text-muted-foreground">View all employee attendance records.</p>
+      <header className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Attendance Register</h1>
+          <p className="text-muted-foreground">Monthly attendance for every employee, ready for payroll. Click a day to see its check-in and check-out.</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => handleExport("csv")} disabled={exporting !== null || isLoading}>
+            {exporting === "csv" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            CSV
+          </Button>
+          <Button variant="outline" onClick={() => handleExport("pdf")} disabled={exporting !== null || isLoading}>
+            {exporting === "pdf" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+            PDF
+          </Button>
+        </div>
       </header>
+
+      <div className="mb-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Month</Label>
+          <Input
+            type="month"
+            className="bg-background"
+            value={filters.month}
+            max={attendanceDay().slice(0, 7)}
+            onChange={event => event.target.value && updateFilter("month", event.target.value)}
+          />
+        </div>
+        <FilterSelect
+          label="Employee"
+          value={filters.employeeId}
+          onChange={value => updateFilter("employeeId", value)}
+          options={employees.map(employee => ({ value: employee.id, label: employee.name }))}
+        />
+        <FilterSelect label="State" value={filters.state} onChange={value => updateFilter("state", value)} options={states.map(state => ({ value: state, label: state }))} />
+        <FilterSelect label="District" value={filters.district} onChange={value => updateFilter("district", value)} options={districts.map(district => ({ value: district, label: district }))} />
+      </div>
+
       <Card>
-         <CardHeader>
-          <CardTitle>Attendance Log</CardTitle>
-          <CardDescription>A complete history of daily attendance marked by all employees.</CardDescription>
+        <CardHeader>
+          <CardTitle>{format(new Date(`${filters.month}-01T12:00:00`), 'MMMM yyyy')}</CardTitle>
+          <CardDescription className="flex flex-wrap gap-2 pt-1">
+            {DAY_STATUSES.map(status => (
+              <span key={status} className={cn("rounded px-1.5 py-0.5 text-xs", DAY_STATUS_CLASSES[status])}>
+                {DAY_STATUS_CODES[status]} {DAY_STATUS_LABELS[status]}
+              </span>
+            ))}
+            <span className="px-1.5 py-0.5 text-xs">* Late check-in</span>
+          </CardDescription>
         </CardHeader>
         <CardContent className="p-0">
           {isLoading ? (
             <div className="flex justify-center items-center h-96">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
-          ) : attendance.length === 0 ? (
+          ) : rows.length === 0 ? (
             <div className="text-center py-20">
-              <p className="text-muted-foreground">No attendance records found.</p>
+              <p className="text-muted-foreground">No employees match these filters.</p>
             </div>
           ) : (
             <div className="overflow-x-auto">
-              <Table>
+              <Table className="text-xs">
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Employee</TableHead>
-                    <TableHead>Date</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Tasks for the Day</TableHead>
+                    <TableHead className="sticky left-0 z-10 min-w-40 bg-card">Employee</TableHead>
+                    {columns.map(column => (
+                      <TableHead
+                        key={column.day}
+                        title={columnTitle(column)}
+                        className={cn(
+                          "px-1 text-center",
+                          column.kind === "holiday" && DAY_STATUS_CLASSES.holiday,
+                          column.kind === "off" && DAY_STATUS_CLASSES.weeklyOff
+                        )}
+                      >
+                        <div>{Number(column.day.slice(8))}</div>
+                        <div className="font-normal">{format(new Date(`${column.day}T12:00:00`), 'EEEEE')}</div>
+                      </TableHead>
+                    ))}
+                    {REGISTER_TOTALS.map(total => (
+                      <TableHead key={total} className="px-2 text-center">{REGISTER_TOTAL_LABELS[total]}</TableHead>
+                    ))}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {attendance.map((record) => (
-                    <TableRow key={record.id}>
-                      <TableCell>
-                        <div className="font-medium">{record.employeeName}</div>
-                      </TableCell>
-                       <TableCell>
-                        {record.date ? format(record.date.toDate(), 'PPP') : 'N/A'}
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant={record.status === 'working' ? 'default' : 'destructive'} className="capitalize bg-green-100 text-green-800">
-                          {record.status}
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="text-muted-foreground max-w-sm truncate">
-                        {record.tasks || 'N/A'}
+                  {rows.map(row => (
+                    <TableRow key={row.id}>
+                      <TableCell className="sticky left-0 z-10 bg-card">
+                        <div className="font-medium">{row.name}</div>
+                        <div className="text-muted-foreground">{[row.district, row.state].filter(Boolean).join(", ")}</div>
                       </TableCell>
+                      {row.cells.map((cell, index) => (
+                        <TableCell
+                          key={columns[index].day}
+                          title={cell.status ? `${DAY_STATUS_LABELS[cell.status]}${cell.late ? ", late" : ""}` : undefined}
+                          className={cn("border-l px-1 text-center font-medium", cell.status && DAY_STATUS_CLASSES[cell.status], cell.detail && "cursor-pointer hover:opacity-80")}
+                          onClick={cell.detail ? () => setSelected({ employeeName: row.name, column: columns[index], cell }) : undefined}
+                        >
+                          {registerCode(cell)}
+                        </TableCell>
+                      ))}
+                      {REGISTER_TOTALS.map(total => (
+                        <TableCell key={total} className="border-l px-2 text-center font-semibold">{row.totals[total]}</TableCell>
+                      ))}
                     </TableRow>
                   ))}
                 </TableBody>
@@ -112,7 +282,7 @@ export default function AttendancePage() {
           )}
         </CardContent>
       </Card>
+      <DayDetailDialog selected={selected} onClose={() => setSelected(null)} />
     </div>
   );
 }
-
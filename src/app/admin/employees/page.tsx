@@ -5,7 +5,7 @@ import { useState, useEffect } from "react";
 import { formatDistanceToNow } from "date-fns";
 
 import { db } from "@/lib/firebase";
-import { collection, onSnapshot, query, orderBy, Timestamp, addDoc } from "firebase/firestore";
+import { collection, onSnapshot, query, orderBy, Timestamp } from "firebase/firestore";
 
 import { useToast } from "@/hooks/use-toast";
 
@@ -21,16 +21,17 @@ import Link from "next/link";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
-import { registerEmployee } from "@/app/actions";
+import { assignTask, registerEmployee } from "@/app/actions";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import PasswordSetupLink, { PasswordSetupLinkDialog } from "@/components/admin/password-setup-link";
 
 
 interface Employee {
   id: string;
   name: string;
   userId: string; // The email-like ID
+  personalEmail?: string;
   status: 'active' | 'inactive';
   createdAt: Timestamp;
 }
@@ -40,40 +41,41 @@ const registrationSchema = z.object({
   mobile: z.string().min(10, "A valid 10-digit mobile number is required.").max(10, "A valid 10-digit mobile number is required."),
   personalEmail: z.string().email("Please enter a valid personal email."),
   userId: z.string().min(3, "User ID is required.").refine(val => val.endsWith('@zensolve.in'), { message: "User ID must end with @zensolve.in" }),
-  password: z.string().min(6, "Password must be at least 6 characters."),
   district: z.string().min(2, "District is required."),
   state: z.string().min(2, "State is required."),
   pincode: z.string().length(6, "Pincode must be 6 digits."),
 });
 type RegistrationFormData = z.infer<typeof registrationSchema>;
 
-interface GeneratedCredentials {
+interface NewAccount {
   userId: string;
-  password?: string;
+  name: string;
+  personalEmail: string;
+  passwordSetupLink: string;
 }
 
 const RegisterEmployeeDialog = ({ onEmployeeRegistered }: { onEmployeeRegistered: () => void }) => {
   const { toast } = useToast();
   const [open, setOpen] = useState(false);
-  const [credentials, setCredentials] = useState<GeneratedCredentials | null>(null);
+  const [newAccount, setNewAccount] = useState<NewAccount | null>(null);
 
   const form = useForm<RegistrationFormData>({
     resolver: zodResolver(registrationSchema),
     defaultValues: {
-      fullName: "", district: "", state: "", pincode: "", personalEmail: "", mobile: "", userId: "", password: ""
+      fullName: "", district: "", state: "", pincode: "", personalEmail: "", mobile: "", userId: ""
     },
   });
 
   const { isSubmitting } = form.formState;
 
   async function onSubmit(values: RegistrationFormData) {
-    setCredentials(null);
+    setNewAccount(null);
 
     const result = await registerEmployee(values);
 
-    if (result.success && result.userId && result.password) {
+    if (result.success && "passwordSetupLink" in result && result.passwordSetupLink) {
       toast({ title: "Registration Successful!", description: "Employee account has been created." });
-      setCredentials({ userId: result.userId, password: result.password });
+      setNewAccount({ userId: values.userId, name: values.fullName, personalEmail: values.personalEmail, passwordSetupLink: result.passwordSetupLink });
       form.reset();
       onEmployeeRegistered(); // To re-fetch employee list
     } else {
@@ -83,7 +85,7 @@ const RegisterEmployeeDialog = ({ onEmployeeRegistered }: { onEmployeeRegistered
   
   const handleOpenChange = (isOpen: boolean) => {
     if (!isOpen) {
-        setCredentials(null);
+        setNewAccount(null);
         form.reset();
     }
     setOpen(isOpen);
@@ -95,7 +97,7 @@ const RegisterEmployeeDialog = ({ onEmployeeRegistered }: { onEmployeeRegistered
         <Button><UserPlus className="mr-2 h-4 w-4" /> Register New Employee</Button>
       </DialogTrigger>
        <DialogContent className="sm:max-w-md">
-        {!credentials ? (
+        {!newAccount ? (
           <>
             <DialogHeader>
               <DialogTitle>Register New Employee</DialogTitle>
@@ -108,10 +110,7 @@ const RegisterEmployeeDialog = ({ onEmployeeRegistered }: { onEmployeeRegistered
                  <FormField control={form.control} name="personalEmail" render={({ field }) => (<FormItem><FormLabel>Personal Email</FormLabel><FormControl><Input placeholder="rohit@example.com" {...field} /></FormControl><FormMessage /></FormItem>)} />
                  <FormField control={form.control} name="mobile" render={({ field }) => (<FormItem><FormLabel>Mobile Number</FormLabel><FormControl><Input placeholder="9876543210" {...field} /></FormControl><FormMessage /></FormItem>)} />
               </div>
-              <div className="grid grid-cols-2 gap-4">
-                 <FormField control={form.control} name="userId" render={({ field }) => (<FormItem><FormLabel>User ID</FormLabel><FormControl><Input placeholder="rohit@zensolve.in" {...field} /></FormControl><FormMessage /></FormItem>)} />
-                 <FormField control={form.control} name="password" render={({ field }) => (<FormItem><FormLabel>Password</FormLabel><FormControl><Input type="password" placeholder="••••••••" {...field} /></FormControl><FormMessage /></FormItem>)} />
-              </div>
+              <FormField control={form.control} name="userId" render={({ field }) => (<FormItem><FormLabel>User ID</FormLabel><FormControl><Input placeholder="rohit@zensolve.in" {...field} /></FormControl><FormMessage /></FormItem>)} />
               <div className="grid grid-cols-3 gap-4">
                  <FormField control={form.control} name="district" render={({ field }) => (<FormItem><FormLabel>District</FormLabel><FormControl><Input placeholder="Godda" {...field} /></FormControl><FormMessage /></FormItem>)} />
                  <FormField control={form.control} name="state" render={({ field }) => (<FormItem><FormLabel>State</FormLabel><FormControl><Input placeholder="Jharkhand" {...field} /></FormControl><FormMessage /></FormItem>)} />
@@ -134,16 +133,10 @@ const RegisterEmployeeDialog = ({ onEmployeeRegistered }: { onEmployeeRegistered
                 </div>
                 <DialogTitle>Registration Complete!</DialogTitle>
                 <DialogDescription>
-                    Here are the new credentials. Please save them securely and share with the employee.
+                    {newAccount.name} signs in as <strong>{newAccount.userId}</strong> after choosing a password with the link below.
                 </DialogDescription>
             </DialogHeader>
-             <Alert>
-                <AlertTitle className="text-left">New Credentials</AlertTitle>
-                <AlertDescription className="text-left">
-                    <p className="mt-2"><strong>User ID:</strong> {credentials.userId}</p>
-                    <p><strong>Password:</strong> {credentials.password}</p>
-                </AlertDescription>
-            </Alert>
+            <PasswordSetupLink link={newAccount.passwordSetupLink} recipientEmail={newAccount.personalEmail} recipientName={newAccount.name} />
              <DialogFooter>
                 <Button onClick={() => handleOpenChange(false)}>Done</Button>
              </DialogFooter>
@@ -157,7 +150,7 @@ const RegisterEmployeeDialog = ({ onEmployeeRegistered }: { onEmployeeRegistered
 const SendWorkDialog = ({ employee }: { employee: Employee }) => {
     const { toast } = useToast();
     const [description, setDescription] = useState('');
-    const [priority, setPriority] = useState('Medium');
+    const [priority, setPriority] = useState<'High' | 'Medium' | 'Low'>('Medium');
     const [title, setTitle] = useState('');
     const [isSending, setIsSending] = useState(false);
     const [open, setOpen] = useState(false);
@@ -168,27 +161,17 @@ const SendWorkDialog = ({ employee }: { employee: Employee }) => {
             return;
         }
         setIsSending(true);
-        try {
-            await addDoc(collection(db, 'tasks'), {
-                employeeId: employee.id,
-                employeeName: employee.name,
-                title,
-                description,
-                priority,
-                status: 'pending',
-                assignedAt: Timestamp.now(),
-            });
-            toast({ title: "Success", description: `Task assigned to ${employee.name}` });
+        const result = await assignTask({ employeeId: employee.id, title, description, priority });
+        if (result.success) {
+            toast({ title: "Success", description: result.message });
             setDescription('');
             setTitle('');
             setPriority('Medium');
             setOpen(false);
-        } catch (error) {
-            console.error('Error assigning task: ', error);
-            toast({ variant: 'destructive', title: "Error", description: "Failed to assign task." });
-        } finally {
-            setIsSending(false);
+        } else {
+            toast({ variant: 'destructive', title: "Error", description: result.message });
         }
+        setIsSending(false);
     }
 
     return (
@@ -212,7 +195,7 @@ const SendWorkDialog = ({ employee }: { employee: Employee }) => {
                     </div>
                      <div className="grid gap-2">
                         <Label htmlFor="task-priority">Priority</Label>
-                        <select id="task-priority" value={priority} onChange={e => setPriority(e.target.value)} className="w-full p-2 border rounded-md bg-transparent">
+                        <select id="task-priority" value={priority} onChange={e => setPriority(e.target.value as typeof priority)} className="w-full p-2 border rounded-md bg-transparent">
                             <option value="Low">Low</option>
                             <option value="Medium">Medium</option>
                             <option value="High">High</option>
@@ -329,6 +312,7 @@ export default function EmployeesPage() {
                     </TableCell>
                     <TableCell className="text-right space-x-2">
                       <SendWorkDialog employee={employee} />
+                      <PasswordSetupLinkDialog accountEmail={employee.userId} recipientEmail={employee.personalEmail ?? employee.userId} recipientName={employee.name} />
                       <Button asChild variant="secondary" size="sm">
                         <Link href={`/admin/employees/report?id=${employee.id}`}>
                            <FileText className="mr-2 h-4 w-4" /> View Report
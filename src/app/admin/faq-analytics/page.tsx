@@ -0,0 +1,225 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { db } from "@/lib/firebase";
+import { collection, query, where, orderBy, onSnapshot, Timestamp } from "firebase/firestore";
+import { format, startOfDay, subDays } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { promoteFaqQuestion } from "@/app/actions";
+import {
+  FAQ_ANALYTICS_RANGES,
+  dailyQuestionTrend,
+  groupFaqQuestions,
+  questionsNeedingAttention,
+  summarizeFaqLogs,
+  type FaqQuestionGroup,
+  type FaqQuestionLog,
+} from "@/lib/faq-analytics";
+import FaqEntryDialog, { type EntryFormData } from "@/components/admin/faq-entry-dialog";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Loader2, MessageCircleQuestion, CheckCircle, Timer, ThumbsUp, BookPlus } from "lucide-react";
+
+const chartConfig = {
+  answered: { label: "Answered", color: "hsl(var(--primary))" },
+  unanswered: { label: "Unanswered", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const StatCard = ({ title, value, description, icon: Icon }: { title: string; value: string; description: string; icon: React.ElementType }) => (
+  <Card>
+    <CardHeader className="flex flex-row items-center justify-between pb-2">
+      <CardTitle className="text-sm font-medium">{title}</CardTitle>
+      <Icon className="h-4 w-4 text-muted-foreground" />
+    </CardHeader>
+    <CardContent>
+      <div className="text-2xl font-bold">{value}</div>
+      <p className="text-xs text-muted-foreground">{description}</p>
+    </CardContent>
+  </Card>
+);
+
+const QuestionTable = ({ groups, emptyMessage, onPromote }: { groups: FaqQuestionGroup[]; emptyMessage: string; onPromote: (group: FaqQuestionGroup) => void }) => {
+  if (groups.length === 0) {
+    return <p className="text-center text-muted-foreground py-10">{emptyMessage}</p>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Question</TableHead>
+            <TableHead className="text-right">Asked</TableHead>
+            <TableHead>Signals</TableHead>
+            <TableHead>Last Asked</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {groups.map(group => (
+            <TableRow key={group.normalizedQuestion}>
+              <TableCell className="font-medium max-w-md">{group.question}</TableCell>
+              <TableCell className="text-right">{group.count}</TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {group.unanswered > 0 && <Badge variant="destructive">{group.unanswered} unanswered</Badge>}
+                  {group.downVotes > 0 && <Badge variant="outline" className="border-destructive text-destructive">{group.downVotes} down-voted</Badge>}
+                  {group.upVotes > 0 && <Badge variant="secondary">{group.upVotes} helpful</Badge>}
+                  {group.promoted && <Badge variant="outline">In knowledge base</Badge>}
+                </div>
+              </TableCell>
+              <TableCell className="whitespace-nowrap">{format(group.lastAskedAt, "PP")}</TableCell>
+              <TableCell className="text-right">
+                {!group.promoted && (
+                  <Button variant="outline" size="sm" onClick={() => onPromote(group)}>
+                    <BookPlus className="mr-2 h-4 w-4" /> Add to FAQ
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default function FaqAnalyticsPage() {
+  const { toast } = useToast();
+  const [days, setDays] = useState<number>(30);
+  const [logs, setLogs] = useState<FaqQuestionLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [promoting, setPromoting] = useState<FaqQuestionGroup | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    const since = Timestamp.fromDate(subDays(startOfDay(new Date()), days - 1));
+    const q = query(collection(db, "faqQuestions"), where("askedAt", ">=", since), orderBy("askedAt", "desc"));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setLogs(snapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          question: data.question,
+          normalizedQuestion: data.normalizedQuestion,
+          answer: data.answer ?? "",
+          answered: Boolean(data.answered),
+          sources: data.sources ?? [],
+          latencyMs: data.latencyMs ?? 0,
+          feedback: data.feedback ?? null,
+          promotedEntryId: data.promotedEntryId ?? null,
+          // Pending server timestamps are null in the local snapshot.
+          askedAt: data.askedAt ? (data.askedAt as Timestamp).toDate() : new Date(),
+        };
+      }));
+      setIsLoading(false);
+    }, (error) => {
+      console.error("Error fetching FAQ questions:", error);
+      toast({ variant: "destructive", title: "Error", description: "Could not fetch FAQ analytics." });
+      setIsLoading(false);
+    });
+    return () => unsubscribe();
+  }, [days, toast]);
+
+  const summary = useMemo(() => summarizeFaqLogs(logs), [logs]);
+  const groups = useMemo(() => groupFaqQuestions(logs), [logs]);
+  const attention = useMemo(() => questionsNeedingAttention(groups), [groups]);
+  const trend = useMemo(() => dailyQuestionTrend(logs, days), [logs, days]);
+
+  const promoteValues = useMemo<Partial<EntryFormData> | undefined>(() => promoting ? {
+    type: "qa",
+    title: promoting.question,
+    // An unanswered question has only the fallback reply, which isn't worth keeping.
+    content: promoting.unanswered === promoting.count ? "" : promoting.answer,
+  } : undefined, [promoting]);
+
+  const rated = summary.upVotes + summary.downVotes;
+
+  return (
+    <div className="flex min-h-screen flex-col bg-secondary p-4 sm:p-6 lg:p-8">
+      <header className="mb-8 flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">FAQ Analytics</h1>
+          <p className="text-muted-foreground">What candidates and clients ask the AI assistant, and how well it answers.</p>
+        </div>
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {FAQ_ANALYTICS_RANGES.map(range => <SelectItem key={range} value={String(range)}>Last {range} days</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </header>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-96">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            <StatCard title="Questions" value={String(summary.total)} description={`${groups.length} distinct questions`} icon={MessageCircleQuestion} />
+            <StatCard title="Answered" value={`${Math.round(summary.answeredRate * 100)}%`} description="Answered from the knowledge base" icon={CheckCircle} />
+            <StatCard title="Response Time" value={`${(summary.averageLatencyMs / 1000).toFixed(1)}s`} description="Average time to a full answer" icon={Timer} />
+            <StatCard
+              title="Helpful"
+              value={rated > 0 ? `${Math.round((summary.upVotes / rated) * 100)}%` : "—"}
+              description={`${summary.upVotes} up, ${summary.downVotes} down`}
+              icon={ThumbsUp}
+            />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Questions per Day</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={chartConfig} className="h-64 w-full">
+                <BarChart data={trend}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="answered" stackId="questions" fill="var(--color-answered)" />
+                  <Bar dataKey="unanswered" stackId="questions" fill="var(--color-unanswered)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Needs Attention</CardTitle>
+              <CardDescription>Questions the assistant couldn&apos;t answer or whose answers were voted down.</CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              <QuestionTable groups={attention} emptyMessage="Nothing needs attention in this period." onPromote={setPromoting} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Most Asked</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <QuestionTable groups={groups.slice(0, 20)} emptyMessage="No questions have been asked in this period." onPromote={setPromoting} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <FaqEntryDialog
+        entry={null}
+        initialValues={promoteValues}
+        open={promoting !== null}
+        onOpenChange={(open) => !open && setPromoting(null)}
+        onSave={(data) => promoteFaqQuestion(promoting!.normalizedQuestion, data)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { db } from "@/lib/firebase";
+import { collection, query, orderBy, onSnapshot } from "firebase/firestore";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { deleteFaqEntry, importStarterFaqKnowledge, reindexFaqKnowledge } from "@/app/actions";
+import { FAQ_ENTRY_TYPE_LABELS } from "@/lib/faq-knowledge";
+import FaqEntryDialog, { type FaqEntry } from "@/components/admin/faq-entry-dialog";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, PlusCircle, Pencil, Trash2, RefreshCw, Download, BookOpen } from "lucide-react";
+
+const DeleteEntryButton = ({ entry }: { entry: FaqEntry }) => {
+  const { toast } = useToast();
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    const result = await deleteFaqEntry(entry.id);
+    if (result.success) {
+      toast({ title: "Success", description: result.message });
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+    setIsDeleting(false);
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="icon" disabled={isDeleting} aria-label="Delete entry">
+          {isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete this entry?</AlertDialogTitle>
+          <AlertDialogDescription>
+            &quot;{entry.title}&quot; will no longer be used to answer questions. This cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default function FaqKnowledgePage() {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<FaqEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<FaqEntry | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [pending, setPending] = useState<"import" | "reindex" | null>(null);
+
+  useEffect(() => {
+    const q = query(collection(db, "faqKnowledge"), orderBy("updatedAt", "desc"));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setEntries(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as FaqEntry));
+      setIsLoading(false);
+    }, (error) => {
+      console.error("Error fetching FAQ knowledge:", error);
+      toast({ variant: "destructive", title: "Error", description: "Could not fetch knowledge base entries." });
+      setIsLoading(false);
+    });
+    return () => unsubscribe();
+  }, [toast]);
+
+  const run = async (kind: "import" | "reindex", action: () => Promise<{ success: boolean; message: string }>) => {
+    setPending(kind);
+    const result = await action();
+    if (result.success) {
+      toast({ title: "Success", description: result.message });
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+    setPending(null);
+  };
+
+  const openDialog = (entry: FaqEntry | null) => {
+    setEditing(entry);
+    setDialogOpen(true);
+  };
+
+  const unindexed = entries.filter(entry => !entry.embedding?.length).length;
+
+  return (
+    <div className="flex min-h-screen flex-col bg-secondary p-4 sm:p-6 lg:p-8">
+      <header className="mb-8 flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">FAQ Knowledge Base</h1>
+          <p className="text-muted-foreground">Articles, Q&amp;A pairs and policies the AI assistant answers from.</p>
+        </div>
+        <div className="flex gap-2">
+          {unindexed > 0 && (
+            <Button variant="outline" onClick={() => run("reindex", reindexFaqKnowledge)} disabled={pending !== null}>
+              {pending === "reindex" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+              Index {unindexed} {unindexed === 1 ? "entry" : "entries"}
+            </Button>
+          )}
+          <Button onClick={() => openDialog(null)}><PlusCircle className="mr-2 h-4 w-4" /> Add Entry</Button>
+        </div>
+      </header>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex justify-center items-center h-96">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-20 space-y-4">
+              <BookOpen className="mx-auto h-10 w-10 text-muted-foreground" />
+              <p className="text-muted-foreground">The knowledge base is empty, so the assistant can&apos;t answer any questions yet.</p>
+              <Button variant="outline" onClick={() => run("import", importStarterFaqKnowledge)} disabled={pending !== null}>
+                {pending === "import" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                Import company basics
+              </Button>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Keywords</TableHead>
+                    <TableHead>Last Updated</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>
+                        <div className="font-medium">{entry.title}</div>
+                        <div className="text-sm text-muted-foreground line-clamp-2 max-w-xl">{entry.content}</div>
+                      </TableCell>
+                      <TableCell><Badge variant="secondary">{FAQ_ENTRY_TYPE_LABELS[entry.type]}</Badge></TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {entry.tags.map(tag => <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>)}
+                        </div>
+                      </TableCell>
+                      <TableCell>{entry.updatedAt ? format(entry.updatedAt.toDate(), "PP") : "N/A"}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="icon" onClick={() => openDialog(entry)} aria-label="Edit entry">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <DeleteEntryButton entry={entry} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <FaqEntryDialog entry={editing} open={dialogOpen} onOpenChange={setDialogOpen} />
+    </div>
+  );
+}
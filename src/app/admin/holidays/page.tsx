@@ -0,0 +1,287 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { db } from "@/lib/firebase";
+import { collection, doc, query, where, orderBy, onSnapshot } from "firebase/firestore";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { deleteHoliday, saveHoliday, updateWorkWeek } from "@/app/actions";
+import {
+  DEFAULT_WORK_WEEK,
+  HOLIDAY_TYPES,
+  HOLIDAY_TYPE_LABELS,
+  WEEKDAY_LABELS,
+  WORK_DAY_TYPES,
+  WORK_DAY_TYPE_LABELS,
+  type Holiday,
+  type HolidayType,
+  type WorkDayType,
+  type WorkWeek,
+} from "@/lib/work-calendar";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, PlusCircle, Save, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const HOLIDAY_TYPE_CLASSES: Record<HolidayType, string> = {
+  national: "bg-orange-100 text-orange-800",
+  state: "bg-green-100 text-green-800",
+  company: "bg-blue-100 text-blue-800",
+};
+
+const DeleteButton = ({ holiday }: { holiday: Holiday }) => {
+    const { toast } = useToast();
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleDelete = async () => {
+        setIsLoading(true);
+        const result = await deleteHoliday(holiday.date);
+        if (result.success) {
+            toast({ title: "Success", description: result.message });
+        } else {
+            toast({ variant: "destructive", title: "Error", description: result.message });
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <Button variant="ghost" size="icon" onClick={handleDelete} disabled={isLoading} title="Remove holiday">
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+        </Button>
+    );
+};
+
+const AddHolidayForm = ({ year }: { year: number }) => {
+    const { toast } = useToast();
+    const [date, setDate] = useState("");
+    const [name, setName] = useState("");
+    const [type, setType] = useState<HolidayType>("national");
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault();
+        setIsLoading(true);
+        const result = await saveHoliday({ date, name, type });
+        if (result.success) {
+            toast({ title: "Success", description: result.message });
+            setDate("");
+            setName("");
+        } else {
+            toast({ variant: "destructive", title: "Error", description: result.message });
+        }
+        setIsLoading(false);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="grid gap-4 sm:grid-cols-[10rem_1fr_12rem_auto] sm:items-end">
+            <div className="space-y-2">
+                <Label htmlFor="holiday-date">Date</Label>
+                <Input id="holiday-date" type="date" min={`${year}-01-01`} max={`${year}-12-31`} value={date} onChange={event => setDate(event.target.value)} required />
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="holiday-name">Name</Label>
+                <Input id="holiday-name" placeholder="e.g., Jharkhand Foundation Day" value={name} onChange={event => setName(event.target.value)} required />
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="holiday-type">Type</Label>
+                <Select value={type} onValueChange={value => setType(value as HolidayType)}>
+                    <SelectTrigger id="holiday-type">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {HOLIDAY_TYPES.map(holidayType => (
+                            <SelectItem key={holidayType} value={holidayType}>{HOLIDAY_TYPE_LABELS[holidayType]}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            <Button type="submit" disabled={isLoading}>
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlusCircle className="mr-2 h-4 w-4" />}
+                Add Holiday
+            </Button>
+        </form>
+    );
+};
+
+const WorkWeekEditor = ({ saved }: { saved: WorkWeek }) => {
+    const { toast } = useToast();
+    const [workWeek, setWorkWeek] = useState<WorkWeek>(saved);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        setWorkWeek(saved);
+    }, [saved]);
+
+    const handleSave = async () => {
+        setIsLoading(true);
+        const result = await updateWorkWeek({ workWeek });
+        if (result.success) {
+            toast({ title: "Success", description: result.message });
+        } else {
+            toast({ variant: "destructive", title: "Error", description: result.message });
+        }
+        setIsLoading(false);
+    };
+
+    // Monday first, as the office week is read.
+    const weekdays = [1, 2, 3, 4, 5, 6, 0];
+
+    return (
+        <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                {weekdays.map(weekday => (
+                    <div key={weekday} className="space-y-2">
+                        <Label htmlFor={`weekday-${weekday}`}>{WEEKDAY_LABELS[weekday]}</Label>
+                        <Select
+                            value={workWeek[weekday]}
+                            onValueChange={value => setWorkWeek(workWeek.map((dayType, index) => index === weekday ? value as WorkDayType : dayType))}
+                        >
+                            <SelectTrigger id={`weekday-${weekday}`}>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {WORK_DAY_TYPES.map(dayType => (
+                                    <SelectItem key={dayType} value={dayType}>{WORK_DAY_TYPE_LABELS[dayType]}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                ))}
+            </div>
+            <Button onClick={handleSave} disabled={isLoading}>
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save Working Days
+            </Button>
+        </div>
+    );
+};
+
+export default function HolidaysPage() {
+  const { toast } = useToast();
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [workWeek, setWorkWeek] = useState<WorkWeek>(DEFAULT_WORK_WEEK);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setIsLoading(true);
+    const q = query(
+      collection(db, 'holidays'),
+      where('date', '>=', `${year}-01-01`),
+      where('date', '<=', `${year}-12-31`),
+      orderBy('date')
+    );
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+        setHolidays(snapshot.docs.map((doc) => doc.data() as Holiday));
+        setIsLoading(false);
+    }, (error) => {
+        console.error("Error fetching holidays: ", error);
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to load holidays.",
+        });
+        setIsLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [year, toast]);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, 'settings', 'workWeek'), (snapshot) => {
+        setWorkWeek(snapshot.data()?.workWeek ?? DEFAULT_WORK_WEEK);
+    }, (error) => {
+        console.error("Error fetching working days: ", error);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  const thisYear = new Date().getFullYear();
+
+  return (
+    <div className="flex min-h-screen flex-col bg-secondary p-4 sm:p-6 lg:p-8">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold">Holidays &amp; Working Days</h1>
+        <p className="text-muted-foreground">Holidays and weekly offs are not counted as absence and are not deducted from leave.</p>
+      </header>
+      <div className="space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Working Days</CardTitle>
+            <CardDescription>
+              Full days run 10:30 am to 5:00 pm and half days 10:30 am to 1:30 pm. Checking in for less than three quarters of the shift counts as a half day.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WorkWeekEditor saved={workWeek} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Holiday Calendar</CardTitle>
+              <CardDescription>National, Jharkhand state and company holidays.</CardDescription>
+            </div>
+            <Select value={String(year)} onValueChange={value => setYear(Number(value))}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[thisYear - 1, thisYear, thisYear + 1].map(option => (
+                  <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <AddHolidayForm year={year} />
+            {isLoading ? (
+              <div className="flex justify-center items-center h-40">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : holidays.length === 0 ? (
+              <div className="text-center py-10">
+                <p className="text-muted-foreground">No holidays added for {year}.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Holiday</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead className="text-right">Action</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {holidays.map((holiday) => (
+                      <TableRow key={holiday.date}>
+                        <TableCell className="whitespace-nowrap">{format(new Date(`${holiday.date}T12:00:00`), 'EEE, PP')}</TableCell>
+                        <TableCell className="font-medium">{holiday.name}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className={HOLIDAY_TYPE_CLASSES[holiday.type]}>{HOLIDAY_TYPE_LABELS[holiday.type]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <DeleteButton holiday={holiday} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
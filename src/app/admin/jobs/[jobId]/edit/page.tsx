@@ -0,0 +1,95 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { doc, getDoc, Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { format } from "date-fns";
+import { updateJob } from "@/app/actions";
+import { useToast } from "@/hooks/use-toast";
+import JobForm, { emptyJobFormValues, type JobFormData } from "@/components/admin/job-form";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+
+export default function EditJobPage({ params }: { params: { jobId: string } }) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [job, setJob] = useState<JobFormData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchJob = async () => {
+      setIsLoading(true);
+      try {
+        const docSnap = await getDoc(doc(db, "jobs", params.jobId));
+        if (docSnap.exists()) {
+          const data = docSnap.data();
+          const expiresAt = data.expiresAt as Timestamp | null | undefined;
+          setJob({
+            ...emptyJobFormValues,
+            title: data.title,
+            company: data.company,
+            location: data.location,
+            type: data.type,
+            workMode: data.workMode,
+            experienceMin: data.experienceMin,
+            experienceMax: data.experienceMax,
+            salaryMin: data.salaryMin,
+            salaryMax: data.salaryMax,
+            department: data.department,
+            companyType: data.companyType,
+            roleCategory: data.roleCategory,
+            education: data.education,
+            industry: data.industry,
+            description: data.description,
+            tags: (data.tags ?? []).join(", "),
+            status: data.status ?? "live",
+            expiresAt: expiresAt ? format(expiresAt.toDate(), "yyyy-MM-dd") : "",
+          });
+        }
+      } catch (error) {
+        console.error("Error fetching job:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchJob();
+  }, [params.jobId]);
+
+  async function onSubmit(values: JobFormData) {
+    const result = await updateJob(params.jobId, values);
+
+    if (result.success) {
+      toast({ title: "Success!", description: result.message });
+      router.push("/admin/jobs");
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+    return result.success;
+  }
+
+  if (isLoading) {
+    return <div className="flex justify-center items-center h-screen"><Loader2 className="h-8 w-8 animate-spin" /></div>;
+  }
+
+  if (!job) {
+    return <div className="flex justify-center items-center h-screen"><p>Job not found.</p></div>;
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col bg-secondary p-4 sm:p-6 lg:p-8">
+       <header className="mb-8">
+          <h1 className="text-3xl font-bold">Edit Job</h1>
+          <p className="text-muted-foreground">Update the details of &quot;{job.title}&quot;.</p>
+        </header>
+
+      <Card>
+        <CardContent className="p-6">
+          <JobForm defaultValues={job} submitLabel="Save Changes" onSubmit={onSubmit} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
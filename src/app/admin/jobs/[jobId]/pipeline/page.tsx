@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import Link from "next/link";
+import { db } from "@/lib/firebase";
+import { collection, doc, getDoc, onSnapshot, query, where, Timestamp } from "firebase/firestore";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { updateApplicationStage } from "@/app/actions";
+import { APPLICATION_STAGES, APPLICATION_STAGE_LABELS, applicationStage, type ApplicationStage } from "@/lib/applications";
+import { cn } from "@/lib/utils";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, ArrowLeft, Eye } from "lucide-react";
+
+interface Application {
+  id: string;
+  fullName: string;
+  email: string;
+  yearsOfExperience?: number;
+  hasExperience: 'yes' | 'no';
+  stage?: ApplicationStage;
+  submittedAt?: Timestamp;
+}
+
+const ApplicantCard = ({ application, onDragStart }: { application: Application; onDragStart: (e: React.DragEvent) => void }) => (
+  <Card draggable onDragStart={onDragStart} className="cursor-grab active:cursor-grabbing">
+    <CardContent className="p-3 space-y-1">
+      <div className="flex items-start justify-between gap-2">
+        <p className="font-medium text-sm">{application.fullName}</p>
+        <Link href={`/admin/applications/${application.id}`} className="text-muted-foreground hover:text-primary">
+          <Eye className="h-4 w-4" />
+        </Link>
+      </div>
+      <p className="text-xs text-muted-foreground truncate">{application.email}</p>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{application.hasExperience === 'yes' ? `${application.yearsOfExperience ?? 0} yrs exp` : 'Fresher'}</span>
+        {application.submittedAt && <span>{formatDistanceToNow(application.submittedAt.toDate(), { addSuffix: true })}</span>}
+      </div>
+    </CardContent>
+  </Card>
+);
+
+export default function PipelinePage({ params }: { params: { jobId: string } }) {
+  const { toast } = useToast();
+  const [jobTitle, setJobTitle] = useState("");
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [dragOverStage, setDragOverStage] = useState<ApplicationStage | null>(null);
+
+  useEffect(() => {
+    getDoc(doc(db, "jobs", params.jobId)).then(jobSnap => {
+      if (jobSnap.exists()) setJobTitle(jobSnap.data().title);
+    });
+  }, [params.jobId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    const q = query(collection(db, 'applications'), where('jobId', '==', params.jobId));
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+        const applicationsData = snapshot.docs
+          .map((doc) => ({ id: doc.id, ...doc.data() }) as Application)
+          .sort((a, b) => (b.submittedAt?.toMillis() ?? 0) - (a.submittedAt?.toMillis() ?? 0));
+        setApplications(applicationsData);
+        setIsLoading(false);
+    }, (error) => {
+        console.error("Error fetching applications: ", error);
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to load applications.",
+        });
+        setIsLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [params.jobId, toast]);
+
+  const moveApplication = async (applicationId: string, stage: ApplicationStage) => {
+    const application = applications.find(app => app.id === applicationId);
+    if (!application || applicationStage(application) === stage) return;
+
+    const previousStage = application.stage;
+    // Move the card right away; the snapshot listener confirms it, or we roll back below.
+    setApplications(prev => prev.map(app => app.id === applicationId ? { ...app, stage } : app));
+
+    const result = await updateApplicationStage({ applicationId, stage });
+
+    if (!result.success) {
+      setApplications(prev => prev.map(app => app.id === applicationId ? { ...app, stage: previousStage } : app));
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, stage: ApplicationStage) => {
+    e.preventDefault();
+    setDragOverStage(null);
+    const applicationId = e.dataTransfer.getData("text/plain");
+    if (applicationId) moveApplication(applicationId, stage);
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col bg-secondary p-4 sm:p-6 lg:p-8">
+      <header className="mb-8">
+        <Button asChild variant="link" className="px-0">
+          <Link href="/admin/jobs"><ArrowLeft className="mr-1 h-4 w-4" /> Back to jobs</Link>
+        </Button>
+        <h1 className="text-3xl font-bold">Hiring Pipeline</h1>
+        <p className="text-muted-foreground">{jobTitle ? `${jobTitle} — ` : ''}Drag candidates between stages to update their status.</p>
+      </header>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-96">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {APPLICATION_STAGES.map(stage => {
+            const stageApplications = applications.filter(app => applicationStage(app) === stage);
+            return (
+              <div
+                key={stage}
+                onDragOver={(e) => { e.preventDefault(); setDragOverStage(stage); }}
+                onDragLeave={() => setDragOverStage(current => current === stage ? null : current)}
+                onDrop={(e) => handleDrop(e, stage)}
+                className={cn(
+                  "w-64 shrink-0 rounded-lg bg-muted/60 p-3 space-y-3 min-h-[24rem] transition-colors",
+                  dragOverStage === stage && "bg-primary/10 ring-2 ring-primary/40"
+                )}
+              >
+                <div className="flex items-center justify-between">
+                  <h2 className="font-semibold text-sm">{APPLICATION_STAGE_LABELS[stage]}</h2>
+                  <Badge variant="secondary">{stageApplications.length}</Badge>
+                </div>
+                {stageApplications.map(application => (
+                  <ApplicantCard
+                    key={application.id}
+                    application={application}
+                    onDragStart={(e) => e.dataTransfer.setData("text/plain", application.id)}
+                  />
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { db } from "@/lib/firebase";
+import { collection, query, orderBy, Timestamp, onSnapshot } from "firebase/firestore";
+import { format } from "date-fns";
+import Link from "next/link";
+import { useToast } from "@/hooks/use-toast";
+import { expireJobs, repostJob, setJobStatus } from "@/app/actions";
+import { effectiveJobStatus, JOB_STATUS_LABELS, type JobStatus } from "@/lib/jobs";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Loader2, MoreHorizontal, Pencil, Play, Pause, XCircle, RefreshCw, PlusCircle, Eye, KanbanSquare } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+interface Job {
+  id: string;
+  title: string;
+  company: string;
+  location: string;
+  status?: JobStatus;
+  postedAt?: Timestamp;
+  expiresAt?: Timestamp | null;
+}
+
+const STATUS_BADGE_CLASSES: Record<JobStatus, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  live: "bg-green-100 text-green-800",
+  paused: "bg-yellow-100 text-yellow-800",
+  closed: "bg-red-100 text-red-800",
+  expired: "bg-orange-100 text-orange-800",
+};
+
+const JobActions = ({ job, status }: { job: Job; status: JobStatus }) => {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const run = async (action: () => Promise<{ success: boolean; message: string }>) => {
+    setIsLoading(true);
+    const result = await action();
+    if (result.success) {
+      toast({ title: "Success", description: result.message });
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" disabled={isLoading}>
+          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <MoreHorizontal className="h-4 w-4" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem asChild>
+          <Link href={`/admin/jobs/${job.id}/edit`}><Pencil className="mr-2 h-4 w-4" /> Edit</Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link href={`/admin/jobs/${job.id}/pipeline`}><KanbanSquare className="mr-2 h-4 w-4" /> Pipeline</Link>
+        </DropdownMenuItem>
+        {status === "live" && (
+          <DropdownMenuItem asChild>
+            <Link href={`/jobs/${job.id}`} target="_blank"><Eye className="mr-2 h-4 w-4" /> View public page</Link>
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuSeparator />
+        {(status === "draft" || status === "paused") && (
+          <DropdownMenuItem onSelect={() => run(() => setJobStatus({ jobId: job.id, status: "live" }))}>
+            <Play className="mr-2 h-4 w-4" /> {status === "draft" ? "Publish" : "Resume"}
+          </DropdownMenuItem>
+        )}
+        {status === "live" && (
+          <DropdownMenuItem onSelect={() => run(() => setJobStatus({ jobId: job.id, status: "paused" }))}>
+            <Pause className="mr-2 h-4 w-4" /> Pause
+          </DropdownMenuItem>
+        )}
+        {status !== "closed" && status !== "draft" && (
+          <DropdownMenuItem onSelect={() => run(() => setJobStatus({ jobId: job.id, status: "closed" }))}>
+            <XCircle className="mr-2 h-4 w-4" /> Close
+          </DropdownMenuItem>
+        )}
+        {(status === "closed" || status === "expired") && (
+          <DropdownMenuItem onSelect={() => run(() => repostJob(job.id))}>
+            <RefreshCw className="mr-2 h-4 w-4" /> Repost
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default function JobsPage() {
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    // Bring stored statuses up to date before showing the table.
+    expireJobs();
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    const q = query(collection(db, 'jobs'), orderBy('postedAt', 'desc'));
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+        const jobsData = snapshot.docs.map((doc) => ({
+            id: doc.id,
+            ...doc.data(),
+        })) as Job[];
+        setJobs(jobsData);
+        setIsLoading(false);
+    }, (error) => {
+        console.error("Error fetching jobs: ", error);
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to load jobs.",
+        });
+        setIsLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [toast]);
+
+
+  return (
+    <div className="flex min-h-screen flex-col bg-secondary p-4 sm:p-6 lg:p-8">
+      <header className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Jobs</h1>
+          <p className="text-muted-foreground">Edit, pause, close and repost your job listings.</p>
+        </div>
+        <Button asChild>
+          <Link href="/admin/add-job"><PlusCircle className="mr-2 h-4 w-4" /> Add Job</Link>
+        </Button>
+      </header>
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex justify-center items-center h-96">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-20">
+              <p className="text-muted-foreground">No jobs posted yet.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Posted On</TableHead>
+                    <TableHead>Expires On</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobs.map((job) => {
+                    const status = effectiveJobStatus({
+                      status: job.status,
+                      expiresAt: job.expiresAt ? job.expiresAt.toDate().toISOString() : null,
+                    });
+                    return (
+                      <TableRow key={job.id}>
+                        <TableCell>
+                          <div className="font-medium">{job.title}</div>
+                          <div className="text-sm text-muted-foreground">{job.company}</div>
+                        </TableCell>
+                        <TableCell>{job.location}</TableCell>
+                        <TableCell>
+                          {job.postedAt ? format(job.postedAt.toDate(), 'PP') : 'N/A'}
+                        </TableCell>
+                        <TableCell>
+                          {job.expiresAt ? format(job.expiresAt.toDate(), 'PP') : 'No expiry'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className={STATUS_BADGE_CLASSES[status]}>
+                            {JOB_STATUS_LABELS[status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <JobActions job={job} status={status} />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
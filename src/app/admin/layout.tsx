@@ -4,12 +4,33 @@
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import { SidebarProvider, Sidebar, SidebarMenu, SidebarMenuItem, SidebarMenuButton, SidebarHeader, SidebarTrigger, SidebarInset } from "@/components/ui/sidebar";
-import { LayoutDashboard, PlusCircle, Users, Briefcase, Mail, LogOut, CalendarDays, Award } from "lucide-react";
+import { LayoutDashboard, PlusCircle, Users, Briefcase, Mail, LogOut, CalendarDays, Palmtree, CalendarOff, Car, Award, ClipboardList, BookOpen, BarChart3, ShieldCheck, History, type LucideIcon } from "lucide-react";
 import Image from "next/image";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { signOut } from "firebase/auth";
 import { auth } from "@/lib/firebase";
+import { useSession } from "@/hooks/use-session";
+import { canAccess } from "@/lib/roles";
+
+// Each link is shown only to users whose roles can open the page (see ROUTE_ACCESS in lib/roles).
+const NAV_ITEMS: { href: string; label: string; icon: LucideIcon; exact?: boolean }[] = [
+  { href: "/admin", label: "Dashboard", icon: LayoutDashboard, exact: true },
+  { href: "/admin/add-job", label: "Add Job", icon: PlusCircle, exact: true },
+  { href: "/admin/jobs", label: "Jobs", icon: ClipboardList },
+  { href: "/admin/applications", label: "Applications", icon: Users },
+  { href: "/admin/employees", label: "Employees", icon: Briefcase },
+  { href: "/admin/attendance", label: "Attendance", icon: CalendarDays },
+  { href: "/admin/leave", label: "Leave", icon: Palmtree, exact: true },
+  { href: "/admin/holidays", label: "Holidays", icon: CalendarOff, exact: true },
+  { href: "/admin/travel", label: "Travel", icon: Car, exact: true },
+  { href: "/admin/memberships", label: "Memberships", icon: Award },
+  { href: "/admin/faq-knowledge", label: "FAQ Knowledge", icon: BookOpen, exact: true },
+  { href: "/admin/faq-analytics", label: "FAQ Analytics", icon: BarChart3, exact: true },
+  { href: "/admin/newsletter", label: "Newsletter", icon: Mail, exact: true },
+  { href: "/admin/activity", label: "Activity Log", icon: History, exact: true },
+  { href: "/admin/roles", label: "Roles", icon: ShieldCheck, exact: true },
+];
 
 export default function AdminLayout({
   children,
@@ -19,6 +40,7 @@ export default function AdminLayout({
   const pathname = usePathname();
   const router = useRouter();
   const { toast } = useToast();
+  const { roles } = useSession();
 
   const handleLogout = async () => {
     try {
@@ -43,62 +65,16 @@ export default function AdminLayout({
             </div>
         </SidebarHeader>
         <SidebarMenu>
-          <SidebarMenuItem>
-            <SidebarMenuButton asChild isActive={pathname === "/admin"}>
-                <Link href="/admin">
-                    <LayoutDashboard />
-                    <span>Dashboard</span>
-                </Link>
-            </SidebarMenuButton>
-          </SidebarMenuItem>
-          <SidebarMenuItem>
-             <SidebarMenuButton asChild isActive={pathname === "/admin/add-job"}>
-                <Link href="/admin/add-job">
-                    <PlusCircle />
-                    <span>Add Job</span>
-                </Link>
-            </SidebarMenuButton>
-          </SidebarMenuItem>
-          <SidebarMenuItem>
-             <SidebarMenuButton asChild isActive={pathname.startsWith("/admin/applications")}>
-                <Link href="/admin/applications">
-                    <Users />
-                    <span>Applications</span>
-                </Link>
-            </SidebarMenuButton>
-          </SidebarMenuItem>
-           <SidebarMenuItem>
-             <SidebarMenuButton asChild isActive={pathname.startsWith("/admin/employees")}>
-                <Link href="/admin/employees">
-                    <Briefcase />
-                    <span>Employees</span>
-                </Link>
-            </SidebarMenuButton>
-          </SidebarMenuItem>
-           <SidebarMenuItem>
-             <SidebarMenuButton asChild isActive={pathname.startsWith("/admin/attendance")}>
-                <Link href="/admin/attendance">
-                    <CalendarDays />
-                    <span>Attendance</span>
-                </Link>
-            </SidebarMenuButton>
-          </SidebarMenuItem>
-           <SidebarMenuItem>
-             <SidebarMenuButton asChild isActive={pathname.startsWith("/admin/memberships")}>
-                <Link href="/admin/memberships">
-                    <Award />
-                    <span>Memberships</span>
-                </Link>
-            </SidebarMenuButton>
-          </SidebarMenuItem>
-          <SidebarMenuItem>
-             <SidebarMenuButton asChild isActive={pathname === "/admin/newsletter"}>
-                <Link href="/admin/newsletter">
-                    <Mail />
-                    <span>Newsletter</span>
+          {NAV_ITEMS.filter(item => canAccess(roles, item.href)).map(({ href, label, icon: Icon, exact }) => (
+            <SidebarMenuItem key={href}>
+              <SidebarMenuButton asChild isActive={exact ? pathname === href : pathname.startsWith(href)}>
+                <Link href={href}>
+                  <Icon />
+                  <span>{label}</span>
                 </Link>
-            </SidebarMenuButton>
-          </SidebarMenuItem>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          ))}
         </SidebarMenu>
          <div className="mt-auto p-2">
             <Button variant="ghost" className="w-full justify-start" onClick={handleLogout}>
@@ -0,0 +1,252 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { db } from "@/lib/firebase";
+import { collection, query, orderBy, Timestamp, onSnapshot } from "firebase/firestore";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { decideLeaveRequest } from "@/app/actions";
+import { LEAVE_REQUEST_STATUS_BADGE_CLASSES, LEAVE_REQUEST_STATUS_LABELS, LEAVE_TYPE_LABELS, type LeaveRequestStatus, type LeaveType } from "@/lib/leave";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, CheckCircle, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface LeaveRequest {
+  id: string;
+  employeeName: string;
+  type: LeaveType;
+  from: string;
+  to: string;
+  days: number;
+  reason: string;
+  status: LeaveRequestStatus;
+  requestedAt: Timestamp;
+  decidedAt?: Timestamp;
+  decidedByName?: string;
+  decisionNote?: string;
+  deductedDays?: number;
+}
+
+type Decision = "approved" | "rejected";
+
+const formatDay = (day: string) => format(new Date(`${day}T12:00:00`), 'PP');
+
+const formatRange = ({ from, to }: LeaveRequest) => from === to ? formatDay(from) : `${formatDay(from)} – ${formatDay(to)}`;
+
+const DecisionDialog = ({ request, decision, onClose }: { request: LeaveRequest; decision: Decision | null; onClose: () => void }) => {
+    const { toast } = useToast();
+    const [note, setNote] = useState("");
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (decision) setNote("");
+    }, [decision]);
+
+    const handleDecide = async () => {
+        if (!decision) return;
+        setIsLoading(true);
+        const result = await decideLeaveRequest({ requestId: request.id, decision, note });
+        if (result.success) {
+            toast({ title: "Success", description: result.message });
+            onClose();
+        } else {
+            toast({ variant: "destructive", title: "Error", description: result.message });
+        }
+        setIsLoading(false);
+    };
+
+    return (
+        <Dialog open={decision !== null} onOpenChange={open => !open && onClose()}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>{decision === "approved" ? "Approve" : "Reject"} Leave</DialogTitle>
+                    <DialogDescription>
+                        {LEAVE_TYPE_LABELS[request.type]} for {request.employeeName}, {formatRange(request)} ({request.days} days).
+                        {decision === "approved" && " The days are deducted from their balance and marked as leave in attendance."}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-2">
+                    <Label htmlFor="decision-note">Note for the employee (optional)</Label>
+                    <Textarea id="decision-note" value={note} onChange={event => setNote(event.target.value)} />
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose} disabled={isLoading}>Cancel</Button>
+                    <Button variant={decision === "rejected" ? "destructive" : "default"} onClick={handleDecide} disabled={isLoading}>
+                        {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {decision === "approved" ? "Approve" : "Reject"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+const DecisionButtons = ({ request }: { request: LeaveRequest }) => {
+    const [decision, setDecision] = useState<Decision | null>(null);
+
+    return (
+        <div className="flex justify-end gap-2">
+            <Button size="sm" onClick={() => setDecision("approved")}>
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Approve
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setDecision("rejected")}>
+                <XCircle className="mr-2 h-4 w-4" />
+                Reject
+            </Button>
+            <DecisionDialog request={request} decision={decision} onClose={() => setDecision(null)} />
+        </div>
+    );
+};
+
+const StatusBadge = ({ status }: { status: LeaveRequestStatus }) => (
+    <Badge variant="secondary" className={LEAVE_REQUEST_STATUS_BADGE_CLASSES[status]}>
+        {LEAVE_REQUEST_STATUS_LABELS[status]}
+    </Badge>
+);
+
+export default function LeavePage() {
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setIsLoading(true);
+    const q = query(collection(db, 'leaveRequests'), orderBy('requestedAt', 'desc'));
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+        const requestsData = snapshot.docs.map((doc) => ({
+            id: doc.id,
+            ...doc.data(),
+        })) as LeaveRequest[];
+        setRequests(requestsData);
+        setIsLoading(false);
+    }, (error) => {
+        console.error("Error fetching leave requests: ", error);
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to load leave requests.",
+        });
+        setIsLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [toast]);
+
+  const pendingRequests = requests.filter(request => request.status === 'pending');
+  const decidedRequests = requests.filter(request => request.status !== 'pending');
+
+  const loader = (
+    <div className="flex justify-center items-center h-40">
+      <Loader2 className="h-8 w-8 animate-spin text-primary" />
+    </div>
+  );
+
+  return (
+    <div className="flex min-h-screen flex-col bg-secondary p-4 sm:p-6 lg:p-8">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold">Leave Requests</h1>
+        <p className="text-muted-foreground">Approve or reject employee leave. Approved days are deducted from the yearly balance.</p>
+      </header>
+      <div className="space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending Approval</CardTitle>
+            <CardDescription>Requests waiting for HR or a manager to decide.</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? loader : pendingRequests.length === 0 ? (
+              <div className="text-center py-10">
+                <p className="text-muted-foreground">No leave requests waiting for a decision.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Dates</TableHead>
+                      <TableHead>Days</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Requested On</TableHead>
+                      <TableHead className="text-right">Action</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pendingRequests.map((request) => (
+                      <TableRow key={request.id}>
+                        <TableCell className="font-medium">{request.employeeName}</TableCell>
+                        <TableCell>{LEAVE_TYPE_LABELS[request.type]}</TableCell>
+                        <TableCell className="whitespace-nowrap">{formatRange(request)}</TableCell>
+                        <TableCell>{request.days}</TableCell>
+                        <TableCell className="text-muted-foreground max-w-sm">{request.reason}</TableCell>
+                        <TableCell>{request.requestedAt ? format(request.requestedAt.toDate(), 'PP') : 'N/A'}</TableCell>
+                        <TableCell className="text-right">
+                          <DecisionButtons request={request} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>History</CardTitle>
+            <CardDescription>Approved, rejected and cancelled requests.</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? loader : decidedRequests.length === 0 ? (
+              <div className="text-center py-10">
+                <p className="text-muted-foreground">No decided leave requests yet.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Dates</TableHead>
+                      <TableHead>Days Deducted</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Decided By</TableHead>
+                      <TableHead>Note</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {decidedRequests.map((request) => (
+                      <TableRow key={request.id}>
+                        <TableCell className="font-medium">{request.employeeName}</TableCell>
+                        <TableCell>{LEAVE_TYPE_LABELS[request.type]}</TableCell>
+                        <TableCell className="whitespace-nowrap">{formatRange(request)}</TableCell>
+                        <TableCell>{request.deductedDays ?? '-'}</TableCell>
+                        <TableCell><StatusBadge status={request.status} /></TableCell>
+                        <TableCell>
+                          {request.decidedByName ?? '-'}
+                          {request.decidedAt && <div className="text-xs text-muted-foreground">{format(request.decidedAt.toDate(), 'PP')}</div>}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground max-w-sm">{request.decisionNote || '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Loader2, CheckCircle, Clock } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import PasswordSetupLink, { PasswordSetupLinkDialog } from "@/components/admin/password-setup-link";
 
 interface Membership {
   id: string;
@@ -29,17 +31,18 @@ interface Membership {
 const VerifyButton = ({ membership }: { membership: Membership }) => {
     const { toast } = useToast();
     const [isLoading, setIsLoading] = useState(false);
+    const [setupLink, setSetupLink] = useState<string | null>(null);
 
     const handleVerify = async () => {
         setIsLoading(true);
-        const result = await verifyMembership({
-            membershipId: membership.id,
-            email: membership.email,
-            password: membership.phone, // Using phone as password as requested
-        });
+        const result = await verifyMembership({ membershipId: membership.id });
 
         if (result.success) {
             toast({ title: "Success", description: result.message });
+            // New accounts have no password yet; the member sets one with this link.
+            if ("passwordSetupLink" in result && result.passwordSetupLink) {
+                setSetupLink(result.passwordSetupLink);
+            }
         } else {
             toast({ variant: "destructive", title: "Error", description: result.message });
         }
@@ -47,10 +50,21 @@ const VerifyButton = ({ membership }: { membership: Membership }) => {
     }
 
     return (
-         <Button size="sm" onClick={handleVerify} disabled={isLoading}>
-            {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
-            Verify
-        </Button>
+        <>
+            <Button size="sm" onClick={handleVerify} disabled={isLoading}>
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+                Verify
+            </Button>
+            <Dialog open={setupLink !== null} onOpenChange={open => !open && setSetupLink(null)}>
+                <DialogContent className="sm:max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>Membership Verified</DialogTitle>
+                        <DialogDescription>An account was created for {membership.email}.</DialogDescription>
+                    </DialogHeader>
+                    {setupLink && <PasswordSetupLink link={setupLink} recipientEmail={membership.email} recipientName={membership.name} />}
+                </DialogContent>
+            </Dialog>
+        </>
     )
 }
 
@@ -142,7 +156,7 @@ export default function MembershipsPage() {
                         {member.status === 'pending' ? (
                             <VerifyButton membership={member} />
                         ) : (
-                           <span className="text-sm text-muted-foreground">Verified</span>
+                           <PasswordSetupLinkDialog accountEmail={member.email} recipientEmail={member.email} recipientName={member.name} />
                         )}
                       </TableCell>
                     </TableRow>
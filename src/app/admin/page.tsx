@@ -4,8 +4,11 @@
 import React, { useState, useEffect } from "react";
 import { db } from "@/lib/firebase";
 import { collection, getDocs } from "firebase/firestore";
+import { isJobOpen } from "@/lib/jobs";
 import Link from "next/link";
 import { useToast } from "@/hooks/use-toast";
+import { useSession } from "@/hooks/use-session";
+import { RECRUITING_ROLES, hasAnyRole } from "@/lib/roles";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -16,9 +19,19 @@ export default function AdminPage() {
   const { toast } = useToast();
   const [applicationCount, setApplicationCount] = useState(0);
   const [jobCount, setJobCount] = useState(0);
+  const [liveJobCount, setLiveJobCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const { roles, loading: sessionLoading } = useSession();
+  // Jobs and applications are only readable by recruiters; HR uses the menu instead.
+  const canRecruit = hasAnyRole(roles, RECRUITING_ROLES);
 
   useEffect(() => {
+    if (sessionLoading) return;
+    if (!canRecruit) {
+      setIsLoading(false);
+      return;
+    }
+
     const fetchData = async () => {
       setIsLoading(true);
       try {
@@ -29,6 +42,10 @@ export default function AdminPage() {
         const jobsCollection = collection(db, 'jobs');
         const jobsSnapshot = await getDocs(jobsCollection);
         setJobCount(jobsSnapshot.size);
+        setLiveJobCount(jobsSnapshot.docs.filter(jobDoc => {
+          const { status, expiresAt } = jobDoc.data();
+          return isJobOpen({ status, expiresAt: expiresAt ? expiresAt.toDate().toISOString() : null });
+        }).length);
 
       } catch (error) {
         console.error("Error fetching counts: ", error);
@@ -43,7 +60,7 @@ export default function AdminPage() {
     };
 
     fetchData();
-  }, [toast]);
+  }, [toast, sessionLoading, canRecruit]);
 
 
   return (
@@ -54,6 +71,7 @@ export default function AdminPage() {
           <p className="text-muted-foreground">Welcome back, Administrator! Here's an overview of your platform.</p>
         </header>
 
+        {canRecruit && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             <Card>
                 <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -75,9 +93,11 @@ export default function AdminPage() {
                 </CardHeader>
                 <CardContent>
                      {isLoading ? <Loader2 className="h-6 w-6 animate-spin" /> : <div className="text-2xl font-bold">{jobCount}</div>}
-                    <p className="text-xs text-muted-foreground">Live and expired job listings</p>
+                    <p className="text-xs text-muted-foreground">
+                      {isLoading ? "Live and inactive job listings" : `${liveJobCount} live, ${jobCount - liveJobCount} draft, paused, closed or expired`}
+                    </p>
                     <Button asChild variant="link" className="px-0">
-                        <Link href="/jobs" target="_blank">View public jobs <ArrowRight className="ml-1 h-4 w-4" /></Link>
+                        <Link href="/admin/jobs">Manage jobs <ArrowRight className="ml-1 h-4 w-4" /></Link>
                     </Button>
                 </CardContent>
             </Card>
@@ -95,6 +115,7 @@ export default function AdminPage() {
                 </CardContent>
             </Card>
         </div>
+        )}
       </div>
     </div>
   );
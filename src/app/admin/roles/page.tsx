@@ -0,0 +1,199 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from "react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useSession } from "@/hooks/use-session";
+import { listUserRoles, updateUserRoles } from "@/app/actions";
+import { ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS, type Role, type UserRoleSummary } from "@/lib/roles";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Search, ShieldCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+const EditRolesDialog = ({ user, onSaved }: { user: UserRoleSummary; onSaved: (roles: Role[]) => void }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [roles, setRoles] = useState<Role[]>(user.roles);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setRoles(user.roles);
+  }, [open, user.roles]);
+
+  const toggleRole = (role: Role, checked: boolean) => {
+    setRoles(current => checked ? [...current, role] : current.filter(r => r !== role));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await updateUserRoles({ uid: user.uid, roles });
+    if (result.success) {
+      toast({ title: "Success", description: result.message });
+      onSaved(result.roles ?? roles);
+      setOpen(false);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <ShieldCheck className="mr-2 h-4 w-4" />
+          Edit Roles
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Roles for {user.email ?? user.uid}</DialogTitle>
+          <DialogDescription>
+            Accounts without a role are treated as candidates. Removing a role signs the user out of their open sessions.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {ROLES.map(role => (
+            <div key={role} className="flex items-start gap-3">
+              <Checkbox
+                id={`role-${role}`}
+                checked={roles.includes(role)}
+                onCheckedChange={checked => toggleRole(role, checked === true)}
+              />
+              <div className="grid gap-1 leading-none">
+                <Label htmlFor={`role-${role}`}>{ROLE_LABELS[role]}</Label>
+                <p className="text-sm text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Roles
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default function RolesPage() {
+  const { toast } = useToast();
+  const { user: currentUser } = useSession();
+  const [users, setUsers] = useState<UserRoleSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    // Wait for the session cookie so the action knows who is asking.
+    if (!currentUser) return;
+    listUserRoles().then(result => {
+      if (result.success) {
+        setUsers(result.users);
+      } else {
+        toast({ variant: "destructive", title: "Error", description: "message" in result ? result.message : "Failed to load users." });
+      }
+      setIsLoading(false);
+    });
+  }, [currentUser, toast]);
+
+  const filteredUsers = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return users;
+    return users.filter(user =>
+      [user.email, user.displayName].some(value => value?.toLowerCase().includes(term))
+    );
+  }, [users, search]);
+
+  const handleSaved = (uid: string, roles: Role[]) => {
+    setUsers(current => current.map(user => user.uid === uid ? { ...user, roles } : user));
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col bg-secondary p-4 sm:p-6 lg:p-8">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold">Roles</h1>
+        <p className="text-muted-foreground">Grant and revoke what each account can access.</p>
+      </header>
+      <div className="relative mb-4 max-w-sm">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          placeholder="Search by name or email"
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+          className="pl-9"
+        />
+      </div>
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex justify-center items-center h-96">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : filteredUsers.length === 0 ? (
+            <div className="text-center py-20">
+              <p className="text-muted-foreground">No users found.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Roles</TableHead>
+                    <TableHead>Last Sign-in</TableHead>
+                    <TableHead className="text-right">Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredUsers.map(user => (
+                    <TableRow key={user.uid}>
+                      <TableCell>
+                        <div className="font-medium">{user.displayName ?? user.email ?? user.uid}</div>
+                        {user.displayName && <div className="text-sm text-muted-foreground">{user.email}</div>}
+                        {user.disabled && <Badge variant="destructive" className="mt-1">Disabled</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {user.roles.length === 0 ? (
+                            <Badge variant="outline">{ROLE_LABELS.candidate}</Badge>
+                          ) : user.roles.map(role => (
+                            <Badge key={role} variant={role === "super-admin" ? "default" : "secondary"}>
+                              {ROLE_LABELS[role]}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {user.lastSignInAt ? format(new Date(user.lastSignInAt), 'PP') : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <EditRolesDialog user={user} onSaved={roles => handleSaved(user.uid, roles)} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
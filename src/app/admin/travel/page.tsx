@@ -0,0 +1,445 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { db } from "@/lib/firebase";
+import { collection, doc, query, where, orderBy, onSnapshot } from "firebase/firestore";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { decideTravelClaim, exportTravelStatement, updateTravelRate } from "@/app/actions";
+import { attendanceDay } from "@/lib/attendance";
+import { monthDays } from "@/lib/work-calendar";
+import {
+  DEFAULT_RATE_PER_KM,
+  TRAVEL_CLAIM_STATUSES,
+  TRAVEL_CLAIM_STATUS_BADGE_CLASSES,
+  TRAVEL_CLAIM_STATUS_LABELS,
+  travelStatementTotals,
+  type TravelClaim,
+  type TravelClaimStatus,
+} from "@/lib/travel";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, CheckCircle, XCircle, Camera, Download, Save } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+type Decision = "approved" | "rejected";
+
+const ALL_EMPLOYEES = "all";
+
+const formatDay = (day: string) => format(new Date(`${day}T12:00:00`), 'PP');
+
+const rupees = (amount: number) => `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const downloadBase64 = (data: string, filename: string, mimeType: string) => {
+  const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const PhotoLink = ({ url, label }: { url: string | null; label: string }) =>
+  url ? (
+    <a href={url} target="_blank" rel="noopener noreferrer" className="ml-1 inline-flex text-primary" title={label}>
+      <Camera className="h-3 w-3" />
+    </a>
+  ) : null;
+
+const Odometer = ({ claim }: { claim: TravelClaim }) => (
+  <span className="whitespace-nowrap">
+    {claim.openingKm}<PhotoLink url={claim.openingPhotoUrl} label="Opening odometer photo" />
+    {" → "}
+    {claim.closingKm}<PhotoLink url={claim.closingPhotoUrl} label="Closing odometer photo" />
+  </span>
+);
+
+const StatusBadge = ({ status }: { status: TravelClaimStatus }) => (
+    <Badge variant="secondary" className={TRAVEL_CLAIM_STATUS_BADGE_CLASSES[status]}>
+        {TRAVEL_CLAIM_STATUS_LABELS[status]}
+    </Badge>
+);
+
+const DecisionDialog = ({ claim, decision, onClose }: { claim: TravelClaim; decision: Decision | null; onClose: () => void }) => {
+    const { toast } = useToast();
+    const [note, setNote] = useState("");
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (decision) setNote("");
+    }, [decision]);
+
+    const handleDecide = async () => {
+        if (!decision) return;
+        setIsLoading(true);
+        const result = await decideTravelClaim({ claimId: claim.id, decision, note });
+        if (result.success) {
+            toast({ title: "Success", description: result.message });
+            onClose();
+        } else {
+            toast({ variant: "destructive", title: "Error", description: result.message });
+        }
+        setIsLoading(false);
+    };
+
+    return (
+        <Dialog open={decision !== null} onOpenChange={open => !open && onClose()}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>{decision === "approved" ? "Approve" : "Reject"} Travel Claim</DialogTitle>
+                    <DialogDescription>
+                        {rupees(claim.amount)} for {claim.employeeName}, {claim.distanceKm} km on {formatDay(claim.day)}.
+                        {decision === "approved" && " The amount is added to their reimbursement statement for the month."}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-2">
+                    <Label htmlFor="decision-note">Note for the employee (optional)</Label>
+                    <Textarea id="decision-note" value={note} onChange={event => setNote(event.target.value)} />
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose} disabled={isLoading}>Cancel</Button>
+                    <Button variant={decision === "rejected" ? "destructive" : "default"} onClick={handleDecide} disabled={isLoading}>
+                        {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {decision === "approved" ? "Approve" : "Reject"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+const DecisionButtons = ({ claim }: { claim: TravelClaim }) => {
+    const [decision, setDecision] = useState<Decision | null>(null);
+
+    return (
+        <div className="flex justify-end gap-2">
+            <Button size="sm" onClick={() => setDecision("approved")}>
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Approve
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setDecision("rejected")}>
+                <XCircle className="mr-2 h-4 w-4" />
+                Reject
+            </Button>
+            <DecisionDialog claim={claim} decision={decision} onClose={() => setDecision(null)} />
+        </div>
+    );
+};
+
+const TravelRateForm = ({ saved }: { saved: number }) => {
+    const { toast } = useToast();
+    const [ratePerKm, setRatePerKm] = useState(String(saved));
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        setRatePerKm(String(saved));
+    }, [saved]);
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault();
+        setIsLoading(true);
+        const result = await updateTravelRate({ ratePerKm: Number(ratePerKm) });
+        if (result.success) {
+            toast({ title: "Success", description: result.message });
+        } else {
+            toast({ variant: "destructive", title: "Error", description: result.message });
+        }
+        setIsLoading(false);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex items-end gap-4">
+            <div className="space-y-2">
+                <Label htmlFor="rate-per-km">Rate per km (₹)</Label>
+                <Input id="rate-per-km" type="number" min="0.01" max="100" step="0.01" className="w-32" value={ratePerKm} onChange={event => setRatePerKm(event.target.value)} required />
+            </div>
+            <Button type="submit" disabled={isLoading}>
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save Rate
+            </Button>
+        </form>
+    );
+};
+
+// One employee's claims for the month, line by line.
+const EmployeeStatement = ({ claims }: { claims: TravelClaim[] }) => {
+  const { approved } = travelStatementTotals(claims);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Odometer</TableHead>
+          <TableHead className="text-right">Distance</TableHead>
+          <TableHead className="text-right">Rate</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Note</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {claims.map(claim => (
+          <TableRow key={claim.id}>
+            <TableCell className="whitespace-nowrap">{formatDay(claim.day)}</TableCell>
+            <TableCell><Odometer claim={claim} /></TableCell>
+            <TableCell className="text-right">{claim.distanceKm} km</TableCell>
+            <TableCell className="text-right">{rupees(claim.ratePerKm)}</TableCell>
+            <TableCell className="text-right">{rupees(claim.amount)}</TableCell>
+            <TableCell><StatusBadge status={claim.status} /></TableCell>
+            <TableCell className="text-muted-foreground max-w-sm">{claim.decisionNote || '-'}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell colSpan={2}>Approved for payment</TableCell>
+          <TableCell className="text-right">{approved.distanceKm} km</TableCell>
+          <TableCell />
+          <TableCell className="text-right">{rupees(approved.amount)}</TableCell>
+          <TableCell colSpan={2} />
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+};
+
+// Every employee with claims in the month, with their totals per status.
+const MonthSummary = ({ claims, onSelect }: { claims: TravelClaim[]; onSelect: (employeeId: string) => void }) => {
+  const employees = [...new Map(claims.map(claim => [claim.employeeId, claim.employeeName])).entries()]
+    .sort(([, a], [, b]) => a.localeCompare(b));
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Employee</TableHead>
+          <TableHead className="text-right">Trips</TableHead>
+          <TableHead className="text-right">Distance</TableHead>
+          {TRAVEL_CLAIM_STATUSES.map(status => <TableHead key={status} className="text-right">{TRAVEL_CLAIM_STATUS_LABELS[status]}</TableHead>)}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {employees.map(([employeeId, employeeName]) => {
+          const employeeClaims = claims.filter(claim => claim.employeeId === employeeId);
+          const totals = travelStatementTotals(employeeClaims);
+          return (
+            <TableRow key={employeeId} className="cursor-pointer" onClick={() => onSelect(employeeId)}>
+              <TableCell className="font-medium">{employeeName}</TableCell>
+              <TableCell className="text-right">{employeeClaims.length}</TableCell>
+              <TableCell className="text-right">{employeeClaims.reduce((sum, claim) => Math.round((sum + claim.distanceKm) * 10) / 10, 0)} km</TableCell>
+              {TRAVEL_CLAIM_STATUSES.map(status => <TableCell key={status} className="text-right">{rupees(totals[status].amount)}</TableCell>)}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default function TravelPage() {
+  const { toast } = useToast();
+  const [pendingClaims, setPendingClaims] = useState<TravelClaim[]>([]);
+  const [isLoadingPending, setIsLoadingPending] = useState(true);
+  const [month, setMonth] = useState(() => attendanceDay().slice(0, 7));
+  const [monthClaims, setMonthClaims] = useState<TravelClaim[]>([]);
+  const [isLoadingMonth, setIsLoadingMonth] = useState(true);
+  const [employeeId, setEmployeeId] = useState(ALL_EMPLOYEES);
+  const [ratePerKm, setRatePerKm] = useState(DEFAULT_RATE_PER_KM);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    setIsLoadingPending(true);
+    const q = query(collection(db, 'travelClaims'), where('status', '==', 'pending'));
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+        const claims = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as TravelClaim);
+        setPendingClaims(claims.sort((a, b) => a.day.localeCompare(b.day) || a.employeeName.localeCompare(b.employeeName)));
+        setIsLoadingPending(false);
+    }, (error) => {
+        console.error("Error fetching pending travel claims: ", error);
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to load travel claims.",
+        });
+        setIsLoadingPending(false);
+    });
+
+    return () => unsubscribe();
+  }, [toast]);
+
+  useEffect(() => {
+    if (!/^\d{4}-\d{2}$/.test(month)) return;
+    setIsLoadingMonth(true);
+    const days = monthDays(month);
+    const q = query(
+      collection(db, 'travelClaims'),
+      where('day', '>=', days[0]),
+      where('day', '<=', days[days.length - 1]),
+      orderBy('day')
+    );
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+        setMonthClaims(snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as TravelClaim));
+        setIsLoadingMonth(false);
+    }, (error) => {
+        console.error("Error fetching travel statement: ", error);
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to load the travel statement.",
+        });
+        setIsLoadingMonth(false);
+    });
+
+    return () => unsubscribe();
+  }, [month, toast]);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, 'settings', 'travelRate'), (snapshot) => {
+        setRatePerKm(snapshot.data()?.ratePerKm ?? DEFAULT_RATE_PER_KM);
+    }, (error) => {
+        console.error("Error fetching travel rate: ", error);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    const result = await exportTravelStatement({ month, employeeId: employeeId === ALL_EMPLOYEES ? undefined : employeeId });
+    if (result.success && "data" in result && result.data) {
+      downloadBase64(result.data, result.filename, result.mimeType);
+    } else {
+      toast({ variant: "destructive", title: "Export Failed", description: result.message });
+    }
+    setIsExporting(false);
+  };
+
+  const employees = [...new Map(monthClaims.map(claim => [claim.employeeId, claim.employeeName])).entries()]
+    .sort(([, a], [, b]) => a.localeCompare(b));
+  const selectedClaims = monthClaims.filter(claim => claim.employeeId === employeeId);
+
+  const loader = (
+    <div className="flex justify-center items-center h-40">
+      <Loader2 className="h-8 w-8 animate-spin text-primary" />
+    </div>
+  );
+
+  return (
+    <div className="flex min-h-screen flex-col bg-secondary p-4 sm:p-6 lg:p-8">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold">Travel Reimbursement</h1>
+        <p className="text-muted-foreground">Claims made from the odometer readings on employees&apos; DSRs. Only approved claims are paid.</p>
+      </header>
+      <div className="space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Rate</CardTitle>
+            <CardDescription>Each claim is priced at the rate on the day the DSR was submitted.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TravelRateForm saved={ratePerKm} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending Approval</CardTitle>
+            <CardDescription>Check the readings against the odometer photos where the employee attached them.</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoadingPending ? loader : pendingClaims.length === 0 ? (
+              <div className="text-center py-10">
+                <p className="text-muted-foreground">No travel claims waiting for a decision.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Odometer</TableHead>
+                      <TableHead className="text-right">Distance</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead className="text-right">Action</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pendingClaims.map((claim) => (
+                      <TableRow key={claim.id}>
+                        <TableCell className="font-medium">{claim.employeeName}</TableCell>
+                        <TableCell className="whitespace-nowrap">{formatDay(claim.day)}</TableCell>
+                        <TableCell><Odometer claim={claim} /></TableCell>
+                        <TableCell className="text-right">{claim.distanceKm} km</TableCell>
+                        <TableCell className="text-right">
+                          {rupees(claim.amount)}
+                          <div className="text-xs text-muted-foreground">at {rupees(claim.ratePerKm)}/km</div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <DecisionButtons claim={claim} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-col gap-4 space-y-0 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+              <CardTitle>Monthly Statement</CardTitle>
+              <CardDescription>Choose an employee for their claims line by line.</CardDescription>
+            </div>
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="statement-month" className="text-xs text-muted-foreground">Month</Label>
+                <Input id="statement-month" type="month" className="w-40" value={month} onChange={event => setMonth(event.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Employee</Label>
+                <Select value={employeeId} onValueChange={setEmployeeId}>
+                  <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_EMPLOYEES}>All employees</SelectItem>
+                    {employees.map(([id, name]) => <SelectItem key={id} value={id}>{name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button variant="outline" onClick={handleExport} disabled={isExporting || monthClaims.length === 0}>
+                {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                CSV
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoadingMonth ? loader : monthClaims.length === 0 ? (
+              <div className="text-center py-10">
+                <p className="text-muted-foreground">No travel claims in this month.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                {employeeId === ALL_EMPLOYEES || selectedClaims.length === 0
+                  ? <MonthSummary claims={monthClaims} onSelect={setEmployeeId} />
+                  : <EmployeeStatement claims={selectedClaims} />}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
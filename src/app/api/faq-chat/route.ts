@@ -0,0 +1,5 @@
+import {appRoute} from '@genkit-ai/next';
+import {aiFaqFlow} from '@/ai/flows/ai-faq';
+
+// Streams FAQ chat answers to the chat widget.
+export const POST = appRoute(aiFaqFlow);
@@ -1,157 +1,213 @@
-
 "use client";
 
-import { useState } from "react";
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
-import * as z from "zod";
-import { markAttendance } from "@/app/actions";
+import { useCallback, useEffect, useState } from "react";
+import { checkIn, checkOut, getTodayAttendance } from "@/app/actions";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "../layout";
-
+import { useI18n } from "@/hooks/use-i18n";
+import type { MessageKey } from "@/lib/i18n";
+import { formatWorkingTime, workingMinutes, type AttendanceDay, type AttendanceLocation, type AttendanceState } from "@/lib/attendance";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, CalendarCheck, LogIn, LogOut } from "lucide-react";
 import { Label } from "@/components/ui/label";
+import { Loader2, LogIn, LogOut, Clock } from "lucide-react";
+import AttendanceCalendar from "@/components/employee/attendance-calendar";
 
-const attendanceSchema = z.object({
-  status: z.enum(["working", "leave"], {
-    required_error: "You need to select your status.",
-  }),
-  tasks: z.string().optional(),
-}).refine(data => {
-    if (data.status === 'working' && (!data.tasks || data.tasks.length < 10)) {
-        return false;
-    }
-    return true;
-}, {
-    message: "Please enter your tasks for the day (min 10 characters).",
-    path: ["tasks"],
-});
+const STATE_LABELS: Record<AttendanceState, MessageKey> = {
+  notCheckedIn: "employee.attendance.states.notCheckedIn",
+  checkedIn: "employee.attendance.states.checkedIn",
+  checkedOut: "employee.attendance.states.checkedOut",
+  onLeave: "employee.attendance.states.onLeave",
+};
+
+const STATE_BADGE_CLASSES: Record<AttendanceState, string> = {
+  notCheckedIn: "bg-gray-100 text-gray-800",
+  checkedIn: "bg-green-100 text-green-800",
+  checkedOut: "bg-blue-100 text-blue-800",
+  onLeave: "bg-yellow-100 text-yellow-800",
+};
 
-type AttendanceFormData = z.infer<typeof attendanceSchema>;
+// Resolves to null when the browser has no geolocation, the employee declines, or no fix comes in time.
+const currentLocation = () =>
+  new Promise<AttendanceLocation | null>(resolve => {
+    if (!navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => resolve({ latitude: coords.latitude, longitude: coords.longitude, accuracy: coords.accuracy ?? null }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+    );
+  });
 
 export default function AttendancePage() {
   const { toast } = useToast();
   const { user } = useAuth();
-  const [isSubmitting, setIsSubmitting] = useState(false);
-
-  const form = useForm<AttendanceFormData>({
-    resolver: zodResolver(attendanceSchema),
-    defaultValues: {
-      status: undefined,
-      tasks: "",
-    },
-  });
-
-  const { watch } = form;
-  const status = watch("status");
+  const { t, formatDate } = useI18n();
+  const [attendance, setAttendance] = useState<AttendanceDay | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pending, setPending] = useState<"checkIn" | "checkOut" | null>(null);
+  const [tasks, setTasks] = useState("");
+  const [tasksError, setTasksError] = useState<string | null>(null);
+  const [shareLocation, setShareLocation] = useState(true);
+  const [now, setNow] = useState(() => new Date());
 
-  async function onSubmit(values: AttendanceFormData) {
-    if (!user) {
-        toast({ variant: "destructive", title: "Error", description: "You must be logged in." });
-        return;
+  const loadAttendance = useCallback(async () => {
+    if (!user) return;
+    const result = await getTodayAttendance({ employeeId: user.uid });
+    if (result.success) {
+      setAttendance(result.attendance);
+    } else {
+      toast({ variant: "destructive", title: t("common.error"), description: result.message ?? t("employee.attendance.loadFailed") });
     }
+    setIsLoading(false);
+  }, [user, toast, t]);
+
+  useEffect(() => {
+    loadAttendance();
+  }, [loadAttendance]);
+
+  // Keeps the time worked so far current while checked in.
+  useEffect(() => {
+    if (attendance?.state !== "checkedIn") return;
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, [attendance?.state]);
 
-    setIsSubmitting(true);
-    const result = await markAttendance({ ...values, employeeId: user.uid, employeeName: user.displayName || user.email || "Unknown" });
+  const showResult = async (result: { success: boolean; message: string }, locationMissing: boolean) => {
     if (result.success) {
       toast({
-        title: "Success!",
-        description: result.message,
+        title: t("common.success"),
+        description: locationMissing ? `${result.message} ${t("employee.attendance.locationUnavailable")}` : result.message,
       });
-      form.reset();
     } else {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: result.message,
-      });
+      toast({ variant: "destructive", title: t("common.error"), description: result.message });
     }
-    setIsSubmitting(false);
-  }
+    await loadAttendance();
+  };
+
+  const handleCheckIn = async () => {
+    if (!user) return;
+    if (tasks.trim().length < 10) {
+      setTasksError(t("employee.attendance.tasksRequired"));
+      return;
+    }
+    setTasksError(null);
+    setPending("checkIn");
+    const location = shareLocation ? await currentLocation() : null;
+    const result = await checkIn({ employeeId: user.uid, tasks, location });
+    if (result.success) setTasks("");
+    await showResult(result, shareLocation && !location);
+    setPending(null);
+  };
+
+  const handleCheckOut = async () => {
+    if (!user) return;
+    setPending("checkOut");
+    const location = shareLocation ? await currentLocation() : null;
+    await showResult(await checkOut({ employeeId: user.uid, location }), shareLocation && !location);
+    setPending(null);
+  };
+
+  const formatTime = (iso: string) => formatDate(new Date(iso), "p");
+
+  const locationOption = (
+    <div className="flex items-start gap-3">
+      <Checkbox id="share-location" checked={shareLocation} onCheckedChange={checked => setShareLocation(checked === true)} />
+      <div className="grid gap-1 leading-none">
+        <Label htmlFor="share-location">{t("employee.attendance.shareLocation")}</Label>
+        <p className="text-sm text-muted-foreground">{t("employee.attendance.shareLocationHint")}</p>
+      </div>
+    </div>
+  );
 
   return (
     <div className="flex min-h-screen flex-col items-center bg-secondary p-4 sm:p-6 lg:p-8">
-      <div className="w-full max-w-2xl">
-        <header className="mb-8 text-center">
-          <h1 className="text-3xl font-bold">Mark Your Attendance</h1>
-          <p className="text-muted-foreground">Let us know if you're working or on leave today.</p>
+      <div className="w-full max-w-2xl space-y-8">
+        <header className="text-center">
+          <h1 className="text-3xl font-bold">{t("employee.attendance.title")}</h1>
+          <p className="text-muted-foreground">{t("employee.attendance.subtitle")}</p>
         </header>
 
         <Card>
-          <CardContent className="p-6">
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                <FormField
-                  control={form.control}
-                  name="status"
-                  render={({ field }) => (
-                    <FormItem className="space-y-3">
-                      <FormLabel className="text-base font-semibold">What is your status for today?</FormLabel>
-                      <FormControl>
-                        <RadioGroup
-                          onValueChange={field.onChange}
-                          defaultValue={field.value}
-                          className="flex flex-col space-y-2 md:flex-row md:space-y-0 md:space-x-4"
-                        >
-                          <FormItem className="flex-1">
-                             <RadioGroupItem value="working" id="working" className="peer sr-only" />
-                             <Label htmlFor="working" className="flex flex-col items-center justify-between rounded-md border-2 border-muted bg-popover p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary">
-                                <LogIn className="mb-3 h-6 w-6" />
-                                I'm Working Today
-                             </Label>
-                          </FormItem>
-                          <FormItem className="flex-1">
-                             <RadioGroupItem value="leave" id="leave" className="peer sr-only" />
-                             <Label htmlFor="leave" className="flex flex-col items-center justify-between rounded-md border-2 border-muted bg-popover p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary">
-                                <LogOut className="mb-3 h-6 w-6" />
-                                I'm On Leave
-                            </Label>
-                          </FormItem>
-                        </RadioGroup>
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
+          {isLoading || !attendance ? (
+            <CardContent className="flex justify-center p-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </CardContent>
+          ) : (
+            <>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div>
+                  <CardTitle>{t("employee.attendance.today", { date: formatDate(new Date(`${attendance.day}T12:00:00+05:30`), "PPPP") })}</CardTitle>
+                  {attendance.checkInAt && (
+                    <CardDescription>
+                      {t("employee.attendance.checkedInAt", { time: formatTime(attendance.checkInAt) })}
+                      {attendance.checkOutAt && ` · ${t("employee.attendance.checkedOutAt", { time: formatTime(attendance.checkOutAt) })}`}
+                    </CardDescription>
                   )}
-                />
-                
-                {status === "working" && (
-                  <FormField
-                    control={form.control}
-                    name="tasks"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Today's Tasks</FormLabel>
-                        <FormControl>
-                          <Textarea
-                            placeholder="Briefly describe the main tasks you'll be focusing on today..."
-                            className="min-h-[120px]"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                </div>
+                <Badge variant="secondary" className={STATE_BADGE_CLASSES[attendance.state]}>
+                  {t(STATE_LABELS[attendance.state])}
+                </Badge>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {attendance.state === "notCheckedIn" && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="tasks">{t("employee.attendance.tasks")}</Label>
+                      <Textarea
+                        id="tasks"
+                        placeholder={t("employee.attendance.tasksPlaceholder")}
+                        className="min-h-[120px]"
+                        value={tasks}
+                        onChange={event => setTasks(event.target.value)}
+                      />
+                      {tasksError && <p className="text-sm font-medium text-destructive">{tasksError}</p>}
+                    </div>
+                    {locationOption}
+                    <Button className="w-full" onClick={handleCheckIn} disabled={pending !== null}>
+                      {pending === "checkIn" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />}
+                      {t("employee.attendance.checkIn")}
+                    </Button>
+                  </>
                 )}
 
-                <Button type="submit" className="w-full" disabled={isSubmitting || !status}>
-                  {isSubmitting ? (
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  ) : (
-                    <CalendarCheck className="mr-2 h-4 w-4" />
-                  )}
-                  Submit Attendance
-                </Button>
-              </form>
-            </Form>
-          </CardContent>
+                {attendance.state === "checkedIn" && attendance.checkInAt && (
+                  <>
+                    <div className="flex items-center gap-2 text-2xl font-semibold">
+                      <Clock className="h-6 w-6 text-primary" />
+                      {t("employee.attendance.elapsed", { hours: formatWorkingTime(workingMinutes(new Date(attendance.checkInAt), now)) })}
+                    </div>
+                    {attendance.tasks && <p className="whitespace-pre-wrap text-sm text-muted-foreground">{attendance.tasks}</p>}
+                    {locationOption}
+                    <Button className="w-full" onClick={handleCheckOut} disabled={pending !== null}>
+                      {pending === "checkOut" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+                      {t("employee.attendance.checkOut")}
+                    </Button>
+                  </>
+                )}
+
+                {attendance.state === "checkedOut" && attendance.workingMinutes !== null && (
+                  <div className="flex items-center gap-2 text-2xl font-semibold">
+                    <Clock className="h-6 w-6 text-primary" />
+                    {t("employee.attendance.workingTime", { hours: formatWorkingTime(attendance.workingMinutes) })}
+                  </div>
+                )}
+
+                {attendance.state === "onLeave" && (
+                  <p className="text-muted-foreground">{t("employee.attendance.onLeaveDescription")}</p>
+                )}
+              </CardContent>
+            </>
+          )}
         </Card>
+
+        {user && <AttendanceCalendar employeeId={user.uid} refreshKey={attendance?.state} />}
       </div>
     </div>
   );
@@ -1,13 +1,15 @@
 
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { logCall } from "@/app/actions";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "../layout";
+import { useI18n } from "@/hooks/use-i18n";
+import type { I18n } from "@/lib/i18n";
 import { db } from "@/lib/firebase";
 import { collection, query, where, getDocs, orderBy, Timestamp } from "firebase/firestore";
 
@@ -17,17 +19,16 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Loader2, PhoneForwarded } from "lucide-react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { format } from "date-fns";
 
 
-const callLogSchema = z.object({
-  clientName: z.string().min(2, "Client name is required."),
-  clientMobile: z.string().min(10, "A valid mobile number is required."),
-  topic: z.string().min(5, "Topic must be at least 5 characters."),
-  duration: z.coerce.number().min(1, "Duration must be at least 1 minute."),
+const createCallLogSchema = (t: I18n["t"]) => z.object({
+  clientName: z.string().min(2, t("employee.calls.clientNameRequired")),
+  clientMobile: z.string().min(10, t("employee.calls.clientMobileInvalid")),
+  topic: z.string().min(5, t("employee.calls.topicTooShort")),
+  duration: z.coerce.number().min(1, t("employee.calls.durationTooShort")),
 });
 
-type CallLogFormData = z.infer<typeof callLogSchema>;
+type CallLogFormData = z.infer<ReturnType<typeof createCallLogSchema>>;
 
 interface CallLog extends CallLogFormData {
   id: string;
@@ -37,9 +38,11 @@ interface CallLog extends CallLogFormData {
 export default function CallsPage() {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { t, formatDate } = useI18n();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [callLogs, setCallLogs] = useState<CallLog[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const callLogSchema = useMemo(() => createCallLogSchema(t), [t]);
 
   const form = useForm<CallLogFormData>({
     resolver: zodResolver(callLogSchema),
@@ -64,33 +67,33 @@ export default function CallsPage() {
                 return {
                     id: doc.id,
                     ...data,
-                    date: format((data.date as Timestamp).toDate(), 'PP'),
+                    date: formatDate((data.date as Timestamp).toDate(), 'PP'),
                 } as CallLog;
             });
             setCallLogs(logs);
         } catch (error) {
             console.error("Error fetching call logs:", error);
-            toast({ variant: "destructive", title: "Error", description: "Could not fetch call logs."});
+            toast({ variant: "destructive", title: t("common.error"), description: t("employee.calls.fetchFailed")});
         } finally {
             setIsLoading(false);
         }
     };
     fetchLogs();
-  }, [user, toast]);
+  }, [user, toast, t, formatDate]);
 
   async function onSubmit(values: CallLogFormData) {
     if (!user) {
-        toast({ variant: "destructive", title: "Error", description: "You must be logged in." });
+        toast({ variant: "destructive", title: t("common.error"), description: t("common.loginRequired") });
         return;
     }
     setIsSubmitting(true);
-    const result = await logCall({ ...values, employeeId: user.uid, employeeName: user.displayName || user.email || "Unknown" });
+    const result = await logCall({ ...values, employeeId: user.uid });
     if (result.success) {
-      toast({ title: "Success!", description: result.message });
-      setCallLogs(prev => [{ ...values, id: new Date().toISOString(), date: format(new Date(), 'PP') }, ...prev]);
+      toast({ title: t("common.success"), description: result.message });
+      setCallLogs(prev => [{ ...values, id: new Date().toISOString(), date: formatDate(new Date(), 'PP') }, ...prev]);
       form.reset();
     } else {
-      toast({ variant: "destructive", title: "Error", description: result.message, errors: result.errors });
+      toast({ variant: "destructive", title: t("common.error"), description: result.message, errors: result.errors });
     }
     setIsSubmitting(false);
   }
@@ -99,30 +102,30 @@ export default function CallsPage() {
     <div className="flex min-h-screen flex-col items-center bg-secondary p-4 sm:p-6 lg:p-8">
       <div className="w-full max-w-4xl space-y-8">
         <header className="text-center">
-          <h1 className="text-3xl font-bold">Log Your Calls</h1>
-          <p className="text-muted-foreground">Keep a record of all your client communications.</p>
+          <h1 className="text-3xl font-bold">{t("employee.calls.title")}</h1>
+          <p className="text-muted-foreground">{t("employee.calls.subtitle")}</p>
         </header>
 
         <Card>
           <CardHeader>
-            <CardTitle>New Call Entry</CardTitle>
-            <CardDescription>Fill in the details for a call you made.</CardDescription>
+            <CardTitle>{t("employee.calls.newTitle")}</CardTitle>
+            <CardDescription>{t("employee.calls.newDescription")}</CardDescription>
           </CardHeader>
           <CardContent>
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <FormField control={form.control} name="clientName" render={({ field }) => (<FormItem><FormLabel>Client Name</FormLabel><FormControl><Input placeholder="e.g., John Smith" {...field} /></FormControl><FormMessage /></FormItem>)} />
-                    <FormField control={form.control} name="clientMobile" render={({ field }) => (<FormItem><FormLabel>Client Mobile No.</FormLabel><FormControl><Input type="tel" placeholder="e.g., 9876543210" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                    <FormField control={form.control} name="clientName" render={({ field }) => (<FormItem><FormLabel>{t("employee.calls.clientName")}</FormLabel><FormControl><Input placeholder={t("employee.calls.clientNamePlaceholder")} {...field} /></FormControl><FormMessage /></FormItem>)} />
+                    <FormField control={form.control} name="clientMobile" render={({ field }) => (<FormItem><FormLabel>{t("employee.calls.clientMobile")}</FormLabel><FormControl><Input type="tel" placeholder={t("employee.calls.clientMobilePlaceholder")} {...field} /></FormControl><FormMessage /></FormItem>)} />
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                     <FormField control={form.control} name="topic" render={({ field }) => (<FormItem><FormLabel>Discussion Topic</FormLabel><FormControl><Input placeholder="e.g., Project Discovery Call" {...field} /></FormControl><FormMessage /></FormItem>)} />
-                    <FormField control={form.control} name="duration" render={({ field }) => (<FormItem><FormLabel>Duration (in minutes)</FormLabel><FormControl><Input type="number" placeholder="e.g., 15" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                     <FormField control={form.control} name="topic" render={({ field }) => (<FormItem><FormLabel>{t("employee.calls.topic")}</FormLabel><FormControl><Input placeholder={t("employee.calls.topicPlaceholder")} {...field} /></FormControl><FormMessage /></FormItem>)} />
+                    <FormField control={form.control} name="duration" render={({ field }) => (<FormItem><FormLabel>{t("employee.calls.duration")}</FormLabel><FormControl><Input type="number" placeholder={t("employee.calls.durationPlaceholder")} {...field} /></FormControl><FormMessage /></FormItem>)} />
                 </div>
                 
                 <Button type="submit" className="w-full" disabled={isSubmitting}>
                   {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PhoneForwarded className="mr-2 h-4 w-4" />}
-                  Log Call
+                  {t("employee.calls.submit")}
                 </Button>
               </form>
             </Form>
@@ -131,18 +134,18 @@ export default function CallsPage() {
 
         <Card>
             <CardHeader>
-                <CardTitle>Recent Call Logs</CardTitle>
-                <CardDescription>Here are the calls you've logged recently.</CardDescription>
+                <CardTitle>{t("employee.calls.recentTitle")}</CardTitle>
+                <CardDescription>{t("employee.calls.recentDescription")}</CardDescription>
             </CardHeader>
             <CardContent>
                 {isLoading ? <div className="flex justify-center items-center h-24"><Loader2 className="h-6 w-6 animate-spin" /></div> :
                 <Table>
                     <TableHeader>
                         <TableRow>
-                            <TableHead>Date</TableHead>
-                            <TableHead>Client</TableHead>
-                            <TableHead>Topic</TableHead>
-                            <TableHead className="text-right">Duration</TableHead>
+                            <TableHead>{t("common.date")}</TableHead>
+                            <TableHead>{t("employee.calls.client")}</TableHead>
+                            <TableHead>{t("employee.calls.topicColumn")}</TableHead>
+                            <TableHead className="text-right">{t("employee.calls.durationColumn")}</TableHead>
                         </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -151,11 +154,11 @@ export default function CallsPage() {
                                 <TableCell>{log.date}</TableCell>
                                 <TableCell className="font-medium">{log.clientName}</TableCell>
                                 <TableCell>{log.topic}</TableCell>
-                                <TableCell className="text-right">{log.duration} mins</TableCell>
+                                <TableCell className="text-right">{t("employee.calls.minutes", { count: log.duration })}</TableCell>
                             </TableRow>
                         )) : (
                             <TableRow>
-                                <TableCell colSpan={4} className="text-center h-24">No calls logged yet.</TableCell>
+                                <TableCell colSpan={4} className="text-center h-24">{t("employee.calls.empty")}</TableCell>
                             </TableRow>
                         )}
                     </TableBody>
@@ -10,6 +10,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { db } from "@/lib/firebase";
 import { collection, query, where, getDocs, Timestamp,getCountFromServer } from "firebase/firestore";
 import { useAuth } from "../layout";
+import { useI18n } from "@/hooks/use-i18n";
 
 interface DashboardCardData {
     title: string;
@@ -17,10 +18,12 @@ interface DashboardCardData {
     icon: React.ReactNode;
     description: string;
     href: string;
+    linkLabel: string;
 }
 
 export default function EmployeeDashboardPage() {
     const { user } = useAuth();
+    const { t, href, formatCurrency } = useI18n();
     const [stats, setStats] = useState({
         dsrCount: 0,
         callCount: 0,
@@ -67,13 +70,14 @@ export default function EmployeeDashboardPage() {
         fetchData();
     }, [user]);
 
+    const viewDetails = t("employee.dashboard.viewDetails");
     const cards: DashboardCardData[] = [
-        { title: "Attendance", value: "Mark", icon: <CalendarCheck className="h-4 w-4 text-muted-foreground" />, description: "Mark today's attendance", href: "/employee/attendance" },
-        { title: "DSR Submitted", value: stats.dsrCount, icon: <ClipboardList className="h-4 w-4 text-muted-foreground" />, description: "Your daily reports", href: "/employee/dsr"},
-        { title: "Calls Made", value: stats.callCount, icon: <Phone className="h-4 w-4 text-muted-foreground" />, description: "Your logged client calls", href: "/employee/calls"},
-        { title: "Total Earnings", value: `₹${stats.totalEarnings.toLocaleString('en-IN')}`, icon: <IndianRupee className="h-4 w-4 text-muted-foreground" />, description: "Earnings you generated", href: "/employee/earnings"},
-        { title: "Pending Tasks", value: stats.pendingTasks, icon: <ListTodo className="h-4 w-4 text-muted-foreground" />, description: "Check your assigned tasks", href: "/employee/pending-work"},
-        { title: "Overall Performance", value: "View", icon: <Activity className="h-4 w-4 text-muted-foreground" />, description: "View your performance report", href: "/employee/performance"},
+        { title: t("employee.dashboard.attendance"), value: t("employee.dashboard.attendanceValue"), icon: <CalendarCheck className="h-4 w-4 text-muted-foreground" />, description: t("employee.dashboard.attendanceDescription"), href: "/employee/attendance", linkLabel: t("employee.dashboard.attendanceDescription") },
+        { title: t("employee.dashboard.dsr"), value: stats.dsrCount, icon: <ClipboardList className="h-4 w-4 text-muted-foreground" />, description: t("employee.dashboard.dsrDescription"), href: "/employee/dsr", linkLabel: viewDetails },
+        { title: t("employee.dashboard.calls"), value: stats.callCount, icon: <Phone className="h-4 w-4 text-muted-foreground" />, description: t("employee.dashboard.callsDescription"), href: "/employee/calls", linkLabel: viewDetails },
+        { title: t("employee.dashboard.earnings"), value: formatCurrency(stats.totalEarnings, 2), icon: <IndianRupee className="h-4 w-4 text-muted-foreground" />, description: t("employee.dashboard.earningsDescription"), href: "/employee/earnings", linkLabel: viewDetails },
+        { title: t("employee.dashboard.tasks"), value: stats.pendingTasks, icon: <ListTodo className="h-4 w-4 text-muted-foreground" />, description: t("employee.dashboard.tasksDescription"), href: "/employee/pending-work", linkLabel: viewDetails },
+        { title: t("employee.dashboard.performance"), value: t("employee.dashboard.performanceValue"), icon: <Activity className="h-4 w-4 text-muted-foreground" />, description: t("employee.dashboard.performanceDescription"), href: "/employee/performance", linkLabel: t("employee.dashboard.performanceDescription") },
     ];
 
     const renderCardContent = (card: DashboardCardData) => (
@@ -81,7 +85,7 @@ export default function EmployeeDashboardPage() {
             <div className="text-2xl font-bold">{card.value}</div>
             <p className="text-xs text-muted-foreground">{card.description}</p>
             <Button asChild variant="link" className="px-0 mt-2 text-sm">
-                <Link href={card.href}>{card.title === "Attendance" || card.title === "Overall Performance" ? card.description : "View Details" } <ArrowUpRight className="ml-1 h-4 w-4" /></Link>
+                <Link href={href(card.href)}>{card.linkLabel} <ArrowUpRight className="ml-1 h-4 w-4" /></Link>
             </Button>
         </>
     );
@@ -98,8 +102,8 @@ export default function EmployeeDashboardPage() {
         <div className="flex min-h-screen flex-col bg-secondary p-4 sm:p-6 lg:p-8">
             <div className="w-full max-w-7xl space-y-8">
                 <header>
-                    <h1 className="text-3xl font-bold">Employee Dashboard</h1>
-                    <p className="text-muted-foreground">Welcome {user?.displayName || user?.email}! Here's your performance snapshot.</p>
+                    <h1 className="text-3xl font-bold">{t("employee.dashboard.title")}</h1>
+                    <p className="text-muted-foreground">{t("employee.dashboard.welcome", { name: user?.displayName || user?.email || "" })}</p>
                 </header>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
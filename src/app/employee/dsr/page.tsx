@@ -1,16 +1,31 @@
 
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
-import { submitDsr } from "@/app/actions";
+import { getTravelRate, submitDsr } from "@/app/actions";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "../layout";
+import { useI18n } from "@/hooks/use-i18n";
+import type { I18n, MessageKey } from "@/lib/i18n";
 import { db } from "@/lib/firebase";
-import { collection, query, where, getDocs, orderBy, Timestamp } from "firebase/firestore";
-import { format } from "date-fns";
+import { collection, query, where, getDocs, orderBy, onSnapshot, Timestamp } from "firebase/firestore";
+import { attendanceDay } from "@/lib/attendance";
+import {
+  MAX_ODOMETER_PHOTO_BYTES,
+  ODOMETER_PHOTO_TYPES,
+  ODOMETER_READINGS,
+  TRAVEL_CLAIM_STATUSES,
+  TRAVEL_CLAIM_STATUS_BADGE_CLASSES,
+  claimAmount,
+  travelDistance,
+  travelStatementTotals,
+  type OdometerReading,
+  type TravelClaim,
+  type TravelClaimStatus,
+} from "@/lib/travel";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -18,12 +33,14 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
-import { Loader2, ClipboardList, Car } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, ClipboardList, Car, Camera } from "lucide-react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 
 
-const dsrSchema = z.object({
-  description: z.string().min(10, "Please provide a detailed description of your work."),
+const createDsrSchema = (t: I18n["t"]) => z.object({
+  description: z.string().min(10, t("employee.dsr.descriptionTooShort")),
   hasTravelled: z.boolean().default(false),
   openingKm: z.coerce.number().optional(),
   closingKm: z.coerce.number().optional(),
@@ -33,11 +50,32 @@ const dsrSchema = z.object({
     }
     return true;
 }, {
-    message: "Closing KM must be greater than Opening KM.",
+    message: t("employee.dsr.closingKmInvalid"),
     path: ["closingKm"],
 });
 
-type DsrFormData = z.infer<typeof dsrSchema>;
+type DsrFormData = z.infer<ReturnType<typeof createDsrSchema>>;
+
+const CLAIM_STATUS_LABELS: Record<TravelClaimStatus, MessageKey> = {
+  pending: "employee.dsr.claimStatuses.pending",
+  approved: "employee.dsr.claimStatuses.approved",
+  rejected: "employee.dsr.claimStatuses.rejected",
+};
+
+const PHOTO_LABELS: Record<OdometerReading, MessageKey> = {
+  opening: "employee.dsr.openingPhoto",
+  closing: "employee.dsr.closingPhoto",
+};
+
+const ClaimSummary = ({ claim }: { claim: TravelClaim }) => {
+  const { t, formatCurrency } = useI18n();
+  return (
+    <div className="flex flex-col items-end gap-1" title={claim.decisionNote ? t("employee.dsr.noteFromHr", { note: claim.decisionNote }) : undefined}>
+      <span className="font-semibold">{formatCurrency(claim.amount, 2)}</span>
+      <Badge variant="secondary" className={TRAVEL_CLAIM_STATUS_BADGE_CLASSES[claim.status]}>{t(CLAIM_STATUS_LABELS[claim.status])}</Badge>
+    </div>
+  );
+};
 
 interface DsrLog extends DsrFormData {
     id: string;
@@ -47,9 +85,16 @@ interface DsrLog extends DsrFormData {
 export default function DsrPage() {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { t, formatDate, formatNumber, formatCurrency } = useI18n();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [dsrLogs, setDsrLogs] = useState<DsrLog[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [ratePerKm, setRatePerKm] = useState<number | null>(null);
+  const [claims, setClaims] = useState<TravelClaim[]>([]);
+  const [photos, setPhotos] = useState<Partial<Record<OdometerReading, File>>>({});
+  // Remounts the file inputs, which can't be cleared through their value, after a submit.
+  const [photoInputKey, setPhotoInputKey] = useState(0);
+  const dsrSchema = useMemo(() => createDsrSchema(t), [t]);
 
   const form = useForm<DsrFormData>({
     resolver: zodResolver(dsrSchema),
@@ -61,6 +106,32 @@ export default function DsrPage() {
 
   const { watch } = form;
   const hasTravelled = watch("hasTravelled");
+  const openingKm = Number(watch("openingKm"));
+  const closingKm = Number(watch("closingKm"));
+  const estimatedKm = hasTravelled && closingKm > openingKm ? travelDistance(openingKm, closingKm) : null;
+
+  const claimsById = new Map(claims.map(claim => [claim.id, claim]));
+  const currentMonth = attendanceDay().slice(0, 7);
+  const statement = travelStatementTotals(claims.filter(claim => claim.day.startsWith(currentMonth)));
+
+  useEffect(() => {
+    getTravelRate().then(result => {
+      if (result.success) setRatePerKm(result.ratePerKm);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    // Filtered on employeeId, as the security rules require.
+    const q = query(collection(db, "travelClaims"), where("employeeId", "==", user.uid));
+    const unsubscribe = onSnapshot(q, snapshot => {
+        setClaims(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as TravelClaim));
+    }, error => {
+        console.error("Error fetching travel claims:", error);
+        toast({ variant: "destructive", title: t("common.error"), description: t("employee.dsr.claimsFetchFailed") });
+    });
+    return () => unsubscribe();
+  }, [user, toast, t]);
 
   useEffect(() => {
     if (!user) return;
@@ -78,33 +149,51 @@ export default function DsrPage() {
                 return {
                     id: doc.id,
                     ...data,
-                    date: format((data.date as Timestamp).toDate(), "PP"),
+                    date: formatDate((data.date as Timestamp).toDate(), "PP"),
                 } as DsrLog;
             });
             setDsrLogs(logs);
         } catch (error) {
             console.error("Error fetching DSR logs:", error);
-            toast({ variant: "destructive", title: "Error", description: "Could not fetch DSR logs."});
+            toast({ variant: "destructive", title: t("common.error"), description: t("employee.dsr.fetchFailed")});
         } finally {
             setIsLoading(false);
         }
     };
     fetchLogs();
-  }, [user, toast]);
+  }, [user, toast, t, formatDate]);
 
   async function onSubmit(values: DsrFormData) {
     if (!user) {
-        toast({ variant: "destructive", title: "Error", description: "You must be logged in." });
+        toast({ variant: "destructive", title: t("common.error"), description: t("common.loginRequired") });
+        return;
+    }
+    const photoList = Object.values(photos);
+    if (photoList.some(photo => photo.size > MAX_ODOMETER_PHOTO_BYTES || !ODOMETER_PHOTO_TYPES.includes(photo.type))) {
+        toast({ variant: "destructive", title: t("common.error"), description: t("actions.odometerPhotoInvalid") });
         return;
     }
     setIsSubmitting(true);
-    const result = await submitDsr({ ...values, employeeId: user.uid, employeeName: user.displayName || user.email || "Unknown" });
+    const formData = new FormData();
+    formData.set("employeeId", user.uid);
+    formData.set("description", values.description);
+    formData.set("hasTravelled", String(values.hasTravelled));
+    if (values.hasTravelled) {
+        formData.set("openingKm", String(values.openingKm));
+        formData.set("closingKm", String(values.closingKm));
+        for (const [reading, photo] of Object.entries(photos)) {
+            formData.set(`${reading}Photo`, photo);
+        }
+    }
+    const result = await submitDsr(formData);
     if (result.success) {
-      toast({ title: "Success!", description: result.message });
-       setDsrLogs(prev => [{ ...values, id: new Date().toISOString(), date: format(new Date(), "PP") }, ...prev]);
+      toast({ title: t("common.success"), description: result.message });
+       setDsrLogs(prev => [{ ...values, id: result.dsrId ?? new Date().toISOString(), date: formatDate(new Date(), "PP") }, ...prev]);
       form.reset();
+      setPhotos({});
+      setPhotoInputKey(key => key + 1);
     } else {
-      toast({ variant: "destructive", title: "Error", description: result.message, errors: result.errors });
+      toast({ variant: "destructive", title: t("common.error"), description: result.message, errors: result.errors });
     }
     setIsSubmitting(false);
   }
@@ -113,14 +202,14 @@ export default function DsrPage() {
     <div className="flex min-h-screen flex-col items-center bg-secondary p-4 sm:p-6 lg:p-8">
       <div className="w-full max-w-4xl space-y-8">
         <header className="mb-8 text-center">
-          <h1 className="text-3xl font-bold">Daily Status Report (DSR)</h1>
-          <p className="text-muted-foreground">Log your work activities for the day.</p>
+          <h1 className="text-3xl font-bold">{t("employee.dsr.title")}</h1>
+          <p className="text-muted-foreground">{t("employee.dsr.subtitle")}</p>
         </header>
 
         <Card>
            <CardHeader>
-                <CardTitle>New DSR Entry</CardTitle>
-                <CardDescription>Fill out your activities for today.</CardDescription>
+                <CardTitle>{t("employee.dsr.newTitle")}</CardTitle>
+                <CardDescription>{t("employee.dsr.newDescription")}</CardDescription>
             </CardHeader>
           <CardContent className="p-6">
             <Form {...form}>
@@ -130,10 +219,10 @@ export default function DsrPage() {
                   name="description"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Work Description</FormLabel>
+                      <FormLabel>{t("employee.dsr.workDescription")}</FormLabel>
                       <FormControl>
                         <Textarea
-                          placeholder="Describe the tasks you completed, clients you contacted, and any other work-related activities..."
+                          placeholder={t("employee.dsr.workDescriptionPlaceholder")}
                           className="min-h-[150px]"
                           {...field}
                         />
@@ -156,7 +245,7 @@ export default function DsrPage() {
                       </FormControl>
                       <div className="space-y-1 leading-none">
                         <FormLabel>
-                          I have travelled for a visit today.
+                          {t("employee.dsr.travelled")}
                         </FormLabel>
                       </div>
                     </FormItem>
@@ -165,14 +254,14 @@ export default function DsrPage() {
 
                 {hasTravelled && (
                     <div className="space-y-4 rounded-md border p-4">
-                        <h4 className="font-semibold flex items-center gap-2"><Car /> Travel Details</h4>
+                        <h4 className="font-semibold flex items-center gap-2"><Car /> {t("employee.dsr.travelDetails")}</h4>
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             <FormField
                                 control={form.control}
                                 name="openingKm"
                                 render={({ field }) => (
                                     <FormItem>
-                                    <FormLabel>Opening KM</FormLabel>
+                                    <FormLabel>{t("employee.dsr.openingKm")}</FormLabel>
                                     <FormControl><Input type="number" placeholder="e.g., 15000" {...field} /></FormControl>
                                     <FormMessage />
                                     </FormItem>
@@ -183,38 +272,87 @@ export default function DsrPage() {
                                 name="closingKm"
                                 render={({ field }) => (
                                     <FormItem>
-                                    <FormLabel>Closing KM</FormLabel>
+                                    <FormLabel>{t("employee.dsr.closingKm")}</FormLabel>
                                     <FormControl><Input type="number" placeholder="e.g., 15100" {...field} /></FormControl>
                                     <FormMessage />
                                     </FormItem>
                                 )}
                             />
                         </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {ODOMETER_READINGS.map(reading => (
+                                <div key={`${reading}-${photoInputKey}`} className="space-y-2">
+                                    <Label htmlFor={`${reading}-photo`} className="flex items-center gap-2"><Camera className="h-4 w-4" /> {t(PHOTO_LABELS[reading])}</Label>
+                                    <Input
+                                        id={`${reading}-photo`}
+                                        type="file"
+                                        accept={ODOMETER_PHOTO_TYPES.join(",")}
+                                        capture="environment"
+                                        onChange={event => {
+                                            const photo = event.target.files?.[0];
+                                            setPhotos(current => {
+                                                const { [reading]: _, ...rest } = current;
+                                                return photo ? { ...rest, [reading]: photo } : rest;
+                                            });
+                                        }}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-sm text-muted-foreground">{t("employee.dsr.photoHint")}</p>
+                        {estimatedKm !== null && ratePerKm !== null && (
+                            <p className="text-sm font-medium">
+                                {t("employee.dsr.travelEstimate", {
+                                    distance: formatNumber(estimatedKm),
+                                    rate: formatCurrency(ratePerKm, 2),
+                                    amount: formatCurrency(claimAmount(estimatedKm, ratePerKm), 2),
+                                })}
+                            </p>
+                        )}
                     </div>
                 )}
                 
                 <Button type="submit" className="w-full" disabled={isSubmitting}>
                   {isSubmitting ? ( <Loader2 className="mr-2 h-4 w-4 animate-spin" /> ) : ( <ClipboardList className="mr-2 h-4 w-4" /> )}
-                  Submit DSR
+                  {t("employee.dsr.submit")}
                 </Button>
               </form>
             </Form>
           </CardContent>
         </Card>
 
+        <Card>
+            <CardHeader>
+                <CardTitle>{t("employee.dsr.statementTitle", { month: formatDate(new Date(`${currentMonth}-01T12:00:00+05:30`), "MMMM yyyy") })}</CardTitle>
+                <CardDescription>{t("employee.dsr.statementDescription")}</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                {TRAVEL_CLAIM_STATUSES.map(status => (
+                    <div key={status} className="rounded-md border p-4">
+                        <Badge variant="secondary" className={TRAVEL_CLAIM_STATUS_BADGE_CLASSES[status]}>{t(CLAIM_STATUS_LABELS[status])}</Badge>
+                        <div className="mt-2 text-2xl font-bold">{formatCurrency(statement[status].amount, 2)}</div>
+                        <p className="text-xs text-muted-foreground">
+                            {t("employee.dsr.statementTrips", { count: statement[status].trips, distance: formatNumber(statement[status].distanceKm) })}
+                        </p>
+                    </div>
+                ))}
+            </CardContent>
+        </Card>
+
          <Card>
             <CardHeader>
-                <CardTitle>Recent DSR Logs</CardTitle>
-                <CardDescription>Here are the DSRs you've submitted recently.</CardDescription>
+                <CardTitle>{t("employee.dsr.recentTitle")}</CardTitle>
+                <CardDescription>{t("employee.dsr.recentDescription")}</CardDescription>
             </CardHeader>
             <CardContent>
                 {isLoading ? <div className="flex justify-center items-center h-24"><Loader2 className="h-6 w-6 animate-spin" /></div> :
                 <Table>
                     <TableHeader>
                         <TableRow>
-                            <TableHead>Date</TableHead>
-                            <TableHead>Description</TableHead>
-                            <TableHead className="text-right">Travel (KM)</TableHead>
+                            <TableHead>{t("common.date")}</TableHead>
+                            <TableHead>{t("common.description")}</TableHead>
+                            <TableHead className="text-right">{t("employee.dsr.travelColumn")}</TableHead>
+                            <TableHead className="text-right">{t("employee.dsr.claimColumn")}</TableHead>
                         </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -224,14 +362,17 @@ export default function DsrPage() {
                                 <TableCell className="font-medium truncate max-w-xs">{log.description}</TableCell>
                                 <TableCell className="text-right">
                                     {log.hasTravelled && log.closingKm && log.openingKm 
-                                        ? (log.closingKm - log.openingKm) 
-                                        : 'N/A'
+                                        ? formatNumber(log.closingKm - log.openingKm)
+                                        : t("employee.dsr.notApplicable")
                                     }
                                 </TableCell>
+                                <TableCell className="text-right">
+                                    {claimsById.has(log.id) ? <ClaimSummary claim={claimsById.get(log.id)!} /> : t("employee.dsr.notApplicable")}
+                                </TableCell>
                             </TableRow>
                         )) : (
                             <TableRow>
-                                <TableCell colSpan={3} className="text-center h-24">No DSRs submitted yet.</TableCell>
+                                <TableCell colSpan={4} className="text-center h-24">{t("employee.dsr.empty")}</TableCell>
                             </TableRow>
                         )}
                     </TableBody>
@@ -1,16 +1,17 @@
 
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { submitEarnings } from "@/app/actions";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "../layout";
+import { useI18n } from "@/hooks/use-i18n";
+import type { I18n } from "@/lib/i18n";
 import { db } from "@/lib/firebase";
 import { collection, query, where, getDocs, orderBy, Timestamp } from "firebase/firestore";
-import { format } from "date-fns";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -19,14 +20,14 @@ import { Input } from "@/components/ui/input";
 import { Loader2, IndianRupee, PlusCircle, Trash2, Send } from "lucide-react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 
-const earningsSchema = z.object({
+const createEarningsSchema = (t: I18n["t"]) => z.object({
   earnings: z.array(z.object({
-    description: z.string().min(3, "Description must be at least 3 characters."),
-    amount: z.coerce.number().min(1, "Amount must be a positive number."),
-  })).min(1, "Please add at least one earning entry."),
+    description: z.string().min(3, t("employee.earnings.descriptionTooShort")),
+    amount: z.coerce.number().min(1, t("employee.earnings.amountInvalid")),
+  })).min(1, t("employee.earnings.entryRequired")),
 });
 
-type EarningsFormData = z.infer<typeof earningsSchema>;
+type EarningsFormData = z.infer<ReturnType<typeof createEarningsSchema>>;
 
 interface SubmittedEarning {
     id: string;
@@ -38,9 +39,11 @@ interface SubmittedEarning {
 export default function EarningsPage() {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { t, formatDate, formatCurrency } = useI18n();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submittedEarnings, setSubmittedEarnings] = useState<SubmittedEarning[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const earningsSchema = useMemo(() => createEarningsSchema(t), [t]);
 
   const form = useForm<EarningsFormData>({
     resolver: zodResolver(earningsSchema),
@@ -70,39 +73,39 @@ export default function EarningsPage() {
                 return {
                     id: doc.id,
                     ...data,
-                    date: format((data.date as Timestamp).toDate(), "PP"),
+                    date: formatDate((data.date as Timestamp).toDate(), "PP"),
                 } as SubmittedEarning;
             });
             setSubmittedEarnings(earnings);
         } catch (error) {
             console.error("Error fetching earnings:", error);
-            toast({ variant: "destructive", title: "Error", description: "Could not fetch earnings."});
+            toast({ variant: "destructive", title: t("common.error"), description: t("employee.earnings.fetchFailed")});
         } finally {
             setIsLoading(false);
         }
     };
     fetchEarnings();
-  }, [user, toast]);
+  }, [user, toast, t, formatDate]);
 
 
   async function onSubmit(values: EarningsFormData) {
      if (!user) {
-        toast({ variant: "destructive", title: "Error", description: "You must be logged in." });
+        toast({ variant: "destructive", title: t("common.error"), description: t("common.loginRequired") });
         return;
     }
     setIsSubmitting(true);
-    const result = await submitEarnings({ earnings: values.earnings, employeeId: user.uid, employeeName: user.displayName || user.email || "Unknown" });
+    const result = await submitEarnings({ earnings: values.earnings, employeeId: user.uid });
     if (result.success) {
-      toast({ title: "Success!", description: result.message });
+      toast({ title: t("common.success"), description: result.message });
       const newSubmissions: SubmittedEarning[] = values.earnings.map(e => ({
           ...e,
           id: new Date().toISOString() + Math.random(),
-          date: format(new Date(), "PP")
+          date: formatDate(new Date(), "PP")
       }));
       setSubmittedEarnings(prev => [...newSubmissions, ...prev]);
       form.reset({ earnings: [{ description: "", amount: 0 }] });
     } else {
-      toast({ variant: "destructive", title: "Error", description: result.message, errors: result.errors });
+      toast({ variant: "destructive", title: t("common.error"), description: result.message, errors: result.errors });
     }
     setIsSubmitting(false);
   }
@@ -111,14 +114,14 @@ export default function EarningsPage() {
     <div className="flex min-h-screen flex-col items-center bg-secondary p-4 sm:p-6 lg:p-8">
       <div className="w-full max-w-4xl space-y-8">
         <header className="text-center">
-          <h1 className="text-3xl font-bold">Submit Your Earnings</h1>
-          <p className="text-muted-foreground">Report the revenue you have generated for the company.</p>
+          <h1 className="text-3xl font-bold">{t("employee.earnings.title")}</h1>
+          <p className="text-muted-foreground">{t("employee.earnings.subtitle")}</p>
         </header>
 
         <Card>
           <CardHeader>
-            <CardTitle>New Earning Entry</CardTitle>
-            <CardDescription>Add one or more earning details below. Click "Add Earning" for multiple entries.</CardDescription>
+            <CardTitle>{t("employee.earnings.newTitle")}</CardTitle>
+            <CardDescription>{t("employee.earnings.newDescription")}</CardDescription>
           </CardHeader>
           <CardContent>
             <Form {...form}>
@@ -131,8 +134,8 @@ export default function EarningsPage() {
                         name={`earnings.${index}.description`}
                         render={({ field }) => (
                           <FormItem className="flex-1">
-                            <FormLabel>Description</FormLabel>
-                            <FormControl><Input placeholder="e.g., Booking from Client X" {...field} /></FormControl>
+                            <FormLabel>{t("common.description")}</FormLabel>
+                            <FormControl><Input placeholder={t("employee.earnings.descriptionPlaceholder")} {...field} /></FormControl>
                             <FormMessage />
                           </FormItem>
                         )}
@@ -142,8 +145,8 @@ export default function EarningsPage() {
                         name={`earnings.${index}.amount`}
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Amount (INR)</FormLabel>
-                            <FormControl><Input type="number" placeholder="e.g., 50000" {...field} /></FormControl>
+                            <FormLabel>{t("employee.earnings.amountLabel")}</FormLabel>
+                            <FormControl><Input type="number" placeholder={t("employee.earnings.amountPlaceholder")} {...field} /></FormControl>
                             <FormMessage />
                           </FormItem>
                         )}
@@ -168,11 +171,11 @@ export default function EarningsPage() {
                         variant="outline"
                         onClick={() => append({ description: "", amount: 0 })}
                     >
-                        <PlusCircle className="mr-2 h-4 w-4" /> Add Earning
+                        <PlusCircle className="mr-2 h-4 w-4" /> {t("employee.earnings.add")}
                     </Button>
                     <Button type="submit" disabled={isSubmitting}>
                         {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
-                        Submit All Earnings
+                        {t("employee.earnings.submit")}
                     </Button>
                 </div>
               </form>
@@ -182,17 +185,17 @@ export default function EarningsPage() {
 
         <Card>
             <CardHeader>
-                <CardTitle>Recent Earning Submissions</CardTitle>
-                <CardDescription>Here are the earnings you've submitted recently.</CardDescription>
+                <CardTitle>{t("employee.earnings.recentTitle")}</CardTitle>
+                <CardDescription>{t("employee.earnings.recentDescription")}</CardDescription>
             </CardHeader>
             <CardContent>
                 {isLoading ? <div className="flex justify-center items-center h-24"><Loader2 className="h-6 w-6 animate-spin" /></div> :
                 <Table>
                     <TableHeader>
                         <TableRow>
-                            <TableHead>Date</TableHead>
-                            <TableHead>Description</TableHead>
-                            <TableHead className="text-right">Amount</TableHead>
+                            <TableHead>{t("common.date")}</TableHead>
+                            <TableHead>{t("common.description")}</TableHead>
+                            <TableHead className="text-right">{t("common.amount")}</TableHead>
                         </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -200,11 +203,11 @@ export default function EarningsPage() {
                             <TableRow key={earning.id}>
                                 <TableCell>{earning.date}</TableCell>
                                 <TableCell className="font-medium">{earning.description}</TableCell>
-                                <TableCell className="text-right font-semibold">₹{earning.amount.toLocaleString('en-IN')}</TableCell>
+                                <TableCell className="text-right font-semibold">{formatCurrency(earning.amount, 2)}</TableCell>
                             </TableRow>
                         )) : (
                             <TableRow>
-                                <TableCell colSpan={3} className="text-center h-24">No earnings submitted yet.</TableCell>
+                                <TableCell colSpan={3} className="text-center h-24">{t("employee.earnings.empty")}</TableCell>
                             </TableRow>
                         )}
                     </TableBody>
@@ -4,7 +4,7 @@
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import { SidebarProvider, Sidebar, SidebarMenu, SidebarMenuItem, SidebarMenuButton, SidebarHeader, SidebarTrigger, SidebarInset } from "@/components/ui/sidebar";
-import { LayoutDashboard, CalendarCheck, Phone, IndianRupee, ClipboardList, ListTodo, LogOut } from "lucide-react";
+import { LayoutDashboard, CalendarCheck, Palmtree, Phone, IndianRupee, ClipboardList, ListTodo, LogOut } from "lucide-react";
 import React, { createContext, useContext, useEffect, useState } from "react";
 import { onAuthStateChanged, User, signOut, updateProfile } from "firebase/auth";
 import { doc, getDoc, setDoc, serverTimestamp } from "firebase/firestore";
@@ -12,6 +12,9 @@ import { auth, db } from "@/lib/firebase";
 import { Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import { splitLocale } from "@/lib/i18n";
+import LanguageSwitcher from "@/components/layout/language-switcher";
 import Image from "next/image";
 
 interface AuthContextType {
@@ -27,15 +30,17 @@ function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const router = useRouter();
-  const pathname = usePathname();
+  const { href } = useI18n();
+  const { pathname } = splitLocale(usePathname());
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
       if (user) {
         const employeeRef = doc(db, "employees", user.uid);
         
-        // Update last seen
-        await setDoc(employeeRef, { lastSeen: serverTimestamp() }, { merge: true });
+        // Update last seen. The rules only allow it on an existing employee record.
+        await setDoc(employeeRef, { lastSeen: serverTimestamp() }, { merge: true })
+          .catch(error => console.error("Error updating last seen:", error));
 
         // Fetch employee name from Firestore and update Auth profile
         if (!user.displayName) {
@@ -59,14 +64,14 @@ function AuthProvider({ children }: { children: React.ReactNode }) {
       } else {
         setUser(null);
         if (!pathname.startsWith("/employee/login")) {
-            router.push("/employee/login");
+            router.push(href("/employee/login"));
         }
       }
       setLoading(false);
     });
 
     return () => unsubscribe();
-  }, [router, pathname]);
+  }, [router, pathname, href]);
 
   if (loading) {
     return (
@@ -93,17 +98,18 @@ export default function EmployeeLayout({
 }: {
   children: React.ReactNode;
 }) {
-  const pathname = usePathname();
+  const { pathname } = splitLocale(usePathname());
   const router = useRouter();
   const { toast } = useToast();
+  const { t, href } = useI18n();
 
   const handleLogout = async () => {
     try {
       await signOut(auth);
-      toast({ title: "Logged Out", description: "You have been successfully logged out." });
-      router.push("/employee/login");
+      toast({ title: t("employee.loggedOutTitle"), description: t("employee.loggedOutDescription") });
+      router.push(href("/employee/login"));
     } catch (error) {
-      toast({ variant: "destructive", title: "Logout Failed", description: "Something went wrong." });
+      toast({ variant: "destructive", title: t("employee.logoutFailedTitle"), description: t("employee.logoutFailedDescription") });
     }
   };
   
@@ -116,8 +122,8 @@ export default function EmployeeLayout({
               <Sidebar>
                 <SidebarHeader>
                     <div className="flex items-center gap-2">
-                        <Link href="/" className="flex items-center gap-2 font-bold text-lg mr-6">
-                            <Image src="https://github.com/akm12109/zensolve-assets/blob/main/Logo%20Zensolve.jpg?raw=true" alt="Zensolve Logo" width={32} height={32} className="rounded-md" />
+                        <Link href={href("/")} className="flex items-center gap-2 font-bold text-lg mr-6">
+                            <Image src="https://github.com/akm12109/zensolve-assets/blob/main/Logo%20Zensolve.jpg?raw=true" alt={t("common.logoAlt")} width={32} height={32} className="rounded-md" />
                             <span>Zensolve</span>
                         </Link>
                         <SidebarTrigger />
@@ -126,57 +132,66 @@ export default function EmployeeLayout({
                 <SidebarMenu>
                   <SidebarMenuItem>
                     <SidebarMenuButton asChild isActive={pathname === "/employee/dashboard"}>
-                        <Link href="/employee/dashboard">
+                        <Link href={href("/employee/dashboard")}>
                             <LayoutDashboard />
-                            <span>Dashboard</span>
+                            <span>{t("employee.nav.dashboard")}</span>
                         </Link>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
                   <SidebarMenuItem>
                     <SidebarMenuButton asChild isActive={pathname === "/employee/attendance"}>
-                        <Link href="/employee/attendance">
+                        <Link href={href("/employee/attendance")}>
                             <CalendarCheck />
-                            <span>Attendance</span>
+                            <span>{t("employee.nav.attendance")}</span>
+                        </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                  <SidebarMenuItem>
+                    <SidebarMenuButton asChild isActive={pathname === "/employee/leave"}>
+                        <Link href={href("/employee/leave")}>
+                            <Palmtree />
+                            <span>{t("employee.nav.leave")}</span>
                         </Link>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
                   <SidebarMenuItem>
                     <SidebarMenuButton asChild isActive={pathname === "/employee/dsr"}>
-                        <Link href="/employee/dsr">
+                        <Link href={href("/employee/dsr")}>
                             <ClipboardList />
-                            <span>DSR</span>
+                            <span>{t("employee.nav.dsr")}</span>
                         </Link>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
                   <SidebarMenuItem>
                     <SidebarMenuButton asChild isActive={pathname === "/employee/calls"}>
-                        <Link href="/employee/calls">
+                        <Link href={href("/employee/calls")}>
                             <Phone />
-                            <span>Calls</span>
+                            <span>{t("employee.nav.calls")}</span>
                         </Link>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
                   <SidebarMenuItem>
                     <SidebarMenuButton asChild isActive={pathname.includes("/employee/pending-work")}>
-                        <Link href="/employee/pending-work">
+                        <Link href={href("/employee/pending-work")}>
                             <ListTodo />
-                            <span>Pending Work</span>
+                            <span>{t("employee.nav.pendingWork")}</span>
                         </Link>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
                   <SidebarMenuItem>
                     <SidebarMenuButton asChild isActive={pathname === "/employee/earnings"}>
-                        <Link href="/employee/earnings">
+                        <Link href={href("/employee/earnings")}>
                             <IndianRupee />
-                            <span>Earnings</span>
+                            <span>{t("employee.nav.earnings")}</span>
                         </Link>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
                 </SidebarMenu>
-                <div className="mt-auto p-2">
+                <div className="mt-auto p-2 space-y-1">
+                    <LanguageSwitcher className="w-full justify-start" />
                     <Button variant="ghost" className="w-full justify-start" onClick={handleLogout}>
                         <LogOut className="mr-2 h-4 w-4" />
-                        Logout
+                        {t("employee.nav.logout")}
                     </Button>
                 </div>
               </Sidebar>
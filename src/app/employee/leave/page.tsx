@@ -0,0 +1,336 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { db } from "@/lib/firebase";
+import { collection, query, where, onSnapshot, Timestamp } from "firebase/firestore";
+import { cancelLeaveRequest, getLeaveBalances, getWorkCalendar, requestLeave } from "@/app/actions";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "../layout";
+import { useI18n } from "@/hooks/use-i18n";
+import type { MessageKey } from "@/lib/i18n";
+import { attendanceDay } from "@/lib/attendance";
+import {
+  LEAVE_REQUEST_STATUS_BADGE_CLASSES,
+  LEAVE_TYPES,
+  leaveDays,
+  type LeaveBalance,
+  type LeaveRequestStatus,
+  type LeaveType,
+} from "@/lib/leave";
+import type { HolidayType, WorkCalendar } from "@/lib/work-calendar";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Loader2, Send, X } from "lucide-react";
+
+interface LeaveRequest {
+  id: string;
+  type: LeaveType;
+  from: string;
+  to: string;
+  days: number;
+  reason: string;
+  status: LeaveRequestStatus;
+  decisionNote?: string;
+  requestedAt: Timestamp;
+}
+
+const TYPE_LABELS: Record<LeaveType, MessageKey> = {
+  casual: "employee.leave.types.casual",
+  sick: "employee.leave.types.sick",
+  earned: "employee.leave.types.earned",
+  unpaid: "employee.leave.types.unpaid",
+};
+
+const HOLIDAY_TYPE_LABELS: Record<HolidayType, MessageKey> = {
+  national: "employee.leave.holidayTypes.national",
+  state: "employee.leave.holidayTypes.state",
+  company: "employee.leave.holidayTypes.company",
+};
+
+const STATUS_LABELS: Record<LeaveRequestStatus, MessageKey> = {
+  pending: "employee.leave.statuses.pending",
+  approved: "employee.leave.statuses.approved",
+  rejected: "employee.leave.statuses.rejected",
+  cancelled: "employee.leave.statuses.cancelled",
+};
+
+export default function LeavePage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { t, formatDate } = useI18n();
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [year, setYear] = useState<number | null>(null);
+  const [calendar, setCalendar] = useState<WorkCalendar | null>(null);
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [cancelling, setCancelling] = useState<string | null>(null);
+  const [type, setType] = useState<LeaveType>("casual");
+  const [from, setFrom] = useState(() => attendanceDay());
+  const [to, setTo] = useState(() => attendanceDay());
+  const [reason, setReason] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const loadBalances = useCallback(async () => {
+    if (!user) return;
+    const result = await getLeaveBalances({ employeeId: user.uid });
+    if (result.success) {
+      setBalances(result.balances);
+      setYear(result.year);
+    } else {
+      toast({ variant: "destructive", title: t("common.error"), description: result.message ?? t("employee.leave.balancesFailed") });
+    }
+  }, [user, toast, t]);
+
+  useEffect(() => {
+    loadBalances();
+  }, [loadBalances]);
+
+  useEffect(() => {
+    getWorkCalendar(Number(attendanceDay().slice(0, 4))).then(result => {
+      if (result.success) setCalendar(result.calendar);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    const q = query(collection(db, "leaveRequests"), where("employeeId", "==", user.uid));
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      const requestsData = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as LeaveRequest));
+      // requestedAt is null until the server timestamp lands.
+      setRequests(requestsData.sort((a, b) => (b.requestedAt?.toMillis() ?? Date.now()) - (a.requestedAt?.toMillis() ?? Date.now())));
+      setIsLoading(false);
+      // A decision may have changed the balance.
+      loadBalances();
+    }, (error) => {
+      console.error("Error fetching leave requests:", error);
+      toast({ variant: "destructive", title: t("common.error"), description: t("employee.leave.fetchFailed") });
+      setIsLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [user, toast, t, loadBalances]);
+
+  const validRange = Boolean(from && to && from <= to);
+  // Without the calendar the count would include holidays, so it waits for it.
+  const requestedDays = validRange && calendar ? leaveDays(from, to, calendar).length : null;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!user) return;
+    if (!validRange) {
+      setFormError(t("employee.leave.datesRequired"));
+      return;
+    }
+    if (reason.trim().length < 5) {
+      setFormError(t("employee.leave.reasonRequired"));
+      return;
+    }
+    setFormError(null);
+    setIsSubmitting(true);
+    const result = await requestLeave({ employeeId: user.uid, type, from, to, reason });
+    if (result.success) {
+      toast({ title: t("common.success"), description: result.message });
+      setReason("");
+    } else {
+      toast({ variant: "destructive", title: t("common.error"), description: result.message });
+    }
+    setIsSubmitting(false);
+  };
+
+  const handleCancel = async (requestId: string) => {
+    if (!user) return;
+    setCancelling(requestId);
+    const result = await cancelLeaveRequest({ employeeId: user.uid, requestId });
+    if (result.success) {
+      toast({ title: t("common.success"), description: result.message });
+    } else {
+      toast({ variant: "destructive", title: t("common.error"), description: result.message });
+    }
+    setCancelling(null);
+  };
+
+  const formatDay = (day: string) => formatDate(new Date(`${day}T12:00:00+05:30`), "PP");
+
+  return (
+    <div className="flex min-h-screen flex-col items-center bg-secondary p-4 sm:p-6 lg:p-8">
+      <div className="w-full max-w-4xl space-y-8">
+        <header className="text-center">
+          <h1 className="text-3xl font-bold">{t("employee.leave.title")}</h1>
+          <p className="text-muted-foreground">{t("employee.leave.subtitle")}</p>
+        </header>
+
+        {year !== null && (
+          <section>
+            <h2 className="mb-4 text-xl font-semibold">{t("employee.leave.balancesTitle", { year })}</h2>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {balances.map(balance => (
+                <Card key={balance.type}>
+                  <CardHeader className="pb-2">
+                    <CardDescription>{t(TYPE_LABELS[balance.type])}</CardDescription>
+                    <CardTitle className="text-2xl">
+                      {balance.remaining === null ? t("employee.leave.unlimited") : t("employee.leave.remaining", { count: balance.remaining })}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="text-xs text-muted-foreground">
+                    {balance.quota === null
+                      ? t("employee.leave.usedDays", { count: balance.used })
+                      : t("employee.leave.usedOf", { used: balance.used, quota: balance.quota })}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("employee.leave.newTitle")}</CardTitle>
+            <CardDescription>{t("employee.leave.newDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="leave-type">{t("employee.leave.type")}</Label>
+                  <Select value={type} onValueChange={value => setType(value as LeaveType)}>
+                    <SelectTrigger id="leave-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LEAVE_TYPES.map(leaveType => (
+                        <SelectItem key={leaveType} value={leaveType}>{t(TYPE_LABELS[leaveType])}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leave-from">{t("employee.leave.from")}</Label>
+                  <Input id="leave-from" type="date" value={from} onChange={event => setFrom(event.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leave-to">{t("employee.leave.to")}</Label>
+                  <Input id="leave-to" type="date" value={to} min={from} onChange={event => setTo(event.target.value)} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leave-reason">{t("employee.leave.reason")}</Label>
+                <Textarea
+                  id="leave-reason"
+                  placeholder={t("employee.leave.reasonPlaceholder")}
+                  value={reason}
+                  onChange={event => setReason(event.target.value)}
+                />
+              </div>
+              {formError && <p className="text-sm font-medium text-destructive">{formError}</p>}
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">{requestedDays !== null && t("employee.leave.days", { count: requestedDays })}</p>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                  {t("employee.leave.submit")}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {calendar && year !== null && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("employee.leave.holidaysTitle", { year })}</CardTitle>
+              <CardDescription>{t("employee.leave.holidaysDescription")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {calendar.holidays.length === 0 ? (
+                <p className="text-center text-muted-foreground">{t("employee.leave.holidaysEmpty")}</p>
+              ) : (
+                <ul className="divide-y">
+                  {calendar.holidays.map(holiday => (
+                    <li key={holiday.date} className="flex items-center justify-between gap-4 py-2">
+                      <div>
+                        <p className="font-medium">{holiday.name}</p>
+                        <p className="text-sm text-muted-foreground">{formatDate(new Date(`${holiday.date}T12:00:00+05:30`), "EEEE, PP")}</p>
+                      </div>
+                      <Badge variant="outline">{t(HOLIDAY_TYPE_LABELS[holiday.type])}</Badge>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("employee.leave.requestsTitle")}</CardTitle>
+            <CardDescription>{t("employee.leave.requestsDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex h-40 items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : requests.length === 0 ? (
+              <div className="py-10 text-center">
+                <p className="text-muted-foreground">{t("employee.leave.empty")}</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("employee.leave.type")}</TableHead>
+                      <TableHead>{t("employee.leave.dates")}</TableHead>
+                      <TableHead>{t("employee.leave.daysColumn")}</TableHead>
+                      <TableHead>{t("employee.leave.reason")}</TableHead>
+                      <TableHead>{t("employee.leave.status")}</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {requests.map(request => (
+                      <TableRow key={request.id}>
+                        <TableCell className="font-medium">{t(TYPE_LABELS[request.type])}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {request.from === request.to ? formatDay(request.from) : `${formatDay(request.from)} – ${formatDay(request.to)}`}
+                        </TableCell>
+                        <TableCell>{request.days}</TableCell>
+                        <TableCell className="max-w-xs">
+                          <p className="truncate">{request.reason}</p>
+                          {request.decisionNote && (
+                            <p className="truncate text-xs text-muted-foreground">{t("employee.leave.note")}: {request.decisionNote}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className={LEAVE_REQUEST_STATUS_BADGE_CLASSES[request.status]}>
+                            {t(STATUS_LABELS[request.status])}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {request.status === "pending" && (
+                            <Button variant="ghost" size="sm" onClick={() => handleCancel(request.id)} disabled={cancelling === request.id}>
+                              {cancelling === request.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <X className="mr-2 h-4 w-4" />}
+                              {t("employee.leave.cancel")}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
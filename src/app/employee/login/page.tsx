@@ -1,13 +1,13 @@
 
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
-import { signInWithEmailAndPassword } from "firebase/auth";
+import { signInWithEmailAndPassword, signOut } from "firebase/auth";
 import { auth } from "@/lib/firebase";
 
 import { Button } from "@/components/ui/button";
@@ -23,18 +23,26 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Loader2, LogIn } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import { storeSession } from "@/hooks/use-session";
+import { EMPLOYEE_ROLES, hasAnyRole } from "@/lib/roles";
+import type { I18n } from "@/lib/i18n";
 
-const formSchema = z.object({
-  email: z.string().email({ message: "Please enter a valid email address." }),
-  password: z.string().min(6, { message: "Password must be at least 6 characters." }),
+const createFormSchema = (t: I18n["t"]) => z.object({
+  email: z.string().email({ message: t("auth.emailInvalid") }),
+  password: z.string().min(6, { message: t("auth.passwordTooShort") }),
 });
 
+type FormValues = z.infer<ReturnType<typeof createFormSchema>>;
+
 export default function EmployeeLoginPage() {
   const router = useRouter();
   const { toast } = useToast();
+  const { t, href } = useI18n();
   const [isLoading, setIsLoading] = useState(false);
+  const formSchema = useMemo(() => createFormSchema(t), [t]);
 
-  const form = useForm<z.infer<typeof formSchema>>({
+  const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       email: "",
@@ -42,40 +50,41 @@ export default function EmployeeLoginPage() {
     },
   });
 
-  async function onSubmit(values: z.infer<typeof formSchema>) {
+  async function onSubmit(values: FormValues) {
     setIsLoading(true);
 
-    // Ensure it's an employee email
-    if (!values.email.endsWith('@zensolve.in')) {
+    try {
+      const userCredential = await signInWithEmailAndPassword(auth, values.email, values.password);
+      const roles = await storeSession(userCredential.user);
+
+      // Only accounts with the employee role may use the portal.
+      if (!hasAnyRole(roles, EMPLOYEE_ROLES)) {
+        await signOut(auth);
         toast({
-            variant: "destructive",
-            title: "Access Denied",
-            description: "Only employees can log in here.",
+          variant: "destructive",
+          title: t("employee.login.accessDeniedTitle"),
+          description: t("employee.login.accessDeniedDescription"),
         });
-        setIsLoading(false);
         return;
-    }
+      }
 
-    try {
-      await signInWithEmailAndPassword(auth, values.email, values.password);
-      
       toast({
-        title: "Login Successful",
-        description: "Welcome to your dashboard!",
+        title: t("auth.login.successTitle"),
+        description: t("employee.login.successDescription"),
       });
 
-      router.push("/employee/dashboard");
+      router.push(href("/employee/dashboard"));
 
     } catch (error: any) {
       console.error("Login error:", error);
-      let errorMessage = "Please check your credentials and try again.";
+      let errorMessage = t("auth.login.failedDescription");
       if (error.code === 'auth/user-not-found' || error.code === 'auth/wrong-password' || error.code === 'auth/invalid-credential') {
-        errorMessage = "Invalid email or password.";
+        errorMessage = t("employee.login.invalidCredentials");
       }
       
       toast({
         variant: "destructive",
-        title: "Login Failed",
+        title: t("auth.login.failedTitle"),
         description: errorMessage,
       });
     } finally {
@@ -90,8 +99,8 @@ export default function EmployeeLoginPage() {
             <div className="mx-auto mb-4">
               <LogIn className="h-10 w-10 text-primary" />
             </div>
-            <CardTitle className="text-2xl font-bold">Employee Login</CardTitle>
-            <CardDescription>Enter your credentials to access your dashboard</CardDescription>
+            <CardTitle className="text-2xl font-bold">{t("employee.login.title")}</CardTitle>
+            <CardDescription>{t("employee.login.description")}</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
@@ -101,7 +110,7 @@ export default function EmployeeLoginPage() {
                 name="email"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>User ID</FormLabel>
+                    <FormLabel>{t("employee.login.userId")}</FormLabel>
                     <FormControl>
                       <Input type="email" placeholder="employee@zensolve.in" {...field} />
                     </FormControl>
@@ -114,7 +123,7 @@ export default function EmployeeLoginPage() {
                 name="password"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Password</FormLabel>
+                    <FormLabel>{t("auth.password")}</FormLabel>
                     <FormControl>
                       <Input type="password" placeholder="••••••••" {...field} />
                     </FormControl>
@@ -124,7 +133,7 @@ export default function EmployeeLoginPage() {
               />
               <Button type="submit" className="w-full" disabled={isLoading}>
                 {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                Log In
+                {t("auth.login.submit")}
               </Button>
             </form>
           </Form>
@@ -13,9 +13,12 @@ import {
 } from "@/components/ui/accordion"
 import { Badge } from "@/components/ui/badge";
 import { db } from "@/lib/firebase";
-import { collection, query, where, onSnapshot, doc, updateDoc, Timestamp } from "firebase/firestore";
+import { collection, query, where, onSnapshot, Timestamp } from "firebase/firestore";
+import { completeTask } from "@/app/actions";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "../layout";
+import { useI18n } from "@/hooks/use-i18n";
+import type { MessageKey } from "@/lib/i18n";
 
 interface Task {
   id: string;
@@ -27,12 +30,19 @@ interface Task {
   employeeId: string;
 }
 
+const PRIORITY_LABELS: Record<Task["priority"], MessageKey> = {
+  High: "employee.pendingWork.priorities.high",
+  Medium: "employee.pendingWork.priorities.medium",
+  Low: "employee.pendingWork.priorities.low",
+};
+
 export default function PendingWorkPage() {
   const { user } = useAuth();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isUpdating, setIsUpdating] = useState<string | null>(null);
   const { toast } = useToast();
+  const { t, formatDate } = useI18n();
 
   useEffect(() => {
     if (!user) {
@@ -54,40 +64,36 @@ export default function PendingWorkPage() {
         console.error("Error fetching tasks:", error);
         toast({
             variant: "destructive",
-            title: "Error",
-            description: "Could not fetch tasks."
+            title: t("common.error"),
+            description: t("employee.pendingWork.fetchFailed")
         });
         setIsLoading(false);
     });
 
     return () => unsubscribe();
-  }, [user, toast]);
+  }, [user, toast, t]);
 
   const handleMarkAsCompleted = async (taskId: string) => {
+    if (!user) return;
     setIsUpdating(taskId);
-    try {
-      const taskRef = doc(db, "tasks", taskId);
-      await updateDoc(taskRef, {
-        status: 'completed'
-      });
+    const result = await completeTask({ taskId, employeeId: user.uid });
+    if (result.success) {
       toast({
-        title: "Success",
-        description: "Task marked as completed."
+        title: t("common.success"),
+        description: result.message
       });
-    } catch (error) {
-       console.error("Error updating task:", error);
+    } else {
        toast({
             variant: "destructive",
-            title: "Error",
-            description: "Failed to update task status."
+            title: t("common.error"),
+            description: result.message
        });
-    } finally {
-        setIsUpdating(null);
     }
+    setIsUpdating(null);
   };
   
-  const pendingTasks = tasks.filter(t => t.status === 'pending');
-  const completedTasks = tasks.filter(t => t.status === 'completed');
+  const pendingTasks = tasks.filter(task => task.status === 'pending');
+  const completedTasks = tasks.filter(task => task.status === 'completed');
 
   const getPriorityBadgeVariant = (priority: 'High' | 'Medium' | 'Low') => {
       switch(priority) {
@@ -99,21 +105,21 @@ export default function PendingWorkPage() {
   }
 
   if (!user) {
-    return <div className="flex items-center justify-center h-full"><p>Please log in to see your tasks.</p></div>
+    return <div className="flex items-center justify-center h-full"><p>{t("employee.pendingWork.loginRequired")}</p></div>
   }
 
   return (
     <div className="flex min-h-screen flex-col items-center bg-secondary p-4 sm:p-6 lg:p-8">
       <div className="w-full max-w-3xl space-y-8">
         <header className="text-center">
-          <h1 className="text-3xl font-bold">Pending Work</h1>
-          <p className="text-muted-foreground">Here are the tasks assigned to you by the admin.</p>
+          <h1 className="text-3xl font-bold">{t("employee.pendingWork.title")}</h1>
+          <p className="text-muted-foreground">{t("employee.pendingWork.subtitle")}</p>
         </header>
 
         <Card>
           <CardHeader>
-            <CardTitle>Task List</CardTitle>
-            <CardDescription>Review your tasks and mark them as completed.</CardDescription>
+            <CardTitle>{t("employee.pendingWork.listTitle")}</CardTitle>
+            <CardDescription>{t("employee.pendingWork.listDescription")}</CardDescription>
           </CardHeader>
           <CardContent>
             {isLoading ? (
@@ -126,7 +132,7 @@ export default function PendingWorkPage() {
                         <AccordionItem value={task.id} key={task.id}>
                             <AccordionTrigger>
                                 <div className="flex items-center gap-4 text-left">
-                                    <Badge variant={getPriorityBadgeVariant(task.priority)}>{task.priority}</Badge>
+                                    <Badge variant={getPriorityBadgeVariant(task.priority)}>{t(PRIORITY_LABELS[task.priority])}</Badge>
                                     <span className="font-semibold">{task.title}</span>
                                 </div>
                             </AccordionTrigger>
@@ -134,10 +140,10 @@ export default function PendingWorkPage() {
                                 <div className="space-y-4">
                                     <p className="text-muted-foreground">{task.description}</p>
                                     <div className="flex justify-between items-center">
-                                        <p className="text-xs text-muted-foreground">Assigned: {task.assignedAt?.toDate().toLocaleDateString()}</p>
+                                        <p className="text-xs text-muted-foreground">{t("employee.pendingWork.assigned", { date: task.assignedAt ? formatDate(task.assignedAt.toDate(), "PP") : "" })}</p>
                                         <Button size="sm" onClick={() => handleMarkAsCompleted(task.id)} disabled={isUpdating === task.id}>
                                             {isUpdating === task.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <CheckCircle className="mr-2 h-4 w-4" />}
-                                            Mark as Completed
+                                            {t("employee.pendingWork.markCompleted")}
                                         </Button>
                                     </div>
                                 </div>
@@ -147,7 +153,7 @@ export default function PendingWorkPage() {
                 </Accordion>
             ) : (
                 <div className="text-center py-10">
-                    <p className="text-muted-foreground">No pending tasks. Great job!</p>
+                    <p className="text-muted-foreground">{t("employee.pendingWork.noPending")}</p>
                 </div>
             )}
           </CardContent>
@@ -155,8 +161,8 @@ export default function PendingWorkPage() {
 
          <Card>
           <CardHeader>
-            <CardTitle>Completed Tasks</CardTitle>
-            <CardDescription>Tasks you have recently completed.</CardDescription>
+            <CardTitle>{t("employee.pendingWork.completedTitle")}</CardTitle>
+            <CardDescription>{t("employee.pendingWork.completedDescription")}</CardDescription>
           </CardHeader>
           <CardContent>
              {isLoading ? (
@@ -168,13 +174,13 @@ export default function PendingWorkPage() {
                     {completedTasks.map(task => (
                         <li key={task.id} className="flex items-center justify-between rounded-md border p-3 bg-muted/50">
                             <span className="text-muted-foreground line-through">{task.title}</span>
-                             <Badge variant="outline" className="text-green-600 border-green-600">Completed</Badge>
+                             <Badge variant="outline" className="text-green-600 border-green-600">{t("employee.pendingWork.completedBadge")}</Badge>
                         </li>
                     ))}
                 </ul>
             ) : (
                 <div className="text-center py-10">
-                    <p className="text-muted-foreground">No tasks completed yet.</p>
+                    <p className="text-muted-foreground">{t("employee.pendingWork.noCompleted")}</p>
                 </div>
             )}
           </CardContent>
@@ -1,12 +1,17 @@
 
 "use client";
 
-import { useEffect, useRef } from "react";
-import { useForm, Controller, useFormState } from "react-hook-form";
+import { useEffect, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
 import { useActionState } from "react";
 import { useRouter } from "next/navigation";
 import { useToast } from "@/hooks/use-toast";
-import { applyForJob } from "@/app/actions";
+import { applyForJob, getJob, parseResume } from "@/app/actions";
+import type { ParsedResume } from "@/ai/flows/parse-resume";
+import { isJobOpen } from "@/lib/jobs";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+import Link from "next/link";
 
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -17,7 +22,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Progress } from "@/components/ui/progress";
-import { Loader2, User, Home, GraduationCap, Briefcase, Sparkles, Send, Upload } from "lucide-react";
+import { Loader2, User, Home, GraduationCap, Briefcase, Sparkles, Send, Upload, Wand2 } from "lucide-react";
 import { Label } from "@/components/ui/label";
 
 // We keep the zod schema here for client-side validation, even though the source of truth is in actions.ts
@@ -33,47 +38,98 @@ const formSchema = {
   agreeTerms: (val: boolean) => val === true,
 };
 
+// Values are stored with the application, so only the labels are translated.
+const LANGUAGE_OPTIONS = [
+  { value: 'English', label: 'apply.languageOptions.english' },
+  { value: 'Hindi', label: 'apply.languageOptions.hindi' },
+  { value: 'Other', label: 'apply.languageOptions.other' },
+] as const;
+
 
 export default function ApplyJobPage({ params }: { params: { jobId: string } }) {
   const router = useRouter();
   const { toast } = useToast();
+  const { t, href } = useI18n();
   const [currentStep, setCurrentStep] =  useState(0);
   
   const formRef = useRef<HTMLFormElement>(null);
+  const [jobOpen, setJobOpen] = useState<boolean | null>(null);
+  const [hasExperience, setHasExperience] = useState<"yes" | "no">("no");
+  const [languages, setLanguages] = useState<string[]>([]);
+  const [prefill, setPrefill] = useState<ParsedResume | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+
+  useEffect(() => {
+    getJob(params.jobId).then(job => setJobOpen(!!job && isJobOpen(job)));
+  }, [params.jobId]);
   
-  const [state, formAction] = useActionState(applyForJob, { success: false, message: ""});
-  
-  const { isSubmitting } = useFormState();
+  const [state, formAction, isSubmitting] = useActionState(applyForJob, { success: false, message: ""});
 
   useEffect(() => {
     if (state.success) {
       toast({
-        title: "Application Submitted!",
+        title: t("apply.submittedTitle"),
         description: state.message,
       });
-      router.push("/jobs");
+      router.push(href("/jobs"));
     } else if (state.message && !state.success) {
       toast({
         variant: "destructive",
-        title: "Submission Failed",
+        title: t("apply.failedTitle"),
         description: state.message,
       });
     }
-  }, [state, router, toast]);
+  }, [state, router, toast, t, href]);
 
   const steps = [
-    { title: "Personal Details", icon: <User/> },
-    { title: "Education & Experience", icon: <GraduationCap/> },
-    { title: "Skills & Preferences", icon: <Sparkles/> },
+    { title: t("apply.steps.personal"), icon: <User/> },
+    { title: t("apply.steps.education"), icon: <GraduationCap/> },
+    { title: t("apply.steps.skills"), icon: <Sparkles/> },
   ];
 
-  // Dummy form for client-side validation trigger
-  const { trigger, getValues, watch } = useForm();
-  const hasExperience = watch("hasExperience", "no");
+  // The inputs are uncontrolled and submitted through the server action; this form only provides context for the Form* components.
+  const form = useForm();
+
+  // Parsed values are written straight into the inputs once any experience fields they need have rendered.
+  useEffect(() => {
+    if (!prefill || !formRef.current) return;
+    const { hasExperience: _, languages: __, ...fields } = prefill;
+    Object.entries(fields).forEach(([name, value]) => {
+      const input = formRef.current?.elements.namedItem(name);
+      if (input instanceof HTMLInputElement || input instanceof HTMLTextAreaElement) {
+        input.value = String(value);
+      }
+    });
+  }, [prefill]);
+
+  const handleResumeChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsParsing(true);
+    const formData = new FormData();
+    formData.append("resume", file);
+    const result = await parseResume(formData);
+    setIsParsing(false);
+
+    if (result.success && result.fields) {
+      if (result.fields.hasExperience) setHasExperience(result.fields.hasExperience);
+      if (result.fields.languages) setLanguages(result.fields.languages);
+      setPrefill(result.fields);
+      toast({ title: t("apply.resumeReadTitle"), description: result.message });
+    } else {
+      toast({ variant: "destructive", title: t("apply.resumeFailedTitle"), description: result.message });
+    }
+  };
 
   const handleNext = async () => {
     // This is a basic client-side check. The real validation happens on the server.
-    const values = getValues();
+    const formData = new FormData(formRef.current ?? undefined);
+    const values: Record<string, any> = {
+      ...Object.fromEntries(formData.entries()),
+      confirmInfo: formData.get("confirmInfo") === "on",
+      agreeTerms: formData.get("agreeTerms") === "on",
+    };
     const fieldsToValidate: (keyof typeof formSchema)[] = 
       currentStep === 0 ? ["fullName", "mobile", "email"] :
       currentStep === 2 ? ["whyShouldWeHireYou", "confirmInfo", "agreeTerms"] :
@@ -81,9 +137,9 @@ export default function ApplyJobPage({ params }: { params: { jobId: string } })
 
     let allValid = true;
     for (const field of fieldsToValidate) {
-        if (!formSchema[field](values[field])) {
+        if (!formSchema[field](values[field] ?? "")) {
             allValid = false;
-            toast({ variant: 'destructive', title: 'Invalid field', description: `Please check the ${field} field.`});
+            toast({ variant: 'destructive', title: t('apply.invalidFieldTitle'), description: t('apply.invalidField', { field: t(`apply.fields.${field}`) }) });
             break;
         }
     }
@@ -100,156 +156,184 @@ export default function ApplyJobPage({ params }: { params: { jobId: string } })
 
   const progress = ((currentStep + 1) / (steps.length + 1)) * 100;
 
+  if (jobOpen === null) {
+    return <div className="flex justify-center items-center h-screen"><Loader2 className="h-8 w-8 animate-spin" /></div>;
+  }
+
+  if (!jobOpen) {
+    return (
+      <div className="min-h-screen bg-secondary p-4 sm:p-8 flex items-center justify-center">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <CardTitle>{t("apply.closedTitle")}</CardTitle>
+            <CardDescription>{t("apply.closedDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild><Link href={href("/jobs")}>{t("apply.browseOpenJobs")}</Link></Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-secondary p-4 sm:p-8 flex items-center justify-center">
       <Card className="w-full max-w-4xl">
         <CardHeader>
-          <CardTitle className="text-2xl md:text-3xl font-bold text-center">Apply for Job</CardTitle>
-          <CardDescription className="text-center">Please fill out the form below to submit your application.</CardDescription>
+          <CardTitle className="text-2xl md:text-3xl font-bold text-center">{t("apply.title")}</CardTitle>
+          <CardDescription className="text-center">{t("apply.subtitle")}</CardDescription>
           <div className="pt-4">
             <Progress value={progress} className="w-full" />
-            <p className="text-center text-sm text-muted-foreground mt-2">Step {currentStep + 1} of {steps.length}</p>
+            <p className="text-center text-sm text-muted-foreground mt-2">{t("apply.stepOf", { current: currentStep + 1, total: steps.length })}</p>
           </div>
         </CardHeader>
         <CardContent>
+          <Form {...form}>
           <form ref={formRef} action={formAction} className="space-y-8">
             <input type="hidden" name="jobId" value={params.jobId} />
 
-            {currentStep === 0 && (
-                <section className="space-y-6">
-                  <h3 className="text-lg font-semibold flex items-center gap-2"><User /> Personal Details</h3>
+            {/* Every step stays mounted so values entered or pre-filled on earlier steps are submitted too. */}
+            <section className={cn("space-y-6", currentStep !== 0 && "hidden")}>
+                  <div className="rounded-md border border-dashed p-4 space-y-2">
+                    <Label htmlFor="resume" className="flex items-center gap-2 font-semibold"><Upload /> {t("apply.uploadResume")}</Label>
+                    <p className="text-sm text-muted-foreground flex items-center gap-2">
+                      <Wand2 className="h-4 w-4 shrink-0" /> {t("apply.uploadHint")}
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <Input id="resume" name="resume" type="file" accept=".pdf,.docx" onChange={handleResumeChange} disabled={isParsing} />
+                      {isParsing && <Loader2 className="h-4 w-4 animate-spin" />}
+                    </div>
+                  </div>
+
+                  <h3 className="text-lg font-semibold flex items-center gap-2"><User /> {t("apply.personalDetails")}</h3>
                    <div className="grid md:grid-cols-2 gap-6">
-                     <FormItem><FormLabel>Full Name*</FormLabel><FormControl><Input name="fullName" placeholder="John Doe" required /></FormControl></FormItem>
-                     <FormItem><FormLabel>Date of Birth</FormLabel><FormControl><Input name="dob" type="date" /></FormControl></FormItem>
+                     <FormItem><FormLabel>{t("apply.fields.fullName")}*</FormLabel><FormControl><Input name="fullName" placeholder="John Doe" required /></FormControl></FormItem>
+                     <FormItem><FormLabel>{t("apply.fields.dob")}</FormLabel><FormControl><Input name="dob" type="date" /></FormControl></FormItem>
                    </div>
-                   <FormItem><FormLabel>Gender</FormLabel><Select name="gender"><FormControl><SelectTrigger><SelectValue placeholder="Select gender" /></SelectTrigger></FormControl><SelectContent><SelectItem value="male">Male</SelectItem><SelectItem value="female">Female</SelectItem><SelectItem value="other">Other</SelectItem></SelectContent></Select></FormItem>
+                   <FormItem><FormLabel>{t("apply.fields.gender")}</FormLabel><Select name="gender"><FormControl><SelectTrigger><SelectValue placeholder={t("apply.selectGender")} /></SelectTrigger></FormControl><SelectContent><SelectItem value="male">{t("apply.genders.male")}</SelectItem><SelectItem value="female">{t("apply.genders.female")}</SelectItem><SelectItem value="other">{t("apply.genders.other")}</SelectItem></SelectContent></Select></FormItem>
                    <div className="grid md:grid-cols-2 gap-6">
-                     <FormItem><FormLabel>Mobile Number*</FormLabel><FormControl><Input name="mobile" placeholder="9876543210" required /></FormControl></FormItem>
-                     <FormItem><FormLabel>Email Address*</FormLabel><FormControl><Input name="email" type="email" placeholder="john.doe@example.com" required /></FormControl></FormItem>
+                     <FormItem><FormLabel>{t("apply.fields.mobile")}*</FormLabel><FormControl><Input name="mobile" placeholder="9876543210" required /></FormControl></FormItem>
+                     <FormItem><FormLabel>{t("apply.fields.email")}*</FormLabel><FormControl><Input name="email" type="email" placeholder="john.doe@example.com" required /></FormControl></FormItem>
                    </div>
-                   <FormItem><FormLabel>WhatsApp Number</FormLabel><FormControl><Input name="whatsapp" placeholder="9876543210" /></FormControl></FormItem>
+                   <FormItem><FormLabel>{t("apply.fields.whatsapp")}</FormLabel><FormControl><Input name="whatsapp" placeholder="9876543210" /></FormControl></FormItem>
 
-                   <h3 className="text-lg font-semibold flex items-center gap-2 pt-4"><Home /> Address Details</h3>
-                   <FormItem><FormLabel>Permanent Address</FormLabel><FormControl><Textarea name="permanentAddress" placeholder="123 Main St..." /></FormControl></FormItem>
-                   <FormItem><FormLabel>Current Address</FormLabel><FormControl><Textarea name="currentAddress" placeholder="456 Park Ave..." /></FormControl></FormItem>
+                   <h3 className="text-lg font-semibold flex items-center gap-2 pt-4"><Home /> {t("apply.addressDetails")}</h3>
+                   <FormItem><FormLabel>{t("apply.fields.permanentAddress")}</FormLabel><FormControl><Textarea name="permanentAddress" placeholder="123 Main St..." /></FormControl></FormItem>
+                   <FormItem><FormLabel>{t("apply.fields.currentAddress")}</FormLabel><FormControl><Textarea name="currentAddress" placeholder="456 Park Ave..." /></FormControl></FormItem>
                    <div className="grid md:grid-cols-3 gap-6">
-                     <FormItem><FormLabel>City</FormLabel><FormControl><Input name="city" placeholder="New York" /></FormControl></FormItem>
-                     <FormItem><FormLabel>State</FormLabel><FormControl><Input name="state" placeholder="NY" /></FormControl></FormItem>
-                     <FormItem><FormLabel>Pincode</FormLabel><FormControl><Input name="pincode" placeholder="10001" /></FormControl></FormItem>
+                     <FormItem><FormLabel>{t("apply.fields.city")}</FormLabel><FormControl><Input name="city" placeholder="New York" /></FormControl></FormItem>
+                     <FormItem><FormLabel>{t("apply.fields.state")}</FormLabel><FormControl><Input name="state" placeholder="NY" /></FormControl></FormItem>
+                     <FormItem><FormLabel>{t("apply.fields.pincode")}</FormLabel><FormControl><Input name="pincode" placeholder="10001" /></FormControl></FormItem>
                    </div>
-                </section>
-            )}
-            
-            {currentStep === 1 && (
-                 <section className="space-y-6">
-                  <h3 className="text-lg font-semibold flex items-center gap-2"><GraduationCap /> Education Details</h3>
-                   <FormItem><FormLabel>Highest Qualification</FormLabel><FormControl><Input name="highestQualification" placeholder="e.g., B.Tech in Computer Science" /></FormControl></FormItem>
+            </section>
+
+            <section className={cn("space-y-6", currentStep !== 1 && "hidden")}>
+                  <h3 className="text-lg font-semibold flex items-center gap-2"><GraduationCap /> {t("apply.educationDetails")}</h3>
+                   <FormItem><FormLabel>{t("apply.fields.highestQualification")}</FormLabel><FormControl><Input name="highestQualification" placeholder={t("apply.placeholders.highestQualification")} /></FormControl></FormItem>
                    <div className="grid md:grid-cols-2 gap-6">
-                    <FormItem><FormLabel>Year of Passing</FormLabel><FormControl><Input name="yearOfPassing" type="number" placeholder="2024" /></FormControl></FormItem>
-                    <FormItem><FormLabel>University/Board</FormLabel><FormControl><Input name="university" placeholder="e.g., University of Delhi" /></FormControl></FormItem>
+                    <FormItem><FormLabel>{t("apply.fields.yearOfPassing")}</FormLabel><FormControl><Input name="yearOfPassing" type="number" placeholder="2024" /></FormControl></FormItem>
+                    <FormItem><FormLabel>{t("apply.fields.university")}</FormLabel><FormControl><Input name="university" placeholder={t("apply.placeholders.university")} /></FormControl></FormItem>
                    </div>
-                   <FormItem><FormLabel>Specialization/Stream</FormLabel><FormControl><Input name="specialization" placeholder="e.g., Computer Science" /></FormControl></FormItem>
+                   <FormItem><FormLabel>{t("apply.fields.specialization")}</FormLabel><FormControl><Input name="specialization" placeholder={t("apply.placeholders.specialization")} /></FormControl></FormItem>
 
-                  <h3 className="text-lg font-semibold flex items-center gap-2 pt-4"><Briefcase /> Work Experience</h3>
-                  <FormItem className="space-y-3"><FormLabel>Do you have work experience?</FormLabel>
+                  <h3 className="text-lg font-semibold flex items-center gap-2 pt-4"><Briefcase /> {t("apply.workExperience")}</h3>
+                  <FormItem className="space-y-3"><FormLabel>{t("apply.fields.hasExperience")}</FormLabel>
                       <FormControl>
-                        <RadioGroup name="hasExperience" defaultValue={hasExperience} className="flex space-x-4" onValueChange={(value) => watch("hasExperience", value)}>
-                          <FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="yes" /></FormControl><FormLabel className="font-normal">Yes</FormLabel></FormItem>
-                          <FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="no" /></FormControl><FormLabel className="font-normal">No</FormLabel></FormItem>
+                        <RadioGroup name="hasExperience" value={hasExperience} className="flex space-x-4" onValueChange={(value) => setHasExperience(value as "yes" | "no")}>
+                          <FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="yes" /></FormControl><FormLabel className="font-normal">{t("common.yes")}</FormLabel></FormItem>
+                          <FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="no" /></FormControl><FormLabel className="font-normal">{t("common.no")}</FormLabel></FormItem>
                         </RadioGroup>
                       </FormControl>
                     </FormItem>
                   {hasExperience === 'yes' && (
                     <div className="space-y-6 border-l-2 border-primary pl-4">
-                      <FormItem><FormLabel>Previous Company Name</FormLabel><FormControl><Input name="previousCompany" placeholder="Tech Corp" /></FormControl></FormItem>
+                      <FormItem><FormLabel>{t("apply.fields.previousCompany")}</FormLabel><FormControl><Input name="previousCompany" placeholder="Tech Corp" /></FormControl></FormItem>
                       <div className="grid md:grid-cols-2 gap-6">
-                        <FormItem><FormLabel>Designation</FormLabel><FormControl><Input name="designation" placeholder="Software Engineer" /></FormControl></FormItem>
-                        <FormItem><FormLabel>Years of Experience</FormLabel><FormControl><Input name="yearsOfExperience" type="number" placeholder="3" /></FormControl></FormItem>
+                        <FormItem><FormLabel>{t("apply.fields.designation")}</FormLabel><FormControl><Input name="designation" placeholder="Software Engineer" /></FormControl></FormItem>
+                        <FormItem><FormLabel>{t("apply.fields.yearsOfExperience")}</FormLabel><FormControl><Input name="yearsOfExperience" type="number" placeholder="3" /></FormControl></FormItem>
                       </div>
                     </div>
                   )}
-                  <FormItem><FormLabel>LinkedIn Profile URL</FormLabel><FormControl><Input name="linkedin" placeholder="https://linkedin.com/in/johndoe" /></FormControl></FormItem>
-                </section>
-            )}
-
-            {currentStep === 2 && (
-                <section className="space-y-6">
-                   <h3 className="text-lg font-semibold flex items-center gap-2"><Sparkles /> Skills & Preferences</h3>
-                   <FormItem><FormLabel>Technical Skills</FormLabel><FormControl><Textarea name="technicalSkills" placeholder="e.g., React, Node.js, Python" /></FormControl></FormItem>
-                   <FormItem><FormLabel>Soft Skills</FormLabel><FormControl><Textarea name="softSkills" placeholder="e.g., Communication, Teamwork" /></FormControl></FormItem>
+                  <FormItem><FormLabel>{t("apply.fields.linkedin")}</FormLabel><FormControl><Input name="linkedin" placeholder="https://linkedin.com/in/johndoe" /></FormControl></FormItem>
+            </section>
+
+            <section className={cn("space-y-6", currentStep !== 2 && "hidden")}>
+                   <h3 className="text-lg font-semibold flex items-center gap-2"><Sparkles /> {t("apply.skillsAndPreferences")}</h3>
+                   <FormItem><FormLabel>{t("apply.fields.technicalSkills")}</FormLabel><FormControl><Textarea name="technicalSkills" placeholder={t("apply.placeholders.technicalSkills")} /></FormControl></FormItem>
+                   <FormItem><FormLabel>{t("apply.fields.softSkills")}</FormLabel><FormControl><Textarea name="softSkills" placeholder={t("apply.placeholders.softSkills")} /></FormControl></FormItem>
                    <div className="grid md:grid-cols-2 gap-6">
-                    <FormItem><FormLabel>Certifications</FormLabel><FormControl><Input name="certifications" placeholder="e.g., AWS Certified Developer" /></FormControl></FormItem>
+                    <FormItem><FormLabel>{t("apply.fields.certifications")}</FormLabel><FormControl><Input name="certifications" placeholder={t("apply.placeholders.certifications")} /></FormControl></FormItem>
                     <FormItem>
-                      <FormLabel>Language Proficiency</FormLabel>
+                      <FormLabel>{t("apply.fields.languages")}</FormLabel>
                       <div className="flex gap-4">
-                        {['English', 'Hindi', 'Other'].map(lang => (
+                        {LANGUAGE_OPTIONS.map(({ value: lang, label }) => (
                           <div key={lang} className="flex flex-row items-start space-x-3 space-y-0">
-                            <Checkbox name="languages" value={lang} id={`lang-${lang}`} />
-                            <Label htmlFor={`lang-${lang}`} className="font-normal">{lang}</Label>
+                            <Checkbox
+                              name="languages"
+                              value={lang}
+                              id={`lang-${lang}`}
+                              checked={languages.includes(lang)}
+                              onCheckedChange={(checked) => setLanguages(prev => checked ? [...prev, lang] : prev.filter(item => item !== lang))}
+                            />
+                            <Label htmlFor={`lang-${lang}`} className="font-normal">{t(label)}</Label>
                           </div>
                         ))}
                       </div>
                     </FormItem>
                    </div>
                    <div className="grid md:grid-cols-2 gap-6">
-                    <FormItem><FormLabel>Preferred Job Role</FormLabel><FormControl><Input name="preferredRole" placeholder="e.g., Frontend Developer" /></FormControl></FormItem>
-                    <FormItem><FormLabel>Preferred Location</FormLabel><FormControl><Input name="preferredLocation" placeholder="e.g., Remote, New York" /></FormControl></FormItem>
+                    <FormItem><FormLabel>{t("apply.fields.preferredRole")}</FormLabel><FormControl><Input name="preferredRole" placeholder={t("apply.placeholders.preferredRole")} /></FormControl></FormItem>
+                    <FormItem><FormLabel>{t("apply.fields.preferredLocation")}</FormLabel><FormControl><Input name="preferredLocation" placeholder={t("apply.placeholders.preferredLocation")} /></FormControl></FormItem>
                    </div>
                    <div className="grid md:grid-cols-2 gap-6">
-                    <FormItem><FormLabel>Expected Salary (LPA)</FormLabel><FormControl><Input name="expectedSalary" placeholder="e.g., 15" /></FormControl></FormItem>
-                    <FormItem><FormLabel>Notice Period</FormLabel><FormControl><Input name="noticePeriod" placeholder="e.g., 30 days, Immediate" /></FormControl></FormItem>
+                    <FormItem><FormLabel>{t("apply.fields.expectedSalary")}</FormLabel><FormControl><Input name="expectedSalary" placeholder={t("apply.placeholders.expectedSalary")} /></FormControl></FormItem>
+                    <FormItem><FormLabel>{t("apply.fields.noticePeriod")}</FormLabel><FormControl><Input name="noticePeriod" placeholder={t("apply.placeholders.noticePeriod")} /></FormControl></FormItem>
                    </div>
-                   <FormItem className="space-y-3"><FormLabel>Are you ready to relocate?</FormLabel>
+                   <FormItem className="space-y-3"><FormLabel>{t("apply.fields.readyToRelocate")}</FormLabel>
                         <FormControl>
                           <RadioGroup name="readyToRelocate" defaultValue="no" className="flex space-x-4">
-                            <FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="yes" /></FormControl><Label className="font-normal">Yes</Label></FormItem>
-                            <FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="no" /></FormControl><Label className="font-normal">No</Label></FormItem>
+                            <FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="yes" /></FormControl><Label className="font-normal">{t("common.yes")}</Label></FormItem>
+                            <FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="no" /></FormControl><Label className="font-normal">{t("common.no")}</Label></FormItem>
                           </RadioGroup>
                         </FormControl>
                     </FormItem>
-                   <FormItem><FormLabel>Why should we hire you?</FormLabel><FormControl><Textarea name="whyShouldWeHireYou" placeholder="Tell us about your strengths and how you can contribute to our team." className="min-h-[120px]" /></FormControl></FormItem>
-
-                    <FormItem>
-                        <FormLabel htmlFor="resume" className="flex items-center gap-2"><Upload /> Upload Resume</FormLabel>
-                        <FormControl><Input id="resume" name="resume" type="file" accept=".pdf,.doc,.docx" /></FormControl>
-                        <FormMessage />
-                    </FormItem>
+                   <FormItem><FormLabel>{t("apply.fields.whyShouldWeHireYou")}</FormLabel><FormControl><Textarea name="whyShouldWeHireYou" placeholder={t("apply.placeholders.whyShouldWeHireYou")} className="min-h-[120px]" /></FormControl></FormItem>
 
                    <div className="space-y-4 pt-4">
                       <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
                         <Checkbox name="confirmInfo" required id="confirmInfo" />
                         <div className="space-y-1 leading-none">
-                            <Label htmlFor="confirmInfo">I confirm that the information provided is true to the best of my knowledge.</Label>
+                            <Label htmlFor="confirmInfo">{t("apply.fields.confirmInfo")}</Label>
                         </div>
                       </FormItem>
                        <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
                         <Checkbox name="agreeTerms" required id="agreeTerms" />
                         <div className="space-y-1 leading-none">
-                            <Label htmlFor="agreeTerms">I agree to the company’s terms and conditions.</Label>
+                            <Label htmlFor="agreeTerms">{t("apply.fields.agreeTerms")}</Label>
                         </div>
                       </FormItem>
                    </div>
-                </section>
-            )}
+            </section>
 
             <div className="flex justify-between pt-8">
                 {currentStep > 0 && (
                   <Button type="button" variant="outline" onClick={handlePrev}>
-                    Previous
+                    {t("common.previous")}
                   </Button>
                 )}
                 {currentStep < steps.length - 1 ? (
                   <Button type="button" onClick={handleNext} className="ml-auto">
-                    Next
+                    {t("common.next")}
                   </Button>
                 ) : (
                   <Button type="submit" className="ml-auto" disabled={isSubmitting}>
                     {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
-                    Submit Application
+                    {t("apply.submit")}
                   </Button>
                 )}
               </div>
           </form>
+          </Form>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,204 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getJob } from "@/app/actions";
+import Footer from "@/components/layout/footer";
+import Header from "@/components/layout/header";
+import { SITE_NAME, SITE_URL } from "@/lib/site";
+import type { JobListing } from "@/lib/job-filters";
+import { effectiveJobStatus } from "@/lib/jobs";
+import { localizePath, type I18n } from "@/lib/i18n";
+import { getI18n } from "@/lib/i18n-server";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Briefcase, Building2, CalendarDays, GraduationCap, IndianRupee, Layers, MapPin, Send, Ban } from "lucide-react";
+
+type JobPageProps = { params: Promise<{ jobId: string }> };
+
+const EMPLOYMENT_TYPES: Record<string, string> = {
+  "Full-time": "FULL_TIME",
+  "Part-time": "PART_TIME",
+  "Contract": "CONTRACTOR",
+  "Internship": "INTERN",
+  "Temporary": "TEMPORARY",
+};
+
+const LAKH = 100000;
+
+const formatRange = (t: I18n["t"], min: number | undefined, max: number | undefined, unit: string, fallback: string) => {
+  if (min !== undefined && max !== undefined) return t("jobDetail.range", { min, max, unit });
+  if (min !== undefined) return t("jobDetail.rangeFrom", { min, unit });
+  if (max !== undefined) return t("jobDetail.rangeUpTo", { max, unit });
+  return fallback;
+};
+
+const summarize = (text: string, length = 160) =>
+  text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Builds the schema.org JobPosting used by Google for Jobs.
+// https://developers.google.com/search/docs/appearance/structured-data/job-posting
+function jobPostingJsonLd(job: JobListing) {
+  const isRemote = job.workMode === "Remote";
+  const hasSalary = job.salaryMin !== undefined || job.salaryMax !== undefined;
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "JobPosting",
+    title: job.title,
+    description: escapeHtml(job.description).replace(/\n/g, "<br>"),
+    identifier: { "@type": "PropertyValue", name: SITE_NAME, value: job.id },
+    url: `${SITE_URL}/jobs/${job.id}`,
+    datePosted: job.postedAt ?? undefined,
+    validThrough: job.expiresAt ?? undefined,
+    employmentType: EMPLOYMENT_TYPES[job.type] ?? "OTHER",
+    hiringOrganization: { "@type": "Organization", name: job.company },
+    industry: job.industry,
+    occupationalCategory: job.roleCategory,
+    educationRequirements: job.education,
+    skills: job.tags.length > 0 ? job.tags.join(", ") : undefined,
+    experienceRequirements: job.experienceMin !== undefined
+      ? { "@type": "OccupationalExperienceRequirements", monthsOfExperience: job.experienceMin * 12 }
+      : undefined,
+    jobLocation: isRemote ? undefined : {
+      "@type": "Place",
+      address: { "@type": "PostalAddress", addressLocality: job.location, addressCountry: "IN" },
+    },
+    jobLocationType: isRemote ? "TELECOMMUTE" : undefined,
+    applicantLocationRequirements: isRemote ? { "@type": "Country", name: "India" } : undefined,
+    baseSalary: hasSalary ? {
+      "@type": "MonetaryAmount",
+      currency: "INR",
+      value: {
+        "@type": "QuantitativeValue",
+        minValue: job.salaryMin !== undefined ? job.salaryMin * LAKH : undefined,
+        maxValue: job.salaryMax !== undefined ? job.salaryMax * LAKH : undefined,
+        unitText: "YEAR",
+      },
+    } : undefined,
+  };
+}
+
+export async function generateMetadata({ params }: JobPageProps): Promise<Metadata> {
+  const { jobId } = await params;
+  const [job, { t, href }] = await Promise.all([getJob(jobId), getI18n()]);
+  if (!job || effectiveJobStatus(job) === "draft") {
+    return { title: `${t("jobDetail.notFoundTitle")} | ${SITE_NAME}` };
+  }
+
+  const title = `${t("jobDetail.metaTitle", { title: job.title, company: job.company, location: job.location })} | ${SITE_NAME}`;
+  const description = summarize(job.description);
+  const path = `/jobs/${job.id}`;
+  const canonical = href(path);
+
+  return {
+    title,
+    description,
+    alternates: { canonical, languages: { en: path, hi: localizePath(path, "hi") } },
+    openGraph: {
+      type: "website",
+      url: canonical,
+      siteName: SITE_NAME,
+      title: t("jobDetail.shareTitle", { title: job.title, company: job.company }),
+      description,
+    },
+  };
+}
+
+const DetailItem = ({ icon, label, value }: { icon: React.ReactNode; label: string; value?: string }) => {
+  if (!value) return null;
+  return (
+    <div className="flex items-start gap-3">
+      <span className="mt-0.5 text-muted-foreground">{icon}</span>
+      <div>
+        <p className="text-sm text-muted-foreground">{label}</p>
+        <p className="font-medium">{value}</p>
+      </div>
+    </div>
+  );
+};
+
+export default async function JobDetailPage({ params }: JobPageProps) {
+  const { jobId } = await params;
+  const [job, { t, href, formatDate }] = await Promise.all([getJob(jobId), getI18n()]);
+  const status = job ? effectiveJobStatus(job) : null;
+  if (!job || status === "draft") {
+    notFound();
+  }
+
+  // Search engines should drop postings that no longer take applications, so only open jobs get JSON-LD.
+  const isOpen = status === "live";
+  const jsonLd = JSON.stringify(jobPostingJsonLd(job)).replace(/</g, "\\u003c");
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      {isOpen && <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: jsonLd }} />}
+      <Header variant="default" />
+      <main className="flex-1 py-24 md:py-32">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 max-w-4xl space-y-6">
+          {!isOpen && (
+            <Alert>
+              <Ban className="h-4 w-4" />
+              <AlertTitle>{t("jobDetail.closedTitle")}</AlertTitle>
+              <AlertDescription>
+                {t(status === "paused" ? "jobDetail.paused" : "jobDetail.closed")} <Link href={href("/jobs")} className="underline">{t("jobDetail.browseOpenJobs")}</Link>
+              </AlertDescription>
+            </Alert>
+          )}
+          <Card>
+            <CardHeader className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+              <div>
+                <h1 className="text-2xl md:text-3xl font-bold">{job.title}</h1>
+                <p className="text-lg text-muted-foreground mt-1">{job.company}</p>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-muted-foreground mt-3">
+                  <span className="flex items-center gap-1.5"><MapPin className="w-4 h-4" /> {job.location}</span>
+                  <span className="flex items-center gap-1.5"><Briefcase className="w-4 h-4" /> {job.type} &bull; {job.workMode}</span>
+                  {job.postedAt && (
+                    <span className="flex items-center gap-1.5"><CalendarDays className="w-4 h-4" /> {t("jobDetail.posted", { date: formatDate(new Date(job.postedAt), "PP") })}</span>
+                  )}
+                </div>
+              </div>
+              {isOpen && (
+                <Button asChild size="lg" className="shrink-0">
+                  <Link href={href(`/jobs/${job.id}/apply`)}><Send className="mr-2 h-4 w-4" /> {t("jobDetail.applyNow")}</Link>
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t pt-6">
+              <DetailItem icon={<Briefcase className="w-4 h-4" />} label={t("jobDetail.experience")} value={formatRange(t, job.experienceMin, job.experienceMax, t("jobDetail.years"), t("common.notSpecified"))} />
+              <DetailItem icon={<IndianRupee className="w-4 h-4" />} label={t("jobDetail.salary")} value={formatRange(t, job.salaryMin, job.salaryMax, t("jobDetail.lacsPerAnnum"), t("common.notDisclosed"))} />
+              <DetailItem icon={<Layers className="w-4 h-4" />} label={t("jobDetail.department")} value={job.department} />
+              <DetailItem icon={<Layers className="w-4 h-4" />} label={t("jobDetail.roleCategory")} value={job.roleCategory} />
+              <DetailItem icon={<Building2 className="w-4 h-4" />} label={t("jobDetail.industry")} value={job.industry} />
+              <DetailItem icon={<Building2 className="w-4 h-4" />} label={t("jobDetail.companyType")} value={job.companyType} />
+              <DetailItem icon={<GraduationCap className="w-4 h-4" />} label={t("jobDetail.education")} value={job.education} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader><CardTitle>{t("jobDetail.description")}</CardTitle></CardHeader>
+            <CardContent className="space-y-6">
+              <p className="text-muted-foreground whitespace-pre-line">{job.description}</p>
+              {job.tags.length > 0 && (
+                <div>
+                  <p className="text-sm font-semibold mb-2">{t("jobDetail.keySkills")}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {job.tags.map(tag => (
+                      <Badge key={tag} variant="secondary">{tag}</Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
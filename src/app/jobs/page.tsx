@@ -1,5 +1,7 @@
+import { Suspense } from "react";
 import Footer from "@/components/layout/footer";
 import Header from "@/components/layout/header";
+import FloatingAssistant from "@/components/chat/floating-assistant";
 import JobListings from "@/components/sections/job-listings";
 
 export default function JobsPage() {
@@ -7,9 +9,12 @@ export default function JobsPage() {
     <div className="flex flex-col min-h-screen bg-background">
       <Header variant="default" />
       <main className="flex-1 py-24 md:py-32">
-        <JobListings />
+        <Suspense>
+          <JobListings />
+        </Suspense>
       </main>
       <Footer />
+      <FloatingAssistant />
     </div>
   );
 }
@@ -1,12 +1,14 @@
 
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { applyForMembership } from "@/app/actions";
 import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import type { I18n } from "@/lib/i18n";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -16,22 +18,26 @@ import { Loader2, ArrowRight, QrCode, User, Mail, Phone, CheckCircle, Copy } fro
 import Image from "next/image";
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
+import FloatingAssistant from "@/components/chat/floating-assistant";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import statesAndDistricts from "@/lib/india-states-districts.json";
 
-const membershipSchema = z.object({
-  name: z.string().min(2, "Name is required."),
-  email: z.string().email("A valid email is required."),
-  phone: z.string().min(10, "A valid 10-digit phone number is required.").max(13, "Phone number is too long."),
-  state: z.string().min(1, "State is required."),
-  district: z.string().min(1, "District is required."),
-  utr: z.string().min(10, "A valid UTR/Transaction ID is required."),
+const MEMBERSHIP_FEE = 1000;
+
+const createMembershipSchema = (t: I18n["t"]) => z.object({
+  name: z.string().min(2, t("membership.nameRequired")),
+  email: z.string().email(t("membership.emailInvalid")),
+  phone: z.string().min(10, t("membership.phoneInvalid")).max(13, t("membership.phoneTooLong")),
+  state: z.string().min(1, t("membership.stateRequired")),
+  district: z.string().min(1, t("membership.districtRequired")),
+  utr: z.string().min(10, t("membership.utrInvalid")),
 });
 
-type MembershipFormData = z.infer<typeof membershipSchema>;
+type MembershipFormData = z.infer<ReturnType<typeof createMembershipSchema>>;
 
 const Step1Form = ({ form, onNext }: { form: any; onNext: () => void }) => {
   const { control, trigger, watch } = form;
+  const { t } = useI18n();
   const selectedState = watch("state");
   const [districts, setDistricts] = useState<string[]>([]);
 
@@ -55,22 +61,22 @@ const Step1Form = ({ form, onNext }: { form: any; onNext: () => void }) => {
   return (
     <div className="space-y-4">
       <CardHeader>
-        <CardTitle>Step 1: Your Details</CardTitle>
-        <CardDescription>Please provide your basic information.</CardDescription>
+        <CardTitle>{t("membership.detailsTitle")}</CardTitle>
+        <CardDescription>{t("membership.detailsDescription")}</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
-        <FormField control={control} name="name" render={({ field }) => (<FormItem><FormLabel>Full Name</FormLabel><FormControl><Input placeholder="John Doe" {...field} /></FormControl><FormMessage /></FormItem>)} />
-        <FormField control={control} name="email" render={({ field }) => (<FormItem><FormLabel>Email Address</FormLabel><FormControl><Input type="email" placeholder="john.doe@example.com" {...field} /></FormControl><FormMessage /></FormItem>)} />
-        <FormField control={control} name="phone" render={({ field }) => (<FormItem><FormLabel>Phone Number</FormLabel><FormControl><Input type="tel" placeholder="9876543210" {...field} /></FormControl><FormMessage /></FormItem>)} />
+        <FormField control={control} name="name" render={({ field }) => (<FormItem><FormLabel>{t("membership.fullName")}</FormLabel><FormControl><Input placeholder="John Doe" {...field} /></FormControl><FormMessage /></FormItem>)} />
+        <FormField control={control} name="email" render={({ field }) => (<FormItem><FormLabel>{t("membership.email")}</FormLabel><FormControl><Input type="email" placeholder="john.doe@example.com" {...field} /></FormControl><FormMessage /></FormItem>)} />
+        <FormField control={control} name="phone" render={({ field }) => (<FormItem><FormLabel>{t("membership.phone")}</FormLabel><FormControl><Input type="tel" placeholder="9876543210" {...field} /></FormControl><FormMessage /></FormItem>)} />
         <div className="grid grid-cols-2 gap-4">
             <FormField
               control={control}
               name="state"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>State</FormLabel>
+                  <FormLabel>{t("membership.state")}</FormLabel>
                   <Select onValueChange={field.onChange} defaultValue={field.value}>
-                    <FormControl><SelectTrigger><SelectValue placeholder="Select state" /></SelectTrigger></FormControl>
+                    <FormControl><SelectTrigger><SelectValue placeholder={t("membership.selectState")} /></SelectTrigger></FormControl>
                     <SelectContent>
                       {statesAndDistricts.map(s => <SelectItem key={s.state} value={s.state}>{s.state}</SelectItem>)}
                     </SelectContent>
@@ -84,9 +90,9 @@ const Step1Form = ({ form, onNext }: { form: any; onNext: () => void }) => {
               name="district"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>District</FormLabel>
+                  <FormLabel>{t("membership.district")}</FormLabel>
                   <Select onValueChange={field.onChange} defaultValue={field.value} disabled={!selectedState}>
-                    <FormControl><SelectTrigger><SelectValue placeholder="Select district" /></SelectTrigger></FormControl>
+                    <FormControl><SelectTrigger><SelectValue placeholder={t("membership.selectDistrict")} /></SelectTrigger></FormControl>
                     <SelectContent>
                       {districts.map(d => <SelectItem key={d} value={d}>{d}</SelectItem>)}
                     </SelectContent>
@@ -97,7 +103,7 @@ const Step1Form = ({ form, onNext }: { form: any; onNext: () => void }) => {
             />
         </div>
         <Button onClick={handleNext} className="w-full">
-          Next <ArrowRight className="ml-2 h-4 w-4" />
+          {t("common.next")} <ArrowRight className="ml-2 h-4 w-4" />
         </Button>
       </CardContent>
     </div>
@@ -106,29 +112,30 @@ const Step1Form = ({ form, onNext }: { form: any; onNext: () => void }) => {
 
 const Step2Form = ({ form }: { form: any }) => {
     const { formState: { isSubmitting } } = form;
+    const { t, formatCurrency } = useI18n();
     return (
         <div className="space-y-4">
             <CardHeader>
-                <CardTitle>Step 2: Payment</CardTitle>
-                <CardDescription>Scan the QR code to pay ₹1000, then enter the transaction ID.</CardDescription>
+                <CardTitle>{t("membership.paymentTitle")}</CardTitle>
+                <CardDescription>{t("membership.paymentDescription", { amount: formatCurrency(MEMBERSHIP_FEE) })}</CardDescription>
             </CardHeader>
             <CardContent className="flex flex-col items-center gap-6">
-                <Image src="/qr.jpeg" alt="Payment QR Code" width={250} height={250} className="rounded-lg border p-2" />
+                <Image src="/qr.jpeg" alt={t("membership.qrAlt")} width={250} height={250} className="rounded-lg border p-2" />
                 <div className="w-full">
                      <FormField
                         control={form.control}
                         name="utr"
                         render={({ field }) => (
                             <FormItem>
-                            <FormLabel>UTR / Transaction ID</FormLabel>
-                            <FormControl><Input placeholder="Enter your payment transaction ID" {...field} /></FormControl>
+                            <FormLabel>{t("membership.utr")}</FormLabel>
+                            <FormControl><Input placeholder={t("membership.utrPlaceholder")} {...field} /></FormControl>
                             <FormMessage />
                             </FormItem>
                         )}
                         />
                 </div>
                 <Button type="submit" className="w-full" disabled={isSubmitting}>
-                    {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : "Submit Application"}
+                    {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : t("membership.submit")}
                 </Button>
             </CardContent>
         </div>
@@ -137,17 +144,18 @@ const Step2Form = ({ form }: { form: any }) => {
 
 const Step3Confirmation = ({ membershipId }: { membershipId: string }) => {
     const { toast } = useToast();
+    const { t } = useI18n();
     const copyToClipboard = () => {
         navigator.clipboard.writeText(membershipId);
-        toast({ title: "Copied!", description: "Membership ID copied to clipboard." });
+        toast({ title: t("membership.copiedTitle"), description: t("membership.copiedDescription") });
     }
     return (
         <div className="text-center p-6">
             <CheckCircle className="mx-auto h-16 w-16 text-green-500 mb-4" />
-            <h2 className="text-2xl font-bold mb-2">Thank you for applying!</h2>
-            <p className="text-muted-foreground mb-6">Your application has been received. We will verify your payment and get back to you shortly.</p>
+            <h2 className="text-2xl font-bold mb-2">{t("membership.thankYou")}</h2>
+            <p className="text-muted-foreground mb-6">{t("membership.received")}</p>
             <div className="p-4 rounded-lg bg-secondary">
-                <p className="text-sm text-muted-foreground">Your Membership ID</p>
+                <p className="text-sm text-muted-foreground">{t("membership.membershipId")}</p>
                 <div className="flex items-center justify-center gap-2 mt-1">
                     <p className="text-lg font-mono font-semibold">{membershipId}</p>
                     <Button variant="ghost" size="icon" onClick={copyToClipboard}><Copy className="h-4 w-4" /></Button>
@@ -162,6 +170,8 @@ export default function JoinMembershipPage() {
   const [currentStep, setCurrentStep] = useState(1);
   const [membershipId, setMembershipId] = useState<string | null>(null);
   const { toast } = useToast();
+  const { t } = useI18n();
+  const membershipSchema = useMemo(() => createMembershipSchema(t), [t]);
 
   const form = useForm<MembershipFormData>({
     resolver: zodResolver(membershipSchema),
@@ -170,7 +180,7 @@ export default function JoinMembershipPage() {
 
   const onSubmit = async (values: MembershipFormData) => {
     if(!values.utr || values.utr.length < 10) {
-        form.setError("utr", { type: "manual", message: "A valid UTR/Transaction ID is required." });
+        form.setError("utr", { type: "manual", message: t("membership.utrInvalid") });
         return;
     }
     const result = await applyForMembership(values);
@@ -180,8 +190,8 @@ export default function JoinMembershipPage() {
     } else {
       toast({
         variant: "destructive",
-        title: "Submission Failed",
-        description: result.message || "An unknown error occurred.",
+        title: t("membership.failedTitle"),
+        description: result.message || t("membership.unknownError"),
       });
     }
   };
@@ -201,6 +211,7 @@ export default function JoinMembershipPage() {
         </Card>
       </main>
       <Footer />
+      <FloatingAssistant />
     </div>
   );
 }
@@ -1,23 +1,34 @@
 import type { Metadata } from 'next';
-import { Inter } from 'next/font/google';
+import { Inter, Noto_Sans_Devanagari } from 'next/font/google';
 import './globals.css';
 import { Toaster } from '@/components/ui/toaster';
+import { I18nProvider } from '@/hooks/use-i18n';
+import { SessionProvider } from '@/hooks/use-session';
+import { getI18n, getLocale } from '@/lib/i18n-server';
 import { cn } from '@/lib/utils';
+import { SITE_URL } from '@/lib/site';
 
 const inter = Inter({ subsets: ['latin'], variable: '--font-body' });
+const devanagari = Noto_Sans_Devanagari({ subsets: ['devanagari'], variable: '--font-devanagari' });
 
-export const metadata: Metadata = {
-  title: 'Zensolve Infotech - Your Partner in Talent and Technology',
-  description: 'Connecting top talent with leading companies. Specializing in IT, placement services, and business solutions.',
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getI18n();
+  return {
+    metadataBase: new URL(SITE_URL),
+    title: t('meta.title'),
+    description: t('meta.description'),
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getLocale();
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <head>
         <link rel="preconnect" href="https://fonts.googleapis.com" />
         <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
@@ -26,8 +37,12 @@ export default function RootLayout({
           rel="stylesheet"
         />
       </head>
-      <body className={cn('font-body antialiased', inter.variable)}>
-        {children}
+      <body className={cn('font-body antialiased', inter.variable, devanagari.variable)}>
+        <I18nProvider locale={locale}>
+          <SessionProvider>
+            {children}
+          </SessionProvider>
+        </I18nProvider>
         <Toaster />
       </body>
     </html>
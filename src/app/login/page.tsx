@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useForm } from "react-hook-form";
@@ -22,18 +22,26 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Loader2, LogIn } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import { storeSession } from "@/hooks/use-session";
+import { homePathFor } from "@/lib/roles";
+import type { I18n } from "@/lib/i18n";
 
-const formSchema = z.object({
-  email: z.string().email({ message: "Please enter a valid email address." }),
-  password: z.string().min(6, { message: "Password must be at least 6 characters." }),
+const createFormSchema = (t: I18n["t"]) => z.object({
+  email: z.string().email({ message: t("auth.emailInvalid") }),
+  password: z.string().min(6, { message: t("auth.passwordTooShort") }),
 });
 
+type FormValues = z.infer<ReturnType<typeof createFormSchema>>;
+
 export default function LoginPage() {
   const router = useRouter();
   const { toast } = useToast();
+  const { t, href } = useI18n();
   const [isLoading, setIsLoading] = useState(false);
+  const formSchema = useMemo(() => createFormSchema(t), [t]);
 
-  const form = useForm<z.infer<typeof formSchema>>({
+  const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       email: "",
@@ -41,29 +49,26 @@ export default function LoginPage() {
     },
   });
 
-  async function onSubmit(values: z.infer<typeof formSchema>) {
+  async function onSubmit(values: FormValues) {
     setIsLoading(true);
     try {
       const userCredential = await signInWithEmailAndPassword(auth, values.email, values.password);
-      const user = userCredential.user;
+      const roles = await storeSession(userCredential.user);
 
       toast({
-        title: "Login Successful",
-        description: "Welcome back!",
+        title: t("auth.login.successTitle"),
+        description: t("auth.login.successDescription"),
       });
 
-      // Redirect based on email
-      if (user.email === "admin@zensolve.in") {
-        router.push("/admin");
-      } else {
-        router.push("/jobs");
-      }
+      // Staff go to the admin panel and employees to their portal; everyone else to the jobs board.
+      const home = homePathFor(roles);
+      router.push(href(home === "/" ? "/jobs" : home));
     } catch (error: any) {
       console.error("Login error:", error);
       toast({
         variant: "destructive",
-        title: "Login Failed",
-        description: error.message || "Please check your credentials and try again.",
+        title: t("auth.login.failedTitle"),
+        description: error.message || t("auth.login.failedDescription"),
       });
     } finally {
       setIsLoading(false);
@@ -77,8 +82,8 @@ export default function LoginPage() {
             <div className="mx-auto mb-4">
               <LogIn className="h-10 w-10 text-primary" />
             </div>
-            <CardTitle className="text-2xl font-bold">Welcome Back</CardTitle>
-            <CardDescription>Enter your credentials to access your account</CardDescription>
+            <CardTitle className="text-2xl font-bold">{t("auth.login.title")}</CardTitle>
+            <CardDescription>{t("auth.login.description")}</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
@@ -88,7 +93,7 @@ export default function LoginPage() {
                 name="email"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Email</FormLabel>
+                    <FormLabel>{t("auth.email")}</FormLabel>
                     <FormControl>
                       <Input type="email" placeholder="john.doe@example.com" {...field} />
                     </FormControl>
@@ -101,7 +106,7 @@ export default function LoginPage() {
                 name="password"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Password</FormLabel>
+                    <FormLabel>{t("auth.password")}</FormLabel>
                     <FormControl>
                       <Input type="password" placeholder="••••••••" {...field} />
                     </FormControl>
@@ -111,14 +116,14 @@ export default function LoginPage() {
               />
               <Button type="submit" className="w-full" disabled={isLoading}>
                 {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                Log In
+                {t("auth.login.submit")}
               </Button>
             </form>
           </Form>
           <div className="mt-4 text-center text-sm">
-            Don&apos;t have an account?{" "}
-            <Link href="/signup" className="underline text-primary">
-              Sign up
+            {t("auth.login.noAccount")}{" "}
+            <Link href={href("/signup")} className="underline text-primary">
+              {t("auth.login.signUp")}
             </Link>
           </div>
         </CardContent>
@@ -8,47 +8,32 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { getI18n } from '@/lib/i18n-server';
 
 const services = [
-  {
-    icon: <Users className="w-10 h-10 text-primary" />,
-    title: 'Placement Services',
-    description: 'Helping businesses find top-tier candidates and assisting individuals with job searches.',
-  },
-  {
-    icon: <Briefcase className="w-10 h-10 text-primary" />,
-    title: 'IT Consulting & Services',
-    description: 'Providing expert IT consulting to ensure the right information is available to the right people at the right time.',
-  },
-  {
-    icon: <FileText className="w-10 h-10 text-primary" />,
-    title: 'Business Solutions',
-    description: 'Offering tailored application frameworks and end-to-end business solutions to meet your needs.',
-  },
-  {
-    icon: <HeartHandshake className="w-10 h-10 text-primary" />,
-    title: 'CSR Projects',
-    description: 'Engaging in corporate social responsibility projects to make a positive impact on society.',
-  },
-];
+  { icon: <Users className="w-10 h-10 text-primary" />, key: 'placement' },
+  { icon: <Briefcase className="w-10 h-10 text-primary" />, key: 'it' },
+  { icon: <FileText className="w-10 h-10 text-primary" />, key: 'business' },
+  { icon: <HeartHandshake className="w-10 h-10 text-primary" />, key: 'csr' },
+] as const;
 
 const categories = [
-    { icon: <Laptop className="w-5 h-5" />, name: 'Remote' },
-    { icon: <Landmark className="w-5 h-5" />, name: 'MNC' },
-    { icon: <IndianRupee className="w-5 h-5" />, name: 'Banking &...' },
-    { icon: <Rocket className="w-5 h-5" />, name: 'Startup' },
-    { icon: <BriefcaseBusiness className="w-5 h-5" />, name: 'Internship' },
-    { icon: <BarChart3 className="w-5 h-5" />, name: 'Data Scien...' },
-    { icon: <Tv className="w-5 h-5" />, name: 'Software &...' },
-    { icon: <Award className="w-5 h-5" />, name: 'Fortune 500' },
-    { icon: <ShoppingBag className="w-5 h-5" />, name: 'Sales' },
-    { icon: <Settings className="w-5 h-5" />, name: 'Engineering' },
-    { icon: <UserRound className="w-5 h-5" />, name: 'HR' },
-];
+    { icon: <Laptop className="w-5 h-5" />, key: 'remote' },
+    { icon: <Landmark className="w-5 h-5" />, key: 'mnc' },
+    { icon: <IndianRupee className="w-5 h-5" />, key: 'banking' },
+    { icon: <Rocket className="w-5 h-5" />, key: 'startup' },
+    { icon: <BriefcaseBusiness className="w-5 h-5" />, key: 'internship' },
+    { icon: <BarChart3 className="w-5 h-5" />, key: 'dataScience' },
+    { icon: <Tv className="w-5 h-5" />, key: 'software' },
+    { icon: <Award className="w-5 h-5" />, key: 'fortune500' },
+    { icon: <ShoppingBag className="w-5 h-5" />, key: 'sales' },
+    { icon: <Settings className="w-5 h-5" />, key: 'engineering' },
+    { icon: <UserRound className="w-5 h-5" />, key: 'hr' },
+] as const;
 
 const topCompanies = [
     { 
-        category: 'MNCs', 
+        category: 'mncs', 
         count: '2.1K+',
         logos: [
             { src: 'https://placehold.co/50x50.png', alt: 'Company 1', hint: 'company logo' },
@@ -58,7 +43,7 @@ const topCompanies = [
         ] 
     },
     { 
-        category: 'Edtech', 
+        category: 'edtech', 
         count: '160',
         logos: [
             { src: 'https://placehold.co/50x50.png', alt: 'Company 5', hint: 'company logo' },
@@ -68,7 +53,7 @@ const topCompanies = [
         ] 
     },
     { 
-        category: 'Healthcare', 
+        category: 'healthcare', 
         count: '616',
         logos: [
             { src: 'https://placehold.co/50x50.png', alt: 'Company 9', hint: 'company logo' },
@@ -78,7 +63,7 @@ const topCompanies = [
         ] 
     },
     { 
-        category: 'Unicorns', 
+        category: 'unicorns', 
         count: '89',
         logos: [
             { src: 'https://placehold.co/50x50.png', alt: 'Company 13', hint: 'company logo' },
@@ -88,7 +73,7 @@ const topCompanies = [
         ] 
     },
     { 
-        category: 'Internet', 
+        category: 'internet', 
         count: '250',
         logos: [
             { src: 'https://placehold.co/50x50.png', alt: 'Company 17', hint: 'company logo' },
@@ -97,20 +82,22 @@ const topCompanies = [
             { src: 'https://placehold.co/50x50.png', alt: 'Company 20', hint: 'company logo' },
         ] 
     },
-];
+] as const;
 
-const campusLinks = ["Expert speak", "Contests", "NCAT", "Pathfinder", "Jobs & Internships"];
+const campusLinks = ["expertSpeak", "contests", "ncat", "pathfinder", "jobsAndInternships"] as const;
 
 const popularRoles = [
-    { name: 'Full Stack Developer', count: '20.7K+ Jobs' },
-    { name: 'Mobile / App Devel...', count: '3.1K+ Jobs' },
-    { name: 'Front End Developer', count: '5.2K+ Jobs' },
-    { name: 'DevOps Engineer', count: '3.2K+ Jobs' },
-    { name: 'Engineering Manager', count: '1.6K+ Jobs' },
-    { name: 'Technical Lead', count: '11.2K+ Jobs' },
+    { name: 'Full Stack Developer', count: '20.7K+' },
+    { name: 'Mobile / App Devel...', count: '3.1K+' },
+    { name: 'Front End Developer', count: '5.2K+' },
+    { name: 'DevOps Engineer', count: '3.2K+' },
+    { name: 'Engineering Manager', count: '1.6K+' },
+    { name: 'Technical Lead', count: '11.2K+' },
 ];
 
-export default function Home() {
+export default async function Home() {
+  const { t, href } = await getI18n();
+
   return (
     <div className="flex min-h-screen flex-col bg-background">
       <Header variant="transparent" />
@@ -119,7 +106,7 @@ export default function Home() {
         <section className="relative h-screen flex items-center justify-center text-white">
           <Image
             src="https://github.com/akm12109/zensolve-assets/blob/main/herosection.png?raw=true"
-            alt="A professional working on a laptop"
+            alt={t('home.heroImageAlt')}
             fill
             className="z-0 object-cover"
             data-ai-hint="man laptop cafe"
@@ -129,14 +116,14 @@ export default function Home() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-center">
               <div className="space-y-6">
                 <h1 className="text-5xl md:text-7xl font-extrabold tracking-tight">
-                  Make Career With Us
+                  {t('home.heroTitle')}
                 </h1>
                 <p className="text-lg text-white/90 max-w-lg">
-                  Connecting top talent with leading companies. We specialize in IT, placement services, and innovative business solutions to help you achieve your career goals.
+                  {t('home.heroSubtitle')}
                 </p>
                 <div className="flex flex-wrap gap-4">
                   <Button size="lg" className="bg-white text-primary hover:bg-white/90 rounded-lg font-bold">
-                    Find Job
+                    {t('home.findJob')}
                   </Button>
                 </div>
               </div>
@@ -160,20 +147,20 @@ export default function Home() {
                 {/* Mock Interview Banner */}
                 <div className="bg-gradient-to-r from-teal-400 to-cyan-500 rounded-2xl p-8 flex justify-between items-center text-white relative overflow-hidden mb-12">
                     <div className="relative z-10">
-                        <div className="inline-block bg-white/20 text-white text-xs font-semibold px-3 py-1 rounded-full mb-4">Quick & Easy</div>
-                        <h2 className="text-3xl font-bold">Leave your resume here</h2>
-                        <p className="opacity-90 mb-6">And let us find the best job for you.</p>
-                        <Button className="bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-lg px-6 py-3">Upload Resume</Button>
+                        <div className="inline-block bg-white/20 text-white text-xs font-semibold px-3 py-1 rounded-full mb-4">{t('home.resumeBadge')}</div>
+                        <h2 className="text-3xl font-bold">{t('home.resumeTitle')}</h2>
+                        <p className="opacity-90 mb-6">{t('home.resumeSubtitle')}</p>
+                        <Button className="bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-lg px-6 py-3">{t('home.uploadResume')}</Button>
                     </div>
                 </div>
 
                 {/* Categories */}
                 <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4 mb-16">
                     {categories.map(category => (
-                        <Link key={category.name} href="/jobs">
+                        <Link key={category.key} href={href('/jobs')}>
                           <Button variant="outline" className="w-full justify-start bg-white shadow-sm hover:shadow-md h-12">
                               {category.icon}
-                              <span className="ml-3 font-semibold">{category.name}</span>
+                              <span className="ml-3 font-semibold">{t(`home.categories.${category.key}`)}</span>
                               <ArrowRight className="ml-auto w-4 h-4 text-muted-foreground" />
                           </Button>
                         </Link>
@@ -182,7 +169,7 @@ export default function Home() {
 
                 {/* Top Companies */}
                 <div className="text-center mb-12">
-                    <h2 className="text-3xl font-extrabold text-foreground">Top companies hiring now</h2>
+                    <h2 className="text-3xl font-extrabold text-foreground">{t('home.topCompaniesTitle')}</h2>
                 </div>
                 <div className="relative">
                     <div className="flex space-x-6 overflow-x-auto pb-4 -mx-4 px-4">
@@ -190,10 +177,10 @@ export default function Home() {
                             <Card key={company.category} className="min-w-[280px] flex-shrink-0">
                                 <CardHeader>
                                     <CardTitle className="flex items-center justify-between">
-                                        <span className="text-lg">{company.category}</span>
+                                        <span className="text-lg">{t(`home.companyCategories.${company.category}`)}</span>
                                         <ArrowRight className="w-5 h-5 text-primary" />
                                     </CardTitle>
-                                    <CardDescription>{company.count} are actively hiring</CardDescription>
+                                    <CardDescription>{t('home.activelyHiring', { count: company.count })}</CardDescription>
                                 </CardHeader>
                                 <CardContent>
                                     <div className="grid grid-cols-4 gap-4">
@@ -219,7 +206,7 @@ export default function Home() {
           <div className="container mx-auto px-4 sm:px-6 lg:px-8">
             {/* Career Platform Banner */}
             <Card className="p-6 sm:p-8 rounded-2xl shadow-lg border-2 border-primary/10 relative overflow-hidden mb-16">
-               <Badge variant="outline" className="absolute top-4 right-4 bg-purple-100 text-purple-700 border-purple-200">Just launched</Badge>
+               <Badge variant="outline" className="absolute top-4 right-4 bg-purple-100 text-purple-700 border-purple-200">{t('home.campusBadge')}</Badge>
               <div className="flex flex-col md:flex-row gap-8 items-center">
                   <div className="flex-shrink-0">
                       <div className="w-24 h-24 bg-primary/10 rounded-full flex items-center justify-center">
@@ -227,19 +214,19 @@ export default function Home() {
                       </div>
                   </div>
                   <div className="flex-1">
-                      <h2 className="text-2xl sm:text-3xl font-bold text-foreground mb-2">Introducing a career platform for college students & fresh grads</h2>
-                      <p className="text-muted-foreground mb-4">Explore contests, webinars, take aptitude test, prepare for your dream career & find jobs & internships</p>
+                      <h2 className="text-2xl sm:text-3xl font-bold text-foreground mb-2">{t('home.campusTitle')}</h2>
+                      <p className="text-muted-foreground mb-4">{t('home.campusSubtitle')}</p>
                       <div className="flex flex-wrap gap-2">
                           {campusLinks.map(link => (
                               <Button key={link} variant="ghost" size="sm" className="text-muted-foreground hover:bg-secondary">
-                                  {link} <ChevronRight className="w-4 h-4 ml-1" />
+                                  {t(`home.campusLinks.${link}`)} <ChevronRight className="w-4 h-4 ml-1" />
                               </Button>
                           ))}
                       </div>
                   </div>
                   <div className="flex-shrink-0">
                       <Button asChild size="lg" className="rounded-lg px-8">
-                        <Link href="/jobs">Explore now</Link>
+                        <Link href={href('/jobs')}>{t('home.exploreNow')}</Link>
                       </Button>
                   </div>
               </div>
@@ -248,9 +235,9 @@ export default function Home() {
             {/* Popular Roles */}
             <div className="bg-orange-50 rounded-2xl p-8 flex flex-col md:flex-row items-center gap-8">
                 <div className="md:w-1/3 text-center md:text-left">
-                    <Image src="https://github.com/akm12109/zensolve-assets/blob/main/role-collection-ot.png?raw=true" alt="Discover jobs illustration" width={300} height={300} className="mx-auto" data-ai-hint="man searching job" />
-                    <h2 className="text-3xl font-bold text-foreground mt-4">Discover jobs across popular roles</h2>
-                    <p className="text-muted-foreground mt-2">Select a role and we'll show you relevant jobs for it!</p>
+                    <Image src="https://github.com/akm12109/zensolve-assets/blob/main/role-collection-ot.png?raw=true" alt={t('home.rolesImageAlt')} width={300} height={300} className="mx-auto" data-ai-hint="man searching job" />
+                    <h2 className="text-3xl font-bold text-foreground mt-4">{t('home.rolesTitle')}</h2>
+                    <p className="text-muted-foreground mt-2">{t('home.rolesSubtitle')}</p>
                 </div>
                 <div className="md:w-2/3 relative">
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -259,7 +246,7 @@ export default function Home() {
                                 <CardContent className="p-4 flex items-center justify-between">
                                     <div>
                                         <p className="font-semibold">{role.name}</p>
-                                        <p className="text-sm text-muted-foreground">{role.count}</p>
+                                        <p className="text-sm text-muted-foreground">{t('home.roleJobs', { count: role.count })}</p>
                                     </div>
                                     <ChevronRight className="w-5 h-5 text-muted-foreground" />
                                 </CardContent>
@@ -278,17 +265,17 @@ export default function Home() {
         <section className="bg-primary text-primary-foreground">
           <div className="container mx-auto px-4 py-16 sm:px-6 lg:px-8">
             <h2 className="text-4xl font-extrabold tracking-tight text-center mb-12">
-              Our Services
+              {t('home.servicesTitle')}
             </h2>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
               {services.map((item) => (
-                <Card key={item.title} className="bg-primary-foreground/10 border-0 overflow-hidden text-primary-foreground text-center">
+                <Card key={item.key} className="bg-primary-foreground/10 border-0 overflow-hidden text-primary-foreground text-center">
                   <CardContent className="p-6 flex flex-col items-center">
                     <div className="p-4 bg-primary/20 rounded-full mb-4">
                       {item.icon}
                     </div>
-                    <p className="font-bold text-lg">{item.title}</p>
-                    <p className="mt-2 text-sm opacity-90">{item.description}</p>
+                    <p className="font-bold text-lg">{t(`home.services.${item.key}.title`)}</p>
+                    <p className="mt-2 text-sm opacity-90">{t(`home.services.${item.key}.description`)}</p>
                   </CardContent>
                 </Card>
               ))}
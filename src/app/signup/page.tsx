@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useForm } from "react-hook-form";
@@ -22,18 +22,24 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Loader2, UserPlus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import type { I18n } from "@/lib/i18n";
 
-const formSchema = z.object({
-  email: z.string().email({ message: "Please enter a valid email address." }),
-  password: z.string().min(6, { message: "Password must be at least 6 characters." }),
+const createFormSchema = (t: I18n["t"]) => z.object({
+  email: z.string().email({ message: t("auth.emailInvalid") }),
+  password: z.string().min(6, { message: t("auth.passwordTooShort") }),
 });
 
+type FormValues = z.infer<ReturnType<typeof createFormSchema>>;
+
 export default function SignupPage() {
   const router = useRouter();
   const { toast } = useToast();
+  const { t, href } = useI18n();
   const [isLoading, setIsLoading] = useState(false);
+  const formSchema = useMemo(() => createFormSchema(t), [t]);
 
-  const form = useForm<z.infer<typeof formSchema>>({
+  const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       email: "",
@@ -41,24 +47,24 @@ export default function SignupPage() {
     },
   });
 
-  async function onSubmit(values: z.infer<typeof formSchema>) {
+  async function onSubmit(values: FormValues) {
     setIsLoading(true);
     try {
       await createUserWithEmailAndPassword(auth, values.email, values.password);
       
       toast({
-        title: "Account Created",
-        description: "You have successfully signed up! Redirecting to login...",
+        title: t("auth.signup.successTitle"),
+        description: t("auth.signup.successDescription"),
       });
 
-      router.push("/login");
+      router.push(href("/login"));
 
     } catch (error: any) {
       console.error("Signup error:", error);
       toast({
         variant: "destructive",
-        title: "Signup Failed",
-        description: error.message || "An unexpected error occurred. Please try again.",
+        title: t("auth.signup.failedTitle"),
+        description: error.message || t("auth.signup.failedDescription"),
       });
     } finally {
       setIsLoading(false);
@@ -72,8 +78,8 @@ export default function SignupPage() {
             <div className="mx-auto mb-4">
               <UserPlus className="h-10 w-10 text-primary" />
             </div>
-            <CardTitle className="text-2xl font-bold">Create an Account</CardTitle>
-            <CardDescription>Enter your email and password to get started</CardDescription>
+            <CardTitle className="text-2xl font-bold">{t("auth.signup.title")}</CardTitle>
+            <CardDescription>{t("auth.signup.description")}</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
@@ -83,7 +89,7 @@ export default function SignupPage() {
                 name="email"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Email</FormLabel>
+                    <FormLabel>{t("auth.email")}</FormLabel>
                     <FormControl>
                       <Input type="email" placeholder="you@company.com" {...field} />
                     </FormControl>
@@ -96,7 +102,7 @@ export default function SignupPage() {
                 name="password"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Password</FormLabel>
+                    <FormLabel>{t("auth.password")}</FormLabel>
                     <FormControl>
                       <Input type="password" placeholder="••••••••" {...field} />
                     </FormControl>
@@ -106,14 +112,14 @@ export default function SignupPage() {
               />
               <Button type="submit" className="w-full" disabled={isLoading}>
                 {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                Sign Up
+                {t("auth.signup.submit")}
               </Button>
             </form>
           </Form>
           <div className="mt-4 text-center text-sm">
-            Already have an account?{" "}
-            <Link href="/login" className="underline text-primary">
-              Log in
+            {t("auth.signup.haveAccount")}{" "}
+            <Link href={href("/login")} className="underline text-primary">
+              {t("auth.signup.logIn")}
             </Link>
           </div>
         </CardContent>
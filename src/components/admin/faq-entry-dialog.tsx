@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect } from "react";
+import { Timestamp } from "firebase/firestore";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { saveFaqEntry } from "@/app/actions";
+import { FAQ_ENTRY_TYPES, FAQ_ENTRY_TYPE_LABELS, type FaqEntryType } from "@/lib/faq-knowledge";
+
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+export interface FaqEntry {
+  id: string;
+  type: FaqEntryType;
+  title: string;
+  content: string;
+  tags: string[];
+  embedding?: number[] | null;
+  updatedAt?: Timestamp;
+}
+
+const entrySchema = z.object({
+  type: z.enum(FAQ_ENTRY_TYPES),
+  title: z.string().trim().min(3, "Title is required."),
+  content: z.string().trim().min(10, "Content must be at least 10 characters."),
+  tags: z.string().optional(),
+});
+export type EntryFormData = z.infer<typeof entrySchema>;
+
+type SaveEntry = (data: Parameters<typeof saveFaqEntry>[1]) => Promise<{ success: boolean; message: string }>;
+
+const emptyEntry: EntryFormData = { type: "qa", title: "", content: "", tags: "" };
+
+interface FaqEntryDialogProps {
+  // The entry being edited, or null to add a new one.
+  entry: FaqEntry | null;
+  // Pre-fills a new entry, e.g. from a question in the FAQ log.
+  initialValues?: Partial<EntryFormData>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Replaces the default save, for callers that need to do more when the entry is created.
+  onSave?: SaveEntry;
+}
+
+export default function FaqEntryDialog({ entry, initialValues, open, onOpenChange, onSave }: FaqEntryDialogProps) {
+  const { toast } = useToast();
+  const form = useForm<EntryFormData>({
+    resolver: zodResolver(entrySchema),
+    defaultValues: emptyEntry,
+  });
+  const { isSubmitting } = form.formState;
+  const type = form.watch("type");
+
+  useEffect(() => {
+    if (open) {
+      form.reset(entry ? { type: entry.type, title: entry.title, content: entry.content, tags: entry.tags.join(", ") } : { ...emptyEntry, ...initialValues });
+    }
+  }, [open, entry, initialValues, form]);
+
+  async function onSubmit(values: EntryFormData) {
+    const data = {
+      ...values,
+      tags: (values.tags ?? "").split(",").map(tag => tag.trim()).filter(Boolean),
+    };
+    const result = onSave ? await onSave(data) : await saveFaqEntry(entry?.id ?? null, data);
+    if (result.success) {
+      toast({ title: "Success", description: result.message });
+      onOpenChange(false);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{entry ? "Edit Entry" : "Add Entry"}</DialogTitle>
+          <DialogDescription>The AI assistant answers only from these entries and cites the ones it used.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField control={form.control} name="type" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Type</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                  <SelectContent>
+                    {FAQ_ENTRY_TYPES.map(option => <SelectItem key={option} value={option}>{FAQ_ENTRY_TYPE_LABELS[option]}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )} />
+            <FormField control={form.control} name="title" render={({ field }) => (
+              <FormItem>
+                <FormLabel>{type === "qa" ? "Question" : "Title"}</FormLabel>
+                <FormControl><Input placeholder={type === "qa" ? "e.g., Do you charge candidates a placement fee?" : "e.g., Refund Policy"} {...field} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )} />
+            <FormField control={form.control} name="content" render={({ field }) => (
+              <FormItem>
+                <FormLabel>{type === "qa" ? "Answer" : "Content"}</FormLabel>
+                <FormControl><Textarea className="min-h-[200px]" {...field} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )} />
+            <FormField control={form.control} name="tags" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Keywords</FormLabel>
+                <FormControl><Input placeholder="e.g., fees, charges, payment (comma-separated)" {...field} /></FormControl>
+                <FormDescription>Other words people might use when asking about this.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )} />
+            <DialogFooter>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Entry
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,503 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { draftJobDescription } from "@/app/actions";
+import { useToast } from "@/hooks/use-toast";
+import {
+  JOB_DESCRIPTION_LANGUAGES,
+  JOB_DESCRIPTION_TONES,
+  JOB_STATUSES,
+  JOB_STATUS_LABELS,
+  type JobDescriptionLanguage,
+  type JobDescriptionTone,
+} from "@/lib/jobs";
+
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Wand2 } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+
+const jobSchema = z.object({
+  title: z.string().min(3, "Title is required."),
+  company: z.string().min(2, "Company name is required."),
+  location: z.string().min(2, "Location is required."),
+  type: z.string().min(1, "Job type is required."),
+  workMode: z.string().min(1, "Work mode is required."),
+  experienceMin: z.coerce.number().min(0).optional(),
+  experienceMax: z.coerce.number().min(0).optional(),
+  salaryMin: z.coerce.number().min(0).optional(),
+  salaryMax: z.coerce.number().min(0).optional(),
+  department: z.string().min(1, "Department is required."),
+  companyType: z.string().min(1, "Company type is required."),
+  roleCategory: z.string().min(1, "Role category is required."),
+  education: z.string().min(1, "Education is required."),
+  industry: z.string().min(1, "Industry is required."),
+  description: z.string().min(10, "Description is required."),
+  tags: z.string().optional(),
+  status: z.enum(JOB_STATUSES),
+  expiresAt: z.string().optional(),
+});
+
+export type JobFormData = z.infer<typeof jobSchema>;
+
+export const emptyJobFormValues: JobFormData = {
+  title: "",
+  company: "",
+  location: "",
+  type: "",
+  workMode: "",
+  department: "",
+  companyType: "",
+  roleCategory: "",
+  education: "",
+  industry: "",
+  description: "",
+  tags: "",
+  status: "live",
+  expiresAt: "",
+};
+
+interface JobFormProps {
+  defaultValues?: JobFormData;
+  submitLabel: string;
+  // Resolves to true when the job was saved; the form then resets if `resetOnSuccess` is set.
+  onSubmit: (values: JobFormData) => Promise<boolean>;
+  resetOnSuccess?: boolean;
+}
+
+export default function JobForm({ defaultValues = emptyJobFormValues, submitLabel, onSubmit, resetOnSuccess = false }: JobFormProps) {
+  const form = useForm<JobFormData>({
+    resolver: zodResolver(jobSchema),
+    defaultValues,
+  });
+
+  const { isSubmitting } = form.formState;
+  const { toast } = useToast();
+  const [tone, setTone] = useState<JobDescriptionTone>("professional");
+  const [language, setLanguage] = useState<JobDescriptionLanguage>("English");
+  const [isDrafting, setIsDrafting] = useState(false);
+
+  async function handleDraft() {
+    const values = form.getValues();
+    if (values.description.trim() && !window.confirm("Replace the current description with an AI draft?")) {
+      return;
+    }
+
+    setIsDrafting(true);
+    const result = await draftJobDescription({
+      job: {
+        title: values.title,
+        company: values.company,
+        department: values.department,
+        roleCategory: values.roleCategory,
+        experienceMin: values.experienceMin,
+        experienceMax: values.experienceMax,
+        salaryMin: values.salaryMin,
+        salaryMax: values.salaryMax,
+        workMode: values.workMode,
+        education: values.education,
+      },
+      tone,
+      language,
+    });
+    setIsDrafting(false);
+
+    if (!("description" in result)) {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+      return;
+    }
+
+    form.setValue("description", result.description, { shouldDirty: true, shouldValidate: true });
+    // Suggested tags are added to any the admin has already typed.
+    const existingTags = (values.tags ?? "").split(",").map(tag => tag.trim()).filter(Boolean);
+    const newTags = result.tags.filter(tag => !existingTags.some(existing => existing.toLowerCase() === tag.toLowerCase()));
+    form.setValue("tags", [...existingTags, ...newTags].join(", "), { shouldDirty: true });
+    toast({ title: "Draft Ready", description: result.message });
+  }
+
+  async function handleSubmit(values: JobFormData) {
+    const saved = await onSubmit(values);
+    if (saved && resetOnSuccess) {
+      form.reset();
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="title"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Job Title</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., Senior Frontend Developer" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="company"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Company Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., Tech Innovators Inc." {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <FormField
+              control={form.control}
+              name="location"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Location</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., New York, NY" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="workMode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Work Mode</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger><SelectValue placeholder="Select work mode" /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="Work from office">Work from office</SelectItem>
+                      <SelectItem value="Remote">Remote</SelectItem>
+                      <SelectItem value="Hybrid">Hybrid</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Job Type</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger><SelectValue placeholder="Select a job type" /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="Full-time">Full-time</SelectItem>
+                    <SelectItem value="Part-time">Part-time</SelectItem>
+                    <SelectItem value="Contract">Contract</SelectItem>
+                    <SelectItem value="Internship">Internship</SelectItem>
+                    <SelectItem value="Temporary">Temporary</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="department"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Department</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger><SelectValue placeholder="Select a department" /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="Engineering - Software & QA">Engineering - Software & QA</SelectItem>
+                    <SelectItem value="Sales & Business Development">Sales & Business Development</SelectItem>
+                    <SelectItem value="Data Science & Analytics">Data Science & Analytics</SelectItem>
+                    <SelectItem value="Marketing & Communication">Marketing & Communication</SelectItem>
+                    <SelectItem value="HR & Administration">HR & Administration</SelectItem>
+                    <SelectItem value="Operations">Operations</SelectItem>
+                    <SelectItem value="Product Management">Product Management</SelectItem>
+                    <SelectItem value="Design & UX">Design & UX</SelectItem>
+                    <SelectItem value="Finance & Accounting">Finance & Accounting</SelectItem>
+                    <SelectItem value="Customer Service & Support">Customer Service & Support</SelectItem>
+                    <SelectItem value="IT & Infrastructure">IT & Infrastructure</SelectItem>
+                    <SelectItem value="Other">Other</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <FormField
+              control={form.control}
+              name="experienceMin"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Min Experience (Years)</FormLabel>
+                  <FormControl>
+                    <Input type="number" placeholder="e.g., 0" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="experienceMax"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Max Experience (Years)</FormLabel>
+                  <FormControl>
+                    <Input type="number" placeholder="e.g., 5" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <FormField
+              control={form.control}
+              name="salaryMin"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Min Salary (LPA)</FormLabel>
+                  <FormControl>
+                    <Input type="number" placeholder="e.g., 5" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="salaryMax"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Max Salary (LPA)</FormLabel>
+                  <FormControl>
+                    <Input type="number" placeholder="e.g., 10" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <FormField
+                control={form.control}
+                name="companyType"
+                render={({ field }) => (
+                <FormItem>
+                    <FormLabel>Company Type</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl><SelectTrigger><SelectValue placeholder="Select company type" /></SelectTrigger></FormControl>
+                    <SelectContent>
+                        <SelectItem value="Corporate">Corporate</SelectItem>
+                        <SelectItem value="Foreign MNC">Foreign MNC</SelectItem>
+                        <SelectItem value="Startup">Startup</SelectItem>
+                        <SelectItem value="Indian MNC">Indian MNC</SelectItem>
+                        <SelectItem value="Government">Government</SelectItem>
+                        <SelectItem value="Non-Profit">Non-Profit</SelectItem>
+                        <SelectItem value="Other">Other</SelectItem>
+                    </SelectContent>
+                    </Select>
+                    <FormMessage />
+                </FormItem>
+                )}
+            />
+            <FormField
+                control={form.control}
+                name="roleCategory"
+                render={({ field }) => (
+                <FormItem>
+                    <FormLabel>Role Category</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl><SelectTrigger><SelectValue placeholder="Select role category" /></SelectTrigger></FormControl>
+                    <SelectContent>
+                        <SelectItem value="Software Development">Software Development</SelectItem>
+                        <SelectItem value="Quality Assurance and Testing">Quality Assurance and Testing</SelectItem>
+                        <SelectItem value="BD / Pre Sales">BD / Pre Sales</SelectItem>
+                        <SelectItem value="DevOps / SRE">DevOps / SRE</SelectItem>
+                        <SelectItem value="Data Science">Data Science</SelectItem>
+                        <SelectItem value="Machine Learning">Machine Learning</SelectItem>
+                        <SelectItem value="Project & Program Management">Project & Program Management</SelectItem>
+                        <SelectItem value="System Design & Architecture">System Design & Architecture</SelectItem>
+                         <SelectItem value="Other">Other</SelectItem>
+                    </SelectContent>
+                    </Select>
+                    <FormMessage />
+                </FormItem>
+                )}
+            />
+        </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <FormField
+                control={form.control}
+                name="education"
+                render={({ field }) => (
+                <FormItem>
+                    <FormLabel>Education</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl><SelectTrigger><SelectValue placeholder="Select education" /></SelectTrigger></FormControl>
+                    <SelectContent>
+                        <SelectItem value="Any Postgraduate">Any Postgraduate</SelectItem>
+                        <SelectItem value="MBA/PGDM">MBA/PGDM</SelectItem>
+                        <SelectItem value="Any Graduate">Any Graduate</SelectItem>
+                        <SelectItem value="B.Tech/B.E.">B.Tech/B.E.</SelectItem>
+                        <SelectItem value="M.Tech">M.Tech</SelectItem>
+                        <SelectItem value="MCA">MCA</SelectItem>
+                        <SelectItem value="Doctorate">Doctorate</SelectItem>
+                        <SelectItem value="Other">Other</SelectItem>
+                    </SelectContent>
+                    </Select>
+                    <FormMessage />
+                </FormItem>
+                )}
+            />
+            <FormField
+                control={form.control}
+                name="industry"
+                render={({ field }) => (
+                <FormItem>
+                    <FormLabel>Industry</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl><SelectTrigger><SelectValue placeholder="Select industry" /></SelectTrigger></FormControl>
+                    <SelectContent>
+                        <SelectItem value="IT Services & Consulting">IT Services & Consulting</SelectItem>
+                        <SelectItem value="Software Product">Software Product</SelectItem>
+                        <SelectItem value="Recruitment / Staffing">Recruitment / Staffing</SelectItem>
+                        <SelectItem value="Education / Training">Education / Training</SelectItem>
+                        <SelectItem value="Banking & Finance">Banking & Finance</SelectItem>
+                        <SelectItem value="Healthcare">Healthcare</SelectItem>
+                        <SelectItem value="E-commerce">E-commerce</SelectItem>
+                        <SelectItem value="Manufacturing">Manufacturing</SelectItem>
+                        <SelectItem value="Other">Other</SelectItem>
+                    </SelectContent>
+                    </Select>
+                    <FormMessage />
+                </FormItem>
+                )}
+            />
+          </div>
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+                <FormLabel>Job Description</FormLabel>
+                <div className="flex flex-wrap gap-2">
+                  <Select value={tone} onValueChange={(value) => setTone(value as JobDescriptionTone)}>
+                    <SelectTrigger className="w-36 capitalize"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {JOB_DESCRIPTION_TONES.map(option => (
+                        <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={language} onValueChange={(value) => setLanguage(value as JobDescriptionLanguage)}>
+                    <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {JOB_DESCRIPTION_LANGUAGES.map(option => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button type="button" variant="outline" onClick={handleDraft} disabled={isDrafting}>
+                    {isDrafting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+                    Draft with AI
+                  </Button>
+                </div>
+              </div>
+              <FormControl>
+                <Textarea placeholder="Detailed job description..." className="min-h-[240px]" {...field} />
+              </FormControl>
+              <FormDescription>Fill in the title and other details above, then draft a description to edit before saving.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="tags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tags</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., React, TypeScript, Next.js (comma-separated)" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Status</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger><SelectValue placeholder="Select status" /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {JOB_STATUSES.map(status => (
+                      <SelectItem key={status} value={status} disabled={status === "expired"}>
+                        {JOB_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Only live jobs are shown on the public job board.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="expiresAt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Expires On (optional)</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormDescription>The job is hidden and stops accepting applications after this date.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
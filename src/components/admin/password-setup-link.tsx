@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { createPasswordSetupLink } from "@/app/actions";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Copy, KeyRound, Loader2, Mail } from "lucide-react";
+
+interface PasswordSetupLinkProps {
+  link: string;
+  // Who the link is for; the email button opens a message addressed to them.
+  recipientEmail: string;
+  recipientName?: string;
+}
+
+// Shows the one-time link a new user opens to choose their password, for the admin to pass on.
+export default function PasswordSetupLink({ link, recipientEmail, recipientName }: PasswordSetupLinkProps) {
+  const { toast } = useToast();
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(link);
+    toast({ title: "Copied", description: "Password setup link copied to clipboard." });
+  };
+
+  const subject = "Set up your Zensolve account";
+  const body = `Hi${recipientName ? ` ${recipientName}` : ""},\n\nYour Zensolve account is ready. Open this link to choose your password:\n\n${link}\n`;
+  const mailto = `mailto:${recipientEmail}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+
+  return (
+    <Alert>
+      <AlertTitle className="text-left">Password Setup Link</AlertTitle>
+      <AlertDescription className="space-y-3 text-left">
+        <p className="mt-2">Share this link with {recipientName ?? recipientEmail}. It works once and expires after an hour.</p>
+        <p className="break-all rounded-md bg-secondary p-2 font-mono text-xs">{link}</p>
+        <div className="flex gap-2">
+          <Button type="button" size="sm" variant="outline" onClick={copyLink}>
+            <Copy className="mr-2 h-4 w-4" /> Copy Link
+          </Button>
+          <Button asChild size="sm" variant="outline">
+            <a href={mailto}>
+              <Mail className="mr-2 h-4 w-4" /> Email Link
+            </a>
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+// Creates a new setup link on demand, e.g. when the one shown at registration has expired.
+export function PasswordSetupLinkDialog({ accountEmail, recipientEmail, recipientName }: {
+  accountEmail: string;
+  recipientEmail: string;
+  recipientName?: string;
+}) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [link, setLink] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleOpenChange = async (isOpen: boolean) => {
+    setOpen(isOpen);
+    setLink(null);
+    if (!isOpen) return;
+
+    setIsLoading(true);
+    const result = await createPasswordSetupLink({ email: accountEmail });
+    if (result.success && "passwordSetupLink" in result && result.passwordSetupLink) {
+      setLink(result.passwordSetupLink);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+      setOpen(false);
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm"><KeyRound className="mr-2 h-4 w-4" /> Setup Link</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Password Setup Link</DialogTitle>
+          <DialogDescription>A new link for {accountEmail}. Earlier links stop working once a password is set.</DialogDescription>
+        </DialogHeader>
+        {isLoading || !link ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <PasswordSetupLink link={link} recipientEmail={recipientEmail} recipientName={recipientName} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
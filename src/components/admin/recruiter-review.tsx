@@ -0,0 +1,251 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { collection, doc, onSnapshot, orderBy, query, Timestamp } from "firebase/firestore";
+import { db, auth } from "@/lib/firebase";
+import { format } from "date-fns";
+import { addApplicationNote, rateApplication, updateApplicationTags, updateRatingCriteria } from "@/app/actions";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_RATING_CRITERIA, RATING_SCALE, normalizeTag } from "@/lib/applications";
+import { cn } from "@/lib/utils";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, MessageSquare, Star, Tag, X, Settings2 } from "lucide-react";
+
+type ActivityEntry = {
+  id: string;
+  authorName: string;
+  createdAt?: Timestamp;
+} & (
+  | { type: "note"; text: string }
+  | { type: "rating"; scores: Record<string, number>; average: number; comment?: string }
+  | { type: "tags"; added: string[]; removed: string[] }
+);
+
+// The server checks this is the signed-in user and stores their name alongside it.
+const currentAuthor = () => ({ authorId: auth.currentUser?.uid ?? "" });
+
+const StarRating = ({ value, onChange }: { value: number; onChange?: (value: number) => void }) => (
+  <div className="flex gap-0.5">
+    {RATING_SCALE.map(score => (
+      <button
+        key={score}
+        type="button"
+        disabled={!onChange}
+        onClick={() => onChange?.(score)}
+        className={cn("disabled:cursor-default", onChange && "hover:scale-110 transition-transform")}
+        aria-label={`${score} star${score > 1 ? "s" : ""}`}
+      >
+        <Star className={cn("h-4 w-4", score <= value ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground")} />
+      </button>
+    ))}
+  </div>
+);
+
+const TimelineEntry = ({ entry }: { entry: ActivityEntry }) => {
+  const icon = entry.type === "note" ? <MessageSquare className="h-4 w-4" /> : entry.type === "rating" ? <Star className="h-4 w-4" /> : <Tag className="h-4 w-4" />;
+  return (
+    <li className="flex gap-3">
+      <span className="mt-0.5 text-muted-foreground">{icon}</span>
+      <div className="flex-1 space-y-1">
+        <p className="text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">{entry.authorName}</span> &bull; {entry.createdAt ? format(entry.createdAt.toDate(), "PPP p") : "Just now"}
+        </p>
+        {entry.type === "note" && <p className="text-sm whitespace-pre-line">{entry.text}</p>}
+        {entry.type === "rating" && (
+          <div className="space-y-1">
+            {Object.entries(entry.scores).map(([criterion, score]) => (
+              <div key={criterion} className="flex items-center gap-2 text-sm">
+                <span className="w-36 text-muted-foreground">{criterion}</span>
+                <StarRating value={score} />
+              </div>
+            ))}
+            {entry.comment && <p className="text-sm italic text-muted-foreground">&quot;{entry.comment}&quot;</p>}
+          </div>
+        )}
+        {entry.type === "tags" && (
+          <div className="flex flex-wrap gap-1 text-sm">
+            {entry.added.map(tag => <Badge key={`+${tag}`} variant="secondary" className="bg-green-100 text-green-800">+ {tag}</Badge>)}
+            {entry.removed.map(tag => <Badge key={`-${tag}`} variant="secondary" className="bg-red-100 text-red-800 line-through">{tag}</Badge>)}
+          </div>
+        )}
+      </div>
+    </li>
+  );
+};
+
+export default function RecruiterReview({ applicationId, initialTags }: { applicationId: string; initialTags: string[] }) {
+  const { toast } = useToast();
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  const [criteria, setCriteria] = useState<string[]>(DEFAULT_RATING_CRITERIA);
+  const [tags, setTags] = useState<string[]>(initialTags);
+  const [tagInput, setTagInput] = useState("");
+  const [note, setNote] = useState("");
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [comment, setComment] = useState("");
+  const [criteriaInput, setCriteriaInput] = useState<string | null>(null);
+  const [pending, setPending] = useState<"note" | "rating" | "tags" | "criteria" | null>(null);
+
+  useEffect(() => {
+    const q = query(collection(db, "applications", applicationId, "recruiterActivity"), orderBy("createdAt", "desc"));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setActivity(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as ActivityEntry));
+    }, (error) => {
+      console.error("Error fetching recruiter activity:", error);
+    });
+    return () => unsubscribe();
+  }, [applicationId]);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, "settings", "ratingCriteria"), (snapshot) => {
+      const saved = snapshot.data()?.criteria;
+      setCriteria(Array.isArray(saved) && saved.length > 0 ? saved : DEFAULT_RATING_CRITERIA);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const notify = (result: { success: boolean; message: string }) => {
+    if (result.success) {
+      toast({ title: "Success", description: result.message });
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+  };
+
+  const saveTags = async (nextTags: string[]) => {
+    setPending("tags");
+    const result = await updateApplicationTags({ applicationId, tags: nextTags, ...currentAuthor() });
+    if (result.success && result.tags) {
+      setTags(result.tags);
+    } else {
+      notify(result);
+    }
+    setPending(null);
+  };
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = normalizeTag(tagInput);
+    if (!tag) return;
+    setTagInput("");
+    if (!tags.includes(tag)) saveTags([...tags, tag]);
+  };
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPending("note");
+    const result = await addApplicationNote({ applicationId, text: note, ...currentAuthor() });
+    notify(result);
+    if (result.success) setNote("");
+    setPending(null);
+  };
+
+  const handleRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPending("rating");
+    const result = await rateApplication({ applicationId, scores, comment: comment || undefined, ...currentAuthor() });
+    notify(result);
+    if (result.success) {
+      setScores({});
+      setComment("");
+    }
+    setPending(null);
+  };
+
+  const handleSaveCriteria = async () => {
+    if (criteriaInput === null) return;
+    setPending("criteria");
+    const result = await updateRatingCriteria({ criteria: criteriaInput.split(",").map(item => item.trim()).filter(Boolean) });
+    notify(result);
+    if (result.success) setCriteriaInput(null);
+    setPending(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="space-y-6">
+        <Card>
+          <CardHeader><CardTitle className="flex items-center gap-2 text-lg"><Tag /> Tags</CardTitle></CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {tags.length === 0 && <p className="text-sm text-muted-foreground">No tags yet.</p>}
+              {tags.map(tag => (
+                <Badge key={tag} variant="outline" className="gap-1">
+                  {tag}
+                  <button type="button" onClick={() => saveTags(tags.filter(item => item !== tag))} disabled={pending === "tags"} aria-label={`Remove ${tag}`}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+            <form onSubmit={handleAddTag} className="flex gap-2">
+              <Input value={tagInput} onChange={e => setTagInput(e.target.value)} placeholder="e.g., strong-react, call-back" />
+              <Button type="submit" variant="outline" disabled={pending === "tags" || !tagInput.trim()}>
+                {pending === "tags" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="flex items-center gap-2 text-lg"><Star /> Rate Candidate</CardTitle>
+            <Button variant="ghost" size="sm" onClick={() => setCriteriaInput(criteriaInput === null ? criteria.join(", ") : null)}>
+              <Settings2 className="mr-2 h-4 w-4" /> Criteria
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {criteriaInput !== null && (
+              <div className="mb-4 space-y-2 rounded-md border p-3">
+                <p className="text-sm text-muted-foreground">Comma-separated criteria used for every application.</p>
+                <Input value={criteriaInput} onChange={e => setCriteriaInput(e.target.value)} />
+                <Button size="sm" onClick={handleSaveCriteria} disabled={pending === "criteria"}>
+                  {pending === "criteria" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Criteria
+                </Button>
+              </div>
+            )}
+            <form onSubmit={handleRate} className="space-y-3">
+              {criteria.map(criterion => (
+                <div key={criterion} className="flex items-center justify-between gap-2">
+                  <span className="text-sm">{criterion}</span>
+                  <StarRating value={scores[criterion] ?? 0} onChange={value => setScores({ ...scores, [criterion]: value })} />
+                </div>
+              ))}
+              <Textarea value={comment} onChange={e => setComment(e.target.value)} placeholder="Optional comment" />
+              <Button type="submit" className="w-full" disabled={pending === "rating" || Object.keys(scores).length === 0}>
+                {pending === "rating" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Rating
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader><CardTitle className="flex items-center gap-2 text-lg"><MessageSquare /> Notes & Activity</CardTitle></CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={handleAddNote} className="space-y-2">
+            <Textarea value={note} onChange={e => setNote(e.target.value)} placeholder="Add a note about this candidate..." />
+            <Button type="submit" disabled={pending === "note" || note.trim().length < 2}>
+              {pending === "note" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Note
+            </Button>
+          </form>
+          {activity.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No notes or ratings yet.</p>
+          ) : (
+            <ol className="space-y-4 border-t pt-4">
+              {activity.map(entry => <TimelineEntry key={entry.id} entry={entry} />)}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
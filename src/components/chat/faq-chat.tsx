@@ -0,0 +1,203 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { streamFlow } from "@genkit-ai/next/client";
+import type { aiFaqFlow, FAQMessage, FAQSource } from "@/ai/flows/ai-faq";
+import { FAQ_HISTORY_LIMIT, FAQ_STARTER_QUESTIONS } from "@/lib/faq-knowledge";
+import type { FaqFeedback } from "@/lib/faq-analytics";
+import { rateFaqAnswer } from "@/app/actions";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import { cn } from "@/lib/utils";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, RotateCcw, Send, Sparkles, ThumbsDown, ThumbsUp } from "lucide-react";
+
+interface ChatMessage extends FAQMessage {
+  sources?: FAQSource[];
+  error?: boolean;
+  // Links the answer to its entry in the FAQ question log, for feedback.
+  logId?: string | null;
+  feedbackToken?: string | null;
+  feedback?: FaqFeedback;
+}
+
+// The assistant keeps one conversation per browser tab as the visitor moves between pages.
+const STORAGE_KEY = "zensolve-faq-chat";
+
+const loadHistory = (): ChatMessage[] => {
+  try {
+    return JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+};
+
+interface MessageBubbleProps {
+  message: ChatMessage;
+  streaming: boolean;
+  onFeedback: (feedback: FaqFeedback) => void;
+}
+
+const MessageBubble = ({ message, streaming, onFeedback }: MessageBubbleProps) => {
+  const { t } = useI18n();
+  const isUser = message.role === "user";
+  return (
+    <div className={cn("flex flex-col", isUser ? "items-end" : "items-start")}>
+      <div
+        className={cn(
+          "max-w-[85%] rounded-lg px-3 py-2 text-sm",
+          isUser ? "bg-primary text-primary-foreground" : "bg-secondary text-foreground",
+          message.error && "bg-destructive/10 text-destructive"
+        )}
+      >
+        {message.content ? (
+          <p className="whitespace-pre-line">{message.content}</p>
+        ) : (
+          streaming && <Loader2 className="h-4 w-4 animate-spin" />
+        )}
+        {message.sources && message.sources.length > 0 && (
+          <ul className="mt-2 space-y-0.5 border-t pt-2 text-xs text-muted-foreground">
+            {message.sources.map(source => (
+              <li key={source.id}>[{source.ref}] {source.title}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {message.logId && message.feedbackToken && !streaming && (
+        <div className="mt-1 flex gap-1">
+          <Button type="button" variant="ghost" size="icon" className={cn("h-6 w-6", message.feedback === "up" && "text-primary")} onClick={() => onFeedback("up")} disabled={!!message.feedback} aria-label={t("chat.helpful")}>
+            <ThumbsUp className="h-3 w-3" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" className={cn("h-6 w-6", message.feedback === "down" && "text-destructive")} onClick={() => onFeedback("down")} disabled={!!message.feedback} aria-label={t("chat.notHelpful")}>
+            <ThumbsDown className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default function FaqChat({ className }: { className?: string }) {
+  const { toast } = useToast();
+  const { locale, t } = useI18n();
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState("");
+  const [isStreaming, setIsStreaming] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setMessages(loadHistory());
+  }, []);
+
+  useEffect(() => {
+    if (!isStreaming) {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
+    }
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [messages, isStreaming]);
+
+  const updateLastMessage = (update: Partial<ChatMessage>) =>
+    setMessages(prev => [...prev.slice(0, -1), { ...prev[prev.length - 1], ...update }]);
+
+  const ask = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || isStreaming) return;
+
+    // Failed turns are not sent back to the model as context, and only the latest turns are sent at all.
+    const history = messages
+      .filter(message => !message.error)
+      .slice(-FAQ_HISTORY_LIMIT)
+      .map(({ role, content }) => ({ role, content }));
+    setMessages(prev => [...prev, { role: "user", content: trimmed }, { role: "assistant", content: "" }]);
+    setQuestion("");
+    setIsStreaming(true);
+
+    try {
+      const result = streamFlow<typeof aiFaqFlow>({
+        url: "/api/faq-chat",
+        input: { question: trimmed, history, locale },
+      });
+      let answer = "";
+      for await (const chunk of result.stream) {
+        answer += chunk;
+        updateLastMessage({ content: answer });
+      }
+      const output = await result.output;
+      updateLastMessage({ content: output.answer, sources: output.sources, logId: output.logId, feedbackToken: output.feedbackToken });
+    } catch (error) {
+      console.error(error);
+      updateLastMessage({ content: t("chat.error"), error: true });
+    } finally {
+      setIsStreaming(false);
+    }
+  };
+
+  const setFeedback = (index: number, feedback: FaqFeedback | undefined) =>
+    setMessages(prev => prev.map((message, i) => (i === index ? { ...message, feedback } : message)));
+
+  const handleFeedback = async (index: number, feedback: FaqFeedback) => {
+    const { logId, feedbackToken } = messages[index];
+    if (!logId || !feedbackToken) return;
+    setFeedback(index, feedback);
+    const result = await rateFaqAnswer(logId, feedbackToken, feedback);
+    if (!result.success) {
+      setFeedback(index, undefined);
+      toast({ variant: "destructive", title: t("common.error"), description: result.message });
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    ask(question);
+  };
+
+  return (
+    <div className={cn("flex flex-col", className)}>
+      <div ref={scrollRef} className="flex-1 overflow-y-auto space-y-3 p-1">
+        {messages.length === 0 ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Sparkles className="h-4 w-4 text-primary" /> {t("chat.intro")}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {FAQ_STARTER_QUESTIONS[locale].map(starter => (
+                <Button key={starter} type="button" variant="outline" size="sm" className="h-auto whitespace-normal text-left" onClick={() => ask(starter)}>
+                  {starter}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          messages.map((message, index) => (
+            <MessageBubble
+              key={index}
+              message={message}
+              streaming={isStreaming && index === messages.length - 1}
+              onFeedback={(feedback) => handleFeedback(index, feedback)}
+            />
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2 pt-3">
+        {messages.length > 0 && (
+          <Button type="button" variant="ghost" size="icon" onClick={() => setMessages([])} disabled={isStreaming} aria-label={t("chat.newChat")}>
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        )}
+        <Input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder={t("chat.placeholder")}
+          disabled={isStreaming}
+        />
+        <Button type="submit" size="icon" disabled={isStreaming || !question.trim()} aria-label={t("chat.send")}>
+          {isStreaming ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+        </Button>
+      </form>
+    </div>
+  );
+}
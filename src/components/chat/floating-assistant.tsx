@@ -0,0 +1,37 @@
+"use client";
+
+import { useState } from "react";
+import FaqChat from "@/components/chat/faq-chat";
+import { useI18n } from "@/hooks/use-i18n";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { MessageCircle, Sparkles, X } from "lucide-react";
+
+export default function FloatingAssistant() {
+  const [open, setOpen] = useState(false);
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col items-end gap-3">
+      {open && (
+        <Card className="w-[calc(100vw-2rem)] max-w-sm shadow-2xl">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 p-4 pb-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Sparkles className="h-4 w-4 text-primary" /> {t("chat.assistantTitle")}
+            </CardTitle>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setOpen(false)} aria-label={t("chat.closeAssistant")}>
+              <X className="h-4 w-4" />
+            </Button>
+          </CardHeader>
+          <CardContent className="p-4 pt-0">
+            <FaqChat className="h-[26rem]" />
+          </CardContent>
+        </Card>
+      )}
+      <Button size="icon" className="h-14 w-14 rounded-full shadow-lg" onClick={() => setOpen(!open)} aria-label={open ? t("chat.closeAssistant") : t("chat.openAssistant")}>
+        {open ? <X className="h-6 w-6" /> : <MessageCircle className="h-6 w-6" />}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getAttendanceMonth } from "@/app/actions";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import type { MessageKey } from "@/lib/i18n";
+import {
+  DAY_STATUSES,
+  DAY_STATUS_CLASSES,
+  attendanceDay,
+  countStatuses,
+  formatWorkingTime,
+  type AttendanceCalendarDay,
+  type DayStatus,
+} from "@/lib/attendance";
+import { weekday } from "@/lib/work-calendar";
+import { cn } from "@/lib/utils";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+
+const STATUS_LABELS: Record<DayStatus, MessageKey> = {
+  present: "employee.attendance.calendar.statuses.present",
+  halfDay: "employee.attendance.calendar.statuses.halfDay",
+  absent: "employee.attendance.calendar.statuses.absent",
+  leave: "employee.attendance.calendar.statuses.leave",
+  holiday: "employee.attendance.calendar.statuses.holiday",
+  weeklyOff: "employee.attendance.calendar.statuses.weeklyOff",
+};
+
+// A Sunday, for the weekday headings.
+const FIRST_SUNDAY = Date.UTC(2024, 0, 7, 12);
+
+const shiftMonth = (month: string, by: number) => {
+  const [year, monthNumber] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1 + by, 1)).toISOString().slice(0, 7);
+};
+
+// The employee's month, one cell per day coloured by how the day counts. `refreshKey`
+// reloads it, e.g. after checking in or out.
+export default function AttendanceCalendar({ employeeId, refreshKey }: { employeeId: string; refreshKey?: string }) {
+  const { toast } = useToast();
+  const { t, formatDate } = useI18n();
+  const currentMonth = attendanceDay().slice(0, 7);
+  const [month, setMonth] = useState(currentMonth);
+  const [days, setDays] = useState<AttendanceCalendarDay[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getAttendanceMonth({ employeeId, month }).then(result => {
+      if (cancelled) return;
+      if (result.success) {
+        setDays(result.days);
+      } else {
+        toast({ variant: "destructive", title: t("common.error"), description: result.message ?? t("employee.attendance.calendar.loadFailed") });
+      }
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [employeeId, month, refreshKey, toast, t]);
+
+  const totals = countStatuses(days);
+
+  const dayTitle = (day: AttendanceCalendarDay) =>
+    [
+      day.holidayName,
+      day.checkInAt && t("employee.attendance.checkedInAt", { time: formatDate(new Date(day.checkInAt), "p") }),
+      day.checkOutAt && t("employee.attendance.checkedOutAt", { time: formatDate(new Date(day.checkOutAt), "p") }),
+      day.workingMinutes !== null && t("employee.attendance.workingTime", { hours: formatWorkingTime(day.workingMinutes) }),
+    ].filter(Boolean).join("\n");
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>{formatDate(new Date(`${month}-01T12:00:00+05:30`), "MMMM yyyy")}</CardTitle>
+          <CardDescription>{t("employee.attendance.calendar.description")}</CardDescription>
+        </div>
+        <div className="flex gap-1">
+          <Button variant="outline" size="icon" onClick={() => setMonth(shiftMonth(month, -1))} aria-label={t("common.previous")}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setMonth(shiftMonth(month, 1))} disabled={month >= currentMonth} aria-label={t("common.next")}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex h-64 items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-7 gap-1 text-center text-xs">
+              {Array.from({ length: 7 }, (_, index) => (
+                <div key={index} className="py-1 font-medium text-muted-foreground">
+                  {formatDate(FIRST_SUNDAY + index * 86400000, "EEE")}
+                </div>
+              ))}
+              {days.length > 0 && Array.from({ length: weekday(days[0].day) }, (_, index) => <div key={`blank-${index}`} />)}
+              {days.map(day => (
+                <div
+                  key={day.day}
+                  title={dayTitle(day) || undefined}
+                  className={cn(
+                    "flex min-h-16 flex-col items-center justify-start gap-1 rounded-md border p-1",
+                    day.status ? DAY_STATUS_CLASSES[day.status] : "bg-background",
+                    day.day === attendanceDay() && "ring-2 ring-primary"
+                  )}
+                >
+                  <span className="font-semibold">{Number(day.day.slice(8))}</span>
+                  {day.status && <span className="hidden leading-tight sm:block">{t(STATUS_LABELS[day.status])}</span>}
+                  {day.kind === "half" && !day.status && <span className="hidden leading-tight text-muted-foreground sm:block">{t("employee.attendance.calendar.halfDayShift")}</span>}
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2 text-xs">
+              {DAY_STATUSES.map(status => (
+                <span key={status} className={cn("rounded-md px-2 py-1", DAY_STATUS_CLASSES[status])}>
+                  {t(STATUS_LABELS[status])}: {totals[status]}
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,19 +10,23 @@ import { useFormStatus } from 'react-dom';
 import { subscribeToNewsletter } from '@/app/actions';
 import { useToast } from '@/hooks/use-toast';
 import Image from 'next/image';
+import { useI18n } from '@/hooks/use-i18n';
+import type { MessageKey } from '@/lib/i18n';
 
-const footerLinks = {
+type FooterLink = { name: MessageKey; href: string };
+
+const footerLinks: { company: FooterLink[]; documentation: FooterLink[]; social: { name: string; href: string; icon: React.ReactNode }[] } = {
   company: [
-    { name: 'Home', href: '/' },
-    { name: 'About', href: '/#about' },
-    { name: 'Services', href: '/#services' },
-    { name: 'Jobs', href: '/jobs' },
+    { name: 'footer.home', href: '/' },
+    { name: 'footer.about', href: '/#about' },
+    { name: 'footer.services', href: '/#services' },
+    { name: 'footer.jobs', href: '/jobs' },
   ],
   documentation: [
-    { name: 'Help Centre', href: '#' },
-    { name: 'Contact', href: '/#contact' },
-    { name: 'FAQ', href: '/#faq' },
-    { name: 'Privacy Policy', href: '#' },
+    { name: 'footer.helpCentre', href: '#' },
+    { name: 'footer.contact', href: '/#contact' },
+    { name: 'footer.faq', href: '/#faq' },
+    { name: 'footer.privacyPolicy', href: '#' },
   ],
   social: [
     { name: 'Facebook', href: '#', icon: <Facebook className="w-5 h-5" /> },
@@ -34,12 +38,14 @@ const footerLinks = {
 
 function SubmitButton() {
   const { pending } = useFormStatus();
+  const { t } = useI18n();
   return (
     <Button
       type="submit"
       size="icon"
       className="absolute right-1.5 top-1/2 -translate-y-1/2 h-9 w-9 rounded-full"
       disabled={pending}
+      aria-label={t('footer.subscribe')}
     >
       {pending ? <Loader2 className="h-4 w-4 animate-spin" /> : <ArrowRight className="h-4 w-4" />}
     </Button>
@@ -49,25 +55,26 @@ function SubmitButton() {
 const Footer = () => {
   const [state, formAction] = useActionState(subscribeToNewsletter, { success: false, message: ""});
   const { toast } = useToast();
+  const { t, href } = useI18n();
   const formRef = useRef<HTMLFormElement>(null);
 
   useEffect(() => {
     if (state.message) {
       if (state.success) {
         toast({
-          title: "Success!",
+          title: t('common.success'),
           description: state.message,
         });
         formRef.current?.reset();
       } else {
         toast({
           variant: "destructive",
-          title: "Error",
+          title: t('common.error'),
           description: state.message,
         });
       }
     }
-  }, [state, toast]);
+  }, [state, toast, t]);
 
   return (
     <footer className="bg-background border-t">
@@ -75,18 +82,18 @@ const Footer = () => {
         <div className="py-16 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-12">
           {/* Company Info & Newsletter */}
           <div className="lg:col-span-2">
-            <Link href="/" className="flex items-center gap-2 font-bold text-xl mb-4">
-              <Image src="https://github.com/akm12109/zensolve-assets/blob/main/Logo%20Zensolve.jpg?raw=true" alt="Zensolve Logo" width={36} height={36} className="rounded-md" />
+            <Link href={href('/')} className="flex items-center gap-2 font-bold text-xl mb-4">
+              <Image src="https://github.com/akm12109/zensolve-assets/blob/main/Logo%20Zensolve.jpg?raw=true" alt={t('common.logoAlt')} width={36} height={36} className="rounded-md" />
               <span>Zensolve</span>
             </Link>
             <p className="text-muted-foreground mb-4">
-              Stay in the loop and sign up for the Zensolve newsletter:
+              {t('footer.newsletter')}
             </p>
             <form action={formAction} ref={formRef} className="relative max-w-sm">
               <Input
                 name="email"
                 type="email"
-                placeholder="Enter your email"
+                placeholder={t('footer.emailPlaceholder')}
                 className="h-12 pr-14"
                 required
               />
@@ -97,24 +104,24 @@ const Footer = () => {
           {/* Links */}
           <div className="grid grid-cols-2 lg:grid-cols-2 gap-8 col-span-2">
             <div>
-              <h4 className="font-semibold mb-4">Company</h4>
+              <h4 className="font-semibold mb-4">{t('footer.company')}</h4>
               <ul className="space-y-3">
                 {footerLinks.company.map((link) => (
                   <li key={link.name}>
-                    <Link href={link.href} className="text-muted-foreground hover:text-primary transition-colors">
-                      {link.name}
+                    <Link href={href(link.href)} className="text-muted-foreground hover:text-primary transition-colors">
+                      {t(link.name)}
                     </Link>
                   </li>
                 ))}
               </ul>
             </div>
             <div>
-              <h4 className="font-semibold mb-4">Documentation</h4>
+              <h4 className="font-semibold mb-4">{t('footer.documentation')}</h4>
               <ul className="space-y-3">
                 {footerLinks.documentation.map((link) => (
                   <li key={link.name}>
-                    <Link href={link.href} className="text-muted-foreground hover:text-primary transition-colors">
-                      {link.name}
+                    <Link href={href(link.href)} className="text-muted-foreground hover:text-primary transition-colors">
+                      {t(link.name)}
                     </Link>
                   </li>
                 ))}
@@ -126,7 +133,7 @@ const Footer = () => {
         {/* Bottom Bar */}
         <div className="border-t py-6 flex flex-col sm:flex-row justify-between items-center text-sm">
           <p className="text-muted-foreground mb-4 sm:mb-0">
-            &copy; {new Date().getFullYear()} Zensolve Inc. All Rights Reserved.
+            {t('footer.copyright', { year: new Date().getFullYear() })}
           </p>
           <div className="flex items-center gap-6">
             <div className="flex space-x-4">
@@ -136,7 +143,7 @@ const Footer = () => {
                   </Link>
                 ))}
             </div>
-             <Link href="#" className="text-muted-foreground hover:text-primary">Terms & Conditions</Link>
+             <Link href="#" className="text-muted-foreground hover:text-primary">{t('footer.terms')}</Link>
           </div>
         </div>
       </div>
@@ -10,11 +10,14 @@ import { cn } from '@/lib/utils';
 import { useRouter } from 'next/navigation';
 import { Separator } from '../ui/separator';
 import Image from 'next/image';
+import LanguageSwitcher from '@/components/layout/language-switcher';
+import { useI18n } from '@/hooks/use-i18n';
+import type { MessageKey } from '@/lib/i18n';
 
-const NAV_LINKS = [
-  { href: '/#services', label: 'Services' },
-  { href: '/jobs', label: 'Find Jobs' },
-  { href: '/#about', label: 'About Us' },
+const NAV_LINKS: { href: string; label: MessageKey }[] = [
+  { href: '/#services', label: 'header.services' },
+  { href: '/jobs', label: 'header.findJobs' },
+  { href: '/#about', label: 'header.aboutUs' },
 ];
 
 interface HeaderProps {
@@ -24,6 +27,7 @@ interface HeaderProps {
 const Header = ({ variant = 'default' }: HeaderProps) => {
   const [isMenuOpen, setMenuOpen] = useState(false);
   const router = useRouter();
+  const { t, href } = useI18n();
 
   const headerClasses = cn(
     "fixed top-0 z-50 w-full transition-colors duration-300",
@@ -44,63 +48,65 @@ const Header = ({ variant = 'default' }: HeaderProps) => {
   return (
     <header className={headerClasses}>
       <div className="container flex h-20 max-w-screen-2xl items-center">
-        <Link href="/" className="flex items-center gap-2 font-bold text-lg mr-6">
-          <Image src="https://github.com/akm12109/zensolve-assets/blob/main/Logo%20Zensolve.jpg?raw=true" alt="Zensolve Logo" width={32} height={32} className="rounded-md" />
+        <Link href={href("/")} className="flex items-center gap-2 font-bold text-lg mr-6">
+          <Image src="https://github.com/akm12109/zensolve-assets/blob/main/Logo%20Zensolve.jpg?raw=true" alt={t('common.logoAlt')} width={32} height={32} className="rounded-md" />
           <span>Zensolve</span>
         </Link>
         <nav className="hidden md:flex items-center gap-6 text-sm">
           {NAV_LINKS.map((link) => (
             <Link
               key={link.href}
-              href={link.href}
+              href={href(link.href)}
               className={linkClasses}
             >
-              {link.label}
+              {t(link.label)}
             </Link>
           ))}
         </nav>
         <div className="flex flex-1 items-center justify-end gap-2">
-           <Button variant="ghost" onClick={() => router.push('/join-membership')} className={cn("hidden md:flex rounded-lg", linkClasses)}>Join Membership</Button>
-           <Button variant="ghost" onClick={() => router.push('/employee/login')} className={cn(
+           <LanguageSwitcher className={cn("hidden md:flex", linkClasses)} />
+           <Button variant="ghost" onClick={() => router.push(href('/join-membership'))} className={cn("hidden md:flex rounded-lg", linkClasses)}>{t('header.joinMembership')}</Button>
+           <Button variant="ghost" onClick={() => router.push(href('/employee/login'))} className={cn(
              "hidden md:flex rounded-lg", 
              linkClasses
-           )}>Employee Login</Button>
+           )}>{t('header.employeeLogin')}</Button>
            <Separator orientation="vertical" className={cn("h-6 hidden md:block", {'bg-white/30': variant === 'transparent'})} />
-           <Button onClick={() => router.push('/login')} className={cn(
+           <Button onClick={() => router.push(href('/login'))} className={cn(
              "hidden md:flex rounded-lg",
              {'bg-white text-primary hover:bg-white/90 border-none': variant === 'transparent'}
-           )}>Login / Sign Up</Button>
+           )}>{t('header.loginSignUp')}</Button>
 
            <div className="md:hidden">
             <Sheet open={isMenuOpen} onOpenChange={setMenuOpen}>
                 <SheetTrigger asChild>
                 <Button variant="ghost" size="icon">
                     <Menu className="h-6 w-6" />
-                    <span className="sr-only">Open Menu</span>
+                    <span className="sr-only">{t('header.openMenu')}</span>
                 </Button>
                 </SheetTrigger>
                 <SheetContent side="right" className="w-[280px] bg-background text-foreground">
                 <div className="p-4">
-                    <Link href="/" className="flex items-center gap-2 font-bold text-lg mb-8" onClick={() => setMenuOpen(false)}>
-                        <Image src="https://github.com/akm12109/zensolve-assets/blob/main/Logo%20Zensolve.jpg?raw=true" alt="Zensolve Logo" width={32} height={32} className="rounded-md" />
+                    <Link href={href("/")} className="flex items-center gap-2 font-bold text-lg mb-8" onClick={() => setMenuOpen(false)}>
+                        <Image src="https://github.com/akm12109/zensolve-assets/blob/main/Logo%20Zensolve.jpg?raw=true" alt={t('common.logoAlt')} width={32} height={32} className="rounded-md" />
                         <span>Zensolve</span>
                     </Link>
                     <nav className="flex flex-col gap-4">
                     {NAV_LINKS.map((link) => (
                         <Link
                         key={link.href}
-                        href={link.href}
+                        href={href(link.href)}
                         onClick={() => setMenuOpen(false)}
                         className="text-lg font-medium text-foreground/80 hover:text-primary transition-colors py-2"
                         >
-                         {link.label}
+                         {t(link.label)}
                         </Link>
                     ))}
                     </nav>
                     <div className="mt-8 border-t pt-6 flex flex-col gap-4">
-                        <Button className="w-full" onClick={() => { router.push('/login'); setMenuOpen(false); }}>Login / Sign Up</Button>
-                        <Button variant="outline" className="w-full" onClick={() => { router.push('/employee/login'); setMenuOpen(false); }}>Employee Login</Button>
-                        <Button variant="secondary" className="w-full" onClick={() => { router.push('/join-membership'); setMenuOpen(false); }}>Join Membership</Button>
+                        <Button className="w-full" onClick={() => { router.push(href('/login')); setMenuOpen(false); }}>{t('header.loginSignUp')}</Button>
+                        <Button variant="outline" className="w-full" onClick={() => { router.push(href('/employee/login')); setMenuOpen(false); }}>{t('header.employeeLogin')}</Button>
+                        <Button variant="secondary" className="w-full" onClick={() => { router.push(href('/join-membership')); setMenuOpen(false); }}>{t('header.joinMembership')}</Button>
+                        <LanguageSwitcher className="w-full border" />
                     </div>
                 </div>
                 </SheetContent>
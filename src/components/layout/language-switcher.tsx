@@ -0,0 +1,51 @@
+"use client";
+
+import { Languages } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useI18n } from "@/hooks/use-i18n";
+import { LOCALES, LOCALE_LABELS, isLocale, splitLocale } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+
+// Opens the same page in the chosen language. Going through /en or /hi lets the middleware
+// remember the choice, and the full reload re-renders the layout in the new language.
+const switchLocale = (locale: string) => {
+  if (!isLocale(locale)) return;
+  const { pathname } = splitLocale(window.location.pathname);
+  const { search, hash } = window.location;
+  window.location.assign(`/${locale}${pathname === "/" ? "" : pathname}${search}${hash}`);
+};
+
+export default function LanguageSwitcher({ className }: { className?: string }) {
+  const { locale, t } = useI18n();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" className={cn("rounded-lg", className)} aria-label={t("common.language")}>
+          <Languages className="mr-2 h-4 w-4" />
+          {LOCALE_LABELS[locale]}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{t("common.language")}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={locale} onValueChange={value => value !== locale && switchLocale(value)}>
+          {LOCALES.map(option => (
+            <DropdownMenuRadioItem key={option} value={option} lang={option}>
+              {LOCALE_LABELS[option]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,8 +1,8 @@
 "use client";
 
-import { useState, useEffect, useMemo } from 'react';
-import { db } from '@/lib/firebase';
-import { collection, getDocs, query, orderBy, Timestamp } from 'firebase/firestore';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { searchJobs } from '@/app/actions';
 import Image from 'next/image';
 import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -11,59 +11,61 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Briefcase, MapPin, Star, Bookmark, ChevronLeft, ChevronRight, IndianRupee, FileText, ChevronDown, ChevronUp } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
-import { Loader2 } from 'lucide-react';
+import { Briefcase, MapPin, Star, Bookmark, ChevronLeft, ChevronRight, IndianRupee, FileText, ChevronDown, ChevronUp, Loader2, Search } from 'lucide-react';
 import { Input } from '../ui/input';
-
-interface Job {
-  id: string;
-  title: string;
-  company: string;
-  location: string;
-  type: string;
-  workMode: string;
-  experienceMin?: number;
-  experienceMax?: number;
-  salaryMin?: number;
-  salaryMax?: number;
-  department: string;
-  companyType: string;
-  roleCategory: string;
-  education: string;
-  industry: string;
-  description: string;
-  tags: string[];
-  postedAt: Timestamp;
-}
-
-type FilterCounts = {
-  workMode: Record<string, number>;
-  companyType: Record<string, number>;
-  industry: Record<string, number>;
-  department: Record<string, number>;
-  roleCategory: Record<string, number>;
-  education: Record<string, number>;
-  location: Record<string, number>;
-};
+import { useI18n } from '@/hooks/use-i18n';
+import { splitLocale, type MessageKey } from '@/lib/i18n';
+import {
+  emptyFilters,
+  hasActiveFilters,
+  parseJobFilters,
+  serializeJobFilters,
+  MAX_EXPERIENCE,
+  SALARY_BUCKETS,
+  type FacetCategory,
+  type FilterCounts,
+  type JobFilters,
+  type JobListing as Job,
+  type JobSort,
+} from '@/lib/job-filters';
+
+// Quick filter chips map onto the same facets as the sidebar.
+type FilterChip = { label: MessageKey } & ({ category: FacetCategory; values: string[] } | { experience: number });
+
+const filterChips: FilterChip[] = [
+  { label: "jobs.chips.engineering", category: "department", values: ["Engineering - Software & QA"] },
+  { label: "jobs.chips.remote", category: "workMode", values: ["Remote"] },
+  { label: "jobs.chips.startup", category: "companyType", values: ["Startup"] },
+  { label: "jobs.chips.dataScience", category: "department", values: ["Data Science & Analytics"] },
+  { label: "jobs.chips.mnc", category: "companyType", values: ["Foreign MNC", "Indian MNC"] },
+  { label: "jobs.chips.fresher", experience: 0 },
+];
+
+const isChipActive = (chip: FilterChip, filters: JobFilters) =>
+  'experience' in chip
+    ? filters.experience === chip.experience
+    : chip.values.every(value => filters[chip.category].includes(value));
 
 const JobCard = ({ job }: { job: Job }) => {
-    const postedDate = job.postedAt ? job.postedAt.toDate() : new Date();
-    const timeAgo = formatDistanceToNow(postedDate, { addSuffix: true });
+    const { t, href, formatTimeAgo } = useI18n();
+    const postedDate = job.postedAt ? new Date(job.postedAt) : new Date();
+    const timeAgo = formatTimeAgo(postedDate);
 
     return (
     <Card className="hover:shadow-lg transition-shadow duration-300 bg-white">
         <CardContent className="p-4">
             <div className="flex justify-between items-start">
                 <div>
-                    <CardTitle className="text-lg font-semibold text-foreground">{job.title}</CardTitle>
+                    <CardTitle className="text-lg font-semibold text-foreground">
+                      <Link href={href(`/jobs/${job.id}`)} className="hover:text-primary hover:underline">{job.title}</Link>
+                    </CardTitle>
                     <div className="flex items-center gap-2 text-sm text-muted-foreground mt-1">
                         <p className="font-medium text-foreground">{job.company}</p>
                         <span className="flex items-center gap-1"><Star className="w-4 h-4 text-yellow-400 fill-yellow-400" /> 4.0</span>
-                        <span>27532 Reviews</span>
+                        <span>{t('jobs.reviews', { count: 27532 })}</span>
                     </div>
                 </div>
-                 <Image src={`https://placehold.co/40x40.png`} alt={`${job.company} logo`} width={40} height={40} className="rounded-md" data-ai-hint="company logo" />
+                 <Image src={`https://placehold.co/40x40.png`} alt={t('jobs.companyLogoAlt', { company: job.company })} width={40} height={40} className="rounded-md" data-ai-hint="company logo" />
             </div>
 
              <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-muted-foreground my-3">
@@ -71,16 +73,16 @@ const JobCard = ({ job }: { job: Job }) => {
                     <Briefcase className="w-4 h-4" /> 
                     <span>
                       {job.experienceMin !== undefined && job.experienceMax !== undefined 
-                        ? `${job.experienceMin}-${job.experienceMax} Yrs` 
-                        : 'Not specified'}
+                        ? t('common.experienceRange', { min: job.experienceMin, max: job.experienceMax })
+                        : t('common.notSpecified')}
                     </span>
                 </div>
                 <div className="flex items-center gap-1.5">
                     <IndianRupee className="w-4 h-4" /> 
                     <span>
                       {job.salaryMin !== undefined && job.salaryMax !== undefined
-                        ? `${job.salaryMin}-${job.salaryMax} Lacs PA`
-                        : 'Not disclosed'}
+                        ? t('common.salaryRange', { min: job.salaryMin, max: job.salaryMax })
+                        : t('common.notDisclosed')}
                     </span>
                 </div>
                 <div className="flex items-center gap-1.5">
@@ -103,7 +105,7 @@ const JobCard = ({ job }: { job: Job }) => {
                 <p className="text-muted-foreground">{timeAgo}</p>
                 <div className="flex items-center gap-2">
                   <Button asChild variant="outline" size="sm">
-                    <Link href={`/jobs/${job.id}/apply`}>Apply</Link>
+                    <Link href={href(`/jobs/${job.id}/apply`)}>{t('jobs.apply')}</Link>
                   </Button>
                   <Button variant="ghost" size="sm" className="flex items-center gap-2 text-muted-foreground hover:text-primary">
                       <Bookmark className="w-4 h-4" />
@@ -128,83 +130,137 @@ const FilterAccordionItem = ({ title, children }: { title: string; children: Rea
   )
 }
 
-const FilterCheckbox = ({ label, count }: { label: string; count: number }) => (
+const FilterCheckbox = ({ id, label, count, checked, onCheckedChange }: {
+  id: string;
+  label: string;
+  count: number;
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+}) => (
   <div className="flex items-center justify-between">
-    <label htmlFor={label} className="flex items-center gap-2 text-sm cursor-pointer"><Checkbox id={label} /> {label}</label>
+    <label htmlFor={id} className="flex items-center gap-2 text-sm cursor-pointer">
+      <Checkbox id={id} checked={checked} onCheckedChange={value => onCheckedChange(value === true)} /> {label}
+    </label>
     <span className="text-xs text-muted-foreground">({count})</span>
   </div>
 );
 
 
-const FilterSection = ({ counts }: { counts: FilterCounts | null }) => {
-  const renderCheckboxes = (category: keyof FilterCounts, options: string[], limit = 4) => {
-    const categoryCounts = counts ? counts[category] : {};
-    const allOptions = options.length > 0 ? options : Object.keys(categoryCounts);
-    
-    // Sort options based on their counts
-    const sortedOptions = allOptions.sort((a, b) => (categoryCounts[b] || 0) - (categoryCounts[a] || 0));
+const FilterSection = ({ counts, filters, onToggle, onExperienceChange, onClear }: {
+  counts: FilterCounts | null;
+  filters: JobFilters;
+  onToggle: (category: FacetCategory | 'salary', value: string, checked: boolean) => void;
+  onExperienceChange: (years: number | null) => void;
+  onClear: () => void;
+}) => {
+  const { t } = useI18n();
+  const [locationQuery, setLocationQuery] = useState('');
+  // The slider moves with this while dragging; the filters, URL and search follow on release.
+  const [experience, setExperience] = useState(filters.experience);
+
+  useEffect(() => {
+    setExperience(filters.experience);
+  }, [filters.experience]);
 
-    return sortedOptions.slice(0, limit).map(option => (
-      <FilterCheckbox key={option} label={option} count={categoryCounts[option] || 0} />
+  const renderCheckboxes = (category: FacetCategory, options: string[], limit = 4, search = '') => {
+    const categoryCounts = counts ? counts[category] : {};
+    const allOptions = (options.length > 0 ? options : Object.keys(categoryCounts))
+      .filter(option => option.toLowerCase().includes(search.trim().toLowerCase()));
+    const selected = filters[category];
+
+    // Sort options based on their counts, keeping selected values visible
+    const sortedOptions = [...new Set([...selected, ...allOptions])]
+      .sort((a, b) => (categoryCounts[b] || 0) - (categoryCounts[a] || 0));
+    const visibleOptions = [
+      ...selected,
+      ...sortedOptions.filter(option => !selected.includes(option)).slice(0, Math.max(limit - selected.length, 0)),
+    ];
+
+    return visibleOptions.map(option => (
+      <FilterCheckbox
+        key={option}
+        id={`${category}-${option}`}
+        label={option}
+        count={categoryCounts[option] || 0}
+        checked={selected.includes(option)}
+        onCheckedChange={checked => onToggle(category, option, checked)}
+      />
     ));
   };
+
   
   return (
     <Card className="bg-white/70 backdrop-blur-sm sticky top-24">
       <CardHeader className="flex flex-row justify-between items-center pb-2">
-        <CardTitle className="text-lg">All Filters</CardTitle>
-        <Button variant="link" className="p-0 h-auto text-primary">Clear All</Button>
+        <CardTitle className="text-lg">{t('jobs.allFilters')}</CardTitle>
+        <Button variant="link" className="p-0 h-auto text-primary" onClick={onClear} disabled={!hasActiveFilters(filters)}>{t('jobs.clearAll')}</Button>
       </CardHeader>
       <CardContent className="divide-y">
         
-        <FilterAccordionItem title="Work Mode">
+        <FilterAccordionItem title={t('jobs.workMode')}>
           {renderCheckboxes('workMode', ['Work from office', 'Remote', 'Hybrid'])}
         </FilterAccordionItem>
 
-        <FilterAccordionItem title="Experience">
+        <FilterAccordionItem title={t('jobs.experience')}>
           <div className="mt-2 space-y-4">
             <div className="relative">
-              <Slider defaultValue={[5]} max={30} step={1} />
+              <Slider
+                value={[experience ?? 0]}
+                max={MAX_EXPERIENCE}
+                step={1}
+                onValueChange={([years]) => setExperience(years)}
+                onValueCommit={([years]) => onExperienceChange(years)}
+              />
             </div>
             <div className="flex justify-between text-sm text-muted-foreground">
-              <span>0 Yrs</span>
-              <span>30 Yrs</span>
+              <span>{experience === null ? t('jobs.anyExperience') : t('jobs.years', { count: experience })}</span>
+              {experience !== null ? (
+                <Button variant="link" className="p-0 h-auto text-xs" onClick={() => onExperienceChange(null)}>{t('jobs.reset')}</Button>
+              ) : (
+                <span>{t('jobs.years', { count: MAX_EXPERIENCE })}</span>
+              )}
             </div>
           </div>
         </FilterAccordionItem>
         
-        <FilterAccordionItem title="Salary">
-          <FilterCheckbox label="0-3 Lakhs" count={0} />
-          <FilterCheckbox label="3-6 Lakhs" count={0} />
-          <FilterCheckbox label="6-10 Lakhs" count={0} />
-          <FilterCheckbox label="10-15 Lakhs" count={0} />
+        <FilterAccordionItem title={t('jobs.salary')}>
+          {SALARY_BUCKETS.map(bucket => (
+            <FilterCheckbox
+              key={bucket.id}
+              id={`salary-${bucket.id}`}
+              label={t('jobs.salaryBucket', { min: bucket.min, max: bucket.max })}
+              count={counts?.salary[bucket.id] || 0}
+              checked={filters.salary.includes(bucket.id)}
+              onCheckedChange={checked => onToggle('salary', bucket.id, checked)}
+            />
+          ))}
         </FilterAccordionItem>
 
-        <FilterAccordionItem title="Location">
+        <FilterAccordionItem title={t('jobs.location')}>
           <div className='relative my-2'>
-            <Input placeholder='Search location...' className='pr-8' />
+            <Input placeholder={t('jobs.searchLocation')} className='pr-8' value={locationQuery} onChange={e => setLocationQuery(e.target.value)} />
             <Search className='w-4 h-4 absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground' />
           </div>
-          {renderCheckboxes('location', [])}
+          {renderCheckboxes('location', [], 4, locationQuery)}
         </FilterAccordionItem>
 
-        <FilterAccordionItem title="Company Type">
+        <FilterAccordionItem title={t('jobs.companyType')}>
           {renderCheckboxes('companyType', ['Corporate', 'Foreign MNC', 'Startup', 'Indian MNC'])}
         </FilterAccordionItem>
 
-        <FilterAccordionItem title="Industry">
+        <FilterAccordionItem title={t('jobs.industry')}>
           {renderCheckboxes('industry', ['IT Services & Consulting', 'Software Product', 'Recruitment / Staffing', 'Education / Training'])}
         </FilterAccordionItem>
 
-        <FilterAccordionItem title="Department">
+        <FilterAccordionItem title={t('jobs.department')}>
            {renderCheckboxes('department', ['Engineering - Software & QA', 'Sales & Business Development', 'Data Science & Analytics', 'Marketing & Communication'])}
         </FilterAccordionItem>
         
-        <FilterAccordionItem title="Role Category">
+        <FilterAccordionItem title={t('jobs.roleCategory')}>
           {renderCheckboxes('roleCategory', ['Software Development', 'Quality Assurance and Testing', 'BD / Pre Sales', 'DevOps'])}
         </FilterAccordionItem>
 
-        <FilterAccordionItem title="Education">
+        <FilterAccordionItem title={t('jobs.education')}>
           {renderCheckboxes('education', ['Any Postgraduate', 'MBA/PGDM', 'Any Graduate', 'B.Tech/B.E.'])}
         </FilterAccordionItem>
 
@@ -213,11 +269,13 @@ const FilterSection = ({ counts }: { counts: FilterCounts | null }) => {
   )
 }
 
-const RightSidebar = () => (
+const RightSidebar = () => {
+  const { t } = useI18n();
+  return (
   <div className="space-y-4 sticky top-24">
     <Card className="bg-white/70 backdrop-blur-sm">
       <CardHeader>
-        <CardTitle className="text-base">See jobs in Featured Companies</CardTitle>
+        <CardTitle className="text-base">{t('jobs.featuredCompanies')}</CardTitle>
       </CardHeader>
       <CardContent className="grid grid-cols-2 gap-4">
         <Image src="https://placehold.co/100x40.png" width={100} height={40} alt="The Hackett Group" data-ai-hint="company logo" />
@@ -231,115 +289,176 @@ const RightSidebar = () => (
         <Image src="https://placehold.co/100x25.png" width={100} height={25} alt="Naukri FastForward" data-ai-hint="company logo" />
       </CardHeader>
       <CardContent>
-        <CardTitle className="text-base">Get 3X more profile views</CardTitle>
-        <CardDescription className="text-sm mt-2">Increase your chances of callback with our services.</CardDescription>
-        <Button variant="link" className="p-0 h-auto mt-2">Know More</Button>
+        <CardTitle className="text-base">{t('jobs.profileViews')}</CardTitle>
+        <CardDescription className="text-sm mt-2">{t('jobs.profileViewsDescription')}</CardDescription>
+        <Button variant="link" className="p-0 h-auto mt-2">{t('jobs.knowMore')}</Button>
       </CardContent>
     </Card>
   </div>
-)
-
-import { Search } from 'lucide-react';
+  );
+}
 
 const JobListings = () => {
-  const [jobs, setJobs] = useState<Job[]>([]);
+  const router = useRouter();
+  const { t, href } = useI18n();
+  // Filters stay on the page the visitor is on, in their language.
+  const pathname = href(splitLocale(usePathname()).pathname);
+  const searchParams = useSearchParams();
   const [loading, setLoading] = useState(true);
 
-  const filterChips = ["Engineering", "Remote", "Startup", "Data Science", "MNC", "Fresher"];
+  const filters = useMemo(() => parseJobFilters(new URLSearchParams(searchParams.toString())), [searchParams]);
+  const [searchInput, setSearchInput] = useState(filters.q);
+
+  useEffect(() => {
+    setSearchInput(filters.q);
+  }, [filters.q]);
+
+  // The URL is the single source of truth for filter state, so results can be shared and survive a reload.
+  const updateFilters = useCallback((next: JobFilters) => {
+    const queryString = serializeJobFilters(next).toString();
+    router.replace(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false });
+  }, [router, pathname]);
+
+  const handleToggle = (category: FacetCategory | 'salary', value: string, checked: boolean) => {
+    const current = filters[category];
+    updateFilters({
+      ...filters,
+      [category]: checked ? [...current, value] : current.filter(item => item !== value),
+    });
+  };
+
+  const handleChipClick = (chip: FilterChip) => {
+    const active = isChipActive(chip, filters);
+    if ('experience' in chip) {
+      updateFilters({ ...filters, experience: active ? null : chip.experience });
+      return;
+    }
+    const current = filters[chip.category];
+    updateFilters({
+      ...filters,
+      [chip.category]: active
+        ? current.filter(value => !chip.values.includes(value))
+        : [...new Set([...current, ...chip.values])],
+    });
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ ...filters, q: searchInput.trim() });
+  };
+
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [filterCounts, setFilterCounts] = useState<FilterCounts | null>(null);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const queryString = serializeJobFilters(filters).toString();
+  // Ignores responses for a filter state the user has already moved away from.
+  const latestQuery = useRef(queryString);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
+    latestQuery.current = queryString;
     const fetchJobs = async () => {
-      try {
-        const jobsCollection = collection(db, 'jobs');
-        const q = query(jobsCollection, orderBy('postedAt', 'desc'));
-        const jobsSnapshot = await getDocs(q);
-        const jobsData = jobsSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data(),
-        })) as Job[];
-        setJobs(jobsData);
-      } catch (error) {
-        console.error("Error fetching jobs: ", error);
-      } finally {
-        setLoading(false);
+      setLoading(true);
+      const result = await searchJobs(queryString);
+      if (latestQuery.current !== queryString) return;
+      if (!result.success) {
+        console.error("Error fetching jobs: ", result.message);
       }
+      setJobs(result.jobs);
+      setFilterCounts(result.counts);
+      setTotal(result.total);
+      setNextCursor(result.nextCursor);
+      setLoading(false);
     };
 
     fetchJobs();
-  }, []);
-
-  const filterCounts: FilterCounts | null = useMemo(() => {
-    if (jobs.length === 0) return null;
-
-    const counts: FilterCounts = {
-      workMode: {},
-      companyType: {},
-      industry: {},
-      department: {},
-      roleCategory: {},
-      education: {},
-      location: {},
-    };
-
-    jobs.forEach(job => {
-      // Helper to increment count for a category
-      const increment = (category: keyof FilterCounts, value: string) => {
-        if (!value) return;
-        counts[category][value] = (counts[category][value] || 0) + 1;
-      };
-
-      increment('workMode', job.workMode);
-      increment('companyType', job.companyType);
-      increment('industry', job.industry);
-      increment('department', job.department);
-      increment('roleCategory', job.roleCategory);
-      increment('education', job.education);
-      increment('location', job.location);
-    });
-
-    return counts;
-  }, [jobs]);
+  }, [queryString]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    const result = await searchJobs(queryString, nextCursor);
+    if (latestQuery.current === queryString && result.success) {
+      setJobs(prev => [...prev, ...result.jobs]);
+      setNextCursor(result.nextCursor);
+    }
+    setLoadingMore(false);
+  }, [queryString, nextCursor, loadingMore]);
+
+  // Infinite scroll: fetch the next page when the sentinel below the list comes into view.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
 
   return (
     <div id="jobs" className="container mx-auto px-4 sm:px-6 lg:px-8">
       
       <Card className="p-4 mb-6 bg-white/70 backdrop-blur-sm">
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div className="relative md:col-span-2">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
-            <Input placeholder="Enter skills / designations / companies" className="pl-10 h-11" />
+            <Input
+              placeholder={t('jobs.searchPlaceholder')}
+              className="pl-10 h-11"
+              value={searchInput}
+              onChange={e => setSearchInput(e.target.value)}
+            />
           </div>
-          <Button size="lg" className="h-11">Search</Button>
-        </div>
+          <Button type="submit" size="lg" className="h-11">{t('jobs.search')}</Button>
+        </form>
       </Card>
 
 
       <div className="relative mb-6">
         <div className="flex items-center gap-2 overflow-x-auto pb-2 -mx-4 px-4">
             <Button variant="ghost" size="icon" className="bg-white rounded-full shadow-md shrink-0"><ChevronLeft /></Button>
-            {filterChips.map(chip => (
-                <Button key={chip} variant="outline" className="rounded-full bg-white whitespace-nowrap shrink-0">{chip}</Button>
-            ))}
+            {filterChips.map(chip => {
+                const active = isChipActive(chip, filters);
+                return (
+                  <Button
+                    key={chip.label}
+                    variant={active ? "default" : "outline"}
+                    className={`rounded-full whitespace-nowrap shrink-0 ${active ? '' : 'bg-white'}`}
+                    onClick={() => handleChipClick(chip)}
+                  >
+                    {t(chip.label)}
+                  </Button>
+                );
+            })}
             <Button variant="ghost" size="icon" className="bg-white rounded-full shadow-md shrink-0"><ChevronRight /></Button>
         </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-4 xl:grid-cols-5 gap-6 items-start">
         <aside className="hidden lg:block lg:col-span-1 xl:col-span-1">
-          <FilterSection counts={filterCounts} />
+          <FilterSection
+            counts={filterCounts}
+            filters={filters}
+            onToggle={handleToggle}
+            onExperienceChange={years => updateFilters({ ...filters, experience: years })}
+            onClear={() => updateFilters({ ...emptyFilters(), sort: filters.sort })}
+          />
         </aside>
 
         <main className="lg:col-span-3 xl:col-span-3 space-y-4">
             <div className="flex justify-between items-center">
-              <h2 className="text-sm text-muted-foreground font-semibold">Showing {jobs.length} results</h2>
-              <Select defaultValue="relevance">
+              <h2 className="text-sm text-muted-foreground font-semibold">{t('jobs.results', { total })}</h2>
+              <Select value={filters.sort} onValueChange={value => updateFilters({ ...filters, sort: value as JobSort })}>
                 <SelectTrigger className="w-[180px] bg-white text-sm">
-                  <span className="text-muted-foreground mr-1">Sort by:</span>
+                  <span className="text-muted-foreground mr-1">{t('jobs.sortBy')}</span>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="relevance">Relevance</SelectItem>
-                  <SelectItem value="date">Date</SelectItem>
+                  <SelectItem value="relevance">{t('jobs.relevance')}</SelectItem>
+                  <SelectItem value="date">{t('jobs.date')}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -353,11 +472,26 @@ const JobListings = () => {
                 {jobs.map((job) => (
                     <JobCard key={job.id} job={job} />
                 ))}
+                {nextCursor && (
+                  <div ref={sentinelRef} className="flex justify-center py-4">
+                    <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                      {loadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      {t('jobs.loadMore')}
+                    </Button>
+                  </div>
+                )}
                 </div>
             ) : (
                 <Card className="h-96 flex flex-col items-center justify-center text-center p-4">
-                    <h3 className='text-lg font-semibold'>No jobs found.</h3>
-                    <p className='text-muted-foreground'>No jobs were posted yet. Please check back later.</p>
+                    <h3 className='text-lg font-semibold'>{t('jobs.noJobs')}</h3>
+                    {hasActiveFilters(filters) ? (
+                      <>
+                        <p className='text-muted-foreground'>{t('jobs.noMatches')}</p>
+                        <Button variant="link" onClick={() => updateFilters(emptyFilters())}>{t('jobs.clearFilters')}</Button>
+                      </>
+                    ) : (
+                      <p className='text-muted-foreground'>{t('jobs.noJobsYet')}</p>
+                    )}
                 </Card>
             )}
         </main>
@@ -0,0 +1,16 @@
+"use client";
+
+import { createContext, useContext, useMemo } from "react";
+import { DEFAULT_LOCALE, createI18n, type I18n, type Locale } from "@/lib/i18n";
+
+const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+// Set once in the root layout from the locale the middleware resolved for the request.
+export function I18nProvider({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+  return <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>;
+}
+
+export function useI18n(): I18n {
+  const locale = useContext(LocaleContext);
+  return useMemo(() => createI18n(locale), [locale]);
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { createContext, useContext, useEffect, useState } from "react";
+import { onIdTokenChanged, type User } from "firebase/auth";
+import { auth } from "@/lib/firebase";
+import { endSession, startSession } from "@/app/actions";
+import { DEFAULT_ROLES, rolesFromClaims, type Role } from "@/lib/roles";
+
+interface Session {
+  user: User | null;
+  roles: Role[];
+  loading: boolean;
+}
+
+const SessionContext = createContext<Session>({ user: null, roles: [], loading: true });
+
+// The user and token issue time behind the current session cookie, which page scripts can't
+// read. Lets page loads skip recreating a cookie that is already up to date.
+const SESSION_TOKEN_KEY = "zensolve.sessionToken";
+
+/**
+ * Swaps the user's ID token for a session cookie and returns their roles. Call it after
+ * signing in or out and before navigating, so the next request already carries the change.
+ */
+export async function storeSession(user: User | null): Promise<Role[]> {
+  if (!user) {
+    if (localStorage.getItem(SESSION_TOKEN_KEY) !== null) {
+      localStorage.removeItem(SESSION_TOKEN_KEY);
+      await endSession();
+    }
+    return [];
+  }
+  const { token, claims, issuedAtTime } = await user.getIdTokenResult();
+  const tokenKey = `${user.uid}:${issuedAtTime}`;
+  if (localStorage.getItem(SESSION_TOKEN_KEY) !== tokenKey) {
+    const result = await startSession(token);
+    if (!result.success) throw new Error(result.message);
+    localStorage.setItem(SESSION_TOKEN_KEY, tokenKey);
+  }
+  return rolesFromClaims(claims);
+}
+
+// Keeps the session cookie in step with Firebase Auth: on sign-in, sign-out and every hourly token refresh.
+export function SessionProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session>({ user: null, roles: [], loading: true });
+
+  useEffect(() => {
+    return onIdTokenChanged(auth, async user => {
+      try {
+        const roles = await storeSession(user);
+        setSession({ user, roles, loading: false });
+      } catch (error) {
+        console.error("Error storing session:", error);
+        setSession({ user, roles: user ? DEFAULT_ROLES : [], loading: false });
+      }
+    });
+  }, []);
+
+  return <SessionContext.Provider value={session}>{children}</SessionContext.Provider>;
+}
+
+export const useSession = () => useContext(SessionContext);
@@ -0,0 +1,136 @@
+// Applicant tracking pipeline shared by the admin application pages and the actions.
+
+import { dayEnd, dayStart } from "@/lib/utils";
+
+export const APPLICATION_STAGES = [
+  "new",
+  "screening",
+  "shortlisted",
+  "interview",
+  "offered",
+  "placed",
+  "rejected",
+] as const;
+
+export type ApplicationStage = typeof APPLICATION_STAGES[number];
+
+export const APPLICATION_STAGE_LABELS: Record<ApplicationStage, string> = {
+  new: "New",
+  screening: "Screening",
+  shortlisted: "Shortlisted",
+  interview: "Interview",
+  offered: "Offered",
+  placed: "Placed",
+  rejected: "Rejected",
+};
+
+export const APPLICATION_STAGE_BADGE_CLASSES: Record<ApplicationStage, string> = {
+  new: "bg-blue-100 text-blue-800",
+  screening: "bg-indigo-100 text-indigo-800",
+  shortlisted: "bg-purple-100 text-purple-800",
+  interview: "bg-yellow-100 text-yellow-800",
+  offered: "bg-teal-100 text-teal-800",
+  placed: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+// Applications submitted before the pipeline existed have no stage and start at "new".
+export const applicationStage = (application: { stage?: ApplicationStage }): ApplicationStage =>
+  application.stage ?? "new";
+
+// Used until an admin saves their own list to the `settings/ratingCriteria` document.
+export const DEFAULT_RATING_CRITERIA = ["Communication", "Technical Skills", "Culture Fit"];
+
+export const RATING_SCALE = [1, 2, 3, 4, 5] as const;
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, "-");
+
+// Colour bands for the AI match score badge.
+export const matchScoreBadgeClass = (score: number) =>
+  score >= 75 ? "bg-green-100 text-green-800" : score >= 50 ? "bg-yellow-100 text-yellow-800" : "bg-red-100 text-red-800";
+
+export const APPLICATION_SORTS = ["date", "match"] as const;
+
+export type ApplicationSort = typeof APPLICATION_SORTS[number];
+
+// An application as returned by the admin search action, with timestamps serialized to ISO strings.
+export interface ApplicationSummary {
+  id: string;
+  jobId: string;
+  jobTitle: string;
+  fullName: string;
+  email: string;
+  mobile: string;
+  city?: string;
+  state?: string;
+  highestQualification?: string;
+  hasExperience: "yes" | "no";
+  yearsOfExperience?: number;
+  readyToRelocate: "yes" | "no";
+  noticePeriod?: string;
+  technicalSkills?: string;
+  softSkills?: string;
+  stage?: ApplicationStage;
+  tags?: string[];
+  averageRating?: number;
+  matchScore?: number;
+  matchRationale?: string;
+  resumeUrl?: string;
+  submittedAt: string | null;
+}
+
+export interface ApplicationFilters {
+  q?: string;
+  jobId?: string;
+  from?: string;
+  to?: string;
+  city?: string;
+  state?: string;
+  qualification?: string;
+  hasExperience?: "yes" | "no";
+  minExperience?: number;
+  maxExperience?: number;
+  readyToRelocate?: "yes" | "no";
+  noticePeriod?: string;
+  tag?: string;
+  stage?: ApplicationStage;
+  sort?: ApplicationSort;
+}
+
+const includesText = (value: string | undefined, search: string | undefined) =>
+  !search || (value ?? "").toLowerCase().includes(search.trim().toLowerCase());
+
+/**
+ * Applies the filters that Firestore cannot combine in a single query: date range,
+ * partial text matches and the experience range. Equality filters are expected to
+ * have been applied by the query already but are re-checked here for safety.
+ */
+export function matchesApplicationFilters(application: ApplicationSummary, filters: ApplicationFilters): boolean {
+  const submittedAt = application.submittedAt ? Date.parse(application.submittedAt) : 0;
+  if (filters.from && submittedAt < dayStart(filters.from)) return false;
+  if (filters.to && submittedAt > dayEnd(filters.to)) return false;
+
+  if (filters.jobId && application.jobId !== filters.jobId) return false;
+  if (filters.hasExperience && application.hasExperience !== filters.hasExperience) return false;
+  if (filters.readyToRelocate && application.readyToRelocate !== filters.readyToRelocate) return false;
+  if (filters.tag && !application.tags?.includes(filters.tag)) return false;
+  if (filters.stage && applicationStage(application) !== filters.stage) return false;
+
+  const years = application.hasExperience === "yes" ? application.yearsOfExperience ?? 0 : 0;
+  if (filters.minExperience !== undefined && years < filters.minExperience) return false;
+  if (filters.maxExperience !== undefined && years > filters.maxExperience) return false;
+
+  if (!includesText(application.city, filters.city)) return false;
+  if (!includesText(application.state, filters.state)) return false;
+  if (!includesText(application.highestQualification, filters.qualification)) return false;
+  if (!includesText(application.noticePeriod, filters.noticePeriod)) return false;
+
+  if (filters.q) {
+    const haystack = [application.fullName, application.email, application.technicalSkills, application.softSkills]
+      .join(" ")
+      .toLowerCase();
+    return filters.q.toLowerCase().split(/\s+/).filter(Boolean).every(term => haystack.includes(term));
+  }
+
+  return true;
+}
@@ -0,0 +1,104 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from "pdf-lib";
+import { DAY_STATUSES, DAY_STATUS_LABELS, type DayStatus } from "@/lib/attendance";
+import {
+  DAY_STATUS_CODES,
+  REGISTER_TOTALS,
+  REGISTER_TOTAL_LABELS,
+  registerCode,
+  type AttendanceRegisterRow,
+  type RegisterColumn,
+} from "@/lib/attendance-register";
+
+// The register as a landscape A4 PDF for payroll, laid out like the grid on the admin page.
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 20;
+const NAME_WIDTH = 120;
+const TOTAL_WIDTH = 30;
+const ROW_HEIGHT = 14;
+const FONT_SIZE = 6.5;
+
+// The same colours as DAY_STATUS_CLASSES, for print.
+const STATUS_COLOURS: Record<DayStatus, RGB> = {
+  present: rgb(0.86, 0.99, 0.9),
+  halfDay: rgb(0.93, 0.99, 0.8),
+  absent: rgb(1, 0.89, 0.89),
+  leave: rgb(1, 0.98, 0.76),
+  holiday: rgb(0.95, 0.91, 1),
+  weeklyOff: rgb(0.95, 0.96, 0.96),
+};
+
+const GRID_COLOUR = rgb(0.8, 0.8, 0.8);
+
+// The standard fonts only cover Latin-1; anything else, such as a name in Devanagari, prints as "?".
+const latin1 = (text: string) => text.replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+
+export async function attendanceRegisterPdf({ title, subtitle, columns, rows }: {
+  title: string;
+  subtitle: string;
+  columns: RegisterColumn[];
+  rows: AttendanceRegisterRow[];
+}) {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const dayWidth = (PAGE_WIDTH - 2 * MARGIN - NAME_WIDTH - REGISTER_TOTALS.length * TOTAL_WIDTH) / columns.length;
+
+  const cell = (page: PDFPage, x: number, y: number, width: number, text: string, options: { font?: PDFFont; fill?: RGB; align?: "left" | "center" } = {}) => {
+    page.drawRectangle({ x, y, width, height: ROW_HEIGHT, color: options.fill, borderColor: GRID_COLOUR, borderWidth: 0.5 });
+    const cellFont = options.font ?? font;
+    let content = latin1(text);
+    while (content.length > 1 && cellFont.widthOfTextAtSize(content, FONT_SIZE) > width - 4) {
+      content = content.slice(0, -1);
+    }
+    const textWidth = cellFont.widthOfTextAtSize(content, FONT_SIZE);
+    page.drawText(content, {
+      x: options.align === "left" ? x + 2 : x + (width - textWidth) / 2,
+      y: y + (ROW_HEIGHT - FONT_SIZE) / 2 + 1,
+      size: FONT_SIZE,
+      font: cellFont,
+    });
+  };
+
+  const header = (page: PDFPage, y: number) => {
+    cell(page, MARGIN, y, NAME_WIDTH, "Employee", { font: bold, align: "left" });
+    columns.forEach((column, index) => {
+      const fill = column.kind === "holiday" ? STATUS_COLOURS.holiday : column.kind === "off" ? STATUS_COLOURS.weeklyOff : undefined;
+      cell(page, MARGIN + NAME_WIDTH + index * dayWidth, y, dayWidth, String(Number(column.day.slice(8))), { font: bold, fill });
+    });
+    REGISTER_TOTALS.forEach((total, index) => {
+      cell(page, MARGIN + NAME_WIDTH + columns.length * dayWidth + index * TOTAL_WIDTH, y, TOTAL_WIDTH, REGISTER_TOTAL_LABELS[total], { font: bold });
+    });
+  };
+
+  const newPage = () => {
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    page.drawText(latin1(title), { x: MARGIN, y: PAGE_HEIGHT - MARGIN - 12, size: 12, font: bold });
+    page.drawText(latin1(subtitle), { x: MARGIN, y: PAGE_HEIGHT - MARGIN - 24, size: 8, font });
+    const legend = DAY_STATUSES.map(status => `${DAY_STATUS_CODES[status]} ${DAY_STATUS_LABELS[status]}`).join("   ");
+    page.drawText(`${legend}   * late check-in`, { x: MARGIN, y: MARGIN - 8, size: 6, font });
+    const y = PAGE_HEIGHT - MARGIN - 30 - ROW_HEIGHT;
+    header(page, y);
+    return { page, y: y - ROW_HEIGHT };
+  };
+
+  let { page, y } = newPage();
+  for (const row of rows) {
+    if (y < MARGIN) {
+      ({ page, y } = newPage());
+    }
+    cell(page, MARGIN, y, NAME_WIDTH, row.name, { align: "left" });
+    row.cells.forEach((registerCell, index) => {
+      cell(page, MARGIN + NAME_WIDTH + index * dayWidth, y, dayWidth, registerCode(registerCell), {
+        fill: registerCell.status ? STATUS_COLOURS[registerCell.status] : undefined,
+      });
+    });
+    REGISTER_TOTALS.forEach((total, index) => {
+      cell(page, MARGIN + NAME_WIDTH + columns.length * dayWidth + index * TOTAL_WIDTH, y, TOTAL_WIDTH, String(row.totals[total]));
+    });
+    y -= ROW_HEIGHT;
+  }
+
+  return pdf.save();
+}
@@ -0,0 +1,88 @@
+// The monthly attendance register on /admin/attendance and its payroll export: one row per
+// employee, one cell per day.
+
+import type { AttendanceLocation, DayStatus } from "@/lib/attendance";
+import type { LeaveType } from "@/lib/leave";
+import type { DayKind } from "@/lib/work-calendar";
+
+export interface AttendanceRegisterFilters {
+  // YYYY-MM
+  month: string;
+  employeeId?: string;
+  state?: string;
+  district?: string;
+}
+
+export interface RegisterEmployee {
+  id: string;
+  name: string;
+  state: string;
+  district: string;
+}
+
+// A column of the register, shared by every row.
+export interface RegisterColumn {
+  day: string;
+  kind: DayKind;
+  holidayName: string | null;
+}
+
+// What was recorded that day, shown when a cell of the register is opened.
+export interface RegisterCellDetail {
+  checkInAt: string | null;
+  checkOutAt: string | null;
+  workingMinutes: number | null;
+  tasks: string | null;
+  checkInLocation: AttendanceLocation | null;
+  checkOutLocation: AttendanceLocation | null;
+  leaveType: LeaveType | null;
+}
+
+export interface RegisterCell {
+  status: DayStatus | null;
+  late: boolean;
+  detail: RegisterCellDetail | null;
+}
+
+export const REGISTER_TOTALS = ["present", "halfDay", "leave", "absent", "late"] as const;
+
+export type RegisterTotal = typeof REGISTER_TOTALS[number];
+
+export const REGISTER_TOTAL_LABELS: Record<RegisterTotal, string> = {
+  present: "Present",
+  halfDay: "Half Day",
+  leave: "Leave",
+  absent: "Absent",
+  late: "Late",
+};
+
+export interface AttendanceRegisterRow extends RegisterEmployee {
+  cells: RegisterCell[];
+  totals: Record<RegisterTotal, number>;
+}
+
+// Short codes for the grid and the exports; a late check-in adds an asterisk.
+export const DAY_STATUS_CODES: Record<DayStatus, string> = {
+  present: "P",
+  halfDay: "HD",
+  absent: "A",
+  leave: "L",
+  holiday: "H",
+  weeklyOff: "WO",
+};
+
+export const registerCode = ({ status, late }: RegisterCell) =>
+  status ? `${DAY_STATUS_CODES[status]}${late ? "*" : ""}` : "";
+
+export const registerTotals = (cells: RegisterCell[]): Record<RegisterTotal, number> => ({
+  present: cells.filter(cell => cell.status === "present").length,
+  halfDay: cells.filter(cell => cell.status === "halfDay").length,
+  leave: cells.filter(cell => cell.status === "leave").length,
+  absent: cells.filter(cell => cell.status === "absent").length,
+  late: cells.filter(cell => cell.late).length,
+});
+
+export const matchesRegisterFilters = (employee: RegisterEmployee, filters: AttendanceRegisterFilters) =>
+  (!filters.employeeId || employee.id === filters.employeeId) &&
+  (!filters.state || employee.state === filters.state) &&
+  (!filters.district || employee.district === filters.district);
@@ -0,0 +1,117 @@
+// Daily attendance shared by the employee check-in page, the admin log and the actions.
+
+import { SHIFT_MINUTES, SHIFT_START, isWorkingDay, type DayKind, type WorkDayType } from "@/lib/work-calendar";
+
+export const ATTENDANCE_STATUSES = ["working", "leave"] as const;
+
+export type AttendanceStatus = typeof ATTENDANCE_STATUSES[number];
+
+// Where an employee is during the day, as far as the attendance page can tell.
+export type AttendanceState = "notCheckedIn" | "checkedIn" | "checkedOut" | "onLeave";
+
+// A browser geolocation reading; accuracy is the radius in metres.
+export interface AttendanceLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+}
+
+// Today's record as sent to the employee page, with timestamps as ISO strings.
+export interface AttendanceDay {
+  day: string;
+  state: AttendanceState;
+  tasks: string | null;
+  checkInAt: string | null;
+  checkOutAt: string | null;
+  workingMinutes: number | null;
+}
+
+// Attendance days are calendar days in India, written as YYYY-MM-DD.
+export const attendanceDay = (date: Date = new Date()) =>
+  new Date(date.getTime() + 330 * 60 * 1000).toISOString().slice(0, 10);
+
+// One record per employee per day: the id is derived from both, so a second create fails.
+export const attendanceRecordId = (employeeId: string, day: string) => `${employeeId}_${day}`;
+
+export function attendanceState(record: { status?: AttendanceStatus; checkOutAt?: unknown } | null): AttendanceState {
+  if (!record) return "notCheckedIn";
+  if (record.status === "leave") return "onLeave";
+  return record.checkOutAt ? "checkedOut" : "checkedIn";
+}
+
+export const workingMinutes = (checkInAt: Date, checkOutAt: Date) =>
+  Math.max(0, Math.round((checkOutAt.getTime() - checkInAt.getTime()) / 60000));
+
+// Working time as hours and minutes, e.g. "8h 05m".
+export const formatWorkingTime = (minutes: number) =>
+  `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+
+export const mapsUrl = ({ latitude, longitude }: AttendanceLocation) =>
+  `https://www.google.com/maps?q=${latitude},${longitude}`;
+
+// How a day counts in attendance summaries, once the day has started or passed.
+export const DAY_STATUSES = ["present", "halfDay", "absent", "leave", "holiday", "weeklyOff"] as const;
+
+export type DayStatus = typeof DAY_STATUSES[number];
+
+export const DAY_STATUS_LABELS: Record<DayStatus, string> = {
+  present: "Present",
+  halfDay: "Half Day",
+  absent: "Absent",
+  leave: "Leave",
+  holiday: "Holiday",
+  weeklyOff: "Weekly Off",
+};
+
+export const DAY_STATUS_CLASSES: Record<DayStatus, string> = {
+  present: "bg-green-100 text-green-800",
+  halfDay: "bg-lime-100 text-lime-800",
+  absent: "bg-red-100 text-red-800",
+  leave: "bg-yellow-100 text-yellow-800",
+  holiday: "bg-purple-100 text-purple-800",
+  weeklyOff: "bg-gray-100 text-gray-600",
+};
+
+// The share of the day's shift that has to be worked for a full day; less is a half day.
+export const FULL_DAY_SHARE = 0.75;
+
+// One day of an employee's month for the attendance calendar.
+export interface AttendanceCalendarDay extends AttendanceDay {
+  kind: DayKind;
+  status: DayStatus | null;
+  holidayName: string | null;
+  leaveType: string | null;
+}
+
+/**
+ * Classifies a day from its calendar kind and attendance record. Today and later days
+ * without a record have no status yet. Work on a weekly off or holiday counts as present,
+ * and so does a past day the employee forgot to check out of.
+ */
+export function dayStatus(
+  day: string,
+  kind: DayKind,
+  record: { status?: AttendanceStatus; workingMinutes?: number | null } | null,
+  today: string = attendanceDay()
+): DayStatus | null {
+  if (record?.status === "leave") return "leave";
+  if (record) {
+    if (typeof record.workingMinutes !== "number" || !isWorkingDay(kind)) return "present";
+    return record.workingMinutes >= SHIFT_MINUTES[kind as WorkDayType] * FULL_DAY_SHARE ? "present" : "halfDay";
+  }
+  if (kind === "holiday") return "holiday";
+  if (kind === "off") return "weeklyOff";
+  return day < today ? "absent" : null;
+}
+
+export const countStatuses = (days: { status: DayStatus | null }[]) =>
+  Object.fromEntries(DAY_STATUSES.map(status => [status, days.filter(day => day.status === status).length])) as Record<DayStatus, number>;
+
+// Minutes after the shift starts before a check-in counts as late.
+export const LATE_GRACE_MINUTES = 15;
+
+export function isLateCheckIn(checkInAt: Date) {
+  const [hours, minutes] = SHIFT_START.split(":").map(Number);
+  const minuteOfDay = (checkInAt.getUTCHours() * 60 + checkInAt.getUTCMinutes() + 330) % 1440;
+  return minuteOfDay > hours * 60 + minutes + LATE_GRACE_MINUTES;
+}
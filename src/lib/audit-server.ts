@@ -0,0 +1,43 @@
+import { headers } from "next/headers";
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { diffFields, type AuditAction, type AuditTargetType } from "@/lib/audit";
+import { displayName, type SessionUser } from "@/lib/session";
+
+interface ActivityEvent {
+  // Null for visitors who aren't signed in.
+  actor: SessionUser | null;
+  action: AuditAction;
+  target: { type: AuditTargetType; id: string; label?: string | null };
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+// The client address as reported by the hosting proxy, which puts it first in X-Forwarded-For.
+const clientIp = (requestHeaders: Headers) =>
+  requestHeaders.get("x-forwarded-for")?.split(",")[0].trim() || requestHeaders.get("x-real-ip") || null;
+
+/**
+ * Adds an entry to the audit trail. A failed write is logged and otherwise ignored, so it
+ * never undoes or fails the change it describes.
+ */
+export async function recordActivity({ actor, action, target, before = null, after = null }: ActivityEvent) {
+  try {
+    const requestHeaders = await headers();
+    await adminDb.collection("activityLogs").add({
+      action,
+      actorId: actor?.uid ?? null,
+      actorName: actor ? displayName(actor) : "Visitor",
+      actorEmail: actor?.email ?? null,
+      targetType: target.type,
+      targetId: target.id,
+      targetLabel: target.label ?? null,
+      changes: diffFields(before, after),
+      ip: clientIp(requestHeaders),
+      userAgent: requestHeaders.get("user-agent"),
+      timestamp: FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    console.error("Error recording activity:", error);
+  }
+}
@@ -0,0 +1,230 @@
+// Audit trail of the changes made through the server actions, kept in `activityLogs`.
+
+import { dayEnd, dayStart } from "@/lib/utils";
+
+export const AUDIT_ACTIONS = [
+  "job.created",
+  "job.updated",
+  "job.statusChanged",
+  "job.reposted",
+  "job.expired",
+  "application.submitted",
+  "application.scored",
+  "application.stageChanged",
+  "application.noteAdded",
+  "application.rated",
+  "application.tagsChanged",
+  "application.exported",
+  "settings.ratingCriteriaChanged",
+  "attendance.checkedIn",
+  "attendance.checkedOut",
+  "attendance.exported",
+  "leave.requested",
+  "leave.cancelled",
+  "leave.approved",
+  "leave.rejected",
+  "holiday.created",
+  "holiday.deleted",
+  "settings.workWeekChanged",
+  "dsr.submitted",
+  "travel.approved",
+  "travel.rejected",
+  "travel.exported",
+  "settings.travelRateChanged",
+  "call.logged",
+  "earning.submitted",
+  "employee.registered",
+  "task.assigned",
+  "task.completed",
+  "account.setupLinkCreated",
+  "membership.applied",
+  "membership.verified",
+  "newsletter.subscribed",
+  "faq.entryCreated",
+  "faq.entryUpdated",
+  "faq.entryDeleted",
+  "faq.questionPromoted",
+  "faq.starterImported",
+  "faq.reindexed",
+  "faq.answerRated",
+  "roles.changed",
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "job.created": "Job posted",
+  "job.updated": "Job edited",
+  "job.statusChanged": "Job status changed",
+  "job.reposted": "Job reposted",
+  "job.expired": "Job expired",
+  "application.submitted": "Application submitted",
+  "application.scored": "Match score updated",
+  "application.stageChanged": "Application stage changed",
+  "application.noteAdded": "Note added",
+  "application.rated": "Application rated",
+  "application.tagsChanged": "Tags changed",
+  "application.exported": "Applications exported",
+  "settings.ratingCriteriaChanged": "Rating criteria changed",
+  "attendance.checkedIn": "Checked in",
+  "attendance.checkedOut": "Checked out",
+  "attendance.exported": "Attendance register exported",
+  "leave.requested": "Leave requested",
+  "leave.cancelled": "Leave request cancelled",
+  "leave.approved": "Leave approved",
+  "leave.rejected": "Leave rejected",
+  "holiday.created": "Holiday added",
+  "holiday.deleted": "Holiday removed",
+  "settings.workWeekChanged": "Working days changed",
+  "dsr.submitted": "DSR submitted",
+  "travel.approved": "Travel claim approved",
+  "travel.rejected": "Travel claim rejected",
+  "travel.exported": "Travel statement exported",
+  "settings.travelRateChanged": "Travel rate changed",
+  "call.logged": "Call logged",
+  "earning.submitted": "Earning submitted",
+  "employee.registered": "Employee registered",
+  "task.assigned": "Task assigned",
+  "task.completed": "Task completed",
+  "account.setupLinkCreated": "Password setup link created",
+  "membership.applied": "Membership applied for",
+  "membership.verified": "Membership verified",
+  "newsletter.subscribed": "Newsletter subscription",
+  "faq.entryCreated": "FAQ entry added",
+  "faq.entryUpdated": "FAQ entry edited",
+  "faq.entryDeleted": "FAQ entry deleted",
+  "faq.questionPromoted": "FAQ question promoted",
+  "faq.starterImported": "Starter FAQ imported",
+  "faq.reindexed": "FAQ re-indexed",
+  "faq.answerRated": "FAQ answer rated",
+  "roles.changed": "Roles changed",
+};
+
+export const AUDIT_TARGET_TYPES = [
+  "job",
+  "application",
+  "settings",
+  "attendance",
+  "leaveRequest",
+  "holiday",
+  "dsr",
+  "travelClaim",
+  "callLog",
+  "earning",
+  "employee",
+  "task",
+  "user",
+  "membership",
+  "subscriber",
+  "faqEntry",
+  "faqLog",
+] as const;
+
+export type AuditTargetType = typeof AUDIT_TARGET_TYPES[number];
+
+export const AUDIT_TARGET_TYPE_LABELS: Record<AuditTargetType, string> = {
+  job: "Job",
+  application: "Application",
+  settings: "Settings",
+  attendance: "Attendance",
+  leaveRequest: "Leave Request",
+  holiday: "Holiday",
+  dsr: "DSR",
+  travelClaim: "Travel Claim",
+  callLog: "Call Log",
+  earning: "Earning",
+  employee: "Employee",
+  task: "Task",
+  user: "User Account",
+  membership: "Membership",
+  subscriber: "Subscriber",
+  faqEntry: "FAQ Entry",
+  faqLog: "FAQ Question",
+};
+
+// Field-by-field changes; a field that was added has `from: null`, one that was removed `to: null`.
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Firestore Timestamps and Dates are stored as ISO strings so entries compare and export cleanly.
+const auditValue = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (value && typeof (value as { toDate?: unknown }).toDate === "function") {
+    return (value as { toDate: () => Date }).toDate().toISOString();
+  }
+  if (Array.isArray(value)) return value.map(auditValue);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, auditValue(item)]));
+  }
+  return value;
+};
+
+/** Lists the fields that differ between two versions of a record. Pass null for a record that doesn't exist. */
+export function diffFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const key of keys) {
+    const from = auditValue(before?.[key]);
+    const to = auditValue(after?.[key]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// An activity log entry as returned by the admin search action, with the timestamp serialized to an ISO string.
+export interface ActivityLogEntry {
+  id: string;
+  action: AuditAction;
+  // Null for visitors who weren't signed in, e.g. job applicants.
+  actorId: string | null;
+  actorName: string;
+  actorEmail: string | null;
+  targetType: AuditTargetType;
+  targetId: string;
+  targetLabel: string | null;
+  changes: AuditChanges;
+  ip: string | null;
+  userAgent: string | null;
+  timestamp: string | null;
+}
+
+export interface ActivityLogFilters {
+  q?: string;
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  actor?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Applies the filters that the activity log query leaves to memory: the actor and the text
+ * search. The date range, action and target type are applied by the query and re-checked
+ * here for safety.
+ */
+export function matchesActivityFilters(entry: ActivityLogEntry, filters: ActivityLogFilters): boolean {
+  const timestamp = entry.timestamp ? Date.parse(entry.timestamp) : 0;
+  if (filters.from && timestamp < dayStart(filters.from)) return false;
+  if (filters.to && timestamp > dayEnd(filters.to)) return false;
+
+  if (filters.action && entry.action !== filters.action) return false;
+  if (filters.targetType && entry.targetType !== filters.targetType) return false;
+
+  if (filters.actor) {
+    const actor = filters.actor.trim().toLowerCase();
+    const matchesActor = [entry.actorName, entry.actorEmail, entry.actorId].some(value => value?.toLowerCase().includes(actor));
+    if (!matchesActor) return false;
+  }
+
+  if (filters.q) {
+    const haystack = [entry.targetLabel, entry.targetId, entry.ip, ...Object.keys(entry.changes)].join(" ").toLowerCase();
+    return filters.q.toLowerCase().split(/\s+/).filter(Boolean).every(term => haystack.includes(term));
+  }
+
+  return true;
+}
@@ -0,0 +1,31 @@
+import { cookies } from "next/headers";
+import { adminAuth } from "@/lib/firebase-admin";
+import { hasAnyRole, type Role } from "@/lib/roles";
+import { SESSION_COOKIE, sessionUserFromClaims, type SessionUser } from "@/lib/session";
+
+// The user behind the current request, or null when signed out or the session has been revoked.
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const sessionCookie = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!sessionCookie) return null;
+  try {
+    const decoded = await adminAuth.verifySessionCookie(sessionCookie, true);
+    return sessionUserFromClaims(decoded.uid, decoded);
+  } catch {
+    return null;
+  }
+}
+
+// Returns the current user when they hold one of the given roles, otherwise null.
+export async function authorize(roles: readonly Role[]): Promise<SessionUser | null> {
+  const user = await getSessionUser();
+  return user && hasAnyRole(user.roles, roles) ? user : null;
+}
+
+/**
+ * Like authorize, for actions whose input names the user they act for (an employeeId or
+ * authorId). The id must be the caller's own; anything else is treated as a spoofed request.
+ */
+export async function authorizeAs(roles: readonly Role[], claimedUid: unknown): Promise<SessionUser | null> {
+  const user = await authorize(roles);
+  return user && claimedUid === user.uid ? user : null;
+}
@@ -0,0 +1,106 @@
+// Aggregations for the AI FAQ question log shown on the admin analytics page.
+// Every question asked in the chat is stored in `faqQuestions` with its answer, latency and feedback.
+
+import { format, startOfDay, subDays } from "date-fns";
+
+export const FAQ_FEEDBACK = ["up", "down"] as const;
+
+export type FaqFeedback = typeof FAQ_FEEDBACK[number];
+
+export const FAQ_ANALYTICS_RANGES = [7, 30, 90] as const;
+
+export interface FaqQuestionLog {
+  id: string;
+  question: string;
+  // Lowercased, without punctuation, so "Where's your office?" and "where's your office" group together.
+  normalizedQuestion: string;
+  answer: string;
+  answered: boolean;
+  sources: { id: string; title: string }[];
+  latencyMs: number;
+  feedback: FaqFeedback | null;
+  // Set once an admin has turned the question into a knowledge-base entry.
+  promotedEntryId: string | null;
+  askedAt: Date;
+}
+
+export interface FaqQuestionGroup {
+  normalizedQuestion: string;
+  // The most recent wording of the question.
+  question: string;
+  // The most recent answer, as a starting point when promoting the question.
+  answer: string;
+  count: number;
+  unanswered: number;
+  upVotes: number;
+  downVotes: number;
+  lastAskedAt: Date;
+  promoted: boolean;
+}
+
+export const normalizeQuestion = (question: string) =>
+  question.toLowerCase().replace(/[^\p{L}\p{M}\p{N}\s']+/gu, " ").replace(/\s+/g, " ").trim();
+
+export function summarizeFaqLogs(logs: FaqQuestionLog[]) {
+  const answered = logs.filter(log => log.answered).length;
+  return {
+    total: logs.length,
+    answeredRate: logs.length ? answered / logs.length : 0,
+    averageLatencyMs: logs.length ? logs.reduce((sum, log) => sum + log.latencyMs, 0) / logs.length : 0,
+    upVotes: logs.filter(log => log.feedback === "up").length,
+    downVotes: logs.filter(log => log.feedback === "down").length,
+  };
+}
+
+// Groups repeated questions together, most asked first.
+export function groupFaqQuestions(logs: FaqQuestionLog[]): FaqQuestionGroup[] {
+  const groups = new Map<string, FaqQuestionGroup>();
+  for (const log of logs) {
+    const group = groups.get(log.normalizedQuestion);
+    if (!group) {
+      groups.set(log.normalizedQuestion, {
+        normalizedQuestion: log.normalizedQuestion,
+        question: log.question,
+        answer: log.answer,
+        count: 1,
+        unanswered: log.answered ? 0 : 1,
+        upVotes: log.feedback === "up" ? 1 : 0,
+        downVotes: log.feedback === "down" ? 1 : 0,
+        lastAskedAt: log.askedAt,
+        promoted: Boolean(log.promotedEntryId),
+      });
+      continue;
+    }
+    group.count++;
+    if (!log.answered) group.unanswered++;
+    if (log.feedback === "up") group.upVotes++;
+    if (log.feedback === "down") group.downVotes++;
+    if (log.promotedEntryId) group.promoted = true;
+    if (log.askedAt > group.lastAskedAt) {
+      group.question = log.question;
+      group.answer = log.answer;
+      group.lastAskedAt = log.askedAt;
+    }
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count || b.lastAskedAt.getTime() - a.lastAskedAt.getTime());
+}
+
+// Questions the assistant couldn't answer or whose answers were voted down, and that haven't been curated yet.
+export const questionsNeedingAttention = (groups: FaqQuestionGroup[]) =>
+  groups.filter(group => !group.promoted && (group.unanswered > 0 || group.downVotes > 0));
+
+// One point per day in the range, oldest first, including days without questions.
+export function dailyQuestionTrend(logs: FaqQuestionLog[], days: number, now = new Date()) {
+  const points = Array.from({ length: days }, (_, index) => {
+    const day = subDays(startOfDay(now), days - 1 - index);
+    return { key: format(day, "yyyy-MM-dd"), date: format(day, "MMM d"), answered: 0, unanswered: 0 };
+  });
+  const byKey = new Map(points.map(point => [point.key, point]));
+  for (const log of logs) {
+    const point = byKey.get(format(log.askedAt, "yyyy-MM-dd"));
+    if (!point) continue;
+    if (log.answered) point.answered++;
+    else point.unanswered++;
+  }
+  return points;
+}
@@ -0,0 +1,166 @@
+// The knowledge base behind the AI FAQ: entry types, retrieval scoring and starter content.
+// Kept free of Firebase and Genkit imports so retrieval can be checked without either.
+
+import type { Locale } from "@/lib/i18n";
+
+export const FAQ_ENTRY_TYPES = ["article", "qa", "policy"] as const;
+
+export type FaqEntryType = typeof FAQ_ENTRY_TYPES[number];
+
+export const FAQ_ENTRY_TYPE_LABELS: Record<FaqEntryType, string> = {
+  article: "Article",
+  qa: "Q&A",
+  policy: "Policy",
+};
+
+export interface FaqKnowledgeEntry {
+  id: string;
+  type: FaqEntryType;
+  // For Q&A entries the title is the question and the content is the answer.
+  title: string;
+  content: string;
+  tags: string[];
+  embedding?: number[];
+}
+
+export interface RankedEntry {
+  entry: FaqKnowledgeEntry;
+  score: number;
+}
+
+// What the assistant says when the knowledge base has nothing on the question.
+export const FAQ_FALLBACK_ANSWERS: Record<Locale, string> = {
+  en: "I'm sorry, I don't have information about that yet. Please reach out through our contact form and our team will get back to you.",
+  hi: "क्षमा करें, इस बारे में मेरे पास अभी जानकारी नहीं है। कृपया हमारे संपर्क फ़ॉर्म के माध्यम से हमसे जुड़ें, हमारी टीम जल्द ही आपसे संपर्क करेगी।",
+};
+
+// The most earlier turns a chat sends with a question; the FAQ flow rejects longer histories.
+export const FAQ_HISTORY_LIMIT = 10;
+
+// Shown as one-tap suggestions before the first question of a chat.
+export const FAQ_STARTER_QUESTIONS: Record<Locale, string[]> = {
+  en: [
+    "What services does Zensolve offer?",
+    "What are your business hours?",
+    "Who are the directors of Zensolve?",
+    "Where is your office?",
+  ],
+  hi: [
+    "Zensolve कौन-कौन सी सेवाएँ देता है?",
+    "आपके कार्यालय का समय क्या है?",
+    "Zensolve के निदेशक कौन हैं?",
+    "आपका कार्यालय कहाँ है?",
+  ],
+};
+
+// How many entries are handed to the model as context.
+export const MAX_RETRIEVED_ENTRIES = 4;
+
+// Entries scoring below these are treated as unrelated to the question.
+// Semantic scores are cosine similarities; keyword scores are the share of question terms an entry covers.
+export const MIN_SEMANTIC_SCORE = 0.6;
+export const MIN_KEYWORD_SCORE = 0.3;
+
+// The text that is embedded for an entry, and matched by the keyword fallback.
+export const knowledgeText = (entry: Pick<FaqKnowledgeEntry, "title" | "content" | "tags">) =>
+  [entry.title, entry.content, entry.tags.join(", ")].filter(Boolean).join("\n");
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "does", "for", "from", "how", "i", "in", "is",
+  "it", "me", "my", "of", "on", "or", "our", "the", "to", "we", "what", "when", "where", "which", "who", "why",
+  "will", "with", "you", "your", "about", "have", "has", "there", "this", "that", "any", "please", "tell",
+  "kya", "hai", "ka", "ki", "ke", "ko", "se", "mein", "aur", "kaise", "kab", "kahan",
+  "क्या", "है", "का", "की", "के", "को", "से", "में", "और", "कैसे", "कब", "कहाँ", "हैं",
+]);
+
+export const keywordTerms = (text: string) => [
+  ...new Set(text.toLowerCase().split(/[^\p{L}\p{M}\p{N}]+/u).filter(term => term.length > 1 && !STOP_WORDS.has(term))),
+];
+
+/**
+ * Share of the question's keywords that appear in the entry. A term matches when an entry
+ * word starts with it or it starts with an entry word, so "jobs" matches "job" and vice versa.
+ * A hit in the title or tags counts as a full match; a hit only in the content counts as half.
+ */
+export function keywordScore(entry: FaqKnowledgeEntry, question: string): number {
+  const terms = keywordTerms(question);
+  if (terms.length === 0) return 0;
+
+  const headingWords = keywordTerms(`${entry.title} ${entry.tags.join(" ")}`);
+  const contentWords = keywordTerms(entry.content);
+  const matches = (words: string[], term: string) =>
+    words.some(word => word.startsWith(term) || (word.length > 3 && term.startsWith(word)));
+
+  const total = terms.reduce((sum, term) => {
+    if (matches(headingWords, term)) return sum + 1;
+    if (matches(contentWords, term)) return sum + 0.5;
+    return sum;
+  }, 0);
+  return total / terms.length;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Returns the entries most relevant to the question, best first. Embeddings are used when
+ * the question and every entry have one; otherwise ranking falls back to keyword matching,
+ * which is what happens offline or before entries have been indexed.
+ */
+export function rankKnowledge(
+  entries: FaqKnowledgeEntry[],
+  question: string,
+  questionEmbedding: number[] | null,
+  limit = MAX_RETRIEVED_ENTRIES
+): RankedEntry[] {
+  const semantic = questionEmbedding !== null && entries.length > 0 && entries.every(entry => entry.embedding?.length);
+  const minScore = semantic ? MIN_SEMANTIC_SCORE : MIN_KEYWORD_SCORE;
+
+  return entries
+    .map(entry => ({
+      entry,
+      score: semantic ? cosineSimilarity(questionEmbedding!, entry.embedding!) : keywordScore(entry, question),
+    }))
+    .filter(ranked => ranked.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// The company facts that used to be written into the FAQ prompt. Admins can import them
+// into an empty knowledge base and edit them from there.
+export const STARTER_FAQ_KNOWLEDGE: Omit<FaqKnowledgeEntry, "id">[] = [
+  {
+    type: "article",
+    title: "About Zensolve Infotech",
+    content: "Zensolve Infotech Solution Private Limited was incorporated on January 15, 2024. Its directors are Anand Kumar and Rupesh Kumar Thakur. The company works in placement services and IT consulting and services. Website: www.infozensolve.in. LinkedIn: Zensolve Corporation.",
+    tags: ["company", "directors", "incorporation"],
+  },
+  {
+    type: "article",
+    title: "Services offered",
+    content: "Placement services: helping businesses find top-tier candidates for their job openings and assisting individuals with job searches.\nIT consulting and services: providing IT consulting and services to ensure the right information is available to the right people at the right time.\nBusiness solutions: offering tailored application frameworks and end-to-end business solutions.",
+    tags: ["services", "placement", "it consulting", "business solutions"],
+  },
+  {
+    type: "policy",
+    title: "Business hours",
+    content: "Monday to Friday: 10:30 am to 5:00 pm. Saturday: 10:30 am to 1:30 pm.",
+    tags: ["hours", "timings", "open"],
+  },
+  {
+    type: "qa",
+    title: "Where is your registered office?",
+    content: "Our registered office is at 452, Ramnagar Bhagalpur Road, Godda, Jharkhand - 814133.",
+    tags: ["address", "office", "location"],
+  },
+];
@@ -0,0 +1,20 @@
+// Firebase Admin SDK for server code that must act with more than a visitor's rights:
+// verifying sign-ins, managing users' roles, and reading and writing the data that the
+// security rules keep away from the browser. Credentials come from the environment
+// (App Hosting provides them; locally, `gcloud auth application-default login`).
+import { initializeApp, getApps, getApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+
+const adminApp = !getApps().length
+  ? initializeApp({
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+      storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+    })
+  : getApp();
+const adminAuth = getAuth(adminApp);
+const adminDb = getFirestore(adminApp);
+const adminStorage = getStorage(adminApp);
+
+export { adminApp, adminAuth, adminDb, adminStorage };
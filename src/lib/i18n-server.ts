@@ -0,0 +1,12 @@
+import { headers } from "next/headers";
+import { DEFAULT_LOCALE, LOCALE_HEADER, createI18n, isLocale, type Locale } from "@/lib/i18n";
+
+// The locale of the current request, as set by the middleware from the URL.
+export async function getLocale(): Promise<Locale> {
+  const locale = (await headers()).get(LOCALE_HEADER);
+  return isLocale(locale) ? locale : DEFAULT_LOCALE;
+}
+
+export async function getI18n() {
+  return createI18n(await getLocale());
+}
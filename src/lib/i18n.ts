@@ -0,0 +1,109 @@
+// Locales, message lookup and locale-aware formatting shared by server and client code.
+// Hindi pages live under /hi; English pages keep their unprefixed URLs. The middleware
+// rewrites /hi/... to the same page and passes the locale on in the LOCALE_HEADER.
+
+import { format, formatDistanceToNow } from "date-fns";
+import { enIN, hi as hiDateLocale } from "date-fns/locale";
+import en, { type Messages } from "@/messages/en";
+import hi from "@/messages/hi";
+
+export const LOCALES = ["en", "hi"] as const;
+
+export type Locale = typeof LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: "English",
+  hi: "हिन्दी",
+};
+
+// Remembers the visitor's choice, so unprefixed links keep them on the Hindi site.
+export const LOCALE_COOKIE = "NEXT_LOCALE";
+export const LOCALE_HEADER = "x-locale";
+
+// Admin pages are English-only; API routes and server actions aren't pages.
+const UNLOCALIZED_PREFIXES = ["/admin", "/api"];
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+export const isLocalizedPath = (pathname: string) =>
+  !UNLOCALIZED_PREFIXES.some(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`));
+
+// Splits "/hi/jobs" into "hi" and "/jobs"; unprefixed paths are in the default locale.
+export function splitLocale(pathname: string): { locale: Locale; pathname: string } {
+  const [, first, ...rest] = pathname.split("/");
+  if (isLocale(first) && first !== DEFAULT_LOCALE) {
+    return { locale: first, pathname: `/${rest.join("/")}` };
+  }
+  return { locale: DEFAULT_LOCALE, pathname };
+}
+
+// Prefixes an internal link for the locale. Hash links, external URLs and admin pages are left alone.
+export function localizePath(href: string, locale: Locale): string {
+  if (locale === DEFAULT_LOCALE || !href.startsWith("/") || !isLocalizedPath(href)) return href;
+  return href === "/" ? `/${locale}` : `/${locale}${href.startsWith("/#") ? href.slice(1) : href}`;
+}
+
+const MESSAGES: Record<Locale, Messages> = { en, hi };
+
+// Dotted paths to every message, e.g. "header.findJobs".
+type MessagePath<T, Prefix extends string = ""> = {
+  [K in keyof T & string]: T[K] extends string ? `${Prefix}${K}` : MessagePath<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type MessageKey = MessagePath<Messages>;
+
+export type MessageValues = Record<string, string | number>;
+
+/**
+ * Returns the message for the key with `{name}` placeholders filled in. Keys missing from a
+ * catalog fall back to English, so a half-translated page still reads sensibly.
+ */
+export function translate(locale: Locale, key: MessageKey, values?: MessageValues): string {
+  const lookup = (messages: Messages) =>
+    key.split(".").reduce<unknown>((node, part) => (node as Record<string, unknown> | undefined)?.[part], messages);
+  const message = lookup(MESSAGES[locale]) ?? lookup(en);
+  if (typeof message !== "string") return key;
+  return values ? message.replace(/\{(\w+)\}/g, (match, name) => (name in values ? String(values[name]) : match)) : message;
+}
+
+const DATE_LOCALES = { en: enIN, hi: hiDateLocale };
+const NUMBER_LOCALES: Record<Locale, string> = { en: "en-IN", hi: "hi-IN" };
+
+export const formatDate = (date: Date | number, pattern: string, locale: Locale) =>
+  format(date, pattern, { locale: DATE_LOCALES[locale] });
+
+export const formatTimeAgo = (date: Date | number, locale: Locale) =>
+  formatDistanceToNow(date, { addSuffix: true, locale: DATE_LOCALES[locale] });
+
+// Rupee amounts with Indian digit grouping, e.g. ₹1,25,000.
+export const formatCurrency = (amount: number, locale: Locale, fractionDigits = 0) =>
+  new Intl.NumberFormat(NUMBER_LOCALES[locale], {
+    style: "currency",
+    currency: "INR",
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(amount);
+
+export const formatNumber = (value: number, locale: Locale) => new Intl.NumberFormat(NUMBER_LOCALES[locale]).format(value);
+
+export interface I18n {
+  locale: Locale;
+  t: (key: MessageKey, values?: MessageValues) => string;
+  href: (path: string) => string;
+  formatDate: (date: Date | number, pattern: string) => string;
+  formatTimeAgo: (date: Date | number) => string;
+  formatCurrency: (amount: number, fractionDigits?: number) => string;
+  formatNumber: (value: number) => string;
+}
+
+export const createI18n = (locale: Locale): I18n => ({
+  locale,
+  t: (key, values) => translate(locale, key, values),
+  href: path => localizePath(path, locale),
+  formatDate: (date, pattern) => formatDate(date, pattern, locale),
+  formatTimeAgo: date => formatTimeAgo(date, locale),
+  formatCurrency: (amount, fractionDigits) => formatCurrency(amount, locale, fractionDigits),
+  formatNumber: value => formatNumber(value, locale),
+});
@@ -0,0 +1,324 @@
+// Shared filter model for the public job listings.
+// Kept free of React and Firebase imports so it can run in the browser and on the server.
+
+import type { JobStatus } from './jobs';
+
+export interface JobFilterable {
+  title: string;
+  company: string;
+  location: string;
+  workMode: string;
+  companyType: string;
+  industry: string;
+  department: string;
+  roleCategory: string;
+  education: string;
+  description: string;
+  tags: string[];
+  experienceMin?: number;
+  experienceMax?: number;
+  salaryMin?: number;
+  salaryMax?: number;
+}
+
+// A job as returned by the search action: Firestore timestamps are serialized to ISO strings.
+export interface JobListing extends JobFilterable {
+  id: string;
+  type: string;
+  status?: JobStatus;
+  postedAt: string | null;
+  expiresAt: string | null;
+}
+
+export const FACET_CATEGORIES = [
+  'workMode',
+  'companyType',
+  'industry',
+  'department',
+  'roleCategory',
+  'education',
+  'location',
+] as const;
+
+export type FacetCategory = typeof FACET_CATEGORIES[number];
+
+export type JobSort = 'relevance' | 'date';
+
+// Salary buckets are expressed in lakhs per annum, matching salaryMin/salaryMax on a job.
+export const SALARY_BUCKETS = [
+  { id: '0-3', label: '0-3 Lakhs', min: 0, max: 3 },
+  { id: '3-6', label: '3-6 Lakhs', min: 3, max: 6 },
+  { id: '6-10', label: '6-10 Lakhs', min: 6, max: 10 },
+  { id: '10-15', label: '10-15 Lakhs', min: 10, max: 15 },
+] as const;
+
+export const MAX_EXPERIENCE = 30;
+
+export type JobFilters = Record<FacetCategory, string[]> & {
+  q: string;
+  experience: number | null;
+  salary: string[];
+  sort: JobSort;
+};
+
+export type FilterCounts = Record<FacetCategory, Record<string, number>> & {
+  salary: Record<string, number>;
+};
+
+export const emptyFilters = (): JobFilters => ({
+  q: '',
+  experience: null,
+  salary: [],
+  sort: 'relevance',
+  workMode: [],
+  companyType: [],
+  industry: [],
+  department: [],
+  roleCategory: [],
+  education: [],
+  location: [],
+});
+
+export function parseJobFilters(params: URLSearchParams): JobFilters {
+  const filters = emptyFilters();
+  filters.q = params.get('q')?.trim() ?? '';
+
+  const experience = params.get('experience');
+  if (experience !== null && experience !== '' && !Number.isNaN(Number(experience))) {
+    filters.experience = Math.min(Math.max(Number(experience), 0), MAX_EXPERIENCE);
+  }
+
+  const bucketIds: string[] = SALARY_BUCKETS.map(bucket => bucket.id);
+  filters.salary = params.getAll('salary').filter(id => bucketIds.includes(id));
+  filters.sort = params.get('sort') === 'date' ? 'date' : 'relevance';
+
+  FACET_CATEGORIES.forEach(category => {
+    filters[category] = params.getAll(category).filter(Boolean);
+  });
+
+  return filters;
+}
+
+export function serializeJobFilters(filters: JobFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.q) params.set('q', filters.q);
+  FACET_CATEGORIES.forEach(category => {
+    filters[category].forEach(value => params.append(category, value));
+  });
+  if (filters.experience !== null) params.set('experience', String(filters.experience));
+  filters.salary.forEach(id => params.append('salary', id));
+  if (filters.sort !== 'relevance') params.set('sort', filters.sort);
+  return params;
+}
+
+export function hasActiveFilters(filters: JobFilters): boolean {
+  return (
+    filters.q !== '' ||
+    filters.experience !== null ||
+    filters.salary.length > 0 ||
+    FACET_CATEGORIES.some(category => filters[category].length > 0)
+  );
+}
+
+/**
+ * Scores how well a job matches the free-text query. Title and tag hits weigh
+ * more than company or description hits. Returns 0 when any term is missing.
+ * Terms are matched against the same tokens as the `searchTokens` index, so a job
+ * found through the index always scores above 0.
+ */
+export function textScore(job: JobFilterable, q: string): number {
+  const terms = searchTerms(q);
+  if (terms.length === 0) return 1;
+
+  const tokens = jobTokens(job);
+  let score = 0;
+  for (const term of terms) {
+    let termScore = 0;
+    if (tokens.title.has(term)) termScore += 5;
+    if (tokens.tags.has(term)) termScore += 4;
+    if (tokens.company.has(term)) termScore += 3;
+    if (tokens.description.has(term)) termScore += 1;
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+  return score;
+}
+
+const matchesExperience = (job: JobFilterable, years: number) => {
+  const min = job.experienceMin ?? 0;
+  const max = job.experienceMax ?? MAX_EXPERIENCE;
+  return years >= min && years <= max;
+};
+
+const matchesSalary = (job: JobFilterable, bucketIds: string[]) => {
+  if (job.salaryMin === undefined && job.salaryMax === undefined) return false;
+  const jobMin = job.salaryMin ?? job.salaryMax!;
+  const jobMax = job.salaryMax ?? job.salaryMin!;
+  return SALARY_BUCKETS.some(bucket =>
+    bucketIds.includes(bucket.id) && jobMin < bucket.max && jobMax >= bucket.min
+  );
+};
+
+type FilterKey = FacetCategory | 'salary' | 'experience' | 'q';
+
+/**
+ * Checks a job against every active filter. Categories are ANDed together while
+ * values within a category are ORed. `ignore` skips one category, which is how
+ * facet counts stay meaningful for the category being counted.
+ */
+export function matchesFilters(job: JobFilterable, filters: JobFilters, ignore?: FilterKey): boolean {
+  if (ignore !== 'q' && filters.q && textScore(job, filters.q) === 0) return false;
+  if (ignore !== 'experience' && filters.experience !== null && !matchesExperience(job, filters.experience)) return false;
+  if (ignore !== 'salary' && filters.salary.length > 0 && !matchesSalary(job, filters.salary)) return false;
+
+  return FACET_CATEGORIES.every(category =>
+    category === ignore || filters[category].length === 0 || filters[category].includes(job[category])
+  );
+}
+
+export function computeFilterCounts(jobs: JobFilterable[], filters: JobFilters): FilterCounts {
+  const counts = {
+    salary: {},
+    ...Object.fromEntries(FACET_CATEGORIES.map(category => [category, {}])),
+  } as FilterCounts;
+
+  FACET_CATEGORIES.forEach(category => {
+    jobs.forEach(job => {
+      const value = job[category];
+      if (!value || !matchesFilters(job, filters, category)) return;
+      counts[category][value] = (counts[category][value] || 0) + 1;
+    });
+  });
+
+  jobs.forEach(job => {
+    if (!matchesFilters(job, filters, 'salary')) return;
+    SALARY_BUCKETS.forEach(bucket => {
+      if (matchesSalary(job, [bucket.id])) {
+        counts.salary[bucket.id] = (counts.salary[bucket.id] || 0) + 1;
+      }
+    });
+  });
+
+  return counts;
+}
+
+export interface JobSearchResult<T> {
+  jobs: T[];
+  total: number;
+  nextCursor: string | null;
+}
+
+type SortKey = [score: number, postedAt: number, id: string];
+
+// Later keys sort after earlier ones: higher score first, then newest, then id for a stable tiebreak.
+const compareSortKeys = (a: SortKey, b: SortKey) =>
+  b[0] - a[0] || b[1] - a[1] || a[2].localeCompare(b[2]);
+
+const encodeCursor = (key: SortKey) => JSON.stringify(key);
+
+const decodeCursor = (cursor: string): SortKey | null => {
+  try {
+    const key = JSON.parse(cursor);
+    return Array.isArray(key) && key.length === 3 ? key as SortKey : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Filters and sorts jobs, then returns the page that follows `cursor`.
+ * The cursor encodes the sort key of the last job already shown, so pages stay
+ * consistent when new jobs are posted between requests.
+ */
+export function searchJobList<T extends JobListing>(
+  jobs: T[],
+  filters: JobFilters,
+  cursor: string | null,
+  pageSize: number
+): JobSearchResult<T> {
+  const byRelevance = filters.sort === 'relevance' && filters.q !== '';
+  const keyed = jobs
+    .filter(job => matchesFilters(job, filters))
+    .map(job => ({
+      job,
+      key: [
+        byRelevance ? textScore(job, filters.q) : 0,
+        job.postedAt ? Date.parse(job.postedAt) : 0,
+        job.id,
+      ] as SortKey,
+    }))
+    .sort((a, b) => compareSortKeys(a.key, b.key));
+
+  const after = cursor ? decodeCursor(cursor) : null;
+  const remaining = after ? keyed.filter(({ key }) => compareSortKeys(after, key) < 0) : keyed;
+  const page = remaining.slice(0, pageSize);
+  const hasMore = remaining.length > pageSize;
+
+  return {
+    jobs: page.map(({ job }) => job),
+    total: keyed.length,
+    nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1].key) : null,
+  };
+}
+
+const MIN_PREFIX = 2;
+const MAX_PREFIX = 15;
+
+const words = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}+#.]+/u).filter(Boolean);
+
+// Words longer than MAX_PREFIX are indexed and looked up by their first MAX_PREFIX letters.
+const capped = (word: string) => word.slice(0, MAX_PREFIX);
+
+// Title, company and tag words match from their first letters, so partial queries find them.
+const prefixes = (word: string) => {
+  const tokens: string[] = [];
+  for (let length = Math.min(MIN_PREFIX, word.length); length <= Math.min(word.length, MAX_PREFIX); length++) {
+    tokens.push(word.slice(0, length));
+  }
+  return tokens;
+};
+
+const prefixTokens = (texts: string[]) => new Set(texts.flatMap(words).flatMap(prefixes));
+
+// Description words only match whole, to keep the index small.
+const wholeWordTokens = (text: string) => new Set(words(text).map(capped));
+
+type JobTokens = Record<'title' | 'company' | 'tags' | 'description', Set<string>>;
+
+// Scoring runs once per job and filter category when counting facets, so tokens are kept per job object.
+const jobTokenCache = new WeakMap<JobFilterable, JobTokens>();
+
+function jobTokens(job: JobFilterable): JobTokens {
+  let tokens = jobTokenCache.get(job);
+  if (!tokens) {
+    tokens = {
+      title: prefixTokens([job.title]),
+      company: prefixTokens([job.company]),
+      tags: prefixTokens(job.tags),
+      description: wholeWordTokens(job.description),
+    };
+    jobTokenCache.set(job, tokens);
+  }
+  return tokens;
+}
+
+// The query's words in the form they are indexed in.
+const searchTerms = (q: string) => [...new Set(words(q).map(capped))];
+
+/**
+ * Builds the `searchTokens` array stored on each job: prefixes of title, company and
+ * tag words, and whole description words. Run `npm run jobs:reindex` after changing it.
+ */
+export function buildSearchTokens(job: Pick<JobFilterable, 'title' | 'company' | 'tags' | 'description'>): string[] {
+  return [...new Set([...prefixTokens([job.title, job.company, ...job.tags]), ...wholeWordTokens(job.description)])];
+}
+
+/**
+ * Picks the query term used for the indexed `array-contains` lookup. Longer terms
+ * are more selective.
+ */
+export function indexedSearchTerm(q: string): string | null {
+  const terms = searchTerms(q);
+  if (terms.length === 0) return null;
+  return terms.reduce((a, b) => (b.length > a.length ? b : a));
+}
@@ -0,0 +1,47 @@
+// Job lifecycle shared by the admin panel, the public listings and the apply flow.
+
+export const JOB_STATUSES = ["draft", "live", "paused", "closed", "expired"] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  draft: "Draft",
+  live: "Live",
+  paused: "Paused",
+  closed: "Closed",
+  expired: "Expired",
+};
+
+// Options for drafting a job description with AI from the admin job form.
+export const JOB_DESCRIPTION_TONES = ["professional", "friendly", "concise"] as const;
+
+export type JobDescriptionTone = typeof JOB_DESCRIPTION_TONES[number];
+
+export const JOB_DESCRIPTION_LANGUAGES = ["English", "Hindi"] as const;
+
+export type JobDescriptionLanguage = typeof JOB_DESCRIPTION_LANGUAGES[number];
+
+// How long a reposted job stays live when it has no future expiry date.
+export const JOB_REPOST_DAYS = 30;
+
+/**
+ * Returns the status a job should be treated as right now. Jobs posted before
+ * statuses existed have none and count as live; a live job past its expiry date
+ * counts as expired even before the stored status has been updated.
+ */
+export function effectiveJobStatus(
+  job: { status?: JobStatus; expiresAt?: string | null },
+  now: Date = new Date()
+): JobStatus {
+  const status = job.status ?? "live";
+  if (status === "live" && job.expiresAt && new Date(job.expiresAt) <= now) {
+    return "expired";
+  }
+  return status;
+}
+
+export const isJobOpen = (job: { status?: JobStatus; expiresAt?: string | null }) =>
+  effectiveJobStatus(job) === "live";
+
+// Expiry dates are picked as calendar days; a job stays open until the end of that day in India.
+export const expiryDateToDate = (date: string) => new Date(`${date}T23:59:59+05:30`);
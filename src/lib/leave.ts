@@ -0,0 +1,75 @@
+// Leave requests and yearly balances shared by the employee leave page, the admin approval
+// queue and the actions.
+
+import { dayKind, daysInRange, isWorkingDay, type WorkCalendar } from "@/lib/work-calendar";
+
+export const LEAVE_TYPES = ["casual", "sick", "earned", "unpaid"] as const;
+
+export type LeaveType = typeof LEAVE_TYPES[number];
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  casual: "Casual Leave",
+  sick: "Sick Leave",
+  earned: "Earned Leave",
+  unpaid: "Unpaid Leave",
+};
+
+// Days each employee gets per calendar year; unpaid leave has no limit.
+export const LEAVE_QUOTAS: Record<LeaveType, number | null> = {
+  casual: 12,
+  sick: 12,
+  earned: 15,
+  unpaid: null,
+};
+
+export const LEAVE_REQUEST_STATUSES = ["pending", "approved", "rejected", "cancelled"] as const;
+
+export type LeaveRequestStatus = typeof LEAVE_REQUEST_STATUSES[number];
+
+export const LEAVE_REQUEST_STATUS_LABELS: Record<LeaveRequestStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+};
+
+export const LEAVE_REQUEST_STATUS_BADGE_CLASSES: Record<LeaveRequestStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-800",
+};
+
+// The longest single request in calendar days; longer absences are split so each gets its
+// own approval.
+export const MAX_LEAVE_REQUEST_DAYS = 60;
+
+export interface LeaveBalance {
+  type: LeaveType;
+  quota: number | null;
+  used: number;
+  // Null when the type has no quota.
+  remaining: number | null;
+}
+
+// The days a stored balance document records as used, keyed by leave type.
+export type LeaveUsage = Partial<Record<LeaveType, number>>;
+
+// One balance document per employee per year.
+export const leaveBalanceId = (employeeId: string, year: number) => `${employeeId}_${year}`;
+
+export function leaveBalance(used: LeaveUsage, type: LeaveType): LeaveBalance {
+  const quota = LEAVE_QUOTAS[type];
+  const usedDays = used[type] ?? 0;
+  return { type, quota, used: usedDays, remaining: quota === null ? null : Math.max(0, quota - usedDays) };
+}
+
+export const leaveBalances = (used: LeaveUsage) => LEAVE_TYPES.map(type => leaveBalance(used, type));
+
+// The days a request takes from the balance: weekly offs and holidays in the range are free.
+// A half day such as Saturday still counts as a whole day of leave.
+export const leaveDays = (from: string, to: string, calendar: WorkCalendar) =>
+  daysInRange(from, to).filter(day => isWorkingDay(dayKind(day, calendar)));
+
+export const rangesOverlap = (a: { from: string; to: string }, b: { from: string; to: string }) =>
+  a.from <= b.to && b.from <= a.to;
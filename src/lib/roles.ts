@@ -0,0 +1,99 @@
+// Roles and who may open which part of the site. Shared by the middleware, the server actions
+// and the admin panel, so it must stay free of server-only imports.
+
+export const ROLES = ["super-admin", "recruiter", "hr", "manager", "employee", "member", "candidate"] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  "super-admin": "Super Admin",
+  recruiter: "Recruiter",
+  hr: "HR",
+  manager: "Manager",
+  employee: "Employee",
+  member: "Member",
+  candidate: "Candidate",
+};
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  "super-admin": "Full access, including granting and revoking roles.",
+  recruiter: "Manages jobs and reviews applications.",
+  hr: "Registers employees, tracks attendance and verifies memberships.",
+  manager: "Oversees hiring, employees, the FAQ and the newsletter.",
+  employee: "Uses the employee portal for attendance and daily reports.",
+  member: "Holds a verified Zensolve membership.",
+  candidate: "Applies for jobs. Every signed-in user without another role is a candidate.",
+};
+
+// Roles are stored as a `roles` custom claim on the Firebase user, so they travel in the ID token.
+export const ROLES_CLAIM = "roles";
+
+export const DEFAULT_ROLES: Role[] = ["candidate"];
+
+// An account as listed on the admin roles page.
+export interface UserRoleSummary {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  roles: Role[];
+  disabled: boolean;
+  lastSignInAt: string | null;
+}
+
+export const RECRUITING_ROLES: readonly Role[] = ["recruiter", "manager"];
+export const PEOPLE_ROLES: readonly Role[] = ["hr", "manager"];
+export const EMPLOYEE_ROLES: readonly Role[] = ["employee", "manager"];
+export const STAFF_ROLES: readonly Role[] = ["recruiter", "hr", "manager"];
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export function rolesFromClaims(claims: Record<string, unknown>): Role[] {
+  const roles = claims[ROLES_CLAIM];
+  if (!Array.isArray(roles)) return DEFAULT_ROLES;
+  const valid = roles.filter(isRole);
+  return valid.length ? valid : DEFAULT_ROLES;
+}
+
+// Super admins pass every check.
+export const hasAnyRole = (roles: readonly Role[], allowed: readonly Role[]) =>
+  roles.includes("super-admin") || roles.some(role => allowed.includes(role));
+
+// Pages that need a role, most specific first. Paths are matched without the locale prefix.
+const ROUTE_ACCESS: { prefix: string; roles: readonly Role[] | null }[] = [
+  { prefix: "/admin/roles", roles: [] },
+  { prefix: "/admin/add-job", roles: RECRUITING_ROLES },
+  { prefix: "/admin/jobs", roles: RECRUITING_ROLES },
+  { prefix: "/admin/applications", roles: RECRUITING_ROLES },
+  { prefix: "/admin/employees", roles: PEOPLE_ROLES },
+  { prefix: "/admin/attendance", roles: PEOPLE_ROLES },
+  { prefix: "/admin/leave", roles: PEOPLE_ROLES },
+  { prefix: "/admin/holidays", roles: PEOPLE_ROLES },
+  { prefix: "/admin/travel", roles: PEOPLE_ROLES },
+  { prefix: "/admin/memberships", roles: ["hr"] },
+  { prefix: "/admin/faq-", roles: ["manager"] },
+  { prefix: "/admin/newsletter", roles: ["manager"] },
+  { prefix: "/admin/activity", roles: ["manager"] },
+  { prefix: "/admin", roles: STAFF_ROLES },
+  { prefix: "/employee/login", roles: null },
+  { prefix: "/employee", roles: EMPLOYEE_ROLES },
+];
+
+const matchesPrefix = (pathname: string, prefix: string) =>
+  prefix.endsWith("-") ? pathname.startsWith(prefix) : pathname === prefix || pathname.startsWith(`${prefix}/`);
+
+/** Returns the roles allowed to open a page, or null when the page is public. */
+export function requiredRoles(pathname: string): readonly Role[] | null {
+  return ROUTE_ACCESS.find(rule => matchesPrefix(pathname, rule.prefix))?.roles ?? null;
+}
+
+export function canAccess(roles: readonly Role[], pathname: string) {
+  const required = requiredRoles(pathname);
+  return required === null || hasAnyRole(roles, required);
+}
+
+/** Where a user lands after signing in, or when they open a page their roles don't cover. */
+export function homePathFor(roles: readonly Role[]) {
+  if (hasAnyRole(roles, STAFF_ROLES)) return "/admin";
+  if (hasAnyRole(roles, EMPLOYEE_ROLES)) return "/employee/dashboard";
+  return "/";
+}
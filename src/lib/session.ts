@@ -0,0 +1,26 @@
+import { rolesFromClaims, type Role } from "@/lib/roles";
+
+// A Firebase session cookie, created on the server from the ID token the browser gets at
+// sign-in. It is httpOnly, so page scripts can't read it. Hosting only forwards a cookie
+// named __session.
+export const SESSION_COOKIE = "__session";
+
+// Firebase allows session cookies to last between five minutes and two weeks.
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 5;
+
+export interface SessionUser {
+  uid: string;
+  email: string | null;
+  name: string | null;
+  roles: Role[];
+}
+
+export const sessionUserFromClaims = (uid: string, claims: Record<string, unknown>): SessionUser => ({
+  uid,
+  email: typeof claims.email === "string" ? claims.email : null,
+  name: typeof claims.name === "string" ? claims.name : null,
+  roles: rolesFromClaims(claims),
+});
+
+// How the user is named on records they create, e.g. stage changes and daily reports.
+export const displayName = (user: SessionUser) => user.name || user.email || "Unknown";
@@ -0,0 +1,4 @@
+// Public origin used for canonical URLs and structured data.
+export const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || "https://www.infozensolve.in").replace(/\/$/, "");
+
+export const SITE_NAME = "Zensolve Infotech";
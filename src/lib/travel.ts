@@ -0,0 +1,79 @@
+// Travel claims made from the odometer readings on a DSR, shared by the DSR page, the admin
+// approval queue and the actions.
+
+export const TRAVEL_CLAIM_STATUSES = ["pending", "approved", "rejected"] as const;
+
+export type TravelClaimStatus = typeof TRAVEL_CLAIM_STATUSES[number];
+
+export const TRAVEL_CLAIM_STATUS_LABELS: Record<TravelClaimStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export const TRAVEL_CLAIM_STATUS_BADGE_CLASSES: Record<TravelClaimStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+// Rupees paid per kilometre until HR sets a rate in settings/travelRate.
+export const DEFAULT_RATE_PER_KM = 3;
+
+// More than this in one day is almost always a mistyped reading, so the DSR is sent back.
+export const MAX_TRAVEL_KM_PER_DAY = 500;
+
+export const MAX_ODOMETER_PHOTO_BYTES = 5 * 1024 * 1024;
+
+export const ODOMETER_PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+export const ODOMETER_READINGS = ["opening", "closing"] as const;
+
+export type OdometerReading = typeof ODOMETER_READINGS[number];
+
+export interface TravelClaim {
+  // The claim shares its id with the DSR it was made on.
+  id: string;
+  employeeId: string;
+  employeeName: string;
+  day: string;
+  openingKm: number;
+  closingKm: number;
+  distanceKm: number;
+  // The rate when the DSR was submitted; later rate changes don't reprice old claims.
+  ratePerKm: number;
+  amount: number;
+  openingPhotoUrl: string | null;
+  closingPhotoUrl: string | null;
+  status: TravelClaimStatus;
+  decidedByName?: string;
+  decisionNote?: string;
+}
+
+// Odometers read in whole or tenths of a kilometre.
+export const travelDistance = (openingKm: number, closingKm: number) =>
+  Math.round((closingKm - openingKm) * 10) / 10;
+
+// Rounded to the paisa.
+export const claimAmount = (distanceKm: number, ratePerKm: number) =>
+  Math.round(distanceKm * ratePerKm * 100) / 100;
+
+export interface TravelStatementTotals {
+  trips: number;
+  distanceKm: number;
+  amount: number;
+}
+
+// Totals per status for one employee's month; only the approved amount is paid.
+export function travelStatementTotals(claims: Pick<TravelClaim, "status" | "distanceKm" | "amount">[]) {
+  const totals = Object.fromEntries(
+    TRAVEL_CLAIM_STATUSES.map(status => [status, { trips: 0, distanceKm: 0, amount: 0 }])
+  ) as Record<TravelClaimStatus, TravelStatementTotals>;
+  for (const claim of claims) {
+    const total = totals[claim.status];
+    total.trips++;
+    total.distanceKm = Math.round((total.distanceKm + claim.distanceKm) * 10) / 10;
+    total.amount = Math.round((total.amount + claim.amount) * 100) / 100;
+  }
+  return totals;
+}
@@ -0,0 +1,53 @@
+import { adminAuth } from "@/lib/firebase-admin";
+import { ROLES_CLAIM, isRole, type Role, type UserRoleSummary } from "@/lib/roles";
+
+// The roles stored on a user's account, without the implied candidate role.
+export function storedRoles(customClaims: Record<string, unknown> | undefined): Role[] {
+  const roles = customClaims?.[ROLES_CLAIM];
+  return Array.isArray(roles) ? roles.filter(isRole) : [];
+}
+
+export async function getStoredRoles(uid: string): Promise<Role[]> {
+  return storedRoles((await adminAuth.getUser(uid)).customClaims);
+}
+
+/**
+ * Replaces a user's roles, keeping any other custom claims. When a role is taken away the
+ * user's refresh tokens are revoked, so open sessions lose it on their next server request
+ * instead of at the next hourly token refresh.
+ */
+export async function setUserRoles(uid: string, roles: Role[]) {
+  const { customClaims = {} } = await adminAuth.getUser(uid);
+  const current = storedRoles(customClaims);
+  const next = [...new Set(roles)];
+  await adminAuth.setCustomUserClaims(uid, { ...customClaims, [ROLES_CLAIM]: next });
+  if (current.some(role => !next.includes(role))) {
+    await adminAuth.revokeRefreshTokens(uid);
+  }
+  return next;
+}
+
+// Lists every account with its stored roles, following Firebase Auth's pages of 1000 users.
+export async function listUsersWithRoles(): Promise<UserRoleSummary[]> {
+  const users: UserRoleSummary[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await adminAuth.listUsers(1000, pageToken);
+    for (const user of page.users) {
+      users.push({
+        uid: user.uid,
+        email: user.email ?? null,
+        displayName: user.displayName ?? null,
+        roles: storedRoles(user.customClaims),
+        disabled: user.disabled,
+        lastSignInAt: user.metadata.lastSignInTime ? new Date(user.metadata.lastSignInTime).toISOString() : null,
+      });
+    }
+    pageToken = page.pageToken;
+  } while (pageToken);
+  return users;
+}
+
+export async function addUserRoles(uid: string, roles: Role[]) {
+  return setUserRoles(uid, [...(await getStoredRoles(uid)), ...roles]);
+}
@@ -4,3 +4,7 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Date-only filter bounds are inclusive calendar days in India.
+export const dayStart = (date: string) => Date.parse(`${date}T00:00:00+05:30`)
+export const dayEnd = (date: string) => Date.parse(`${date}T23:59:59.999+05:30`)
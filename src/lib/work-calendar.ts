@@ -0,0 +1,81 @@
+// Which days are worked: the weekly pattern of full, half and off days kept in
+// settings/workWeek, and the holidays HR keeps in `holidays`. Days are IST calendar days
+// written as YYYY-MM-DD, as in src/lib/attendance.ts.
+
+export const HOLIDAY_TYPES = ["national", "state", "company"] as const;
+
+export type HolidayType = typeof HOLIDAY_TYPES[number];
+
+export const HOLIDAY_TYPE_LABELS: Record<HolidayType, string> = {
+  national: "National",
+  state: "Jharkhand State",
+  company: "Company",
+};
+
+// Holidays are stored with the day as the document id, so there is at most one per day.
+export interface Holiday {
+  date: string;
+  name: string;
+  type: HolidayType;
+}
+
+export const WORK_DAY_TYPES = ["full", "half", "off"] as const;
+
+export type WorkDayType = typeof WORK_DAY_TYPES[number];
+
+export const WORK_DAY_TYPE_LABELS: Record<WorkDayType, string> = {
+  full: "Full day",
+  half: "Half day",
+  off: "Weekly off",
+};
+
+// One entry per weekday, Sunday first, as Date.getUTCDay() numbers them.
+export type WorkWeek = WorkDayType[];
+
+export const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Office hours as published in the FAQ: 10:30 am to 5:00 pm Monday to Friday, and to
+// 1:30 pm on Saturday.
+export const DEFAULT_WORK_WEEK: WorkWeek = ["off", "full", "full", "full", "full", "full", "half"];
+
+export const SHIFT_START = "10:30";
+
+export const SHIFT_MINUTES: Record<WorkDayType, number> = {
+  full: 390,
+  half: 180,
+  off: 0,
+};
+
+// A day as the calendar sees it; a holiday overrides the weekly pattern.
+export type DayKind = WorkDayType | "holiday";
+
+export interface WorkCalendar {
+  workWeek: WorkWeek;
+  holidays: Holiday[];
+}
+
+export const weekday = (day: string) => new Date(`${day}T00:00:00Z`).getUTCDay();
+
+export const holidayOn = (day: string, calendar: WorkCalendar) =>
+  calendar.holidays.find(holiday => holiday.date === day) ?? null;
+
+export const dayKind = (day: string, calendar: WorkCalendar): DayKind =>
+  holidayOn(day, calendar) ? "holiday" : calendar.workWeek[weekday(day)] ?? "off";
+
+export const isWorkingDay = (kind: DayKind) => kind === "full" || kind === "half";
+
+/** Lists the YYYY-MM-DD days from `from` to `to`, both included. */
+export function daysInRange(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let day = new Date(`${from}T00:00:00Z`); day <= new Date(`${to}T00:00:00Z`); day.setUTCDate(day.getUTCDate() + 1)) {
+    days.push(day.toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+/** Lists the days of a YYYY-MM month. */
+export function monthDays(month: string): string[] {
+  const [year, monthNumber] = month.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+  return daysInRange(`${month}-01`, `${month}-${String(lastDay).padStart(2, "0")}`);
+}
@@ -0,0 +1,632 @@
+// English messages for the public site, the employee portal and the FAQ chat.
+// This catalog defines the keys; every other locale provides the same shape (see hi.ts).
+// Placeholders such as {name} are filled in by `t`.
+
+const en = {
+  meta: {
+    title: "Zensolve Infotech - Your Partner in Talent and Technology",
+    description: "Connecting top talent with leading companies. Specializing in IT, placement services, and business solutions.",
+  },
+  common: {
+    logoAlt: "Zensolve Logo",
+    language: "Language",
+    success: "Success!",
+    error: "Error",
+    loginRequired: "You must be logged in.",
+    next: "Next",
+    previous: "Previous",
+    yes: "Yes",
+    no: "No",
+    date: "Date",
+    description: "Description",
+    amount: "Amount",
+    notSpecified: "Not specified",
+    notDisclosed: "Not disclosed",
+    experienceRange: "{min}-{max} Yrs",
+    salaryRange: "{min}-{max} Lacs PA",
+  },
+  header: {
+    services: "Services",
+    findJobs: "Find Jobs",
+    aboutUs: "About Us",
+    joinMembership: "Join Membership",
+    employeeLogin: "Employee Login",
+    loginSignUp: "Login / Sign Up",
+    openMenu: "Open Menu",
+  },
+  footer: {
+    newsletter: "Stay in the loop and sign up for the Zensolve newsletter:",
+    emailPlaceholder: "Enter your email",
+    subscribe: "Subscribe",
+    company: "Company",
+    documentation: "Documentation",
+    home: "Home",
+    about: "About",
+    services: "Services",
+    jobs: "Jobs",
+    helpCentre: "Help Centre",
+    contact: "Contact",
+    faq: "FAQ",
+    privacyPolicy: "Privacy Policy",
+    copyright: "© {year} Zensolve Inc. All Rights Reserved.",
+    terms: "Terms & Conditions",
+  },
+  home: {
+    heroImageAlt: "A professional working on a laptop",
+    heroTitle: "Make Career With Us",
+    heroSubtitle: "Connecting top talent with leading companies. We specialize in IT, placement services, and innovative business solutions to help you achieve your career goals.",
+    findJob: "Find Job",
+    resumeBadge: "Quick & Easy",
+    resumeTitle: "Leave your resume here",
+    resumeSubtitle: "And let us find the best job for you.",
+    uploadResume: "Upload Resume",
+    categories: {
+      remote: "Remote",
+      mnc: "MNC",
+      banking: "Banking &...",
+      startup: "Startup",
+      internship: "Internship",
+      dataScience: "Data Scien...",
+      software: "Software &...",
+      fortune500: "Fortune 500",
+      sales: "Sales",
+      engineering: "Engineering",
+      hr: "HR",
+    },
+    topCompaniesTitle: "Top companies hiring now",
+    activelyHiring: "{count} are actively hiring",
+    companyCategories: {
+      mncs: "MNCs",
+      edtech: "Edtech",
+      healthcare: "Healthcare",
+      unicorns: "Unicorns",
+      internet: "Internet",
+    },
+    campusBadge: "Just launched",
+    campusTitle: "Introducing a career platform for college students & fresh grads",
+    campusSubtitle: "Explore contests, webinars, take aptitude test, prepare for your dream career & find jobs & internships",
+    campusLinks: {
+      expertSpeak: "Expert speak",
+      contests: "Contests",
+      ncat: "NCAT",
+      pathfinder: "Pathfinder",
+      jobsAndInternships: "Jobs & Internships",
+    },
+    exploreNow: "Explore now",
+    rolesImageAlt: "Discover jobs illustration",
+    rolesTitle: "Discover jobs across popular roles",
+    rolesSubtitle: "Select a role and we'll show you relevant jobs for it!",
+    roleJobs: "{count} Jobs",
+    servicesTitle: "Our Services",
+    services: {
+      placement: {
+        title: "Placement Services",
+        description: "Helping businesses find top-tier candidates and assisting individuals with job searches.",
+      },
+      it: {
+        title: "IT Consulting & Services",
+        description: "Providing expert IT consulting to ensure the right information is available to the right people at the right time.",
+      },
+      business: {
+        title: "Business Solutions",
+        description: "Offering tailored application frameworks and end-to-end business solutions to meet your needs.",
+      },
+      csr: {
+        title: "CSR Projects",
+        description: "Engaging in corporate social responsibility projects to make a positive impact on society.",
+      },
+    },
+  },
+  jobs: {
+    searchPlaceholder: "Enter skills / designations / companies",
+    search: "Search",
+    chips: {
+      engineering: "Engineering",
+      remote: "Remote",
+      startup: "Startup",
+      dataScience: "Data Science",
+      mnc: "MNC",
+      fresher: "Fresher",
+    },
+    allFilters: "All Filters",
+    clearAll: "Clear All",
+    workMode: "Work Mode",
+    experience: "Experience",
+    salary: "Salary",
+    location: "Location",
+    companyType: "Company Type",
+    industry: "Industry",
+    department: "Department",
+    roleCategory: "Role Category",
+    education: "Education",
+    anyExperience: "Any",
+    years: "{count} Yrs",
+    reset: "Reset",
+    searchLocation: "Search location...",
+    salaryBucket: "{min}-{max} Lakhs",
+    reviews: "{count} Reviews",
+    companyLogoAlt: "{company} logo",
+    apply: "Apply",
+    featuredCompanies: "See jobs in Featured Companies",
+    profileViews: "Get 3X more profile views",
+    profileViewsDescription: "Increase your chances of callback with our services.",
+    knowMore: "Know More",
+    results: "Showing {total} results",
+    sortBy: "Sort by:",
+    relevance: "Relevance",
+    date: "Date",
+    loadMore: "Load more jobs",
+    noJobs: "No jobs found.",
+    noMatches: "No jobs match your filters. Try removing a few.",
+    clearFilters: "Clear all filters",
+    noJobsYet: "No jobs were posted yet. Please check back later.",
+  },
+  jobDetail: {
+    notFoundTitle: "Job not found",
+    metaTitle: "{title} at {company} - {location}",
+    shareTitle: "{title} at {company}",
+    closedTitle: "No longer accepting applications",
+    paused: "This job is temporarily paused.",
+    closed: "This job is closed.",
+    browseOpenJobs: "Browse open jobs",
+    posted: "Posted {date}",
+    applyNow: "Apply Now",
+    experience: "Experience",
+    salary: "Salary",
+    department: "Department",
+    roleCategory: "Role Category",
+    industry: "Industry",
+    companyType: "Company Type",
+    education: "Education",
+    years: "Yrs",
+    lacsPerAnnum: "Lacs PA",
+    range: "{min}-{max} {unit}",
+    rangeFrom: "{min}+ {unit}",
+    rangeUpTo: "Up to {max} {unit}",
+    description: "Job Description",
+    keySkills: "Key Skills",
+  },
+  apply: {
+    submittedTitle: "Application Submitted!",
+    failedTitle: "Submission Failed",
+    resumeReadTitle: "Resume Read",
+    resumeFailedTitle: "Couldn't Read Resume",
+    invalidFieldTitle: "Invalid field",
+    invalidField: "Please check the {field} field.",
+    closedTitle: "Applications Closed",
+    closedDescription: "This job is no longer accepting applications.",
+    browseOpenJobs: "Browse open jobs",
+    title: "Apply for Job",
+    subtitle: "Please fill out the form below to submit your application.",
+    stepOf: "Step {current} of {total}",
+    steps: {
+      personal: "Personal Details",
+      education: "Education & Experience",
+      skills: "Skills & Preferences",
+    },
+    uploadResume: "Upload Resume",
+    uploadHint: "Upload a PDF or DOCX and we'll fill in the form for you to review.",
+    personalDetails: "Personal Details",
+    addressDetails: "Address Details",
+    educationDetails: "Education Details",
+    workExperience: "Work Experience",
+    skillsAndPreferences: "Skills & Preferences",
+    fields: {
+      fullName: "Full Name",
+      dob: "Date of Birth",
+      gender: "Gender",
+      mobile: "Mobile Number",
+      email: "Email Address",
+      whatsapp: "WhatsApp Number",
+      permanentAddress: "Permanent Address",
+      currentAddress: "Current Address",
+      city: "City",
+      state: "State",
+      pincode: "Pincode",
+      highestQualification: "Highest Qualification",
+      yearOfPassing: "Year of Passing",
+      university: "University/Board",
+      specialization: "Specialization/Stream",
+      hasExperience: "Do you have work experience?",
+      previousCompany: "Previous Company Name",
+      designation: "Designation",
+      yearsOfExperience: "Years of Experience",
+      linkedin: "LinkedIn Profile URL",
+      technicalSkills: "Technical Skills",
+      softSkills: "Soft Skills",
+      certifications: "Certifications",
+      languages: "Language Proficiency",
+      preferredRole: "Preferred Job Role",
+      preferredLocation: "Preferred Location",
+      expectedSalary: "Expected Salary (LPA)",
+      noticePeriod: "Notice Period",
+      readyToRelocate: "Are you ready to relocate?",
+      whyShouldWeHireYou: "Why should we hire you?",
+      confirmInfo: "I confirm that the information provided is true to the best of my knowledge.",
+      agreeTerms: "I agree to the company’s terms and conditions.",
+    },
+    selectGender: "Select gender",
+    genders: {
+      male: "Male",
+      female: "Female",
+      other: "Other",
+    },
+    languageOptions: {
+      english: "English",
+      hindi: "Hindi",
+      other: "Other",
+    },
+    placeholders: {
+      highestQualification: "e.g., B.Tech in Computer Science",
+      university: "e.g., University of Delhi",
+      specialization: "e.g., Computer Science",
+      technicalSkills: "e.g., React, Node.js, Python",
+      softSkills: "e.g., Communication, Teamwork",
+      certifications: "e.g., AWS Certified Developer",
+      preferredRole: "e.g., Frontend Developer",
+      preferredLocation: "e.g., Remote, New York",
+      expectedSalary: "e.g., 15",
+      noticePeriod: "e.g., 30 days, Immediate",
+      whyShouldWeHireYou: "Tell us about your strengths and how you can contribute to our team.",
+    },
+    submit: "Submit Application",
+  },
+  membership: {
+    nameRequired: "Name is required.",
+    emailInvalid: "A valid email is required.",
+    phoneInvalid: "A valid 10-digit phone number is required.",
+    phoneTooLong: "Phone number is too long.",
+    stateRequired: "State is required.",
+    districtRequired: "District is required.",
+    utrInvalid: "A valid UTR/Transaction ID is required.",
+    detailsTitle: "Step 1: Your Details",
+    detailsDescription: "Please provide your basic information.",
+    fullName: "Full Name",
+    email: "Email Address",
+    phone: "Phone Number",
+    state: "State",
+    district: "District",
+    selectState: "Select state",
+    selectDistrict: "Select district",
+    paymentTitle: "Step 2: Payment",
+    paymentDescription: "Scan the QR code to pay {amount}, then enter the transaction ID.",
+    qrAlt: "Payment QR Code",
+    utr: "UTR / Transaction ID",
+    utrPlaceholder: "Enter your payment transaction ID",
+    submit: "Submit Application",
+    copiedTitle: "Copied!",
+    copiedDescription: "Membership ID copied to clipboard.",
+    thankYou: "Thank you for applying!",
+    received: "Your application has been received. We will verify your payment and get back to you shortly.",
+    membershipId: "Your Membership ID",
+    failedTitle: "Submission Failed",
+    unknownError: "An unknown error occurred.",
+  },
+  auth: {
+    emailInvalid: "Please enter a valid email address.",
+    passwordTooShort: "Password must be at least 6 characters.",
+    email: "Email",
+    password: "Password",
+    login: {
+      title: "Welcome Back",
+      description: "Enter your credentials to access your account",
+      submit: "Log In",
+      noAccount: "Don't have an account?",
+      signUp: "Sign up",
+      successTitle: "Login Successful",
+      successDescription: "Welcome back!",
+      failedTitle: "Login Failed",
+      failedDescription: "Please check your credentials and try again.",
+    },
+    signup: {
+      title: "Create an Account",
+      description: "Enter your email and password to get started",
+      submit: "Sign Up",
+      haveAccount: "Already have an account?",
+      logIn: "Log in",
+      successTitle: "Account Created",
+      successDescription: "You have successfully signed up! Redirecting to login...",
+      failedTitle: "Signup Failed",
+      failedDescription: "An unexpected error occurred. Please try again.",
+    },
+  },
+  employee: {
+    nav: {
+      dashboard: "Dashboard",
+      attendance: "Attendance",
+      leave: "Leave",
+      dsr: "DSR",
+      calls: "Calls",
+      pendingWork: "Pending Work",
+      earnings: "Earnings",
+      logout: "Logout",
+    },
+    loggedOutTitle: "Logged Out",
+    loggedOutDescription: "You have been successfully logged out.",
+    logoutFailedTitle: "Logout Failed",
+    logoutFailedDescription: "Something went wrong.",
+    login: {
+      title: "Employee Login",
+      description: "Enter your credentials to access your dashboard",
+      userId: "User ID",
+      accessDeniedTitle: "Access Denied",
+      accessDeniedDescription: "Only employees can log in here.",
+      successDescription: "Welcome to your dashboard!",
+      invalidCredentials: "Invalid email or password.",
+    },
+    dashboard: {
+      title: "Employee Dashboard",
+      welcome: "Welcome {name}! Here's your performance snapshot.",
+      viewDetails: "View Details",
+      attendance: "Attendance",
+      attendanceValue: "Mark",
+      attendanceDescription: "Mark today's attendance",
+      dsr: "DSR Submitted",
+      dsrDescription: "Your daily reports",
+      calls: "Calls Made",
+      callsDescription: "Your logged client calls",
+      earnings: "Total Earnings",
+      earningsDescription: "Earnings you generated",
+      tasks: "Pending Tasks",
+      tasksDescription: "Check your assigned tasks",
+      performance: "Overall Performance",
+      performanceValue: "View",
+      performanceDescription: "View your performance report",
+    },
+    attendance: {
+      tasksRequired: "Please enter your tasks for the day (min 10 characters).",
+      title: "Attendance",
+      subtitle: "Check in when you start work and check out when you finish.",
+      today: "Today, {date}",
+      states: {
+        notCheckedIn: "Not checked in",
+        checkedIn: "Checked in",
+        checkedOut: "Checked out",
+        onLeave: "On leave",
+      },
+      tasks: "Today's Tasks",
+      tasksPlaceholder: "Briefly describe the main tasks you'll be focusing on today...",
+      shareLocation: "Share my location",
+      shareLocationHint: "Your location is saved with the check-in and check-out so your manager can see where you worked.",
+      locationUnavailable: "Your location couldn't be read, so attendance was saved without it.",
+      checkIn: "Check In",
+      checkOut: "Check Out",
+      checkedInAt: "Checked in at {time}",
+      checkedOutAt: "Checked out at {time}",
+      elapsed: "{hours} so far",
+      workingTime: "Working time: {hours}",
+      onLeaveDescription: "You're on approved leave today.",
+      loadFailed: "Could not load today's attendance.",
+      calendar: {
+        description: "How each day counts, after holidays and weekly offs. Hover over a day for its times.",
+        halfDayShift: "Half day",
+        loadFailed: "Could not load your attendance calendar.",
+        statuses: {
+          present: "Present",
+          halfDay: "Half day",
+          absent: "Absent",
+          leave: "Leave",
+          holiday: "Holiday",
+          weeklyOff: "Weekly off",
+        },
+      },
+    },
+    leave: {
+      title: "Leave",
+      subtitle: "Check your balance, apply for leave and follow your requests.",
+      balancesTitle: "Leave Balance {year}",
+      remaining: "{count} days left",
+      usedOf: "{used} of {quota} used",
+      usedDays: "{count} days used",
+      unlimited: "No limit",
+      balancesFailed: "Could not load your leave balance.",
+      types: {
+        casual: "Casual Leave",
+        sick: "Sick Leave",
+        earned: "Earned Leave",
+        unpaid: "Unpaid Leave",
+      },
+      statuses: {
+        pending: "Pending",
+        approved: "Approved",
+        rejected: "Rejected",
+        cancelled: "Cancelled",
+      },
+      newTitle: "Apply for Leave",
+      newDescription: "Your request goes to HR for approval. Approved days are marked in your attendance.",
+      type: "Leave Type",
+      from: "From",
+      to: "To",
+      reason: "Reason",
+      reasonPlaceholder: "e.g., Family function in my home town",
+      reasonRequired: "Please give a reason (min 5 characters).",
+      datesRequired: "Please choose a start date and an end date on or after it.",
+      days: "{count} working days",
+      submit: "Submit Request",
+      requestsTitle: "Your Requests",
+      requestsDescription: "Pending requests can be cancelled until HR decides on them.",
+      dates: "Dates",
+      daysColumn: "Days",
+      status: "Status",
+      note: "Note from HR",
+      cancel: "Cancel",
+      empty: "No leave requests yet.",
+      fetchFailed: "Could not load your leave requests.",
+      holidaysTitle: "Holidays {year}",
+      holidaysDescription: "Holidays and weekly offs don't count against your leave.",
+      holidaysEmpty: "No holidays announced yet.",
+      holidayTypes: {
+        national: "National",
+        state: "Jharkhand",
+        company: "Company",
+      },
+    },
+    calls: {
+      clientNameRequired: "Client name is required.",
+      clientMobileInvalid: "A valid mobile number is required.",
+      topicTooShort: "Topic must be at least 5 characters.",
+      durationTooShort: "Duration must be at least 1 minute.",
+      fetchFailed: "Could not fetch call logs.",
+      title: "Log Your Calls",
+      subtitle: "Keep a record of all your client communications.",
+      newTitle: "New Call Entry",
+      newDescription: "Fill in the details for a call you made.",
+      clientName: "Client Name",
+      clientMobile: "Client Mobile No.",
+      topic: "Discussion Topic",
+      duration: "Duration (in minutes)",
+      clientNamePlaceholder: "e.g., John Smith",
+      clientMobilePlaceholder: "e.g., 9876543210",
+      topicPlaceholder: "e.g., Project Discovery Call",
+      durationPlaceholder: "e.g., 15",
+      submit: "Log Call",
+      recentTitle: "Recent Call Logs",
+      recentDescription: "Here are the calls you've logged recently.",
+      client: "Client",
+      topicColumn: "Topic",
+      durationColumn: "Duration",
+      minutes: "{count} mins",
+      empty: "No calls logged yet.",
+    },
+    pendingWork: {
+      fetchFailed: "Could not fetch tasks.",
+      completed: "Task marked as completed.",
+      updateFailed: "Failed to update task status.",
+      loginRequired: "Please log in to see your tasks.",
+      title: "Pending Work",
+      subtitle: "Here are the tasks assigned to you by the admin.",
+      listTitle: "Task List",
+      listDescription: "Review your tasks and mark them as completed.",
+      assigned: "Assigned: {date}",
+      markCompleted: "Mark as Completed",
+      noPending: "No pending tasks. Great job!",
+      completedTitle: "Completed Tasks",
+      completedDescription: "Tasks you have recently completed.",
+      completedBadge: "Completed",
+      noCompleted: "No tasks completed yet.",
+      priorities: {
+        high: "High",
+        medium: "Medium",
+        low: "Low",
+      },
+    },
+    earnings: {
+      descriptionTooShort: "Description must be at least 3 characters.",
+      amountInvalid: "Amount must be a positive number.",
+      entryRequired: "Please add at least one earning entry.",
+      fetchFailed: "Could not fetch earnings.",
+      title: "Submit Your Earnings",
+      subtitle: "Report the revenue you have generated for the company.",
+      newTitle: "New Earning Entry",
+      newDescription: "Add one or more earning details below. Click \"Add Earning\" for multiple entries.",
+      amountLabel: "Amount (INR)",
+      descriptionPlaceholder: "e.g., Booking from Client X",
+      amountPlaceholder: "e.g., 50000",
+      add: "Add Earning",
+      submit: "Submit All Earnings",
+      recentTitle: "Recent Earning Submissions",
+      recentDescription: "Here are the earnings you've submitted recently.",
+      empty: "No earnings submitted yet.",
+    },
+    dsr: {
+      descriptionTooShort: "Please provide a detailed description of your work.",
+      closingKmInvalid: "Closing KM must be greater than Opening KM.",
+      fetchFailed: "Could not fetch DSR logs.",
+      title: "Daily Status Report (DSR)",
+      subtitle: "Log your work activities for the day.",
+      newTitle: "New DSR Entry",
+      newDescription: "Fill out your activities for today.",
+      workDescription: "Work Description",
+      workDescriptionPlaceholder: "Describe the tasks you completed, clients you contacted, and any other work-related activities...",
+      travelled: "I have travelled for a visit today.",
+      travelDetails: "Travel Details",
+      openingKm: "Opening KM",
+      closingKm: "Closing KM",
+      submit: "Submit DSR",
+      recentTitle: "Recent DSR Logs",
+      recentDescription: "Here are the DSRs you've submitted recently.",
+      travelColumn: "Travel (KM)",
+      notApplicable: "N/A",
+      empty: "No DSRs submitted yet.",
+      openingPhoto: "Opening odometer photo",
+      closingPhoto: "Closing odometer photo",
+      photoHint: "Photos are optional: JPG, PNG or WebP up to 5 MB. They help HR approve your claim quickly.",
+      travelEstimate: "{distance} km at {rate}/km: you'll claim {amount}, paid once HR approves it.",
+      claimColumn: "Claim",
+      claimStatuses: {
+        pending: "Pending",
+        approved: "Approved",
+        rejected: "Rejected",
+      },
+      noteFromHr: "Note from HR: {note}",
+      claimsFetchFailed: "Could not load your travel claims.",
+      statementTitle: "Travel Reimbursement, {month}",
+      statementDescription: "Claims from this month's DSRs. Only approved claims are paid.",
+      statementTrips: "{count} trips, {distance} km",
+    },
+  },
+  chat: {
+    assistantTitle: "Zensolve Assistant",
+    openAssistant: "Ask our assistant",
+    closeAssistant: "Close assistant",
+    intro: "Ask anything about Zensolve, or try one of these:",
+    placeholder: "Type your question...",
+    send: "Send",
+    newChat: "Start a new chat",
+    helpful: "Helpful",
+    notHelpful: "Not helpful",
+    error: "Sorry, something went wrong. Please try again.",
+  },
+  actions: {
+    invalidData: "Invalid data.",
+    forbidden: "You don't have permission to do that.",
+    invalidFields: "Invalid data. Please check all fields.",
+    genericError: "Something went wrong. Please try again later.",
+    invalidApplication: "Invalid application data. Please check all fields.",
+    jobClosed: "This job is no longer accepting applications.",
+    applicationSubmitted: "Application submitted successfully! We will get back to you soon.",
+    applicationFailed: "Failed to submit application. Please try again.",
+    resumeMissing: "Please choose a resume to upload.",
+    resumeTooLarge: "Resumes must be 5 MB or smaller.",
+    resumeTypeInvalid: "Please upload your resume as a PDF or DOCX file.",
+    resumeUnsupported: "Only PDF and DOCX resumes can be read automatically. Please fill in the form by hand.",
+    resumeNoText: "We couldn't find any text in this resume.",
+    resumeFilled: "We've filled in the form from your resume. Please review every field before submitting.",
+    resumeNoDetails: "We couldn't find any details in this resume. Please fill in the form by hand.",
+    resumeUnreadable: "We couldn't read your resume. Please fill in the form by hand.",
+    attendanceFailed: "Failed to mark attendance.",
+    attendanceAlreadyMarked: "Today's attendance is already recorded.",
+    checkedIn: "Checked in. Have a good day!",
+    checkedOut: "Checked out. You worked {hours} today.",
+    notCheckedIn: "You haven't checked in today.",
+    leaveRequested: "Leave request submitted. You'll see HR's decision here.",
+    leaveRequestFailed: "Failed to update your leave request.",
+    leaveCancelled: "Leave request cancelled.",
+    leaveAlreadyDecided: "HR has already decided on this request.",
+    leaveOverlaps: "You already have leave requested for some of these days.",
+    leaveBalanceExceeded: "You only have {remaining} days of this leave left.",
+    leaveInvalidDates: "Leave must fall within one calendar year and last at most {max} days.",
+    leaveBalancesFailed: "Could not load your leave balance.",
+    leaveNoWorkingDays: "These dates are all holidays or weekly offs, so no leave is needed.",
+    calendarFailed: "Could not load the working calendar.",
+    dsrSubmitted: "DSR submitted successfully.",
+    dsrFailed: "Failed to submit DSR.",
+    dsrSubmittedWithClaim: "DSR submitted. Your travel claim of {amount} for {distance} km is waiting for HR's approval.",
+    travelTooFar: "A day's travel can be at most {max} km. Please check the odometer readings.",
+    openingBelowLastClosing: "The opening reading can't be lower than the closing reading of your last claim, {km} km.",
+    odometerPhotoInvalid: "Odometer photos must be JPG, PNG or WebP images of 5 MB or smaller.",
+    travelRateFailed: "Could not load the travel rate.",
+    callLogged: "Call logged successfully.",
+    callFailed: "Failed to log call.",
+    earningsSubmitted: "Earnings submitted successfully.",
+    earningsFailed: "Failed to submit earnings.",
+    invalidEmail: "Invalid email address.",
+    alreadySubscribed: "You are already subscribed!",
+    subscribed: "Thank you for subscribing!",
+    membershipSubmitted: "Application submitted successfully!",
+  },
+};
+
+export type Messages = typeof en;
+
+export default en;
@@ -0,0 +1,631 @@
+// Hindi messages. Keys mirror en.ts; company names, job data and technical terms such as
+// DSR, UTR or KM are kept as they are commonly written.
+
+import type { Messages } from "@/messages/en";
+
+const hi: Messages = {
+  meta: {
+    title: "ज़ेनसॉल्व इन्फोटेक - प्रतिभा और तकनीक में आपका साथी",
+    description: "बेहतरीन प्रतिभाओं को अग्रणी कंपनियों से जोड़ते हैं। आईटी, प्लेसमेंट सेवाओं और बिज़नेस सॉल्यूशंस में विशेषज्ञता।",
+  },
+  common: {
+    logoAlt: "ज़ेनसॉल्व लोगो",
+    language: "भाषा",
+    success: "सफल!",
+    error: "त्रुटि",
+    loginRequired: "आपको लॉग इन करना होगा।",
+    next: "आगे",
+    previous: "पीछे",
+    yes: "हाँ",
+    no: "नहीं",
+    date: "तारीख",
+    description: "विवरण",
+    amount: "राशि",
+    notSpecified: "निर्दिष्ट नहीं",
+    notDisclosed: "बताया नहीं गया",
+    experienceRange: "{min}-{max} वर्ष",
+    salaryRange: "{min}-{max} लाख प्रति वर्ष",
+  },
+  header: {
+    services: "सेवाएँ",
+    findJobs: "नौकरियाँ खोजें",
+    aboutUs: "हमारे बारे में",
+    joinMembership: "सदस्यता लें",
+    employeeLogin: "कर्मचारी लॉगिन",
+    loginSignUp: "लॉगिन / साइन अप",
+    openMenu: "मेनू खोलें",
+  },
+  footer: {
+    newsletter: "अपडेट पाते रहें और ज़ेनसॉल्व न्यूज़लेटर के लिए साइन अप करें:",
+    emailPlaceholder: "अपना ईमेल दर्ज करें",
+    subscribe: "सब्सक्राइब करें",
+    company: "कंपनी",
+    documentation: "जानकारी",
+    home: "होम",
+    about: "परिचय",
+    services: "सेवाएँ",
+    jobs: "नौकरियाँ",
+    helpCentre: "सहायता केंद्र",
+    contact: "संपर्क",
+    faq: "सामान्य प्रश्न",
+    privacyPolicy: "गोपनीयता नीति",
+    copyright: "© {year} Zensolve Inc. सर्वाधिकार सुरक्षित।",
+    terms: "नियम और शर्तें",
+  },
+  home: {
+    heroImageAlt: "लैपटॉप पर काम करता एक पेशेवर",
+    heroTitle: "हमारे साथ करियर बनाएँ",
+    heroSubtitle: "बेहतरीन प्रतिभाओं को अग्रणी कंपनियों से जोड़ते हैं। आपके करियर लक्ष्यों को पाने में मदद के लिए हम आईटी, प्लेसमेंट सेवाओं और नए बिज़नेस सॉल्यूशंस में विशेषज्ञ हैं।",
+    findJob: "नौकरी खोजें",
+    resumeBadge: "आसान और तेज़",
+    resumeTitle: "अपना रिज़्यूमे यहाँ छोड़ें",
+    resumeSubtitle: "और हम आपके लिए सबसे अच्छी नौकरी खोजेंगे।",
+    uploadResume: "रिज़्यूमे अपलोड करें",
+    categories: {
+      remote: "रिमोट",
+      mnc: "एमएनसी",
+      banking: "बैंकिंग और...",
+      startup: "स्टार्टअप",
+      internship: "इंटर्नशिप",
+      dataScience: "डेटा साइं...",
+      software: "सॉफ़्टवेयर और...",
+      fortune500: "फॉर्च्यून 500",
+      sales: "सेल्स",
+      engineering: "इंजीनियरिंग",
+      hr: "एचआर",
+    },
+    topCompaniesTitle: "अभी भर्ती कर रही शीर्ष कंपनियाँ",
+    activelyHiring: "{count} सक्रिय रूप से भर्ती कर रही हैं",
+    companyCategories: {
+      mncs: "एमएनसी",
+      edtech: "एडटेक",
+      healthcare: "हेल्थकेयर",
+      unicorns: "यूनिकॉर्न",
+      internet: "इंटरनेट",
+    },
+    campusBadge: "नया लॉन्च",
+    campusTitle: "कॉलेज छात्रों और नए स्नातकों के लिए करियर प्लेटफ़ॉर्म",
+    campusSubtitle: "प्रतियोगिताएँ और वेबिनार देखें, एप्टीट्यूड टेस्ट दें, अपने सपनों के करियर की तैयारी करें और नौकरियाँ व इंटर्नशिप खोजें",
+    campusLinks: {
+      expertSpeak: "विशेषज्ञों की राय",
+      contests: "प्रतियोगिताएँ",
+      ncat: "NCAT",
+      pathfinder: "पाथफ़ाइंडर",
+      jobsAndInternships: "नौकरियाँ और इंटर्नशिप",
+    },
+    exploreNow: "अभी देखें",
+    rolesImageAlt: "नौकरियाँ खोजने का चित्र",
+    rolesTitle: "लोकप्रिय भूमिकाओं में नौकरियाँ खोजें",
+    rolesSubtitle: "कोई भूमिका चुनें और हम आपको उससे जुड़ी नौकरियाँ दिखाएँगे!",
+    roleJobs: "{count} नौकरियाँ",
+    servicesTitle: "हमारी सेवाएँ",
+    services: {
+      placement: {
+        title: "प्लेसमेंट सेवाएँ",
+        description: "कंपनियों को बेहतरीन उम्मीदवार खोजने में और लोगों को नौकरी खोजने में मदद।",
+      },
+      it: {
+        title: "आईटी कंसल्टिंग और सेवाएँ",
+        description: "विशेषज्ञ आईटी कंसल्टिंग, ताकि सही जानकारी सही समय पर सही लोगों तक पहुँचे।",
+      },
+      business: {
+        title: "बिज़नेस सॉल्यूशंस",
+        description: "आपकी ज़रूरतों के अनुसार एप्लिकेशन फ्रेमवर्क और संपूर्ण बिज़नेस सॉल्यूशंस।",
+      },
+      csr: {
+        title: "सीएसआर परियोजनाएँ",
+        description: "समाज पर सकारात्मक प्रभाव के लिए कॉर्पोरेट सामाजिक उत्तरदायित्व परियोजनाएँ।",
+      },
+    },
+  },
+  jobs: {
+    searchPlaceholder: "कौशल / पद / कंपनी दर्ज करें",
+    search: "खोजें",
+    chips: {
+      engineering: "इंजीनियरिंग",
+      remote: "रिमोट",
+      startup: "स्टार्टअप",
+      dataScience: "डेटा साइंस",
+      mnc: "एमएनसी",
+      fresher: "फ्रेशर",
+    },
+    allFilters: "सभी फ़िल्टर",
+    clearAll: "सब हटाएँ",
+    workMode: "काम का तरीका",
+    experience: "अनुभव",
+    salary: "वेतन",
+    location: "स्थान",
+    companyType: "कंपनी का प्रकार",
+    industry: "उद्योग",
+    department: "विभाग",
+    roleCategory: "भूमिका श्रेणी",
+    education: "शिक्षा",
+    anyExperience: "कोई भी",
+    years: "{count} वर्ष",
+    reset: "रीसेट",
+    searchLocation: "स्थान खोजें...",
+    salaryBucket: "{min}-{max} लाख",
+    reviews: "{count} समीक्षाएँ",
+    companyLogoAlt: "{company} का लोगो",
+    apply: "आवेदन करें",
+    featuredCompanies: "चुनिंदा कंपनियों की नौकरियाँ देखें",
+    profileViews: "प्रोफ़ाइल पर 3 गुना ज़्यादा व्यू पाएँ",
+    profileViewsDescription: "हमारी सेवाओं से कॉलबैक की संभावना बढ़ाएँ।",
+    knowMore: "और जानें",
+    results: "{total} परिणाम",
+    sortBy: "क्रम:",
+    relevance: "प्रासंगिकता",
+    date: "तारीख",
+    loadMore: "और नौकरियाँ देखें",
+    noJobs: "कोई नौकरी नहीं मिली।",
+    noMatches: "आपके फ़िल्टर से कोई नौकरी मेल नहीं खाती। कुछ फ़िल्टर हटाकर देखें।",
+    clearFilters: "सभी फ़िल्टर हटाएँ",
+    noJobsYet: "अभी तक कोई नौकरी पोस्ट नहीं हुई है। कृपया बाद में देखें।",
+  },
+  jobDetail: {
+    notFoundTitle: "नौकरी नहीं मिली",
+    metaTitle: "{company} में {title} - {location}",
+    shareTitle: "{company} में {title}",
+    closedTitle: "अब आवेदन स्वीकार नहीं किए जा रहे",
+    paused: "यह नौकरी अस्थायी रूप से रोकी गई है।",
+    closed: "यह नौकरी बंद हो चुकी है।",
+    browseOpenJobs: "खुली नौकरियाँ देखें",
+    posted: "{date} को पोस्ट की गई",
+    applyNow: "अभी आवेदन करें",
+    experience: "अनुभव",
+    salary: "वेतन",
+    department: "विभाग",
+    roleCategory: "भूमिका श्रेणी",
+    industry: "उद्योग",
+    companyType: "कंपनी का प्रकार",
+    education: "शिक्षा",
+    years: "वर्ष",
+    lacsPerAnnum: "लाख प्रति वर्ष",
+    range: "{min}-{max} {unit}",
+    rangeFrom: "{min}+ {unit}",
+    rangeUpTo: "{max} {unit} तक",
+    description: "नौकरी का विवरण",
+    keySkills: "मुख्य कौशल",
+  },
+  apply: {
+    submittedTitle: "आवेदन जमा हो गया!",
+    failedTitle: "जमा नहीं हो सका",
+    resumeReadTitle: "रिज़्यूमे पढ़ लिया गया",
+    resumeFailedTitle: "रिज़्यूमे नहीं पढ़ा जा सका",
+    invalidFieldTitle: "गलत जानकारी",
+    invalidField: "कृपया \"{field}\" जाँचें।",
+    closedTitle: "आवेदन बंद हैं",
+    closedDescription: "यह नौकरी अब आवेदन स्वीकार नहीं कर रही है।",
+    browseOpenJobs: "खुली नौकरियाँ देखें",
+    title: "नौकरी के लिए आवेदन करें",
+    subtitle: "अपना आवेदन जमा करने के लिए कृपया नीचे दिया गया फ़ॉर्म भरें।",
+    stepOf: "चरण {current} / {total}",
+    steps: {
+      personal: "व्यक्तिगत जानकारी",
+      education: "शिक्षा और अनुभव",
+      skills: "कौशल और पसंद",
+    },
+    uploadResume: "रिज़्यूमे अपलोड करें",
+    uploadHint: "PDF या DOCX अपलोड करें, हम आपके लिए फ़ॉर्म भर देंगे ताकि आप उसे जाँच सकें।",
+    personalDetails: "व्यक्तिगत जानकारी",
+    addressDetails: "पते की जानकारी",
+    educationDetails: "शिक्षा की जानकारी",
+    workExperience: "कार्य अनुभव",
+    skillsAndPreferences: "कौशल और पसंद",
+    fields: {
+      fullName: "पूरा नाम",
+      dob: "जन्म तिथि",
+      gender: "लिंग",
+      mobile: "मोबाइल नंबर",
+      email: "ईमेल पता",
+      whatsapp: "व्हाट्सऐप नंबर",
+      permanentAddress: "स्थायी पता",
+      currentAddress: "वर्तमान पता",
+      city: "शहर",
+      state: "राज्य",
+      pincode: "पिनकोड",
+      highestQualification: "उच्चतम योग्यता",
+      yearOfPassing: "उत्तीर्ण होने का वर्ष",
+      university: "विश्वविद्यालय/बोर्ड",
+      specialization: "विशेषज्ञता/स्ट्रीम",
+      hasExperience: "क्या आपके पास कार्य अनुभव है?",
+      previousCompany: "पिछली कंपनी का नाम",
+      designation: "पद",
+      yearsOfExperience: "अनुभव के वर्ष",
+      linkedin: "LinkedIn प्रोफ़ाइल URL",
+      technicalSkills: "तकनीकी कौशल",
+      softSkills: "सॉफ्ट स्किल्स",
+      certifications: "प्रमाणपत्र",
+      languages: "भाषा ज्ञान",
+      preferredRole: "पसंदीदा भूमिका",
+      preferredLocation: "पसंदीदा स्थान",
+      expectedSalary: "अपेक्षित वेतन (लाख प्रति वर्ष)",
+      noticePeriod: "नोटिस अवधि",
+      readyToRelocate: "क्या आप दूसरे शहर जाने के लिए तैयार हैं?",
+      whyShouldWeHireYou: "हम आपको क्यों चुनें?",
+      confirmInfo: "मैं पुष्टि करता/करती हूँ कि दी गई जानकारी मेरी जानकारी के अनुसार सही है।",
+      agreeTerms: "मैं कंपनी के नियमों और शर्तों से सहमत हूँ।",
+    },
+    selectGender: "लिंग चुनें",
+    genders: {
+      male: "पुरुष",
+      female: "महिला",
+      other: "अन्य",
+    },
+    languageOptions: {
+      english: "अंग्रेज़ी",
+      hindi: "हिन्दी",
+      other: "अन्य",
+    },
+    placeholders: {
+      highestQualification: "जैसे, B.Tech in Computer Science",
+      university: "जैसे, दिल्ली विश्वविद्यालय",
+      specialization: "जैसे, कंप्यूटर साइंस",
+      technicalSkills: "जैसे, React, Node.js, Python",
+      softSkills: "जैसे, संवाद कौशल, टीमवर्क",
+      certifications: "जैसे, AWS Certified Developer",
+      preferredRole: "जैसे, फ्रंटएंड डेवलपर",
+      preferredLocation: "जैसे, रिमोट, रांची",
+      expectedSalary: "जैसे, 15",
+      noticePeriod: "जैसे, 30 दिन, तुरंत",
+      whyShouldWeHireYou: "अपनी खूबियों के बारे में बताएँ और बताएँ कि आप हमारी टीम में कैसे योगदान दे सकते हैं।",
+    },
+    submit: "आवेदन जमा करें",
+  },
+  membership: {
+    nameRequired: "नाम आवश्यक है।",
+    emailInvalid: "सही ईमेल आवश्यक है।",
+    phoneInvalid: "सही 10 अंकों का फ़ोन नंबर आवश्यक है।",
+    phoneTooLong: "फ़ोन नंबर बहुत लंबा है।",
+    stateRequired: "राज्य आवश्यक है।",
+    districtRequired: "ज़िला आवश्यक है।",
+    utrInvalid: "सही UTR/ट्रांज़ैक्शन आईडी आवश्यक है।",
+    detailsTitle: "चरण 1: आपकी जानकारी",
+    detailsDescription: "कृपया अपनी बुनियादी जानकारी दें।",
+    fullName: "पूरा नाम",
+    email: "ईमेल पता",
+    phone: "फ़ोन नंबर",
+    state: "राज्य",
+    district: "ज़िला",
+    selectState: "राज्य चुनें",
+    selectDistrict: "ज़िला चुनें",
+    paymentTitle: "चरण 2: भुगतान",
+    paymentDescription: "{amount} का भुगतान करने के लिए QR कोड स्कैन करें, फिर ट्रांज़ैक्शन आईडी दर्ज करें।",
+    qrAlt: "भुगतान QR कोड",
+    utr: "UTR / ट्रांज़ैक्शन आईडी",
+    utrPlaceholder: "अपने भुगतान की ट्रांज़ैक्शन आईडी दर्ज करें",
+    submit: "आवेदन जमा करें",
+    copiedTitle: "कॉपी हो गया!",
+    copiedDescription: "सदस्यता आईडी क्लिपबोर्ड पर कॉपी हो गई।",
+    thankYou: "आवेदन करने के लिए धन्यवाद!",
+    received: "आपका आवेदन मिल गया है। हम आपके भुगतान की पुष्टि करके जल्द ही आपसे संपर्क करेंगे।",
+    membershipId: "आपकी सदस्यता आईडी",
+    failedTitle: "जमा नहीं हो सका",
+    unknownError: "एक अज्ञात त्रुटि हुई।",
+  },
+  auth: {
+    emailInvalid: "कृपया सही ईमेल पता दर्ज करें।",
+    passwordTooShort: "पासवर्ड कम से कम 6 अक्षरों का होना चाहिए।",
+    email: "ईमेल",
+    password: "पासवर्ड",
+    login: {
+      title: "फिर से स्वागत है",
+      description: "अपने खाते में जाने के लिए अपनी जानकारी दर्ज करें",
+      submit: "लॉग इन करें",
+      noAccount: "खाता नहीं है?",
+      signUp: "साइन अप करें",
+      successTitle: "लॉगिन सफल",
+      successDescription: "फिर से स्वागत है!",
+      failedTitle: "लॉगिन विफल",
+      failedDescription: "कृपया अपनी जानकारी जाँचें और फिर से कोशिश करें।",
+    },
+    signup: {
+      title: "खाता बनाएँ",
+      description: "शुरू करने के लिए अपना ईमेल और पासवर्ड दर्ज करें",
+      submit: "साइन अप करें",
+      haveAccount: "पहले से खाता है?",
+      logIn: "लॉग इन करें",
+      successTitle: "खाता बन गया",
+      successDescription: "आपने सफलतापूर्वक साइन अप कर लिया! लॉगिन पर ले जाया जा रहा है...",
+      failedTitle: "साइन अप विफल",
+      failedDescription: "एक अनपेक्षित त्रुटि हुई। कृपया फिर से कोशिश करें।",
+    },
+  },
+  employee: {
+    nav: {
+      dashboard: "डैशबोर्ड",
+      attendance: "उपस्थिति",
+      leave: "छुट्टी",
+      dsr: "DSR",
+      calls: "कॉल",
+      pendingWork: "बाकी काम",
+      earnings: "कमाई",
+      logout: "लॉग आउट",
+    },
+    loggedOutTitle: "लॉग आउट हो गया",
+    loggedOutDescription: "आप सफलतापूर्वक लॉग आउट हो गए हैं।",
+    logoutFailedTitle: "लॉग आउट विफल",
+    logoutFailedDescription: "कुछ गलत हो गया।",
+    login: {
+      title: "कर्मचारी लॉगिन",
+      description: "अपने डैशबोर्ड पर जाने के लिए अपनी जानकारी दर्ज करें",
+      userId: "यूज़र आईडी",
+      accessDeniedTitle: "प्रवेश वर्जित",
+      accessDeniedDescription: "यहाँ केवल कर्मचारी लॉग इन कर सकते हैं।",
+      successDescription: "आपके डैशबोर्ड में स्वागत है!",
+      invalidCredentials: "ईमेल या पासवर्ड गलत है।",
+    },
+    dashboard: {
+      title: "कर्मचारी डैशबोर्ड",
+      welcome: "स्वागत है {name}! यह रहा आपके प्रदर्शन का सारांश।",
+      viewDetails: "विवरण देखें",
+      attendance: "उपस्थिति",
+      attendanceValue: "दर्ज करें",
+      attendanceDescription: "आज की उपस्थिति दर्ज करें",
+      dsr: "जमा की गई DSR",
+      dsrDescription: "आपकी दैनिक रिपोर्ट",
+      calls: "की गई कॉल",
+      callsDescription: "आपकी दर्ज की गई क्लाइंट कॉल",
+      earnings: "कुल कमाई",
+      earningsDescription: "आपके द्वारा अर्जित कमाई",
+      tasks: "बाकी काम",
+      tasksDescription: "आपको सौंपे गए काम देखें",
+      performance: "कुल प्रदर्शन",
+      performanceValue: "देखें",
+      performanceDescription: "अपनी प्रदर्शन रिपोर्ट देखें",
+    },
+    attendance: {
+      tasksRequired: "कृपया आज के काम लिखें (कम से कम 10 अक्षर)।",
+      title: "उपस्थिति",
+      subtitle: "काम शुरू करते समय चेक-इन और काम खत्म होने पर चेक-आउट करें।",
+      today: "आज, {date}",
+      states: {
+        notCheckedIn: "चेक-इन नहीं किया",
+        checkedIn: "चेक-इन किया",
+        checkedOut: "चेक-आउट किया",
+        onLeave: "छुट्टी पर",
+      },
+      tasks: "आज के काम",
+      tasksPlaceholder: "आज जिन मुख्य कामों पर ध्यान देंगे, उनका संक्षेप में वर्णन करें...",
+      shareLocation: "मेरी लोकेशन साझा करें",
+      shareLocationHint: "आपकी लोकेशन चेक-इन और चेक-आउट के साथ सेव होती है, ताकि आपके मैनेजर देख सकें कि आपने कहाँ काम किया।",
+      locationUnavailable: "आपकी लोकेशन नहीं मिल सकी, इसलिए उपस्थिति उसके बिना सेव की गई।",
+      checkIn: "चेक-इन करें",
+      checkOut: "चेक-आउट करें",
+      checkedInAt: "{time} पर चेक-इन किया",
+      checkedOutAt: "{time} पर चेक-आउट किया",
+      elapsed: "अब तक {hours}",
+      workingTime: "काम का समय: {hours}",
+      onLeaveDescription: "आज आप स्वीकृत छुट्टी पर हैं।",
+      loadFailed: "आज की उपस्थिति लोड नहीं हो सकी।",
+      calendar: {
+        description: "छुट्टियों और साप्ताहिक अवकाश के बाद हर दिन की गिनती। समय देखने के लिए किसी दिन पर कर्सर रखें।",
+        halfDayShift: "आधा दिन",
+        loadFailed: "आपका उपस्थिति कैलेंडर लोड नहीं हो सका।",
+        statuses: {
+          present: "उपस्थित",
+          halfDay: "आधा दिन",
+          absent: "अनुपस्थित",
+          leave: "छुट्टी",
+          holiday: "अवकाश",
+          weeklyOff: "साप्ताहिक अवकाश",
+        },
+      },
+    },
+    leave: {
+      title: "छुट्टी",
+      subtitle: "अपना बैलेंस देखें, छुट्टी के लिए आवेदन करें और अपने आवेदनों की स्थिति जानें।",
+      balancesTitle: "छुट्टी बैलेंस {year}",
+      remaining: "{count} दिन बाकी",
+      usedOf: "{quota} में से {used} इस्तेमाल",
+      usedDays: "{count} दिन इस्तेमाल",
+      unlimited: "कोई सीमा नहीं",
+      balancesFailed: "आपका छुट्टी बैलेंस लोड नहीं हो सका।",
+      types: {
+        casual: "आकस्मिक छुट्टी",
+        sick: "बीमारी की छुट्टी",
+        earned: "अर्जित छुट्टी",
+        unpaid: "बिना वेतन छुट्टी",
+      },
+      statuses: {
+        pending: "लंबित",
+        approved: "स्वीकृत",
+        rejected: "अस्वीकृत",
+        cancelled: "रद्द",
+      },
+      newTitle: "छुट्टी के लिए आवेदन करें",
+      newDescription: "आपका आवेदन HR के पास स्वीकृति के लिए जाता है। स्वीकृत दिन आपकी उपस्थिति में दर्ज हो जाते हैं।",
+      type: "छुट्टी का प्रकार",
+      from: "से",
+      to: "तक",
+      reason: "कारण",
+      reasonPlaceholder: "जैसे, गाँव में पारिवारिक कार्यक्रम",
+      reasonRequired: "कृपया कारण लिखें (कम से कम 5 अक्षर)।",
+      datesRequired: "कृपया शुरू की तारीख और उसके बाद की अंतिम तारीख चुनें।",
+      days: "{count} कार्य दिवस",
+      submit: "आवेदन जमा करें",
+      requestsTitle: "आपके आवेदन",
+      requestsDescription: "HR के निर्णय से पहले लंबित आवेदन रद्द किए जा सकते हैं।",
+      dates: "तारीखें",
+      daysColumn: "दिन",
+      status: "स्थिति",
+      note: "HR की टिप्पणी",
+      cancel: "रद्द करें",
+      empty: "अभी तक छुट्टी का कोई आवेदन नहीं है।",
+      fetchFailed: "आपके छुट्टी के आवेदन लोड नहीं हो सके।",
+      holidaysTitle: "अवकाश {year}",
+      holidaysDescription: "अवकाश और साप्ताहिक छुट्टी के दिन आपकी छुट्टी में नहीं गिने जाते।",
+      holidaysEmpty: "अभी तक कोई अवकाश घोषित नहीं हुआ।",
+      holidayTypes: {
+        national: "राष्ट्रीय",
+        state: "झारखंड",
+        company: "कंपनी",
+      },
+    },
+    calls: {
+      clientNameRequired: "क्लाइंट का नाम आवश्यक है।",
+      clientMobileInvalid: "सही मोबाइल नंबर आवश्यक है।",
+      topicTooShort: "विषय कम से कम 5 अक्षरों का होना चाहिए।",
+      durationTooShort: "अवधि कम से कम 1 मिनट होनी चाहिए।",
+      fetchFailed: "कॉल लॉग नहीं मिल सके।",
+      title: "अपनी कॉल दर्ज करें",
+      subtitle: "क्लाइंट से हुई सभी बातचीत का रिकॉर्ड रखें।",
+      newTitle: "नई कॉल एंट्री",
+      newDescription: "अपनी की गई कॉल का विवरण भरें।",
+      clientName: "क्लाइंट का नाम",
+      clientMobile: "क्लाइंट का मोबाइल नंबर",
+      topic: "चर्चा का विषय",
+      duration: "अवधि (मिनट में)",
+      clientNamePlaceholder: "जैसे, अमित सिंह",
+      clientMobilePlaceholder: "जैसे, 9876543210",
+      topicPlaceholder: "जैसे, प्रोजेक्ट पर पहली बातचीत",
+      durationPlaceholder: "जैसे, 15",
+      submit: "कॉल दर्ज करें",
+      recentTitle: "हाल की कॉल",
+      recentDescription: "ये रहीं आपकी हाल में दर्ज की गई कॉल।",
+      client: "क्लाइंट",
+      topicColumn: "विषय",
+      durationColumn: "अवधि",
+      minutes: "{count} मिनट",
+      empty: "अभी तक कोई कॉल दर्ज नहीं की गई।",
+    },
+    pendingWork: {
+      fetchFailed: "काम की सूची नहीं मिल सकी।",
+      completed: "काम पूरा चिह्नित कर दिया गया।",
+      updateFailed: "काम की स्थिति अपडेट नहीं हो सकी।",
+      loginRequired: "अपने काम देखने के लिए कृपया लॉग इन करें।",
+      title: "बाकी काम",
+      subtitle: "ये रहे एडमिन द्वारा आपको सौंपे गए काम।",
+      listTitle: "काम की सूची",
+      listDescription: "अपने काम देखें और पूरे होने पर चिह्नित करें।",
+      assigned: "सौंपा गया: {date}",
+      markCompleted: "पूरा चिह्नित करें",
+      noPending: "कोई काम बाकी नहीं है। बहुत बढ़िया!",
+      completedTitle: "पूरे किए गए काम",
+      completedDescription: "हाल में पूरे किए गए काम।",
+      completedBadge: "पूरा",
+      noCompleted: "अभी तक कोई काम पूरा नहीं हुआ।",
+      priorities: {
+        high: "उच्च",
+        medium: "मध्यम",
+        low: "निम्न",
+      },
+    },
+    earnings: {
+      descriptionTooShort: "विवरण कम से कम 3 अक्षरों का होना चाहिए।",
+      amountInvalid: "राशि एक धनात्मक संख्या होनी चाहिए।",
+      entryRequired: "कृपया कम से कम एक कमाई की एंट्री जोड़ें।",
+      fetchFailed: "कमाई की जानकारी नहीं मिल सकी।",
+      title: "अपनी कमाई जमा करें",
+      subtitle: "कंपनी के लिए आपके द्वारा अर्जित राजस्व की जानकारी दें।",
+      newTitle: "नई कमाई की एंट्री",
+      newDescription: "नीचे एक या अधिक कमाई का विवरण जोड़ें। एक से ज़्यादा एंट्री के लिए \"कमाई जोड़ें\" पर क्लिक करें।",
+      amountLabel: "राशि (₹)",
+      descriptionPlaceholder: "जैसे, क्लाइंट X से बुकिंग",
+      amountPlaceholder: "जैसे, 50000",
+      add: "कमाई जोड़ें",
+      submit: "सारी कमाई जमा करें",
+      recentTitle: "हाल में जमा की गई कमाई",
+      recentDescription: "ये रही आपकी हाल में जमा की गई कमाई।",
+      empty: "अभी तक कोई कमाई जमा नहीं की गई।",
+    },
+    dsr: {
+      descriptionTooShort: "कृपया अपने काम का विस्तृत विवरण दें।",
+      closingKmInvalid: "अंतिम KM शुरुआती KM से ज़्यादा होना चाहिए।",
+      fetchFailed: "DSR लॉग नहीं मिल सके।",
+      title: "दैनिक स्थिति रिपोर्ट (DSR)",
+      subtitle: "आज के अपने काम दर्ज करें।",
+      newTitle: "नई DSR एंट्री",
+      newDescription: "आज की अपनी गतिविधियाँ भरें।",
+      workDescription: "काम का विवरण",
+      workDescriptionPlaceholder: "पूरे किए गए काम, जिन क्लाइंट से संपर्क किया और काम से जुड़ी अन्य गतिविधियों का वर्णन करें...",
+      travelled: "मैंने आज किसी विज़िट के लिए यात्रा की।",
+      travelDetails: "यात्रा का विवरण",
+      openingKm: "शुरुआती KM",
+      closingKm: "अंतिम KM",
+      submit: "DSR जमा करें",
+      recentTitle: "हाल की DSR",
+      recentDescription: "ये रहीं आपकी हाल में जमा की गई DSR।",
+      travelColumn: "यात्रा (KM)",
+      notApplicable: "लागू नहीं",
+      empty: "अभी तक कोई DSR जमा नहीं की गई।",
+      openingPhoto: "शुरुआती ओडोमीटर की फ़ोटो",
+      closingPhoto: "अंतिम ओडोमीटर की फ़ोटो",
+      photoHint: "फ़ोटो वैकल्पिक हैं: 5 MB तक की JPG, PNG या WebP। इनसे HR आपका क्लेम जल्दी मंज़ूर कर पाता है।",
+      travelEstimate: "{distance} km, {rate}/km की दर से: आपका क्लेम {amount} होगा, जो HR की मंज़ूरी के बाद मिलेगा।",
+      claimColumn: "क्लेम",
+      claimStatuses: {
+        pending: "लंबित",
+        approved: "मंज़ूर",
+        rejected: "अस्वीकृत",
+      },
+      noteFromHr: "HR की टिप्पणी: {note}",
+      claimsFetchFailed: "आपके यात्रा क्लेम लोड नहीं हो सके।",
+      statementTitle: "यात्रा भत्ता, {month}",
+      statementDescription: "इस महीने की DSR से किए गए क्लेम। केवल मंज़ूर क्लेम का भुगतान होता है।",
+      statementTrips: "{count} यात्राएँ, {distance} km",
+    },
+  },
+  chat: {
+    assistantTitle: "ज़ेनसॉल्व सहायक",
+    openAssistant: "हमारे सहायक से पूछें",
+    closeAssistant: "सहायक बंद करें",
+    intro: "ज़ेनसॉल्व के बारे में कुछ भी पूछें, या इनमें से कोई सवाल चुनें:",
+    placeholder: "अपना सवाल लिखें...",
+    send: "भेजें",
+    newChat: "नई बातचीत शुरू करें",
+    helpful: "उपयोगी",
+    notHelpful: "उपयोगी नहीं",
+    error: "माफ़ कीजिए, कुछ गलत हो गया। कृपया फिर से कोशिश करें।",
+  },
+  actions: {
+    invalidData: "अमान्य जानकारी।",
+    forbidden: "आपको यह करने की अनुमति नहीं है।",
+    invalidFields: "अमान्य जानकारी। कृपया सभी फ़ील्ड जाँचें।",
+    genericError: "कुछ गलत हो गया। कृपया बाद में फिर से कोशिश करें।",
+    invalidApplication: "आवेदन की जानकारी अमान्य है। कृपया सभी फ़ील्ड जाँचें।",
+    jobClosed: "यह नौकरी अब आवेदन स्वीकार नहीं कर रही है।",
+    applicationSubmitted: "आवेदन सफलतापूर्वक जमा हो गया! हम जल्द ही आपसे संपर्क करेंगे।",
+    applicationFailed: "आवेदन जमा नहीं हो सका। कृपया फिर से कोशिश करें।",
+    resumeMissing: "कृपया अपलोड करने के लिए रिज़्यूमे चुनें।",
+    resumeTooLarge: "रिज़्यूमे 5 MB या उससे छोटा होना चाहिए।",
+    resumeTypeInvalid: "कृपया अपना रिज़्यूमे PDF या DOCX फ़ाइल के रूप में अपलोड करें।",
+    resumeUnsupported: "केवल PDF और DOCX रिज़्यूमे अपने आप पढ़े जा सकते हैं। कृपया फ़ॉर्म खुद भरें।",
+    resumeNoText: "इस रिज़्यूमे में कोई टेक्स्ट नहीं मिला।",
+    resumeFilled: "हमने आपके रिज़्यूमे से फ़ॉर्म भर दिया है। जमा करने से पहले कृपया हर फ़ील्ड जाँच लें।",
+    resumeNoDetails: "इस रिज़्यूमे में कोई जानकारी नहीं मिली। कृपया फ़ॉर्म खुद भरें।",
+    resumeUnreadable: "आपका रिज़्यूमे पढ़ा नहीं जा सका। कृपया फ़ॉर्म खुद भरें।",
+    attendanceFailed: "उपस्थिति दर्ज नहीं हो सकी।",
+    attendanceAlreadyMarked: "आज की उपस्थिति पहले से दर्ज है।",
+    checkedIn: "चेक-इन हो गया। आपका दिन शुभ हो!",
+    checkedOut: "चेक-आउट हो गया। आज आपने {hours} काम किया।",
+    notCheckedIn: "आपने आज चेक-इन नहीं किया है।",
+    leaveRequested: "छुट्टी का आवेदन जमा हो गया। HR का निर्णय आपको यहीं दिखेगा।",
+    leaveRequestFailed: "आपका छुट्टी का आवेदन अपडेट नहीं हो सका।",
+    leaveCancelled: "छुट्टी का आवेदन रद्द हो गया।",
+    leaveAlreadyDecided: "HR इस आवेदन पर पहले ही निर्णय ले चुका है।",
+    leaveOverlaps: "इनमें से कुछ दिनों के लिए आप पहले ही छुट्टी माँग चुके हैं।",
+    leaveBalanceExceeded: "इस छुट्टी के केवल {remaining} दिन बाकी हैं।",
+    leaveInvalidDates: "छुट्टी एक ही कैलेंडर वर्ष में और अधिकतम {max} दिनों की होनी चाहिए।",
+    leaveBalancesFailed: "आपका छुट्टी बैलेंस लोड नहीं हो सका।",
+    leaveNoWorkingDays: "ये सभी तारीखें अवकाश या साप्ताहिक छुट्टी हैं, इसलिए छुट्टी की ज़रूरत नहीं है।",
+    calendarFailed: "कार्य कैलेंडर लोड नहीं हो सका।",
+    dsrSubmitted: "DSR सफलतापूर्वक जमा हो गई।",
+    dsrFailed: "DSR जमा नहीं हो सकी।",
+    dsrSubmittedWithClaim: "DSR जमा हो गई। {distance} km के लिए आपका {amount} का यात्रा क्लेम HR की मंज़ूरी का इंतज़ार कर रहा है।",
+    travelTooFar: "एक दिन में अधिकतम {max} km की यात्रा हो सकती है। कृपया ओडोमीटर रीडिंग जाँचें।",
+    openingBelowLastClosing: "शुरुआती रीडिंग आपके पिछले दावे की अंतिम रीडिंग, {km} km, से कम नहीं हो सकती।",
+    odometerPhotoInvalid: "ओडोमीटर की फ़ोटो 5 MB या उससे छोटी JPG, PNG या WebP इमेज होनी चाहिए।",
+    travelRateFailed: "यात्रा दर लोड नहीं हो सकी।",
+    callLogged: "कॉल सफलतापूर्वक दर्ज हो गई।",
+    callFailed: "कॉल दर्ज नहीं हो सकी।",
+    earningsSubmitted: "कमाई सफलतापूर्वक जमा हो गई।",
+    earningsFailed: "कमाई जमा नहीं हो सकी।",
+    invalidEmail: "अमान्य ईमेल पता।",
+    alreadySubscribed: "आप पहले से सब्सक्राइब हैं!",
+    subscribed: "सब्सक्राइब करने के लिए धन्यवाद!",
+    membershipSubmitted: "आवेदन सफलतापूर्वक जमा हो गया!",
+  },
+};
+
+export default hi;
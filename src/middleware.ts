@@ -0,0 +1,114 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { importX509, jwtVerify, type JWTHeaderParameters } from "jose";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE,
+  LOCALE_HEADER,
+  isLocale,
+  isLocalizedPath,
+  localizePath,
+  splitLocale,
+  type Locale,
+} from "@/lib/i18n";
+import { hasAnyRole, homePathFor, requiredRoles } from "@/lib/roles";
+import { SESSION_COOKIE, sessionUserFromClaims, type SessionUser } from "@/lib/session";
+
+const ONE_YEAR = 60 * 60 * 24 * 365;
+
+const rememberLocale = (response: NextResponse, locale: Locale) => {
+  response.cookies.set(LOCALE_COOKIE, locale, { path: "/", maxAge: ONE_YEAR, sameSite: "lax" });
+  return response;
+};
+
+const PROJECT_ID = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+
+// Session cookies are signed with these certificates, which Google rotates; the response says how long to keep them.
+const SESSION_CERTS_URL = "https://www.googleapis.com/identitytoolkit/v3/relyingparty/publicKeys";
+
+let sessionCerts: { pems: Record<string, string>; expiresAt: number } | null = null;
+
+async function sessionCookieKey({ kid }: JWTHeaderParameters) {
+  if (!sessionCerts || sessionCerts.expiresAt <= Date.now()) {
+    const response = await fetch(SESSION_CERTS_URL);
+    const maxAge = Number(/max-age=(\d+)/.exec(response.headers.get("cache-control") ?? "")?.[1] ?? 0);
+    sessionCerts = { pems: await response.json(), expiresAt: Date.now() + maxAge * 1000 };
+  }
+  const pem = kid ? sessionCerts.pems[kid] : undefined;
+  if (!pem) throw new Error(`Unknown session cookie key: ${kid}`);
+  return importX509(pem, "RS256");
+}
+
+// Checks the session cookie's signature, issuer, audience and expiry. The Admin SDK doesn't run
+// here, so revoked sessions still pass until they expire; server actions check revocation too.
+async function verifySessionCookie(sessionCookie: string | undefined): Promise<SessionUser | null> {
+  if (!sessionCookie || !PROJECT_ID) return null;
+  try {
+    const { payload } = await jwtVerify(sessionCookie, sessionCookieKey, {
+      issuer: `https://session.firebase.google.com/${PROJECT_ID}`,
+      audience: PROJECT_ID,
+      algorithms: ["RS256"],
+    });
+    return payload.sub ? sessionUserFromClaims(payload.sub, payload) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Sends visitors without a valid session to the matching login page, and signed-in users
+// without the page's role to the area their roles do cover.
+async function checkAccess(request: NextRequest, pathname: string, locale: Locale) {
+  const roles = requiredRoles(pathname);
+  if (roles === null) return null;
+
+  const user = await verifySessionCookie(request.cookies.get(SESSION_COOKIE)?.value);
+  if (user && hasAnyRole(user.roles, roles)) return null;
+
+  const url = request.nextUrl.clone();
+  const loginPath = pathname.startsWith("/employee") ? "/employee/login" : "/login";
+  url.pathname = localizePath(user ? homePathFor(user.roles) : loginPath, locale);
+  url.search = "";
+  return NextResponse.redirect(url);
+}
+
+/**
+ * Serves /hi/... from the same pages as the English site, with the locale passed on in a
+ * request header. /en/... switches back to English. Visitors who chose Hindi are sent to the
+ * Hindi version of any unprefixed page they open. Pages that need a role are checked first.
+ */
+export async function middleware(request: NextRequest) {
+  const url = request.nextUrl.clone();
+  const [, firstSegment] = url.pathname.split("/");
+
+  if (firstSegment === DEFAULT_LOCALE) {
+    url.pathname = url.pathname.slice(DEFAULT_LOCALE.length + 1) || "/";
+    return rememberLocale(NextResponse.redirect(url), DEFAULT_LOCALE);
+  }
+
+  const { locale, pathname } = splitLocale(url.pathname);
+  const denied = await checkAccess(request, pathname, locale);
+  if (denied) return denied;
+
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(LOCALE_HEADER, locale);
+
+  if (locale !== DEFAULT_LOCALE) {
+    url.pathname = pathname;
+    if (!isLocalizedPath(pathname)) {
+      return NextResponse.redirect(url);
+    }
+    return rememberLocale(NextResponse.rewrite(url, { request: { headers: requestHeaders } }), locale);
+  }
+
+  const preferred = request.cookies.get(LOCALE_COOKIE)?.value;
+  if (request.method === "GET" && isLocale(preferred) && preferred !== DEFAULT_LOCALE && isLocalizedPath(pathname)) {
+    url.pathname = localizePath(pathname, preferred);
+    return NextResponse.redirect(url);
+  }
+
+  return NextResponse.next({ request: { headers: requestHeaders } });
+}
+
+export const config = {
+  // Pages only: skip Next.js internals, API routes and files such as favicon.ico.
+  matcher: ["/((?!_next/|api/|.*\\..*).*)"],
+};
@@ -0,0 +1,29 @@
+/**
+ * Grants a role from the command line: `npm run roles:grant -- admin@zensolve.in super-admin`.
+ *
+ * The admin roles page needs a super admin to begin with; this sets up the first one. It uses
+ * application default credentials (`gcloud auth application-default login`) for the project
+ * in NEXT_PUBLIC_FIREBASE_PROJECT_ID.
+ */
+
+import {adminAuth} from '@/lib/firebase-admin';
+import {addUserRoles} from '@/lib/user-roles';
+import {ROLES, isRole} from '@/lib/roles';
+
+async function main() {
+  const [email, role] = process.argv.slice(2);
+  if (!email || !isRole(role)) {
+    console.error(`Usage: npm run roles:grant -- <email> <${ROLES.join('|')}>`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const user = await adminAuth.getUserByEmail(email);
+  const roles = await addUserRoles(user.uid, [role]);
+  console.log(`${email} now has: ${roles.join(', ')}. The change applies from their next sign-in.`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
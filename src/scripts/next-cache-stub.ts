@@ -0,0 +1,13 @@
+/**
+ * Stands in for next/cache when server actions run outside a Next.js request, in
+ * src/scripts/test-actions.ts. tsconfig.test.json maps the import here. There are no pages
+ * to revalidate, and cached loaders read straight through.
+ */
+
+export function revalidatePath(_path: string) {}
+
+export function revalidateTag(_tag: string) {}
+
+export function unstable_cache<T extends (...args: any[]) => Promise<unknown>>(load: T): T {
+  return load;
+}
@@ -0,0 +1,25 @@
+/**
+ * Stands in for next/headers when server actions run outside a Next.js request, in
+ * src/scripts/test-actions.ts. tsconfig.test.json maps the import here. Requests carry no
+ * headers, so the default locale applies, and cookies are whatever the test has set.
+ */
+
+const requestCookies = new Map<string, string>();
+
+export function setRequestCookie(name: string, value: string | null) {
+  if (value === null) requestCookies.delete(name);
+  else requestCookies.set(name, value);
+}
+
+export async function cookies() {
+  return {
+    get: (name: string) => (requestCookies.has(name) ? { name, value: requestCookies.get(name)! } : undefined),
+    has: (name: string) => requestCookies.has(name),
+    set: (name: string, value: string) => setRequestCookie(name, value),
+    delete: (name: string) => setRequestCookie(name, null),
+  };
+}
+
+export async function headers() {
+  return new Headers();
+}
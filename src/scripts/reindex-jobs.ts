@@ -0,0 +1,41 @@
+/**
+ * Rebuilds the search index on every job: `npm run jobs:reindex`.
+ *
+ * Jobs only get `searchTokens` when they are added or edited, so jobs saved before the
+ * index existed, or before buildSearchTokens last changed, are missing from text search.
+ * Jobs posted before statuses existed are marked live, which is how the listings already
+ * treat them, so the newest-first query that filters on status finds them too. Uses the
+ * same credentials as `roles:grant`.
+ */
+
+import {adminDb} from '@/lib/firebase-admin';
+import {buildSearchTokens} from '@/lib/job-filters';
+
+// Firestore commits at most 500 writes in one batch.
+const BATCH_SIZE = 400;
+
+async function main() {
+  const snapshot = await adminDb.collection('jobs').get();
+  for (let start = 0; start < snapshot.docs.length; start += BATCH_SIZE) {
+    const batch = adminDb.batch();
+    for (const doc of snapshot.docs.slice(start, start + BATCH_SIZE)) {
+      const job = doc.data();
+      batch.update(doc.ref, {
+        searchTokens: buildSearchTokens({
+          title: job.title ?? '',
+          company: job.company ?? '',
+          tags: job.tags ?? [],
+          description: job.description ?? '',
+        }),
+        ...(job.status ? {} : {status: 'live'}),
+      });
+    }
+    await batch.commit();
+  }
+  console.log(`Reindexed ${snapshot.size} jobs.`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
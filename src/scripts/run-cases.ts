@@ -0,0 +1,22 @@
+/**
+ * The PASS/FAIL loop shared by `npm run eval:ai`, `npm run test:rules` and
+ * `npm run test:actions`. Each case is checked in order and returns the problems it found;
+ * a case with none passes. Prints a summary and sets a non-zero exit code when any case fails.
+ */
+
+export async function runCases<Case extends { id: string }>(cases: Case[], check: (testCase: Case) => Promise<string[]>) {
+  let failed = 0;
+  for (const testCase of cases) {
+    const problems = await check(testCase);
+    if (problems.length === 0) {
+      console.log(`PASS ${testCase.id}`);
+    } else {
+      failed++;
+      console.log(`FAIL ${testCase.id}`);
+      problems.forEach(problem => console.log(`     ${problem}`));
+    }
+  }
+
+  console.log(`\n${cases.length - failed}/${cases.length} cases passed.`);
+  process.exitCode = failed > 0 ? 1 : 0;
+}
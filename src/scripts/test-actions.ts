@@ -0,0 +1,164 @@
+/**
+ * Checks that server actions refuse requests made on behalf of another user: `npm run test:actions`.
+ *
+ * The npm script starts the Auth, Firestore and Storage emulators under a demo project, so no
+ * credentials or network access are needed (the emulators need Java). Each case signs in as
+ * one user and calls an action. Spoofed calls, with an id belonging to someone else, expect
+ * the forbidden result with nothing written to Firestore; the same sessions acting for
+ * themselves expect success and a write, so a refusal for any other reason can't pass.
+ * Exits with a non-zero code when any case fails.
+ */
+
+import { checkIn, logCall, submitEarnings, updateApplicationStage } from "@/app/actions";
+import { adminAuth, adminDb } from "@/lib/firebase-admin";
+import type { Role } from "@/lib/roles";
+import { SESSION_COOKIE, SESSION_MAX_AGE } from "@/lib/session";
+import { setUserRoles } from "@/lib/user-roles";
+import { setRequestCookie } from "./next-headers-stub";
+import { runCases } from "./run-cases";
+
+const PASSWORD = "test-password";
+const FORBIDDEN_MESSAGE = "You don't have permission to do that.";
+
+// The accounts the cases sign in as, with the roles claim set by /admin/roles.
+const USERS = {
+  employee: ["employee"],
+  otherEmployee: ["employee"],
+  recruiter: ["recruiter"],
+} satisfies Record<string, Role[]>;
+
+type UserName = keyof typeof USERS;
+
+// Every collection the actions under test write to, including the activity log.
+const WATCHED_COLLECTIONS = [
+  "attendance",
+  "callLogs",
+  "earnings",
+  "applications",
+  "applications/application-1/stageHistory",
+  "activityLogs",
+];
+
+async function seed() {
+  for (const [uid, roles] of Object.entries(USERS)) {
+    await adminAuth.createUser({ uid, email: `${uid}@zensolve.in`, password: PASSWORD, displayName: uid });
+    await setUserRoles(uid, roles);
+  }
+  await adminDb.doc("employees/employee").set({ name: "Ravi Kumar", status: "active" });
+  await adminDb.doc("employees/otherEmployee").set({ name: "Meena Das", status: "active" });
+  await adminDb.doc("jobs/job-1").set({ title: "Field Sales Executive", status: "live" });
+  await adminDb.doc("applications/application-1").set({ jobId: "job-1", fullName: "Asha Verma", stage: "new" });
+}
+
+// Signs in through the Auth emulator's REST API and exchanges the ID token for a session
+// cookie, as the sign-in pages do through createSession.
+async function sessionCookieFor(user: UserName) {
+  const response = await fetch(
+    `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST}/identitytoolkit.googleapis.com/v1/accounts:signInWithPassword?key=demo-key`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email: `${user}@zensolve.in`, password: PASSWORD, returnSecureToken: true }),
+    }
+  );
+  const { idToken } = await response.json();
+  return adminAuth.createSessionCookie(idToken, { expiresIn: SESSION_MAX_AGE * 1000 });
+}
+
+// The path and last update time of every watched document, to tell whether a case wrote anything.
+async function firestoreState() {
+  const snapshots = await Promise.all(WATCHED_COLLECTIONS.map(path => adminDb.collection(path).get()));
+  return JSON.stringify(snapshots.flatMap(snapshot => snapshot.docs.map(doc => [doc.ref.path, doc.updateTime.valueOf()])));
+}
+
+interface ActionCase {
+  id: string;
+  as: UserName;
+  expect: "forbidden" | "success";
+  run: () => Promise<{ success: boolean; message?: string }>;
+}
+
+// updateApplicationStage takes the actor from the session; an id sent along with the request is ignored.
+const stageChangeAsRecruiter = { applicationId: "application-1", stage: "screening" as const, changedById: "recruiter" };
+
+const CASES: ActionCase[] = [
+  {
+    id: "employee-cannot-check-in-for-another-employee",
+    as: "employee",
+    expect: "forbidden",
+    run: () => checkIn({ employeeId: "otherEmployee", tasks: "Visiting three clients in Ranchi", location: null }),
+  },
+  {
+    id: "employee-cannot-log-calls-for-another-employee",
+    as: "employee",
+    expect: "forbidden",
+    run: () => logCall({ employeeId: "otherEmployee", clientName: "Asha Verma", clientMobile: "9876543210", topic: "Policy renewal", duration: 5 }),
+  },
+  {
+    id: "employee-cannot-submit-earnings-for-another-employee",
+    as: "employee",
+    expect: "forbidden",
+    run: () => submitEarnings({ employeeId: "otherEmployee", earnings: [{ description: "Policy sale", amount: 500 }] }),
+  },
+  {
+    id: "employee-cannot-move-applications-as-a-recruiter",
+    as: "employee",
+    expect: "forbidden",
+    run: () => updateApplicationStage(stageChangeAsRecruiter),
+  },
+  {
+    id: "employee-checks-in-for-themselves",
+    as: "employee",
+    expect: "success",
+    run: () => checkIn({ employeeId: "employee", tasks: "Visiting three clients in Ranchi", location: null }),
+  },
+  {
+    id: "employee-logs-calls-for-themselves",
+    as: "employee",
+    expect: "success",
+    run: () => logCall({ employeeId: "employee", clientName: "Asha Verma", clientMobile: "9876543210", topic: "Policy renewal", duration: 5 }),
+  },
+  {
+    id: "recruiter-moves-applications",
+    as: "recruiter",
+    expect: "success",
+    run: () => updateApplicationStage(stageChangeAsRecruiter),
+  },
+];
+
+async function main() {
+  await seed();
+  const sessions = Object.fromEntries(
+    await Promise.all(Object.keys(USERS).map(async user => [user, await sessionCookieFor(user as UserName)]))
+  ) as Record<UserName, string>;
+
+  await runCases(CASES, async actionCase => {
+    setRequestCookie(SESSION_COOKIE, sessions[actionCase.as]);
+    const before = await firestoreState();
+    const problems: string[] = [];
+    try {
+      const result = await actionCase.run();
+      if (actionCase.expect === "success" && !result.success) {
+        problems.push(`expected success, got ${JSON.stringify(result)}`);
+      }
+      if (actionCase.expect === "forbidden" && (result.success || result.message !== FORBIDDEN_MESSAGE)) {
+        problems.push(`expected the forbidden result, got ${JSON.stringify(result)}`);
+      }
+    } catch (error) {
+      problems.push(`threw ${(error as Error).message}`);
+    }
+    const wrote = (await firestoreState()) !== before;
+    if (actionCase.expect === "forbidden" && wrote) {
+      problems.push("expected no writes, but Firestore changed");
+    }
+    if (actionCase.expect === "success" && !wrote) {
+      problems.push("expected a write, but Firestore is unchanged");
+    }
+    return problems;
+  });
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
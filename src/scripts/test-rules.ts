@@ -0,0 +1,187 @@
+/**
+ * Checks firestore.rules and storage.rules against the local emulators: `npm run test:rules`.
+ *
+ * The npm script starts the Firestore and Storage emulators under a demo project, so no
+ * credentials or network access are needed (the emulators need Java). Each case signs in
+ * as one of the roles from src/lib/roles.ts and expects a read or write to be allowed or
+ * denied. Exits with a non-zero code when any case fails.
+ */
+
+import { readFileSync } from "node:fs";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestContext,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import type { Role } from "@/lib/roles";
+import { runCases } from "./run-cases";
+
+const PROJECT_ID = "demo-zensolve";
+const RESUME_PATH = "resumes/job-1/resume.pdf";
+const ODOMETER_PHOTO_PATH = "odometer/employee/report-1-opening.jpeg";
+
+// The accounts the cases sign in as, with the roles claim set by /admin/roles.
+const USERS = {
+  candidate: [],
+  employee: ["employee"],
+  otherEmployee: ["employee"],
+  recruiter: ["recruiter"],
+  hr: ["hr"],
+  manager: ["manager"],
+  superAdmin: ["super-admin"],
+} satisfies Record<string, Role[]>;
+
+type UserName = keyof typeof USERS | "visitor";
+
+const EMPLOYEE_RECORDS = ["attendance", "leaveRequests", "leaveBalances", "dsr", "travelClaims", "callLogs", "earnings", "tasks"];
+
+// One document per collection the app uses, owned by the employee where records have an owner.
+async function seed(context: RulesTestContext) {
+  const db = context.firestore();
+  const documents: Record<string, Record<string, unknown>> = {
+    "jobs/job-1": { title: "Field Sales Executive", status: "live" },
+    "applications/application-1": { jobId: "job-1", fullName: "Asha Verma", stage: "new" },
+    "applications/application-1/stageHistory/change-1": { from: "new", to: "screening" },
+    "applications/application-1/recruiterActivity/note-1": { type: "note", text: "Strong profile" },
+    "settings/ratingCriteria": { criteria: ["Communication"] },
+    "settings/workWeek": { workWeek: ["off", "full", "full", "full", "full", "full", "half"] },
+    "settings/travelRate": { ratePerKm: 3 },
+    "holidays/2026-11-15": { date: "2026-11-15", name: "Jharkhand Foundation Day", type: "state" },
+    "employees/employee": { name: "Ravi Kumar", status: "active" },
+    "employees/otherEmployee": { name: "Meena Das", status: "active" },
+    "memberships/membership-1": { name: "Asha Verma", status: "pending" },
+    "newsletterSubscribers/subscriber-1": { email: "asha@example.com" },
+    "faqKnowledge/entry-1": { title: "Office hours", content: "Monday to Saturday." },
+    "faqQuestions/question-1": { question: "When are you open?", feedback: null },
+    "activityLogs/log-1": { action: "job.created", actorId: "recruiter" },
+  };
+  for (const collection of EMPLOYEE_RECORDS) {
+    documents[`${collection}/own-record`] = { employeeId: "employee", status: "pending" };
+    documents[`${collection}/other-record`] = { employeeId: "otherEmployee", status: "pending" };
+  }
+  for (const [path, data] of Object.entries(documents)) {
+    await db.doc(path).set(data);
+  }
+  await context.storage().ref(RESUME_PATH).put(new Uint8Array([37, 80, 68, 70]), { contentType: "application/pdf" });
+  await context.storage().ref(ODOMETER_PHOTO_PATH).put(new Uint8Array([255, 216, 255]), { contentType: "image/jpeg" });
+}
+
+interface RulesCase {
+  id: string;
+  as: UserName;
+  expect: "allow" | "deny";
+  // Storage uploads return a thenable task rather than a promise.
+  run: (context: RulesTestContext) => PromiseLike<unknown>;
+}
+
+const read = (path: string) => (context: RulesTestContext) => context.firestore().doc(path).get();
+const write = (path: string, data: Record<string, unknown>) => (context: RulesTestContext) => context.firestore().doc(path).set(data);
+const ownRecords = (collection: string, employeeId: string) => (context: RulesTestContext) =>
+  context.firestore().collection(collection).where("employeeId", "==", employeeId).get();
+
+const CASES: RulesCase[] = [
+  { id: "visitor-cannot-read-jobs", as: "visitor", expect: "deny", run: read("jobs/job-1") },
+  { id: "hr-reads-jobs", as: "hr", expect: "allow", run: read("jobs/job-1") },
+  { id: "recruiter-cannot-write-jobs", as: "recruiter", expect: "deny", run: write("jobs/job-2", { title: "Draft" }) },
+
+  { id: "recruiter-reads-applications", as: "recruiter", expect: "allow", run: read("applications/application-1") },
+  { id: "manager-reads-applications", as: "manager", expect: "allow", run: read("applications/application-1") },
+  { id: "super-admin-reads-applications", as: "superAdmin", expect: "allow", run: read("applications/application-1") },
+  { id: "hr-cannot-read-applications", as: "hr", expect: "deny", run: read("applications/application-1") },
+  { id: "employee-cannot-read-applications", as: "employee", expect: "deny", run: read("applications/application-1") },
+  { id: "candidate-cannot-read-applications", as: "candidate", expect: "deny", run: read("applications/application-1") },
+  { id: "visitor-cannot-read-applications", as: "visitor", expect: "deny", run: read("applications/application-1") },
+  { id: "visitor-cannot-create-applications", as: "visitor", expect: "deny", run: write("applications/application-2", { fullName: "Spam" }) },
+  { id: "recruiter-cannot-change-stage", as: "recruiter", expect: "deny", run: write("applications/application-1", { stage: "hired" }) },
+  { id: "recruiter-reads-stage-history", as: "recruiter", expect: "allow", run: read("applications/application-1/stageHistory/change-1") },
+  { id: "hr-cannot-read-recruiter-notes", as: "hr", expect: "deny", run: read("applications/application-1/recruiterActivity/note-1") },
+  { id: "recruiter-reads-rating-criteria", as: "recruiter", expect: "allow", run: read("settings/ratingCriteria") },
+  { id: "recruiter-cannot-write-rating-criteria", as: "recruiter", expect: "deny", run: write("settings/ratingCriteria", { criteria: [] }) },
+  { id: "hr-reads-work-week", as: "hr", expect: "allow", run: read("settings/workWeek") },
+  { id: "hr-cannot-write-work-week", as: "hr", expect: "deny", run: write("settings/workWeek", { workWeek: [] }) },
+  { id: "hr-reads-holidays", as: "hr", expect: "allow", run: context => context.firestore().collection("holidays").get() },
+  { id: "hr-cannot-add-holidays", as: "hr", expect: "deny", run: write("holidays/2026-12-25", { name: "Christmas" }) },
+  { id: "employee-cannot-read-holidays", as: "employee", expect: "deny", run: read("holidays/2026-11-15") },
+  { id: "hr-reads-travel-rate", as: "hr", expect: "allow", run: read("settings/travelRate") },
+  { id: "hr-cannot-write-travel-rate", as: "hr", expect: "deny", run: write("settings/travelRate", { ratePerKm: 10 }) },
+  { id: "employee-cannot-read-travel-rate", as: "employee", expect: "deny", run: read("settings/travelRate") },
+
+  ...EMPLOYEE_RECORDS.flatMap((collection): RulesCase[] => [
+    { id: `employee-lists-own-${collection}`, as: "employee", expect: "allow", run: ownRecords(collection, "employee") },
+    { id: `employee-reads-own-${collection}`, as: "employee", expect: "allow", run: read(`${collection}/own-record`) },
+    { id: `employee-cannot-read-others-${collection}`, as: "employee", expect: "deny", run: read(`${collection}/other-record`) },
+    { id: `employee-cannot-list-others-${collection}`, as: "employee", expect: "deny", run: ownRecords(collection, "otherEmployee") },
+    { id: `employee-cannot-list-all-${collection}`, as: "employee", expect: "deny", run: context => context.firestore().collection(collection).get() },
+    { id: `employee-cannot-write-${collection}`, as: "employee", expect: "deny", run: write(`${collection}/own-record`, { employeeId: "employee", status: "completed" }) },
+    { id: `hr-reads-${collection}`, as: "hr", expect: "allow", run: context => context.firestore().collection(collection).get() },
+    { id: `recruiter-cannot-read-${collection}`, as: "recruiter", expect: "deny", run: read(`${collection}/own-record`) },
+  ]),
+
+  { id: "employee-reads-own-profile", as: "employee", expect: "allow", run: read("employees/employee") },
+  { id: "employee-cannot-read-other-profile", as: "employee", expect: "deny", run: read("employees/otherEmployee") },
+  { id: "employee-updates-last-seen", as: "employee", expect: "allow", run: context => context.firestore().doc("employees/employee").update({ lastSeen: new Date() }) },
+  { id: "employee-cannot-change-profile", as: "employee", expect: "deny", run: context => context.firestore().doc("employees/employee").update({ status: "inactive" }) },
+  { id: "employee-cannot-stamp-other-profile", as: "employee", expect: "deny", run: context => context.firestore().doc("employees/otherEmployee").update({ lastSeen: new Date() }) },
+  { id: "hr-reads-employees", as: "hr", expect: "allow", run: context => context.firestore().collection("employees").get() },
+  { id: "recruiter-cannot-read-employees", as: "recruiter", expect: "deny", run: read("employees/employee") },
+
+  { id: "hr-reads-memberships", as: "hr", expect: "allow", run: read("memberships/membership-1") },
+  { id: "recruiter-cannot-read-memberships", as: "recruiter", expect: "deny", run: read("memberships/membership-1") },
+  { id: "hr-cannot-verify-memberships", as: "hr", expect: "deny", run: write("memberships/membership-1", { status: "verified" }) },
+  { id: "manager-reads-subscribers", as: "manager", expect: "allow", run: read("newsletterSubscribers/subscriber-1") },
+  { id: "hr-cannot-read-subscribers", as: "hr", expect: "deny", run: read("newsletterSubscribers/subscriber-1") },
+  { id: "manager-reads-faq-knowledge", as: "manager", expect: "allow", run: read("faqKnowledge/entry-1") },
+  { id: "manager-cannot-write-faq-knowledge", as: "manager", expect: "deny", run: write("faqKnowledge/entry-1", { title: "Edited" }) },
+  { id: "manager-reads-faq-questions", as: "manager", expect: "allow", run: read("faqQuestions/question-1") },
+  { id: "visitor-cannot-rate-faq-answers", as: "visitor", expect: "deny", run: write("faqQuestions/question-1", { feedback: "up" }) },
+  { id: "manager-reads-activity-logs", as: "manager", expect: "allow", run: read("activityLogs/log-1") },
+  { id: "hr-cannot-read-activity-logs", as: "hr", expect: "deny", run: read("activityLogs/log-1") },
+  { id: "super-admin-cannot-edit-activity-logs", as: "superAdmin", expect: "deny", run: write("activityLogs/log-1", { action: "job.updated" }) },
+  { id: "super-admin-cannot-use-unknown-collections", as: "superAdmin", expect: "deny", run: read("unknown/doc-1") },
+
+  { id: "recruiter-reads-resumes", as: "recruiter", expect: "allow", run: context => context.storage().ref(RESUME_PATH).getMetadata() },
+  { id: "hr-cannot-read-resumes", as: "hr", expect: "deny", run: context => context.storage().ref(RESUME_PATH).getMetadata() },
+  { id: "visitor-cannot-read-resumes", as: "visitor", expect: "deny", run: context => context.storage().ref(RESUME_PATH).getMetadata() },
+  { id: "visitor-cannot-upload-resumes", as: "visitor", expect: "deny", run: context => context.storage().ref("resumes/job-1/upload.pdf").put(new Uint8Array([1])) },
+  { id: "recruiter-cannot-upload-resumes", as: "recruiter", expect: "deny", run: context => context.storage().ref("resumes/job-1/upload.pdf").put(new Uint8Array([1])) },
+
+  { id: "employee-reads-own-odometer-photos", as: "employee", expect: "allow", run: context => context.storage().ref(ODOMETER_PHOTO_PATH).getMetadata() },
+  { id: "employee-cannot-read-others-odometer-photos", as: "otherEmployee", expect: "deny", run: context => context.storage().ref(ODOMETER_PHOTO_PATH).getMetadata() },
+  { id: "hr-reads-odometer-photos", as: "hr", expect: "allow", run: context => context.storage().ref(ODOMETER_PHOTO_PATH).getMetadata() },
+  { id: "recruiter-cannot-read-odometer-photos", as: "recruiter", expect: "deny", run: context => context.storage().ref(ODOMETER_PHOTO_PATH).getMetadata() },
+  { id: "employee-cannot-upload-odometer-photos", as: "employee", expect: "deny", run: context => context.storage().ref("odometer/employee/upload.jpeg").put(new Uint8Array([1])) },
+];
+
+const contextFor = (env: RulesTestEnvironment, user: UserName) =>
+  user === "visitor" ? env.unauthenticatedContext() : env.authenticatedContext(user, { roles: USERS[user] });
+
+async function main() {
+  const env = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+    storage: { rules: readFileSync("storage.rules", "utf8") },
+  });
+
+  try {
+    await runCases(CASES, async rulesCase => {
+      // Writes that are wrongly allowed would leak into later cases, so every case starts from the seed.
+      await env.clearFirestore();
+      await env.clearStorage();
+      await env.withSecurityRulesDisabled(seed);
+
+      const assertion = rulesCase.expect === "allow" ? assertSucceeds : assertFails;
+      try {
+        await assertion(Promise.resolve(rulesCase.run(contextFor(env, rulesCase.as))));
+        return [];
+      } catch (error) {
+        return [`expected ${rulesCase.as} to be ${rulesCase.expect === "allow" ? "allowed" : "denied"}: ${(error as Error).message}`];
+      }
+    });
+  } finally {
+    await env.cleanup();
+  }
+}
+
+main();
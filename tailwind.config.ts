@@ -17,8 +17,8 @@ export default {
     },
     extend: {
       fontFamily: {
-        body: ['var(--font-body)', 'sans-serif'],
-        headline: ['var(--font-body)', 'sans-serif'],
+        body: ['var(--font-body)', 'var(--font-devanagari)', 'sans-serif'],
+        headline: ['var(--font-body)', 'var(--font-devanagari)', 'sans-serif'],
       },
       colors: {
         background: 'hsl(var(--background))',